@@ -1,9 +1,15 @@
 import React from 'react';
+import { test, expect, beforeAll } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import App from './App';
+import { runtimeConfig } from './services/runtimeConfig';
 
-test('renders learn react link', () => {
+beforeAll(() => {
+  runtimeConfig.setActiveProfile('mock');
+});
+
+test('renders the application shell against the mock backend', async () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(screen.getAllByText(/Ontologie des Instruments de Musique/i).length).toBeGreaterThan(0);
+  expect(await screen.findByText('Démonstration')).toBeInTheDocument();
 });
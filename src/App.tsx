@@ -19,15 +19,10 @@ import Dashboard from './pages/Dashboard/Dashboard';
 import SearchPage from './pages/Search/SearchPage';
 import InstrumentsPage from './pages/Instruments/InstrumentsPage';
 
-// Import entity pages
-import FamillesPage from './pages/Entities/FamillesPage';
-import GroupesEthniquesPage from './pages/Entities/GroupesEthniquesPage';
-import LocalitesPage from './pages/Entities/LocalitesPage';
-import MateriauxPage from './pages/Entities/MateriauxPage';
-import TimbresPage from './pages/Entities/TimbresPage';
-import TechniquesPage from './pages/Entities/TechniquesPage';
-import ArtisansPage from './pages/Entities/ArtisansPage';
-import PatrimoinesPage from './pages/Entities/PatrimoinesPage';
+// Entity pages are generated from the entity type registry
+import EntityCrudPage from './components/Common/EntityCrudPage';
+import EntityDetailPage from './pages/Entities/EntityDetailPage';
+import { ENTITY_TYPE_LIST } from './services/entityTypes';
 
 // Import relations and analytics pages
 import RelationsPage from './pages/Relations/RelationsPage';
@@ -80,45 +75,22 @@ function App() {
             />
             
             {/* Entity Management Pages */}
-            <Route 
-              path="/familles" 
-              element={<FamillesPage />} 
-            />
-            
-            <Route 
-              path="/groupes-ethniques" 
-              element={<GroupesEthniquesPage />} 
-            />
-            
-            <Route 
-              path="/localites" 
-              element={<LocalitesPage />} 
-            />
-            
-            <Route 
-              path="/materiaux" 
-              element={<MateriauxPage />} 
-            />
-            
-            <Route 
-              path="/timbres" 
-              element={<TimbresPage />} 
-            />
-            
-            <Route 
-              path="/techniques" 
-              element={<TechniquesPage />} 
-            />
-            
-            <Route 
-              path="/artisans" 
-              element={<ArtisansPage />} 
-            />
-            
-            <Route 
-              path="/patrimoines" 
-              element={<PatrimoinesPage />} 
-            />
+            {ENTITY_TYPE_LIST.filter(entityType => !entityType.customPage).map(entityType => (
+              <Route
+                key={entityType.type}
+                path={entityType.route}
+                element={<EntityCrudPage key={entityType.type} entityType={entityType} />}
+              />
+            ))}
+
+            {/* Entity Detail Pages */}
+            {ENTITY_TYPE_LIST.map(entityType => (
+              <Route
+                key={`${entityType.type}-detail`}
+                path={`${entityType.route}/:id`}
+                element={<EntityDetailPage key={entityType.type} entityType={entityType} />}
+              />
+            ))}
             
             {/* Relations and Analytics */}
             <Route 
@@ -0,0 +1,100 @@
+/**
+ * Column Settings Component
+ *
+ * Menu of an entity table choosing the columns shown and their order.
+ * Shown columns come first, in table order, then the hidden ones.
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Divider,
+  IconButton,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from '@mui/material';
+import { ArrowDownward, ArrowUpward, ViewColumn } from '@mui/icons-material';
+import { TableColumn } from '../../services/entityColumns';
+
+interface ColumnSettingsProps {
+  columns: TableColumn[];
+  /** Keys of the columns shown, in order */
+  value: string[];
+  onChange: (value: string[]) => void;
+  onReset: () => void;
+}
+
+const ColumnSettings: React.FC<ColumnSettingsProps> = ({ columns, value, onChange, onReset }) => {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+
+  const shown = value
+    .map(key => columns.find(column => column.key === key))
+    .filter((column): column is TableColumn => !!column);
+  const hidden = columns.filter(column => !value.includes(column.key));
+
+  const toggle = (key: string) => {
+    onChange(value.includes(key) ? value.filter(item => item !== key) : [...value, key]);
+  };
+
+  const move = (key: string, offset: number) => {
+    const keys = shown.map(column => column.key);
+    const from = keys.indexOf(key);
+    const to = from + offset;
+    if (to < 0 || to >= keys.length) return;
+    [keys[from], keys[to]] = [keys[to], keys[from]];
+    onChange(keys);
+  };
+
+  return (
+    <>
+      <Tooltip title="Colonnes">
+        <IconButton onClick={(e) => setAnchor(e.currentTarget)}>
+          <ViewColumn />
+        </IconButton>
+      </Tooltip>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {shown.map((column, index) => (
+          <MenuItem key={column.key} dense onClick={() => shown.length > 1 && toggle(column.key)}>
+            <Checkbox size="small" checked disabled={shown.length === 1} sx={{ p: 0, mr: 1 }} />
+            <ListItemText primary={column.label} />
+            <IconButton
+              size="small"
+              aria-label="Monter"
+              disabled={index === 0}
+              onClick={(e) => { e.stopPropagation(); move(column.key, -1); }}
+            >
+              <ArrowUpward fontSize="small" />
+            </IconButton>
+            <IconButton
+              size="small"
+              aria-label="Descendre"
+              disabled={index === shown.length - 1}
+              onClick={(e) => { e.stopPropagation(); move(column.key, 1); }}
+            >
+              <ArrowDownward fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        {hidden.length > 0 && <Divider />}
+        {hidden.map(column => (
+          <MenuItem key={column.key} dense onClick={() => toggle(column.key)}>
+            <Checkbox size="small" checked={false} sx={{ p: 0, mr: 1 }} />
+            <ListItemText primary={column.label} />
+          </MenuItem>
+        ))}
+        <Divider />
+        <Box sx={{ px: 2, py: 0.5, textAlign: 'right' }}>
+          <Button size="small" onClick={() => { onReset(); setAnchor(null); }}>
+            Réinitialiser
+          </Button>
+        </Box>
+      </Menu>
+    </>
+  );
+};
+
+export default ColumnSettings;
@@ -0,0 +1,395 @@
+/**
+ * Duplicates Dialog Component
+ *
+ * Lists the groups of entities of a type with close names, then merges a
+ * group in steps: choose the entity kept and the value of each field,
+ * review what happens to the relations of the duplicates, then run the
+ * merge. Merging needs the right to delete entities and relations.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Radio,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import {
+  defaultMergeValues,
+  DuplicateGroup,
+  findDuplicateGroups,
+  mergeChoices,
+  mergeEntities,
+  MergeRelation,
+  MergeResult,
+  planMergeRelations,
+} from '../../services/entityDuplicates';
+import { fetchAllEntities } from '../../services/entityExport';
+import { fieldText, propertyFields } from '../../services/entityFields';
+import { EntityTypeDefinition, entityDisplayName } from '../../services/entityTypes';
+import { getRelationType } from '../../services/relationTypes';
+import { isCancelled, useRateLimit } from '../../services/rateLimiter';
+import useAuth from '../../hooks/useAuth';
+
+interface DuplicatesDialogProps {
+  open: boolean;
+  entityType: EntityTypeDefinition;
+  onClose: () => void;
+  /** Called after a merge deleted at least one duplicate */
+  onMerged?: () => void;
+}
+
+type Entity = Record<string, any> & { id: number };
+
+const STEPS = ['Doublons', 'Valeurs', 'Relations', 'Fusion'];
+
+const RELATION_STATUS: Record<MergeRelation['status'], { label: string; color: 'success' | 'default' | 'warning' }> = {
+  move: { label: 'Déplacée', color: 'success' },
+  kept: { label: 'Déjà présente', color: 'default' },
+  dropped: { label: 'Abandonnée', color: 'warning' },
+};
+
+const DuplicatesDialog: React.FC<DuplicatesDialogProps> = ({ open, entityType, onClose, onMerged }) => {
+  const fields = useMemo(() => propertyFields(entityType), [entityType]);
+  const [step, setStep] = useState(0);
+  const [groups, setGroups] = useState<DuplicateGroup<Entity>[]>([]);
+  const [group, setGroup] = useState<DuplicateGroup<Entity> | null>(null);
+  const [included, setIncluded] = useState<number[]>([]);
+  const [survivorId, setSurvivorId] = useState<number | null>(null);
+  const [values, setValues] = useState<Record<string, any>>({});
+  const [plan, setPlan] = useState<MergeRelation[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<MergeResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { run, cancel } = useRateLimit();
+  const { can } = useAuth();
+  const canMerge = can('entity:delete') && can('relation:delete');
+
+  const members = group?.entities.filter(entity => included.includes(entity.id)) || [];
+  const survivor = members.find(entity => entity.id === survivorId);
+  const duplicates = members.filter(entity => entity.id !== survivorId);
+  const choices = survivor ? mergeChoices(fields, survivor, duplicates) : {};
+  const nameOf = (id: number) => {
+    const entity = group?.entities.find(candidate => candidate.id === id);
+    return entity ? entityDisplayName(entityType, entity) : `#${id}`;
+  };
+
+  /**
+   * Read every entity of the type and group the close names
+   */
+  const scan = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const entities = await run(signal => fetchAllEntities(entityType, { signal }), 'duplicates') as Entity[];
+      setGroups(findDuplicateGroups(entityType, entities));
+    } catch (err: any) {
+      if (isCancelled(err)) return;
+      setError(err?.message || 'Recherche des doublons impossible');
+    }
+    setBusy(false);
+  };
+
+  useEffect(() => {
+    if (open) scan();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, entityType]);
+
+  const reset = () => {
+    cancel('duplicates');
+    setStep(0);
+    setGroup(null);
+    setPlan([]);
+    setProgress(null);
+    setResult(null);
+    setBusy(false);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (result && result.deleted.length > 0) {
+      onMerged?.();
+    }
+    reset();
+    setGroups([]);
+    onClose();
+  };
+
+  /**
+   * Merge the given entities of a group into one of them, starting from its
+   * own values
+   */
+  const selectMembers = (selected: DuplicateGroup<Entity>, ids: number[], keptId: number) => {
+    const kept = selected.entities.find(entity => entity.id === keptId)!;
+    setGroup(selected);
+    setIncluded(ids);
+    setSurvivorId(keptId);
+    setValues(defaultMergeValues(mergeChoices(fields, kept,
+      selected.entities.filter(entity => ids.includes(entity.id) && entity.id !== keptId))));
+  };
+
+  const selectGroup = (selected: DuplicateGroup<Entity>) => {
+    selectMembers(selected, selected.entities.map(entity => entity.id), selected.entities[0].id);
+    setStep(1);
+  };
+
+  const toggleIncluded = (id: number) => {
+    selectMembers(group!, included.includes(id) ? included.filter(item => item !== id) : [...included, id], survivorId!);
+  };
+
+  /**
+   * Read the relations of the entities and plan their moves
+   */
+  const handlePlan = async () => {
+    if (!survivor) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setPlan(await planMergeRelations(entityType, survivor, duplicates));
+      setStep(2);
+    } catch (err: any) {
+      setError(err?.message || 'Lecture des relations impossible');
+    }
+    setBusy(false);
+  };
+
+  const handleMerge = async () => {
+    if (!survivor) return;
+    setBusy(true);
+    setError(null);
+    setStep(3);
+    try {
+      const merged = await mergeEntities(entityType, survivor, duplicates, values, plan, {
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setResult(merged);
+      setGroups(groups.filter(item => item !== group));
+    } catch (err: any) {
+      setError(err?.message || 'Fusion impossible');
+      setStep(1);
+    }
+    setBusy(false);
+  };
+
+  const renderGroupsStep = () => (
+    <Box>
+      {!busy && groups.length === 0 && !error && (
+        <Alert severity="success">Aucun doublon probable parmi les {entityType.pluralLabel.toLowerCase()}.</Alert>
+      )}
+      <List dense>
+        {groups.map(item => (
+          <ListItemButton key={item.entities.map(entity => entity.id).join('-')} onClick={() => selectGroup(item)} disabled={!canMerge}>
+            <ListItemText
+              primary={item.entities.map(entity => `« ${entityDisplayName(entityType, entity)} »`).join(', ')}
+              secondary={`${item.entities.length} entités, similarité ${Math.round(item.similarity * 100)} %`}
+            />
+          </ListItemButton>
+        ))}
+      </List>
+      {groups.length > 0 && !canMerge && (
+        <Typography variant="caption" color="text.secondary">
+          La fusion est réservée aux conservateurs.
+        </Typography>
+      )}
+    </Box>
+  );
+
+  const renderValuesStep = () => group && (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>Entités fusionnées</Typography>
+      <Table size="small" sx={{ mb: 3 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox">Fusionner</TableCell>
+            <TableCell padding="checkbox">Conserver</TableCell>
+            <TableCell>Nom</TableCell>
+            <TableCell>Id</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {group.entities.map(entity => (
+            <TableRow key={entity.id}>
+              <TableCell padding="checkbox">
+                <Checkbox
+                  checked={included.includes(entity.id)}
+                  disabled={entity.id === survivorId}
+                  onChange={() => toggleIncluded(entity.id)}
+                />
+              </TableCell>
+              <TableCell padding="checkbox">
+                <Radio
+                  checked={entity.id === survivorId}
+                  disabled={!included.includes(entity.id)}
+                  onChange={() => selectMembers(group, included, entity.id)}
+                />
+              </TableCell>
+              <TableCell>{entityDisplayName(entityType, entity)}</TableCell>
+              <TableCell>{entity.id}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Typography variant="subtitle2" gutterBottom>Valeurs conservées</Typography>
+      <Table size="small">
+        <TableBody>
+          {fields.filter(field => (choices[field.name] || []).length > 0).map(field => (
+            <TableRow key={field.name}>
+              <TableCell sx={{ width: 200 }}>{field.label}</TableCell>
+              <TableCell>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {choices[field.name].map(value => {
+                    const selected = JSON.stringify(values[field.name]) === JSON.stringify(value);
+                    return (
+                      <Chip
+                        key={JSON.stringify(value)}
+                        label={fieldText(field, value)}
+                        color={selected ? entityType.color : 'default'}
+                        variant={selected ? 'filled' : 'outlined'}
+                        onClick={() => setValues({ ...values, [field.name]: value })}
+                      />
+                    );
+                  })}
+                </Box>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+
+  const renderRelationsStep = () => (
+    <Box>
+      {plan.length === 0 ? (
+        <Alert severity="info">Les doublons n'ont aucune relation.</Alert>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Doublon</TableCell>
+              <TableCell>Relation</TableCell>
+              <TableCell>Entité liée</TableCell>
+              <TableCell>Fusion</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {plan.map((relation, index) => {
+              const relationType = getRelationType(relation.type);
+              return (
+                <TableRow key={index}>
+                  <TableCell>{nameOf(relation.duplicateId)}</TableCell>
+                  <TableCell>{relation.direction === 'outgoing' ? relationType.label : relationType.inverseLabel}</TableCell>
+                  <TableCell>{relation.other.displayName}</TableCell>
+                  <TableCell>
+                    <Chip size="small" label={RELATION_STATUS[relation.status].label} color={RELATION_STATUS[relation.status].color} />
+                    {relation.reason && (
+                      <Typography variant="caption" color="text.secondary" display="block">{relation.reason}</Typography>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+      <Typography variant="body2" sx={{ mt: 2 }}>
+        {duplicates.length} doublon(s) seront supprimé(s) après le déplacement de leurs relations vers
+        « {survivor && entityDisplayName(entityType, survivor)} ».
+      </Typography>
+    </Box>
+  );
+
+  const renderMergeStep = () => (
+    <Box>
+      {progress && (
+        <Box sx={{ mb: 2 }}>
+          <LinearProgress
+            variant="determinate"
+            value={progress.total > 0 ? (progress.done / progress.total) * 100 : 100}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {progress.done} / {progress.total} doublons traités
+          </Typography>
+        </Box>
+      )}
+      {result && (
+        <Alert severity={result.errors.length > 0 ? 'warning' : 'success'}>
+          {result.deleted.length} doublon(s) fusionné(s), {result.moved} relation(s) déplacée(s).
+          {result.errors.map((message, index) => <div key={index}>{message}</div>)}
+        </Alert>
+      )}
+    </Box>
+  );
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Doublons des {entityType.pluralLabel.toLowerCase()}</DialogTitle>
+      <DialogContent dividers>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {step === 0 && renderGroupsStep()}
+        {step === 1 && renderValuesStep()}
+        {step === 2 && renderRelationsStep()}
+        {step === 3 && renderMergeStep()}
+        {busy && step < 3 && <LinearProgress sx={{ mt: 2 }} />}
+      </DialogContent>
+      <DialogActions>
+        {step > 0 && step < 3 && (
+          <Button onClick={() => setStep(step - 1)} disabled={busy}>Retour</Button>
+        )}
+        {step === 3 && !busy && (
+          <Button onClick={reset}>Autres doublons</Button>
+        )}
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={handleClose} disabled={busy && step === 3}>
+          {result ? 'Fermer' : 'Annuler'}
+        </Button>
+        {step === 1 && (
+          <Button variant="contained" onClick={handlePlan} disabled={busy || !survivor || duplicates.length === 0}>
+            Suivant
+          </Button>
+        )}
+        {step === 2 && (
+          <Button variant="contained" color={entityType.color} onClick={handleMerge} disabled={busy}>
+            Fusionner {duplicates.length + 1} entités
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DuplicatesDialog;
@@ -5,7 +5,8 @@
  * This factory component reduces code duplication and ensures consistency across all entity pages.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -28,6 +29,7 @@ import {
   TableHead,
   TableRow,
   TablePagination,
+  TableSortLabel,
   IconButton,
   Tooltip,
   Chip,
@@ -36,6 +38,13 @@ import {
   CardActions,
   Fab,
   Zoom,
+  Alert,
+  Autocomplete,
+  FormControlLabel,
+  FormHelperText,
+  InputAdornment,
+  Link,
+  Switch,
 } from '@mui/material';
 import {
   Add,
@@ -47,44 +56,82 @@ import {
   FilterList,
   Download,
   Upload,
+  OpenInNew,
+  GridOn,
+  MergeType,
+  RestoreFromTrash,
 } from '@mui/icons-material';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
 import SearchBar from './SearchBar';
+import { ApiError, submitFailure } from '../../services/apiError';
+import { useRateLimit, isCancelled, nextRetryAt, RateLimitOptions } from '../../services/rateLimiter';
+import useAuth from '../../hooks/useAuth';
+import MergeConflictDialog from './MergeConflictDialog';
+import ExportDialog from './ExportDialog';
+import ImportWizard from './ImportWizard';
+import FilterBuilder from './FilterBuilder';
+import ColumnSettings from './ColumnSettings';
+import SpreadsheetTable from './SpreadsheetTable';
+import RelationPicker from './RelationPicker';
+import GeoPointPicker from './GeoPointPicker';
+import DuplicatesDialog from './DuplicatesDialog';
+import TrashDialog from './TrashDialog';
+import UndoDeleteSnackbar from './UndoDeleteSnackbar';
+import useSimilarEntities from '../../hooks/useSimilarEntities';
+import { decodeFilters, encodeFilters, FilterGroup } from '../../services/entityFilters';
+import { trashEntity, TrashEntry } from '../../services/entityTrash';
+import { fetchAllEntities } from '../../services/entityExport';
+import {
+  columnValue,
+  ColumnLayout,
+  ColumnRelations,
+  defaultColumnLayout,
+  fetchColumnRelations,
+  isSortable,
+  loadColumnLayout,
+  nextSort,
+  saveColumnLayout,
+  sortEntities,
+  tableColumns,
+  TableColumn,
+} from '../../services/entityColumns';
+import { sortParam } from '../../services/api';
+import useRelationTypes from '../../hooks/useRelationTypes';
+import { VersionConflict } from '../../services/versioning';
+import {
+  emptyFieldValue,
+  fieldError,
+  fieldOptions,
+  isEmptyValue,
+  isPropertyField,
+  parseGeoPoint,
+  propertyFields,
+  readRelationFields,
+  RelatedEntity,
+  relationFields,
+  writeRelationFields,
+} from '../../services/entityFields';
+import { EntityField, EntityTypeDefinition, entityDetailPath, entityDisplayName, getEntityType } from '../../services/entityTypes';
 
-// Generic interfaces
-export interface EntityField {
-  name: string;
-  label: string;
-  type: 'text' | 'number' | 'textarea' | 'select' | 'date';
-  required?: boolean;
-  options?: Array<{ value: any; label: string }>;
-  validation?: (value: any) => string | null;
-}
+export type { EntityField } from '../../services/entityTypes';
 
-export interface EntityConfig {
-  name: string;
-  pluralName: string;
-  icon: React.ReactNode;
-  color: string;
-  fields: EntityField[];
-  displayField: string;
-  searchFields: string[];
-}
 
 export interface CrudService<T> {
-  getAll: (params?: any) => Promise<{ success: boolean; data: { data: T[]; total: number }; pagination?: any; error?: string }>;
-  getById: (id: number) => Promise<{ success: boolean; data: T; error?: string }>;
-  create: (data: Partial<T>) => Promise<{ success: boolean; data: T; error?: string }>;
-  update: (id: number, data: Partial<T>) => Promise<{ success: boolean; data: T; error?: string }>;
+  getAll: (params?: any, options?: RateLimitOptions) => Promise<{ success: boolean; data: { data: T[]; total: number }; pagination?: any; error?: string }>;
+  getById: (id: number) => Promise<{ success: boolean; data: T | undefined; error?: string }>;
+  create: (data: Partial<T>) => Promise<{ success: boolean; data: T | undefined; error?: string; apiError?: ApiError }>;
+  update: (id: number, data: Partial<T>, original?: Partial<T>) => Promise<{ success: boolean; data: T | undefined; error?: string; apiError?: ApiError; conflict?: VersionConflict<T> }>;
   delete: (id: number) => Promise<{ success: boolean; error?: string }>;
-  getStatistics?: () => Promise<{ success: boolean; data: any; error?: string }>;
+  getStatistics?: (options?: RateLimitOptions) => Promise<{ success: boolean; data: any; error?: string }>;
   getRelations?: (id: number) => Promise<{ success: boolean; data: any[]; error?: string }>;
 }
 
+// Most matching entities read to sort a list whose sort the backend did not confirm
+const CLIENT_SORT_LIMIT = 500;
+
 interface EntityCrudPageProps<T extends { id: number }> {
-  config: EntityConfig;
-  service: CrudService<T>;
+  entityType: EntityTypeDefinition<T>;
   onViewRelations?: (entity: T) => void;
   children?: React.ReactNode;
 }
@@ -93,14 +140,16 @@ interface EntityCrudPageProps<T extends { id: number }> {
  * Generic Entity CRUD Page Component
  */
 function EntityCrudPage<T extends { id: number }>({
-  config,
-  service,
+  entityType,
   onViewRelations,
   children,
 }: EntityCrudPageProps<T>) {
+  const { service, icon: Icon } = entityType;
   const [entities, setEntities] = useState<T[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [sortNotice, setSortNotice] = useState<string | null>(null);
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [totalCount, setTotalCount] = useState(0);
@@ -114,6 +163,39 @@ function EntityCrudPage<T extends { id: number }>({
   const [formData, setFormData] = useState<Record<string, any>>({});
   const [formLoading, setFormLoading] = useState(false);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [submitErrors, setSubmitErrors] = useState<string[]>([]);
+  const [conflict, setConflict] = useState<VersionConflict<T> | null>(null);
+  // Relation fields as read when the form opened, to know what to write
+  const [relationValues, setRelationValues] = useState<Record<string, RelatedEntity[]>>({});
+  const [exportOpen, setExportOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  // Entries of the last deletion, while it can be undone
+  const [deleted, setDeleted] = useState<TrashEntry[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [sheetMode, setSheetMode] = useState(false);
+  const [sheetDirtyRows, setSheetDirtyRows] = useState(0);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The advanced filter lives in the URL so a filtered list can be shared
+  const filterGroup = useMemo(() => decodeFilters(entityType, searchParams), [entityType, searchParams]);
+  const filterKey = JSON.stringify(filterGroup);
+  const { types } = useRelationTypes();
+  const columns = useMemo(() => tableColumns(entityType, types), [entityType, types]);
+  const [layout, setLayout] = useState<ColumnLayout>(() => loadColumnLayout(entityType));
+  const [columnRelations, setColumnRelations] = useState<ColumnRelations>({});
+  // Stored columns may name relation types that are not loaded yet
+  const visibleColumns = layout.columns
+    .map(key => columns.find(column => column.key === key))
+    .filter((column): column is TableColumn => !!column);
+  // Reordering or showing field columns does not need a reload
+  const layoutKey = JSON.stringify([layout.sort, visibleColumns.filter(column => column.relation).map(column => column.key)]);
+  const { run } = useRateLimit();
+  const { can } = useAuth();
+  // Entities already named like the one being created
+  const similar = useSimilarEntities(entityType, String(formData[entityType.displayField] ?? ''), {
+    enabled: openDialog && dialogMode === 'create',
+  });
 
   /**
    * Load entities data
@@ -121,46 +203,78 @@ function EntityCrudPage<T extends { id: number }>({
   useEffect(() => {
     loadEntities();
     loadStatistics();
-  }, [page, rowsPerPage, searchQuery]);
+  }, [page, rowsPerPage, searchQuery, filterKey, layoutKey]);
+
+  // Current search, shared by the list and the export
+  const listFilters = searchQuery ? { [entityType.searchFields[0]]: searchQuery } : {};
 
   /**
-   * Load entities with filters and pagination
+   * Read entities with filters and pagination
    */
-  const loadEntities = async () => {
+  const readEntities = async (signal: AbortSignal) => {
     setLoading(true);
     setError(null);
+    setRetryAt(null);
 
     try {
       const params = {
         page: page + 1,
         limit: rowsPerPage,
-        filters: searchQuery ? { [config.searchFields[0]]: searchQuery } : {},
+        filters: listFilters,
+        where: filterGroup,
+        sort: layout.sort,
       };
 
-      const response = await service.getAll(params);
+      const response = await service.getAll(params, { signal });
       
       if (response.success) {
-        // Handle different response structures
-        const data = response.data?.data || response.data || [];
-        const entities = Array.isArray(data) ? data : [];
+        // The API boundary refuses list envelopes that do not match their schema
+        let entities = response.data.data;
+        let total = response.data.total;
+        // Relations are read for the columns shown or sorted on
+        const related = columns.filter(column => column.relation
+          && (layout.columns.includes(column.key) || layout.sort.some(item => item.key === column.key)));
+        let relations: ColumnRelations;
+        // The backend confirms the sort it applied in `pagination.sort`
+        const sortUnconfirmed = layout.sort.length > 0 && response.pagination?.sort !== sortParam(layout.sort);
+        let notice: string | null = null;
+        if (sortUnconfirmed && total <= CLIENT_SORT_LIMIT) {
+          // Sort every matching entity, then cut the page
+          notice = 'Le serveur n\'a pas confirmé le tri : la liste est triée dans le navigateur.';
+          const all = await fetchAllEntities(entityType, { params: { filters: listFilters, where: filterGroup }, signal }) as T[];
+          relations = await fetchColumnRelations(all, related, { signal });
+          const byKey = new Map(columns.map(column => [column.key, column]));
+          entities = sortEntities(all, layout.sort, (entity, key) =>
+            byKey.has(key) ? columnValue(entity, byKey.get(key)!, relations) : (entity as any)[key])
+            .slice(page * rowsPerPage, (page + 1) * rowsPerPage);
+          total = all.length;
+        } else {
+          if (sortUnconfirmed) {
+            notice = `Le serveur n'a pas confirmé le tri et ${total} résultats dépassent les ${CLIENT_SORT_LIMIT} triables dans le navigateur : l'ordre affiché est celui du serveur.`;
+          }
+          relations = await fetchColumnRelations(entities, related, { signal });
+        }
+        if (signal.aborted) return;
+        setSortNotice(notice);
+        setColumnRelations(relations);
         setEntities(entities);
-        setTotalCount(
-          response.pagination?.total || 
-          response.data?.total || 
-          entities.length || 
-          0
-        );
+        setTotalCount(total);
       } else {
-        setError(response.error || `Erreur lors du chargement des ${config?.pluralName?.toLowerCase() || 'entités'}`);
+        setError(response.error || `Erreur lors du chargement des ${entityType.pluralLabel.toLowerCase()}`);
+        setRetryAt(nextRetryAt(response));
       }
+      setLoading(false);
     } catch (err) {
-      console.error(`Error loading ${config.pluralName}:`, err);
-      setError(`Erreur lors du chargement des ${config.pluralName.toLowerCase()}`);
-    } finally {
+      if (isCancelled(err)) return;
+      console.error(`Error loading ${entityType.pluralLabel}:`, err);
+      setError(`Erreur lors du chargement des ${entityType.pluralLabel.toLowerCase()}`);
       setLoading(false);
     }
   };
 
+  // Paging or searching again drops the page that is still loading
+  const loadEntities = () => run(readEntities, 'entities');
+
   /**
    * Load statistics if available
    */
@@ -168,11 +282,12 @@ function EntityCrudPage<T extends { id: number }>({
     if (!service.getStatistics) return;
 
     try {
-      const response = await service.getStatistics();
+      const response = await run(signal => service.getStatistics!({ signal }), 'statistics');
       if (response.success) {
         setStatistics(response.data);
       }
     } catch (err) {
+      if (isCancelled(err)) return;
       console.error('Error loading statistics:', err);
     }
   };
@@ -182,32 +297,38 @@ function EntityCrudPage<T extends { id: number }>({
    */
   const initializeFormData = (entity?: T) => {
     const data: Record<string, any> = {};
-    (config.fields || []).forEach(field => {
-      data[field.name] = entity ? (entity as any)[field.name] || '' : '';
+    (entityType.fields || []).forEach(field => {
+      data[field.name] = (entity as any)?.[field.name] ?? emptyFieldValue(field);
     });
     return data;
   };
 
+  /**
+   * Read the relation fields of an entity into the form, once it is open
+   */
+  const loadRelationFields = async (entity: T) => {
+    setRelationValues({});
+    if (relationFields(entityType).length === 0) return;
+    try {
+      const values = await readRelationFields(entityType, entity.id);
+      setRelationValues(values);
+      setFormData(prev => ({ ...prev, ...values }));
+    } catch (err) {
+      console.error('Error loading relation fields:', err);
+      setSubmitErrors(['Impossible de charger les relations de l\'entité']);
+    }
+  };
+
   /**
    * Validate form data
    */
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
     
-    (config.fields || []).forEach(field => {
-      const value = formData[field.name];
-      
-      // Required field validation
-      if (field.required && (!value || value.toString().trim() === '')) {
-        errors[field.name] = `${field.label} est requis`;
-      }
-      
-      // Custom validation
-      if (field.validation && value) {
-        const validationError = field.validation(value);
-        if (validationError) {
-          errors[field.name] = validationError;
-        }
+    (entityType.fields || []).forEach(field => {
+      const validationError = fieldError(field, formData[field.name], formData);
+      if (validationError) {
+        errors[field.name] = validationError;
       }
     });
     
@@ -238,13 +359,52 @@ function EntityCrudPage<T extends { id: number }>({
     setPage(0);
   };
 
+  /**
+   * Change the columns or the sort, remembered for the entity type
+   */
+  const updateLayout = (next: ColumnLayout) => {
+    setLayout(next);
+    saveColumnLayout(entityType, next);
+  };
+
+  /**
+   * Sort on a column header; shift click adds a secondary sort
+   */
+  const handleSort = (key: string, append: boolean) => {
+    updateLayout({ ...layout, sort: nextSort(layout.sort, key, append) });
+    setPage(0);
+  };
+
+  /**
+   * Switch between the table and the spreadsheet mode; leaving the latter
+   * drops its unsaved edits
+   */
+  const handleToggleSheet = () => {
+    if (sheetMode && sheetDirtyRows > 0
+      && !window.confirm(`Abandonner les modifications non enregistrées de ${sheetDirtyRows} ligne(s) ?`)) {
+      return;
+    }
+    setSheetMode(!sheetMode);
+    setSheetDirtyRows(0);
+  };
+
+  /**
+   * Apply an advanced filter from the first page
+   */
+  const handleFilterChange = (group: FilterGroup) => {
+    setSearchParams(encodeFilters(group, searchParams), { replace: true });
+    setPage(0);
+  };
+
   /**
    * Open create dialog
    */
   const handleCreate = () => {
     setDialogMode('create');
     setFormData(initializeFormData());
+    setRelationValues({});
     setFormErrors({});
+    setSubmitErrors([]);
     setOpenDialog(true);
   };
 
@@ -256,7 +416,9 @@ function EntityCrudPage<T extends { id: number }>({
     setSelectedEntity(entity);
     setFormData(initializeFormData(entity));
     setFormErrors({});
+    setSubmitErrors([]);
     setOpenDialog(true);
+    loadRelationFields(entity);
   };
 
   /**
@@ -266,7 +428,9 @@ function EntityCrudPage<T extends { id: number }>({
     setDialogMode('view');
     setSelectedEntity(entity);
     setFormData(initializeFormData(entity));
+    setSubmitErrors([]);
     setOpenDialog(true);
+    loadRelationFields(entity);
   };
 
   /**
@@ -287,6 +451,33 @@ function EntityCrudPage<T extends { id: number }>({
     }
   };
 
+  /**
+   * Show a failed submission inside the dialog: backend field errors go
+   * under their inputs, anything else is listed above the form
+   */
+  const applySubmitFailure = (response: { error?: string; apiError?: ApiError }, fallbackMessage: string) => {
+    const { fieldErrors, messages } = submitFailure(response, propertyFields(entityType).map(field => field.name), fallbackMessage);
+    setFormErrors(prev => ({ ...prev, ...fieldErrors }));
+    setSubmitErrors(messages);
+  };
+
+  /**
+   * Write the relation fields of a saved entity. When some relations fail,
+   * the form stays open on the saved entity so they can be saved again.
+   */
+  const finishSubmit = async (saved: T | undefined) => {
+    const errors = saved ? await writeRelationFields(entityType, saved.id, formData, relationValues) : [];
+    loadEntities();
+    if (errors.length === 0) {
+      setOpenDialog(false);
+      return;
+    }
+    setDialogMode('edit');
+    setSelectedEntity(saved!);
+    setSubmitErrors([`${entityType.label} enregistré(e), mais des relations n'ont pas pu l'être :`, ...errors]);
+    setRelationValues(await readRelationFields(entityType, saved!.id).catch(() => relationValues));
+  };
+
   /**
    * Handle form submission
    */
@@ -296,12 +487,13 @@ function EntityCrudPage<T extends { id: number }>({
     }
 
     setFormLoading(true);
+    setSubmitErrors([]);
 
     try {
-      // Clean form data (remove empty strings, convert numbers)
+      // Clean form data (remove empty numbers, relations are written apart)
       const cleanData = { ...formData };
-      (config.fields || []).forEach(field => {
-        if (field.type === 'number' && cleanData[field.name] === '') {
+      (entityType.fields || []).forEach(field => {
+        if ((field.type === 'number' && cleanData[field.name] === '') || !isPropertyField(field)) {
           delete cleanData[field.name];
         }
       });
@@ -309,56 +501,81 @@ function EntityCrudPage<T extends { id: number }>({
       if (dialogMode === 'create') {
         const response = await service.create(cleanData);
         if (response.success) {
-          setOpenDialog(false);
-          loadEntities();
+          await finishSubmit(response.data);
         } else {
-          setError(response.error || 'Erreur lors de la création');
+          applySubmitFailure(response, 'Erreur lors de la création');
         }
       } else if (dialogMode === 'edit' && selectedEntity) {
-        const response = await service.update(selectedEntity.id, cleanData);
+        const response = await service.update(selectedEntity.id, cleanData as Partial<T>, selectedEntity);
         if (response.success) {
-          setOpenDialog(false);
-          loadEntities();
+          await finishSubmit(response.data);
+        } else if (response.conflict) {
+          setConflict(response.conflict);
         } else {
-          setError(response.error || 'Erreur lors de la modification');
+          applySubmitFailure(response, 'Erreur lors de la modification');
         }
       }
     } catch (err) {
       console.error('Form submission error:', err);
-      setError('Erreur lors de la soumission du formulaire');
+      setSubmitErrors(['Erreur lors de la soumission du formulaire']);
     } finally {
       setFormLoading(false);
     }
   };
 
   /**
-   * Handle delete
+   * Resubmit the merged values, based on the record currently on the server
    */
-  const handleDelete = async (entity: T) => {
-    const entityName = (entity as any)[config.displayField] || `${config.name} #${entity.id}`;
-    
-    if (!window.confirm(`Êtes-vous sûr de vouloir supprimer "${entityName}" ?`)) {
-      return;
-    }
+  const handleConflictResolve = async (merged: Record<string, unknown>) => {
+    if (!selectedEntity || !conflict) return;
 
+    setFormLoading(true);
     try {
-      const response = await service.delete(entity.id);
+      const response = await service.update(selectedEntity.id, merged as Partial<T>, conflict.theirs);
       if (response.success) {
-        loadEntities();
+        setConflict(null);
+        await finishSubmit(response.data);
+      } else if (response.conflict) {
+        // Changed again in the meantime
+        setConflict(response.conflict);
       } else {
-        setError(response.error || 'Erreur lors de la suppression');
+        setConflict(null);
+        setSelectedEntity(conflict.theirs);
+        setFormData(prev => ({ ...prev, ...merged }));
+        applySubmitFailure(response, 'Erreur lors de la modification');
       }
+    } catch (err) {
+      console.error('Form submission error:', err);
+      setConflict(null);
+      setSubmitErrors(['Erreur lors de la soumission du formulaire']);
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  /**
+   * Handle delete: the entity goes to the trash and can be restored
+   */
+  const handleDelete = async (entity: T) => {
+    try {
+      setDeleted([await trashEntity(entityType, entity)]);
+      loadEntities();
     } catch (err) {
       console.error('Delete error:', err);
-      setError('Erreur lors de la suppression');
+      setError(err instanceof Error ? err.message : 'Erreur lors de la suppression');
     }
   };
 
+  const handleUndoneDelete = (errors: string[]) => {
+    loadEntities();
+    if (errors.length > 0) setError(errors.join(' · '));
+  };
+
   /**
    * Render field input based on type
    */
   const renderFieldInput = (field: EntityField) => {
-    const value = formData[field.name] || '';
+    const value = formData[field.name] ?? emptyFieldValue(field);
     const error = formErrors[field.name];
     const disabled = dialogMode === 'view';
 
@@ -418,6 +635,122 @@ function EntityCrudPage<T extends { id: number }>({
             {error && <Typography variant="caption" color="error">{error}</Typography>}
           </FormControl>
         );
+
+      case 'multiselect':
+        return (
+          <FormControl fullWidth error={!!error} disabled={disabled} required={field.required}>
+            <InputLabel>{field.label}</InputLabel>
+            <Select
+              multiple
+              value={Array.isArray(value) ? value : []}
+              onChange={(e) => handleFormChange(field.name, e.target.value)}
+              label={field.label}
+              renderValue={(selected: any[]) => (
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                  {selected.map(item => (
+                    <Chip key={item} label={fieldOptions(field)?.find(option => option.value === item)?.label ?? item} size="small" />
+                  ))}
+                </Box>
+              )}
+            >
+              {field.options?.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+            {error && <FormHelperText>{error}</FormHelperText>}
+          </FormControl>
+        );
+
+      case 'tags':
+        return (
+          <Autocomplete<string, true, false, true>
+            multiple
+            freeSolo
+            options={[]}
+            value={Array.isArray(value) ? value : []}
+            onChange={(_event, tags) =>
+              handleFormChange(field.name, Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean))))}
+            disabled={disabled}
+            renderTags={(tags, getTagProps) => tags.map((tag, index) => {
+              const { key, ...tagProps } = getTagProps({ index });
+              return <Chip key={key} label={tag} size="small" {...tagProps} />;
+            })}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label={field.label}
+                required={field.required}
+                error={!!error}
+                helperText={error || 'Entrée pour ajouter un mot-clé'}
+              />
+            )}
+          />
+        );
+
+      case 'boolean':
+        return (
+          <FormControl error={!!error} disabled={disabled}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={value === true}
+                  onChange={(e) => handleFormChange(field.name, e.target.checked)}
+                  color={entityType.color}
+                />
+              }
+              label={field.label}
+            />
+            {error && <FormHelperText>{error}</FormHelperText>}
+          </FormControl>
+        );
+
+      case 'url':
+        return (
+          <TextField
+            {...commonProps}
+            type="url"
+            placeholder="https://"
+            InputProps={{
+              endAdornment: value && !error ? (
+                <InputAdornment position="end">
+                  <IconButton
+                    size="small"
+                    href={value}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    aria-label="Ouvrir le lien"
+                  >
+                    <OpenInNew fontSize="small" />
+                  </IconButton>
+                </InputAdornment>
+              ) : undefined,
+            }}
+          />
+        );
+
+      case 'geopoint':
+        return (
+          <GeoPointPicker
+            field={field}
+            value={value}
+            onChange={(point) => handleFormChange(field.name, point)}
+            error={error}
+            disabled={disabled}
+          />
+        );
+
+      case 'relation':
+        return (
+          <RelationPicker
+            field={field}
+            value={Array.isArray(value) ? value : []}
+            onChange={(related) => handleFormChange(field.name, related)}
+            error={error}
+            disabled={disabled}
+          />
+        );
       
       default:
         return <TextField {...commonProps} />;
@@ -427,10 +760,8 @@ function EntityCrudPage<T extends { id: number }>({
   /**
    * Render entity value for display
    */
-  const renderEntityValue = (entity: T, field: EntityField) => {
-    const value = (entity as any)[field.name];
-    
-    if (value === null || value === undefined || value === '') {
+  const renderEntityValue = (field: EntityField, value: any) => {
+    if (isEmptyValue(value)) {
       return (
         <Typography variant="body2" color="text.secondary">
           Non spécifié
@@ -438,6 +769,78 @@ function EntityCrudPage<T extends { id: number }>({
       );
     }
 
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <Chip
+            label={value ? 'Oui' : 'Non'}
+            size="small"
+            color={value ? entityType.color : 'default'}
+            variant={value ? 'filled' : 'outlined'}
+          />
+        );
+
+      case 'url':
+        return (
+          <Link href={value} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>
+            {String(value).replace(/^https?:\/\//, '')}
+          </Link>
+        );
+
+      case 'multiselect':
+      case 'tags':
+        return (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+            {(Array.isArray(value) ? value : [value]).map(item => (
+              <Chip
+                key={item}
+                label={fieldOptions(field)?.find(option => option.value === item)?.label ?? item}
+                size="small"
+                variant="outlined"
+              />
+            ))}
+          </Box>
+        );
+
+      case 'geopoint': {
+        const point = parseGeoPoint(value);
+        if (!point) return value;
+        const { latitude, longitude } = point;
+        return (
+          <Link
+            href={`https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=12/${latitude}/${longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {latitude}, {longitude}
+          </Link>
+        );
+      }
+
+      case 'relation':
+        return (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+            {(value as RelatedEntity[]).map(related => {
+              const definition = getEntityType(related.type);
+              return definition ? (
+                <Chip
+                  key={related.id}
+                  label={related.displayName}
+                  size="small"
+                  color={definition.color}
+                  variant="outlined"
+                  clickable
+                  component={RouterLink}
+                  to={entityDetailPath(definition, related.id)}
+                />
+              ) : (
+                <Chip key={related.id} label={related.displayName} size="small" variant="outlined" />
+              );
+            })}
+          </Box>
+        );
+    }
+
     if (field.type === 'select' && field.options) {
       const option = field.options.find(opt => opt.value === value);
       return option ? option.label : value;
@@ -456,13 +859,38 @@ function EntityCrudPage<T extends { id: number }>({
     return value;
   };
 
+  /**
+   * Render a cell of the table
+   */
+  const renderCell = (entity: T, column: TableColumn) => {
+    const related = columnRelations[entity.id]?.[column.key];
+    if (column.relation && !column.field) {
+      return related === undefined ? '—' : <Chip label={related.length} size="small" variant="outlined" />;
+    }
+    const field = column.field!;
+    if (column.relation) {
+      return related === undefined ? '—' : renderEntityValue(field, related);
+    }
+    const value = (entity as any)[field.name];
+    return field.name === entityType.displayField ? (
+      <Box sx={{ display: 'flex', alignItems: 'center' }}>
+        <Icon color={entityType.color} />
+        <Typography variant="subtitle2" sx={{ ml: 1 }}>
+          {renderEntityValue(field, value)}
+        </Typography>
+      </Box>
+    ) : (
+      renderEntityValue(field, value)
+    );
+  };
+
   /**
    * Render loading state
    */
   if (loading && entities.length === 0) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
-        <LoadingSpinner message={`Chargement des ${config?.pluralName?.toLowerCase() || 'données'}...`} />
+        <LoadingSpinner message={`Chargement des ${entityType.pluralLabel.toLowerCase()}...`} />
       </Box>
     );
   }
@@ -473,21 +901,23 @@ function EntityCrudPage<T extends { id: number }>({
       <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <Box>
           <Typography variant="h4" component="h1" gutterBottom>
-            {config?.pluralName || 'Entités'}
+            {entityType.pluralLabel}
           </Typography>
           <Typography variant="body1" color="text.secondary">
-            Gérez les {config?.pluralName?.toLowerCase() || 'entités'} de votre ontologie
+            Gérez les {entityType.pluralLabel.toLowerCase()} de votre ontologie
           </Typography>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<Add />}
-          onClick={handleCreate}
-          size="large"
-          color={(config?.color as any) || 'primary'}
-        >
-          Ajouter {config?.name || 'Entité'}
-        </Button>
+        {can('entity:create') && (
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={handleCreate}
+            size="large"
+            color={entityType.color}
+          >
+            Ajouter {entityType.label}
+          </Button>
+        )}
       </Box>
 
       {/* Statistics Card */}
@@ -496,11 +926,11 @@ function EntityCrudPage<T extends { id: number }>({
           <CardContent>
             <Grid container spacing={2} alignItems="center">
               <Grid item>
-                {config.icon}
+                <Icon color={entityType.color} />
               </Grid>
               <Grid item xs>
                 <Typography variant="h6">
-                  {totalCount} {config.pluralName.toLowerCase()}
+                  {totalCount} {entityType.pluralLabel.toLowerCase()}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
                   Total dans la base de données
@@ -525,16 +955,23 @@ function EntityCrudPage<T extends { id: number }>({
             message={error}
             showRetry
             onRetry={loadEntities}
+            retryAt={retryAt}
           />
         </Box>
       )}
 
+      {sortNotice && (
+        <Alert severity="info" onClose={() => setSortNotice(null)} sx={{ mb: 3 }}>
+          {sortNotice}
+        </Alert>
+      )}
+
       {/* Search and Filters */}
       <Paper sx={{ p: 3, mb: 3 }}>
         <Grid container spacing={3} alignItems="center">
           <Grid item xs={12} md={8}>
             <SearchBar
-              placeholder={`Rechercher des ${config.pluralName.toLowerCase()}...`}
+              placeholder={`Rechercher des ${entityType.pluralLabel.toLowerCase()}...`}
               onSearch={handleSearch}
               fullWidth
               enableAutocomplete={false}
@@ -543,23 +980,59 @@ function EntityCrudPage<T extends { id: number }>({
           <Grid item xs={12} md={4}>
             <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
               <Tooltip title="Exporter les données">
-                <IconButton>
+                <IconButton onClick={() => setExportOpen(true)}>
                   <Download />
                 </IconButton>
               </Tooltip>
-              <Tooltip title="Importer les données">
-                <IconButton>
-                  <Upload />
+              {can('batch:import') && (
+                <Tooltip title="Importer les données">
+                  <IconButton onClick={() => setImportOpen(true)}>
+                    <Upload />
+                  </IconButton>
+                </Tooltip>
+              )}
+              {can('entity:update') && (
+                <Tooltip title={sheetMode ? 'Quitter le mode tableur' : 'Mode tableur'}>
+                  <IconButton onClick={handleToggleSheet} color={sheetMode ? entityType.color : 'default'}>
+                    <GridOn />
+                  </IconButton>
+                </Tooltip>
+              )}
+              <Tooltip title="Rechercher les doublons">
+                <IconButton onClick={() => setDuplicatesOpen(true)}>
+                  <MergeType />
                 </IconButton>
               </Tooltip>
+              {can('entity:delete') && (
+                <Tooltip title="Corbeille">
+                  <IconButton onClick={() => setTrashOpen(true)}>
+                    <RestoreFromTrash />
+                  </IconButton>
+                </Tooltip>
+              )}
+              <ColumnSettings
+                columns={columns}
+                value={layout.columns}
+                onChange={(keys) => updateLayout({ ...layout, columns: keys })}
+                onReset={() => updateLayout(defaultColumnLayout(entityType))}
+              />
               <Tooltip title="Filtres avancés">
-                <IconButton>
+                <IconButton
+                  onClick={() => setShowFilters(!showFilters)}
+                  color={showFilters || filterGroup.conditions.length > 0 ? entityType.color : 'default'}
+                >
                   <FilterList />
                 </IconButton>
               </Tooltip>
             </Box>
           </Grid>
         </Grid>
+        <FilterBuilder
+          entityType={entityType}
+          value={filterGroup}
+          onChange={handleFilterChange}
+          editing={showFilters}
+        />
       </Paper>
 
       {/* Additional Children Components */}
@@ -567,82 +1040,116 @@ function EntityCrudPage<T extends { id: number }>({
 
       {/* Entities Table */}
       <TableContainer component={Paper}>
-        <Table>
-          <TableHead>
-            <TableRow>
-              {config.fields && config.fields.slice(0, 4).map((field) => (
-                <TableCell key={field.name}>{field.label}</TableCell>
-              ))}
-              <TableCell align="right">Actions</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {entities && entities.length > 0 ? entities.map((entity) => (
-              <TableRow key={entity.id} hover>
-                {config.fields && config.fields.slice(0, 4).map((field) => (
-                  <TableCell key={field.name}>
-                    {field.name === config.displayField ? (
-                      <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                        {config.icon}
-                        <Typography variant="subtitle2" sx={{ ml: 1 }}>
-                          {renderEntityValue(entity, field)}
-                        </Typography>
-                      </Box>
-                    ) : (
-                      renderEntityValue(entity, field)
-                    )}
-                  </TableCell>
-                ))}
-                <TableCell align="right">
-                  <Tooltip title="Voir les détails">
-                    <IconButton 
-                      onClick={() => handleView(entity)}
-                      size="small"
-                    >
-                      <Visibility />
-                    </IconButton>
-                  </Tooltip>
-                  <Tooltip title="Modifier">
-                    <IconButton 
-                      onClick={() => handleEdit(entity)}
-                      size="small"
-                    >
-                      <Edit />
-                    </IconButton>
-                  </Tooltip>
-                  {onViewRelations && (
-                    <Tooltip title="Voir les relations">
+        {sheetMode ? (
+          <SpreadsheetTable
+            entityType={entityType}
+            entities={entities}
+            fields={visibleColumns.flatMap(column => (column.field && isPropertyField(column.field) ? [column.field] : []))}
+            onSaved={loadEntities}
+            onDirtyChange={setSheetDirtyRows}
+          />
+        ) : (
+          <Table>
+            <TableHead>
+              <TableRow>
+                {visibleColumns.map((column) => {
+                  const position = layout.sort.findIndex(item => item.key === column.key);
+                  const sorted = layout.sort[position];
+                  if (!isSortable(column)) {
+                    return <TableCell key={column.key}>{column.label}</TableCell>;
+                  }
+                  return (
+                    <TableCell key={column.key} sortDirection={sorted ? sorted.direction : false}>
+                      <TableSortLabel
+                        active={!!sorted}
+                        direction={sorted ? sorted.direction : 'asc'}
+                        onClick={(e) => handleSort(column.key, e.shiftKey)}
+                      >
+                        {column.label}
+                        {sorted && layout.sort.length > 1 && (
+                          <Typography component="sup" variant="caption" sx={{ ml: 0.5 }}>
+                            {position + 1}
+                          </Typography>
+                        )}
+                      </TableSortLabel>
+                    </TableCell>
+                  );
+                })}
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entities && entities.length > 0 ? entities.map((entity) => (
+                <TableRow key={entity.id} hover>
+                  {visibleColumns.map((column) => (
+                    <TableCell key={column.key}>
+                      {renderCell(entity, column)}
+                    </TableCell>
+                  ))}
+                  <TableCell align="right">
+                    <Tooltip title="Voir les détails">
                       <IconButton 
-                        onClick={() => onViewRelations(entity)}
+                        onClick={() => handleView(entity)}
                         size="small"
-                        color="info"
                       >
-                        <Timeline />
+                        <Visibility />
                       </IconButton>
                     </Tooltip>
-                  )}
-                  <Tooltip title="Supprimer">
-                    <IconButton 
-                      onClick={() => handleDelete(entity)}
-                      size="small"
-                      color="error"
-                    >
-                      <Delete />
-                    </IconButton>
-                  </Tooltip>
-                </TableCell>
-              </TableRow>
-            )) : (
-              <TableRow>
-                <TableCell colSpan={config.fields ? config.fields.slice(0, 4).length + 1 : 5} align="center">
-                  <Typography variant="body2" color="text.secondary">
-                    Aucune donnée disponible
-                  </Typography>
-                </TableCell>
-              </TableRow>
-            )}
-          </TableBody>
-        </Table>
+                    <Tooltip title="Ouvrir la fiche">
+                      <IconButton
+                        component={RouterLink}
+                        to={entityDetailPath(entityType, entity.id)}
+                        size="small"
+                      >
+                        <OpenInNew />
+                      </IconButton>
+                    </Tooltip>
+                    {can('entity:update') && (
+                      <Tooltip title="Modifier">
+                        <IconButton 
+                          onClick={() => handleEdit(entity)}
+                          size="small"
+                        >
+                          <Edit />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {onViewRelations && (
+                      <Tooltip title="Voir les relations">
+                        <IconButton 
+                          onClick={() => onViewRelations(entity)}
+                          size="small"
+                          color="info"
+                        >
+                          <Timeline />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {can('entity:delete') && (
+                      <Tooltip title="Supprimer">
+                        <IconButton 
+                          onClick={() => handleDelete(entity)}
+                          size="small"
+                          color="error"
+                        >
+                          <Delete />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={visibleColumns.length + 1} align="center">
+                    <Typography variant="body2" color="text.secondary">
+                      Aucune donnée disponible
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
         
         {/* Pagination */}
         <TablePagination
@@ -661,9 +1168,9 @@ function EntityCrudPage<T extends { id: number }>({
       </TableContainer>
 
       {/* Floating Action Button for Mobile */}
-      <Zoom in={true}>
+      <Zoom in={can('entity:create')}>
         <Fab
-          color={config.color as any}
+          color={entityType.color}
           aria-label="add"
           onClick={handleCreate}
           sx={{
@@ -685,16 +1192,35 @@ function EntityCrudPage<T extends { id: number }>({
         fullWidth
       >
         <DialogTitle>
-          {dialogMode === 'create' && `Créer ${config.name}`}
-          {dialogMode === 'edit' && `Modifier ${config.name}`}
-          {dialogMode === 'view' && `Détails de ${config.name}`}
+          {dialogMode === 'create' && `Créer ${entityType.label}`}
+          {dialogMode === 'edit' && `Modifier ${entityType.label}`}
+          {dialogMode === 'view' && `Détails de ${entityType.label}`}
         </DialogTitle>
         
         <DialogContent dividers>
+          {submitErrors.length > 0 && (
+            <Alert severity="error" onClose={() => setSubmitErrors([])} sx={{ mb: 2 }}>
+              {submitErrors.map((message, index) => (
+                <div key={index}>{message}</div>
+              ))}
+            </Alert>
+          )}
+          {similar.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Nom proche de : {similar.map(({ entity }, index) => (
+                <React.Fragment key={entity.id}>
+                  {index > 0 && ', '}
+                  <Link component={RouterLink} to={entityDetailPath(entityType, entity.id)} target="_blank">
+                    {entityDisplayName(entityType, entity)}
+                  </Link>
+                </React.Fragment>
+              ))}. Vérifiez qu'il ne s'agit pas d'un doublon.
+            </Alert>
+          )}
           <Box component="form" sx={{ mt: 2 }}>
             <Grid container spacing={3}>
-              {config.fields && config.fields.map((field) => (
-                <Grid item xs={12} sm={field.type === 'textarea' ? 12 : 6} key={field.name}>
+              {entityType.fields && entityType.fields.map((field) => (
+                <Grid item xs={12} sm={['textarea', 'geopoint'].includes(field.type) ? 12 : 6} key={field.name}>
                   {renderFieldInput(field)}
                 </Grid>
               ))}
@@ -711,13 +1237,57 @@ function EntityCrudPage<T extends { id: number }>({
               onClick={handleFormSubmit}
               variant="contained"
               disabled={formLoading}
-              color={config.color as any}
+              color={entityType.color}
             >
               {formLoading ? 'Enregistrement...' : 'Enregistrer'}
             </Button>
           )}
         </DialogActions>
       </Dialog>
+
+      <MergeConflictDialog
+        open={!!conflict}
+        conflict={conflict}
+        fields={propertyFields(entityType)}
+        submitting={formLoading}
+        onCancel={() => setConflict(null)}
+        onResolve={handleConflictResolve}
+      />
+
+      <ExportDialog
+        open={exportOpen}
+        entityType={entityType}
+        params={{ filters: listFilters, where: filterGroup }}
+        filtered={!!searchQuery || filterGroup.conditions.length > 0}
+        onClose={() => setExportOpen(false)}
+      />
+
+      <ImportWizard
+        open={importOpen}
+        entityType={entityType}
+        onClose={() => setImportOpen(false)}
+        onImported={loadEntities}
+      />
+
+      <DuplicatesDialog
+        open={duplicatesOpen}
+        entityType={entityType}
+        onClose={() => setDuplicatesOpen(false)}
+        onMerged={loadEntities}
+      />
+
+      <TrashDialog
+        open={trashOpen}
+        entityType={entityType}
+        onClose={() => setTrashOpen(false)}
+        onRestored={loadEntities}
+      />
+
+      <UndoDeleteSnackbar
+        entries={deleted}
+        onClose={() => setDeleted([])}
+        onRestored={handleUndoneDelete}
+      />
     </Box>
   );
 }
@@ -3,9 +3,10 @@
  * 
  * A reusable error message component that displays error states
  * with consistent styling and optional retry functionality.
+ * When a retry is scheduled, a countdown is shown and the retry runs by itself.
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Alert,
   AlertTitle,
@@ -13,6 +14,7 @@ import {
   Button,
   Typography,
   AlertProps,
+  LinearProgress,
 } from '@mui/material';
 import { Refresh } from '@mui/icons-material';
 
@@ -46,8 +48,30 @@ interface ErrorMessageProps extends Omit<AlertProps, 'severity'> {
    * Error severity level
    */
   severity?: 'error' | 'warning' | 'info';
+
+  /**
+   * Timestamp of a pending automatic retry (calls onRetry when reached)
+   */
+  retryAt?: number | null;
 }
 
+/**
+ * Seconds left before a timestamp, refreshed every second
+ */
+const useCountdown = (target?: number | null): number | null => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!target) return;
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [target]);
+
+  if (!target) return null;
+  return Math.max(0, Math.ceil((target - now) / 1000));
+};
+
 /**
  * Error message component with optional retry functionality
  */
@@ -58,8 +82,28 @@ const ErrorMessage: React.FC<ErrorMessageProps> = ({
   onRetry,
   retryText = 'Réessayer',
   severity = 'error',
+  retryAt,
   ...alertProps
 }) => {
+  const secondsLeft = useCountdown(retryAt);
+  const [totalSeconds, setTotalSeconds] = useState(0);
+
+  useEffect(() => {
+    if (retryAt) {
+      setTotalSeconds(Math.max(1, Math.ceil((retryAt - Date.now()) / 1000)));
+    }
+  }, [retryAt]);
+
+  useEffect(() => {
+    if (secondsLeft === 0 && onRetry) {
+      onRetry();
+    }
+    // Only the countdown reaching zero triggers the retry
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [secondsLeft]);
+
+  const retryPending = secondsLeft !== null && secondsLeft > 0;
+
   return (
     <Alert
       severity={severity}
@@ -70,9 +114,23 @@ const ErrorMessage: React.FC<ErrorMessageProps> = ({
       {...alertProps}
     >
       <AlertTitle>{title}</AlertTitle>
-      <Typography variant="body2" sx={{ mb: showRetry ? 2 : 0 }}>
+      <Typography variant="body2" sx={{ mb: showRetry || retryPending ? 2 : 0 }}>
         {message}
       </Typography>
+
+      {retryPending && (
+        <Box sx={{ mb: showRetry ? 1 : 0 }}>
+          <Typography variant="caption" color="text.secondary">
+            Nouvelle tentative automatique dans {secondsLeft} s
+          </Typography>
+          <LinearProgress
+            variant="determinate"
+            value={100 - (secondsLeft / totalSeconds) * 100}
+            color={severity === 'error' ? 'error' : 'primary'}
+            sx={{ mt: 0.5, borderRadius: 1 }}
+          />
+        </Box>
+      )}
       
       {showRetry && onRetry && (
         <Box sx={{ mt: 1 }}>
@@ -0,0 +1,191 @@
+/**
+ * Export Dialog Component
+ *
+ * Exports the entities of a type, those of the current view or all of them,
+ * in the chosen format. Columns are picked among the fields of the type and
+ * its relations; pages are read through the rate limiter while a progress
+ * bar follows the download.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  FormLabel,
+  LinearProgress,
+  Radio,
+  RadioGroup,
+  Typography,
+} from '@mui/material';
+import type { ListParams } from '../../services/api';
+import {
+  buildExport,
+  downloadFile,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportProgress,
+  fetchExportRows,
+  fieldColumns,
+  relationColumns,
+} from '../../services/entityExport';
+import { EntityTypeDefinition } from '../../services/entityTypes';
+import { isCancelled, useRateLimit } from '../../services/rateLimiter';
+import useRelationTypes from '../../hooks/useRelationTypes';
+
+interface ExportDialogProps {
+  open: boolean;
+  entityType: EntityTypeDefinition;
+  /** List parameters of the current view; the full set is exported without them */
+  params?: ListParams;
+  /** Whether the current view is narrowed by a search or filters */
+  filtered?: boolean;
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  entityType,
+  params = {},
+  filtered = false,
+  onClose,
+}) => {
+  const { types } = useRelationTypes();
+  const fields = useMemo(() => fieldColumns(entityType), [entityType]);
+  const relations = useMemo(() => relationColumns(entityType, types), [entityType, types]);
+
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [scope, setScope] = useState<'view' | 'all'>('view');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { run, cancel } = useRateLimit();
+
+  useEffect(() => {
+    if (open) {
+      setSelected(fields.map(column => column.key));
+      setScope(filtered ? 'view' : 'all');
+      setError(null);
+    }
+  }, [open, fields, filtered]);
+
+  const toggle = (key: string) => {
+    setSelected(prev => (prev.includes(key) ? prev.filter(item => item !== key) : [...prev, key]));
+  };
+
+  /**
+   * Stop a running export, or close
+   */
+  const handleClose = () => {
+    if (progress) {
+      cancel('export');
+      setProgress(null);
+      return;
+    }
+    onClose();
+  };
+
+  const handleExport = async () => {
+    // Registry order, whatever the order of the clicks
+    const columns = [...fields, ...relations].filter(column => selected.includes(column.key));
+    setError(null);
+    setProgress({ loaded: 0, total: 1 });
+
+    try {
+      const rows = await run(signal => fetchExportRows(entityType, columns, {
+        params: scope === 'view' ? params : {},
+        signal,
+        onProgress: setProgress,
+      }), 'export');
+      const { content, filename, mimeType } = buildExport(format, entityType, rows, columns);
+      downloadFile(content, filename, mimeType);
+      setProgress(null);
+      onClose();
+    } catch (err: any) {
+      if (isCancelled(err)) return;
+      console.error('Export error:', err);
+      setError(err?.message || 'Erreur lors de l\'export');
+      setProgress(null);
+    }
+  };
+
+  const renderColumn = (column: { key: string; label: string }) => (
+    <FormControlLabel
+      key={column.key}
+      control={<Checkbox size="small" checked={selected.includes(column.key)} onChange={() => toggle(column.key)} />}
+      label={column.label}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Exporter les {entityType.pluralLabel.toLowerCase()}</DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <FormControl sx={{ mb: 2 }} disabled={!!progress}>
+          <FormLabel>Format</FormLabel>
+          <RadioGroup row value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)}>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+              <FormControlLabel key={key} value={key} control={<Radio />} label={EXPORT_FORMATS[key].label} />
+            ))}
+          </RadioGroup>
+        </FormControl>
+
+        <FormControl sx={{ mb: 2, display: 'block' }} disabled={!!progress}>
+          <FormLabel>Entités</FormLabel>
+          <RadioGroup row value={scope} onChange={(e) => setScope(e.target.value as 'view' | 'all')}>
+            <FormControlLabel value="view" control={<Radio />} label="Résultats de la recherche" disabled={!filtered} />
+            <FormControlLabel value="all" control={<Radio />} label="Toutes" />
+          </RadioGroup>
+        </FormControl>
+
+        <FormControl sx={{ mb: 2, display: 'block' }} disabled={!!progress}>
+          <FormLabel>Colonnes</FormLabel>
+          <FormGroup row>{fields.map(renderColumn)}</FormGroup>
+        </FormControl>
+
+        {relations.length > 0 && (
+          <FormControl sx={{ display: 'block' }} disabled={!!progress}>
+            <FormLabel>Entités liées</FormLabel>
+            <FormGroup row>{relations.map(renderColumn)}</FormGroup>
+          </FormControl>
+        )}
+
+        {progress && (
+          <Box sx={{ mt: 3 }}>
+            <LinearProgress variant="determinate" value={Math.min(100, (progress.loaded / progress.total) * 100)} />
+            <Typography variant="caption" color="text.secondary">
+              Page {progress.loaded} sur {progress.total}
+            </Typography>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{progress ? 'Interrompre' : 'Annuler'}</Button>
+        <Button
+          variant="contained"
+          onClick={handleExport}
+          disabled={!!progress || selected.length === 0}
+          color={entityType.color}
+        >
+          Exporter
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,221 @@
+/**
+ * Filter Builder Component
+ *
+ * Advanced filter of an entity page: a form adding conditions on the fields
+ * of the type (text, number range, options) or on its relations, and the
+ * active conditions as removable chips joined by AND or OR.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { Add } from '@mui/icons-material';
+import { describeCondition, fieldFilterKind, FilterCondition, FilterGroup } from '../../services/entityFilters';
+import { fieldOptions, propertyFields } from '../../services/entityFields';
+import { EntityTypeDefinition } from '../../services/entityTypes';
+import { relationEndsOf } from '../../services/relationTypes';
+import useRelationTypes from '../../hooks/useRelationTypes';
+
+interface FilterBuilderProps {
+  entityType: EntityTypeDefinition;
+  value: FilterGroup;
+  onChange: (value: FilterGroup) => void;
+  /** Show the form adding a condition, the chips are always shown */
+  editing?: boolean;
+}
+
+// Relations share the target select with fields, prefixed to tell them apart
+const RELATION_PREFIX = 'relation:';
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({
+  entityType,
+  value,
+  onChange,
+  editing = false,
+}) => {
+  const { types } = useRelationTypes();
+  const relations = useMemo(() => relationEndsOf(entityType.type, types), [entityType, types]);
+  const [target, setTarget] = useState('');
+  const [operator, setOperator] = useState('');
+  const [text, setText] = useState('');
+  const [min, setMin] = useState('');
+  const [max, setMax] = useState('');
+  const [options, setOptions] = useState<string[]>([]);
+
+  const field = propertyFields(entityType).find(candidate => candidate.name === target);
+  const relation = relations.find(({ definition, direction }) => target === `${RELATION_PREFIX}${direction}:${definition.type}`);
+  const kind = relation ? 'relation' : field && fieldFilterKind(field);
+
+  const selectTarget = (next: string) => {
+    setTarget(next);
+    setOperator(next.startsWith(RELATION_PREFIX) ? 'has' : 'contains');
+    setText('');
+    setMin('');
+    setMax('');
+    setOptions([]);
+  };
+
+  /**
+   * Condition described by the form, or null while it is incomplete
+   */
+  const draft = (): FilterCondition | null => {
+    if (relation) {
+      return { relationType: relation.definition.type, direction: relation.direction, operator: operator === 'lacks' ? 'lacks' : 'has' };
+    }
+    if (!field) return null;
+    switch (kind) {
+      case 'number': {
+        const range = { min: min === '' ? undefined : Number(min), max: max === '' ? undefined : Number(max) };
+        return range.min === undefined && range.max === undefined ? null : { field: field.name, operator: 'between', ...range };
+      }
+      case 'select':
+        return options.length > 0 ? { field: field.name, operator: 'in', values: options } : null;
+      default:
+        return text.trim() ? { field: field.name, operator: operator === 'equals' ? 'equals' : 'contains', value: text.trim() } : null;
+    }
+  };
+
+  const condition = draft();
+
+  const handleAdd = () => {
+    if (!condition) return;
+    onChange({ ...value, conditions: [...value.conditions, condition] });
+    selectTarget('');
+  };
+
+  const handleRemove = (index: number) => {
+    onChange({ ...value, conditions: value.conditions.filter((_, position) => position !== index) });
+  };
+
+  const renderValueInput = () => {
+    switch (kind) {
+      case 'relation':
+        return (
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Condition</InputLabel>
+            <Select value={operator} label="Condition" onChange={(e) => setOperator(e.target.value)}>
+              <MenuItem value="has">Possède</MenuItem>
+              <MenuItem value="lacks">Ne possède pas</MenuItem>
+            </Select>
+          </FormControl>
+        );
+      case 'number':
+        return (
+          <>
+            <TextField size="small" type="number" label="Min" value={min} onChange={(e) => setMin(e.target.value)} sx={{ width: 110 }} />
+            <TextField size="small" type="number" label="Max" value={max} onChange={(e) => setMax(e.target.value)} sx={{ width: 110 }} />
+          </>
+        );
+      case 'select':
+        return (
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Valeurs</InputLabel>
+            <Select
+              multiple
+              value={options}
+              label="Valeurs"
+              onChange={(e) => setOptions(typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value)}
+            >
+              {field && fieldOptions(field)?.map(option => (
+                <MenuItem key={String(option.value)} value={String(option.value)}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        );
+      case 'text':
+        return (
+          <>
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel>Opérateur</InputLabel>
+              <Select value={operator} label="Opérateur" onChange={(e) => setOperator(e.target.value)}>
+                <MenuItem value="contains">contient</MenuItem>
+                <MenuItem value="equals">est égal à</MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              size="small"
+              label="Valeur"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            />
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Box>
+      {editing && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mt: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Filtrer sur</InputLabel>
+            <Select value={target} label="Filtrer sur" onChange={(e) => selectTarget(e.target.value)}>
+              {propertyFields(entityType).map(candidate => (
+                <MenuItem key={candidate.name} value={candidate.name}>{candidate.label}</MenuItem>
+              ))}
+              {relations.map(({ definition, direction, label }) => (
+                <MenuItem key={`${direction}:${definition.type}`} value={`${RELATION_PREFIX}${direction}:${definition.type}`}>
+                  Relation : {label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {renderValueInput()}
+          <Button variant="outlined" startIcon={<Add />} onClick={handleAdd} disabled={!condition}>
+            Ajouter
+          </Button>
+        </Box>
+      )}
+
+      {value.conditions.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mt: 2 }}>
+          {value.conditions.length > 1 && (
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={value.combinator}
+              onChange={(_, combinator) => combinator && onChange({ ...value, combinator })}
+            >
+              <ToggleButton value="and">ET</ToggleButton>
+              <ToggleButton value="or">OU</ToggleButton>
+            </ToggleButtonGroup>
+          )}
+          {value.conditions.map((item, index) => (
+            <React.Fragment key={index}>
+              {index > 0 && (
+                <Typography variant="caption" color="text.secondary">
+                  {value.combinator === 'or' ? 'ou' : 'et'}
+                </Typography>
+              )}
+              <Chip
+                label={describeCondition(entityType, item)}
+                onDelete={() => handleRemove(index)}
+                color={entityType.color}
+                variant="outlined"
+              />
+            </React.Fragment>
+          ))}
+          <Button size="small" onClick={() => onChange({ ...value, conditions: [] })}>
+            Tout effacer
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,210 @@
+/**
+ * Geo Point Picker Component
+ *
+ * Input of a geopoint field: the `latitude,longitude` text, and an
+ * OpenStreetMap map where a click places the point. The map is dragged to
+ * pan and zoomed with its buttons; tiles are laid out in Web Mercator.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, IconButton, Link, TextField, Typography } from '@mui/material';
+import { Add, MyLocation, Remove } from '@mui/icons-material';
+import { formatGeoPoint, GeoPoint, parseGeoPoint } from '../../services/entityFields';
+import { EntityField } from '../../services/entityTypes';
+
+interface GeoPointPickerProps {
+  field: EntityField;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+const TILE_SIZE = 256;
+const MAP_HEIGHT = 240;
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 16;
+// West Africa, where most localities of the ontology are
+const DEFAULT_CENTER: GeoPoint = { latitude: 12, longitude: -8 };
+const DEFAULT_ZOOM = 4;
+// Pointer moves shorter than this are clicks
+const DRAG_THRESHOLD = 4;
+
+/**
+ * Position of a point in pixels of the whole world map at a zoom level
+ */
+const project = ({ latitude, longitude }: GeoPoint, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-85, Math.min(85, latitude)) * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+const unproject = (x: number, y: number, zoom: number): GeoPoint => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (((x / scale) * 360 + 540) % 360) - 180,
+  };
+};
+
+const GeoPointPicker: React.FC<GeoPointPickerProps> = ({ field, value, onChange, error, disabled }) => {
+  const point = parseGeoPoint(value);
+  const mapRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; y: number; center: { x: number; y: number }; moved: boolean } | null>(null);
+  const [width, setWidth] = useState(400);
+  const [zoom, setZoom] = useState(point ? 8 : DEFAULT_ZOOM);
+  const [center, setCenter] = useState<GeoPoint>(point || DEFAULT_CENTER);
+
+  useEffect(() => {
+    const element = mapRef.current;
+    if (!element) return;
+    setWidth(element.clientWidth || 400);
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Top left corner of the view in world pixels
+  const middle = project(center, zoom);
+  const origin = { x: middle.x - width / 2, y: middle.y - MAP_HEIGHT / 2 };
+  const count = 2 ** zoom;
+  const tiles: { key: string; url: string; left: number; top: number }[] = [];
+  for (let tileY = Math.floor(origin.y / TILE_SIZE); tileY * TILE_SIZE < origin.y + MAP_HEIGHT; tileY++) {
+    if (tileY < 0 || tileY >= count) continue;
+    for (let tileX = Math.floor(origin.x / TILE_SIZE); tileX * TILE_SIZE < origin.x + width; tileX++) {
+      const wrapped = ((tileX % count) + count) % count;
+      tiles.push({
+        key: `${tileX}/${tileY}`,
+        url: `https://tile.openstreetmap.org/${zoom}/${wrapped}/${tileY}.png`,
+        left: tileX * TILE_SIZE - origin.x,
+        top: tileY * TILE_SIZE - origin.y,
+      });
+    }
+  }
+  const marker = point && project(point, zoom);
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    drag.current = { x: event.clientX, y: event.clientY, center: middle, moved: false };
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const start = drag.current;
+    if (!start) return;
+    const dx = event.clientX - start.x;
+    const dy = event.clientY - start.y;
+    if (!start.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    start.moved = true;
+    setCenter(unproject(start.center.x - dx, start.center.y - dy, zoom));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const start = drag.current;
+    drag.current = null;
+    if (!start || start.moved || disabled) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const picked = unproject(origin.x + event.clientX - bounds.left, origin.y + event.clientY - bounds.top, zoom);
+    onChange(formatGeoPoint(picked));
+  };
+
+  const handleTextChange = (text: string) => {
+    onChange(text);
+    const typed = parseGeoPoint(text);
+    if (typed) setCenter(typed);
+  };
+
+  return (
+    <Box>
+      <TextField
+        fullWidth
+        label={field.label}
+        value={value}
+        onChange={(e) => handleTextChange(e.target.value)}
+        error={!!error}
+        helperText={error || 'Latitude,longitude ou clic sur la carte'}
+        placeholder="14.7167,-17.4677"
+        disabled={disabled}
+        required={field.required}
+      />
+      <Box
+        ref={mapRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        sx={{
+          position: 'relative',
+          height: MAP_HEIGHT,
+          mt: 1,
+          overflow: 'hidden',
+          borderRadius: 1,
+          border: 1,
+          borderColor: error ? 'error.main' : 'divider',
+          bgcolor: 'grey.200',
+          cursor: disabled ? 'default' : 'crosshair',
+          touchAction: 'none',
+          userSelect: 'none',
+        }}
+      >
+        {tiles.map(tile => (
+          <Box
+            key={tile.key}
+            component="img"
+            src={tile.url}
+            alt=""
+            draggable={false}
+            sx={{ position: 'absolute', left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+        {marker && (
+          <Box
+            sx={{
+              position: 'absolute',
+              left: marker.x - origin.x - 6,
+              top: marker.y - origin.y - 6,
+              width: 12,
+              height: 12,
+              borderRadius: '50%',
+              bgcolor: 'error.main',
+              border: 2,
+              borderColor: 'common.white',
+              pointerEvents: 'none',
+            }}
+          />
+        )}
+        <Box
+          onPointerDown={(e) => e.stopPropagation()}
+          sx={{ position: 'absolute', top: 4, right: 4, display: 'flex', flexDirection: 'column', bgcolor: 'background.paper', borderRadius: 1 }}
+        >
+          <IconButton size="small" aria-label="Zoom avant" onClick={() => setZoom(Math.min(MAX_ZOOM, zoom + 1))}>
+            <Add fontSize="small" />
+          </IconButton>
+          <IconButton size="small" aria-label="Zoom arrière" onClick={() => setZoom(Math.max(MIN_ZOOM, zoom - 1))}>
+            <Remove fontSize="small" />
+          </IconButton>
+          {point && (
+            <IconButton size="small" aria-label="Centrer sur le point" onClick={() => setCenter(point)}>
+              <MyLocation fontSize="small" />
+            </IconButton>
+          )}
+        </Box>
+        <Typography
+          variant="caption"
+          onPointerDown={(e) => e.stopPropagation()}
+          sx={{ position: 'absolute', right: 0, bottom: 0, px: 0.5, bgcolor: 'rgba(255, 255, 255, 0.8)' }}
+        >
+          ©{' '}
+          <Link href="https://www.openstreetmap.org/copyright" target="_blank" rel="noopener noreferrer">
+            OpenStreetMap
+          </Link>
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
+
+export default GeoPointPicker;
@@ -0,0 +1,401 @@
+/**
+ * Import Wizard Component
+ *
+ * Imports a CSV or JSON file into an entity type in four steps: choose the
+ * file, map its columns to the fields of the type, review the dry run
+ * (creations, updates, duplicates, errors), then run the import. Rows that
+ * could not be imported can be downloaded as a CSV report.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import {
+  dryRunImport,
+  executeImport,
+  ID_FIELD,
+  ImportAction,
+  ImportFile,
+  ImportMapping,
+  ImportPlanRow,
+  ImportProgress,
+  ImportResult,
+  importErrorReport,
+  parseImportFile,
+  suggestMapping,
+} from '../../services/entityImport';
+import { downloadFile, EXPORT_FORMATS } from '../../services/entityExport';
+import { propertyFields } from '../../services/entityFields';
+import { EntityTypeDefinition } from '../../services/entityTypes';
+import { isCancelled, useRateLimit } from '../../services/rateLimiter';
+
+interface ImportWizardProps {
+  open: boolean;
+  entityType: EntityTypeDefinition;
+  onClose: () => void;
+  /** Called after an import sent at least one row */
+  onImported?: () => void;
+}
+
+const STEPS = ['Fichier', 'Correspondance', 'Vérification', 'Import'];
+
+const ACTION_LABELS: Record<ImportAction, { label: string; color: 'success' | 'info' | 'default' | 'error' }> = {
+  create: { label: 'Création', color: 'success' },
+  update: { label: 'Mise à jour', color: 'info' },
+  duplicate: { label: 'Doublon ignoré', color: 'default' },
+  error: { label: 'Erreur', color: 'error' },
+};
+
+// Rows listed in the dry run report; the counts cover the whole file
+const MAX_LISTED_ROWS = 200;
+
+const ImportWizard: React.FC<ImportWizardProps> = ({
+  open,
+  entityType,
+  onClose,
+  onImported,
+}) => {
+  const fields = useMemo(() => propertyFields(entityType), [entityType]);
+  const [step, setStep] = useState(0);
+  const [filename, setFilename] = useState('');
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [plan, setPlan] = useState<ImportPlanRow[]>([]);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { run, cancel } = useRateLimit();
+
+  const counts = useMemo(() => plan.reduce((total, row) => ({ ...total, [row.action]: total[row.action] + 1 }),
+    { create: 0, update: 0, duplicate: 0, error: 0 } as Record<ImportAction, number>), [plan]);
+  const failures = results?.filter(result => result.status === 'failed').length ?? 0;
+  const missingRequired = fields.filter(field => field.required && !Object.values(mapping).includes(field.name));
+
+  const reset = () => {
+    cancel('import');
+    setStep(0);
+    setFilename('');
+    setFile(null);
+    setMapping({});
+    setPlan([]);
+    setResults(null);
+    setProgress(null);
+    setBusy(false);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (results && results.length > failures) {
+      onImported?.();
+    }
+    reset();
+    onClose();
+  };
+
+  /**
+   * Parse the chosen file and guess the column mapping
+   */
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    setError(null);
+    try {
+      const parsed = parseImportFile(selected.name, await selected.text());
+      if (parsed.records.length === 0) {
+        setError('Le fichier ne contient aucune ligne à importer');
+        return;
+      }
+      setFilename(selected.name);
+      setFile(parsed);
+      setMapping(suggestMapping(parsed.columns, fields));
+    } catch (err) {
+      console.error('Error parsing import file:', err);
+      setError('Erreur lors de l\'analyse du fichier. Vérifiez le format.');
+    }
+  };
+
+  /**
+   * Compare the file with the stored entities without changing anything
+   */
+  const handleDryRun = async () => {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setPlan(await run(signal => dryRunImport(entityType, file, mapping, { signal }), 'import'));
+      setStep(2);
+    } catch (err: any) {
+      if (isCancelled(err)) return;
+      console.error('Import dry run error:', err);
+      setError(err?.message || 'Erreur lors de la vérification');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep(3);
+    setBusy(true);
+    setError(null);
+    setProgress({ done: 0, total: counts.create + counts.update });
+    try {
+      let cancelled = false;
+      const sent = await run(async signal => {
+        const imported = await executeImport(entityType, plan, { signal, onProgress: setProgress });
+        cancelled = signal.aborted;
+        return imported;
+      }, 'import');
+      if (cancelled) {
+        // Closed during the import: the rows sent until then are stored
+        if (sent.some(result => result.status !== 'failed')) onImported?.();
+        return;
+      }
+      setResults(sent);
+    } catch (err: any) {
+      if (isCancelled(err)) return;
+      console.error('Import error:', err);
+      setError(err?.message || 'Erreur lors de l\'import');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadReport = () => {
+    if (!file) return;
+    const report = `\ufeff${importErrorReport(file, plan, results || [])}`;
+    downloadFile(report, `${filename.replace(/\.[^.]+$/, '')}_erreurs.csv`, EXPORT_FORMATS.csv.mimeType);
+  };
+
+  const renderFileStep = () => (
+    <Box>
+      <Button variant="outlined" component="label" startIcon={<UploadFile />}>
+        Choisir un fichier CSV ou JSON
+        <input hidden type="file" accept=".csv,.json,.jsonld,text/csv,application/json" onChange={handleFileSelect} />
+      </Button>
+      {file && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="body2" gutterBottom>
+            {filename} : {file.records.length} lignes, {file.columns.length} colonnes
+          </Typography>
+          <TableContainer sx={{ maxHeight: 240 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  {file.columns.map(column => <TableCell key={column}>{column}</TableCell>)}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {file.records.slice(0, 5).map((record, index) => (
+                  <TableRow key={index}>
+                    {file.columns.map(column => <TableCell key={column}>{String(record[column] ?? '')}</TableCell>)}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Box>
+      )}
+    </Box>
+  );
+
+  const renderMappingStep = () => file && (
+    <Box>
+      {missingRequired.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Champs requis sans colonne : {missingRequired.map(field => field.label).join(', ')}.
+          Seules les mises à jour d'entités existantes pourront être importées.
+        </Alert>
+      )}
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Colonne du fichier</TableCell>
+            <TableCell>Exemple</TableCell>
+            <TableCell>Champ</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {file.columns.map(column => (
+            <TableRow key={column}>
+              <TableCell>{column}</TableCell>
+              <TableCell sx={{ color: 'text.secondary' }}>{String(file.records[0]?.[column] ?? '')}</TableCell>
+              <TableCell>
+                <FormControl size="small" fullWidth>
+                  <Select
+                    value={mapping[column] || ''}
+                    displayEmpty
+                    onChange={(e) => setMapping(prev => ({ ...prev, [column]: e.target.value }))}
+                  >
+                    <MenuItem value=""><em>Ignorer</em></MenuItem>
+                    <MenuItem value={ID_FIELD}>Identifiant (mise à jour)</MenuItem>
+                    {fields.map(field => (
+                      <MenuItem
+                        key={field.name}
+                        value={field.name}
+                        // One column per field
+                        disabled={Object.entries(mapping).some(([other, name]) => other !== column && name === field.name)}
+                      >
+                        {field.label}{field.required ? ' *' : ''}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+
+  const renderPlanStep = () => (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        {(Object.keys(ACTION_LABELS) as ImportAction[]).map(action => (
+          <Chip key={action} label={`${ACTION_LABELS[action].label} : ${counts[action]}`} color={ACTION_LABELS[action].color} />
+        ))}
+      </Box>
+      <TableContainer sx={{ maxHeight: 320 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Ligne</TableCell>
+              <TableCell>Action</TableCell>
+              <TableCell>{entityType.label}</TableCell>
+              <TableCell>Détail</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {plan.slice(0, MAX_LISTED_ROWS).map(row => (
+              <TableRow key={row.line}>
+                <TableCell>{row.line}</TableCell>
+                <TableCell>
+                  <Chip size="small" label={ACTION_LABELS[row.action].label} color={ACTION_LABELS[row.action].color} />
+                </TableCell>
+                <TableCell>{String(row.values[entityType.displayField] ?? row.existing?.[entityType.displayField] ?? '')}</TableCell>
+                <TableCell>
+                  {row.action === 'update'
+                    ? Object.keys(row.changes || {}).map(name => fields.find(field => field.name === name)?.label || name).join(', ')
+                    : row.messages.join(' ; ')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      {plan.length > MAX_LISTED_ROWS && (
+        <Typography variant="caption" color="text.secondary">
+          {MAX_LISTED_ROWS} premières lignes sur {plan.length}
+        </Typography>
+      )}
+    </Box>
+  );
+
+  const renderImportStep = () => (
+    <Box>
+      {progress && (
+        <Box sx={{ mb: 2 }}>
+          <LinearProgress
+            variant="determinate"
+            value={progress.total > 0 ? (progress.done / progress.total) * 100 : 100}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {progress.done} / {progress.total} lignes envoyées
+          </Typography>
+        </Box>
+      )}
+      {results && (
+        <Alert severity={failures > 0 || counts.error > 0 ? 'warning' : 'success'}>
+          {results.filter(result => result.status === 'created').length} créations,{' '}
+          {results.filter(result => result.status === 'updated').length} mises à jour,{' '}
+          {counts.duplicate} doublons ignorés, {counts.error + failures} lignes en erreur.
+        </Alert>
+      )}
+    </Box>
+  );
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Importer des {entityType.pluralLabel.toLowerCase()}</DialogTitle>
+      <DialogContent dividers>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {step === 0 && renderFileStep()}
+        {step === 1 && renderMappingStep()}
+        {step === 2 && renderPlanStep()}
+        {step === 3 && renderImportStep()}
+        {busy && step < 3 && <LinearProgress sx={{ mt: 2 }} />}
+      </DialogContent>
+      <DialogActions>
+        {(counts.error > 0 || failures > 0) && step >= 2 && !busy && (
+          <Button onClick={downloadReport}>Rapport d'erreurs</Button>
+        )}
+        <Box sx={{ flex: 1 }} />
+        {step > 0 && step < 3 && (
+          <Button onClick={() => setStep(step - 1)} disabled={busy}>Retour</Button>
+        )}
+        <Button onClick={handleClose} disabled={busy && step === 3}>
+          {results ? 'Fermer' : 'Annuler'}
+        </Button>
+        {step === 0 && (
+          <Button variant="contained" onClick={() => setStep(1)} disabled={!file}>Suivant</Button>
+        )}
+        {step === 1 && (
+          <Button variant="contained" onClick={handleDryRun} disabled={busy || Object.values(mapping).every(name => !name)}>
+            Vérifier
+          </Button>
+        )}
+        {step === 2 && (
+          <Button
+            variant="contained"
+            color={entityType.color}
+            onClick={handleImport}
+            disabled={counts.create + counts.update === 0}
+          >
+            Importer {counts.create + counts.update} lignes
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,157 @@
+/**
+ * Merge Conflict Dialog Component
+ *
+ * Shown when an update is refused because someone else changed the record
+ * meanwhile. Each field is listed with its original, current (server) and
+ * submitted values; the user picks a side per field before resubmitting.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Radio,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { diffFields, FieldMerge, FieldMergeStatus, mergeFields, MergeChoice, VersionConflict } from '../../services/versioning';
+
+interface MergeConflictDialogProps {
+  open: boolean;
+  conflict: VersionConflict | null;
+  fields: Array<{ name: string; label: string }>;
+  submitting?: boolean;
+  onCancel: () => void;
+  /** Resubmit the merged values on top of the current record */
+  onResolve: (merged: Record<string, unknown>) => void;
+}
+
+const STATUS_LABELS: Record<FieldMergeStatus, { label: string; color: 'default' | 'info' | 'success' | 'warning' }> = {
+  unchanged: { label: 'Inchangé', color: 'default' },
+  theirs: { label: 'Modifié sur le serveur', color: 'info' },
+  mine: { label: 'Modifié par vous', color: 'success' },
+  both: { label: 'Modifications identiques', color: 'default' },
+  conflict: { label: 'Conflit', color: 'warning' },
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null || value === '' ? <em>vide</em> : String(value);
+
+const MergeConflictDialog: React.FC<MergeConflictDialogProps> = ({
+  open,
+  conflict,
+  fields,
+  submitting = false,
+  onCancel,
+  onResolve,
+}) => {
+  const [merges, setMerges] = useState<FieldMerge[]>([]);
+
+  useEffect(() => {
+    setMerges(conflict ? diffFields(conflict, fields.map(field => field.name)) : []);
+  }, [conflict, fields]);
+
+  /**
+   * Keep one side of a field
+   */
+  const choose = (field: string, choice: MergeChoice) => {
+    setMerges(prev => prev.map(merge => (merge.field === field ? { ...merge, choice } : merge)));
+  };
+
+  const conflicts = merges.filter(merge => merge.status === 'conflict').length;
+
+  /**
+   * Side cell with its radio button; sides holding the same value need no choice
+   */
+  const renderSide = (merge: FieldMerge, side: MergeChoice) => {
+    const selectable = merge.status === 'conflict' || merge.status === 'theirs' || merge.status === 'mine';
+    return (
+      <TableCell
+        onClick={selectable ? () => choose(merge.field, side) : undefined}
+        sx={{
+          cursor: selectable ? 'pointer' : 'default',
+          bgcolor: selectable && merge.choice === side ? 'action.selected' : undefined,
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          {selectable && (
+            <Radio size="small" checked={merge.choice === side} inputProps={{ 'aria-label': `${merge.field} ${side}` }} />
+          )}
+          <Typography variant="body2">{formatValue(merge[side])}</Typography>
+        </Box>
+      </TableCell>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="lg" fullWidth>
+      <DialogTitle>Modification concurrente</DialogTitle>
+      <DialogContent dividers>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Cet enregistrement a été modifié par quelqu'un d'autre depuis que vous l'avez ouvert.
+          {conflicts > 0
+            ? ` ${conflicts} champ${conflicts > 1 ? 's ont' : ' a'} été modifié${conflicts > 1 ? 's' : ''} des deux côtés : choisissez la valeur à garder.`
+            : ' Vos modifications ne touchent pas les mêmes champs et peuvent être fusionnées.'}
+        </Alert>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Champ</TableCell>
+                <TableCell>Version d'origine</TableCell>
+                <TableCell>Version du serveur</TableCell>
+                <TableCell>Ma version</TableCell>
+                <TableCell>État</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {merges.map((merge) => {
+                const status = STATUS_LABELS[merge.status];
+                return (
+                  <TableRow key={merge.field} sx={merge.status === 'conflict' ? { bgcolor: 'warning.light' } : undefined}>
+                    <TableCell>
+                      <Typography variant="subtitle2">
+                        {fields.find(field => field.name === merge.field)?.label || merge.field}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">{formatValue(merge.original)}</Typography>
+                    </TableCell>
+                    {renderSide(merge, 'theirs')}
+                    {renderSide(merge, 'mine')}
+                    <TableCell>
+                      <Chip size="small" label={status.label} color={status.color} variant="outlined" />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Annuler</Button>
+        <Button
+          variant="contained"
+          onClick={() => onResolve(mergeFields(merges))}
+          disabled={submitting || merges.length === 0}
+        >
+          {submitting ? 'Enregistrement...' : 'Enregistrer la fusion'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MergeConflictDialog;
@@ -0,0 +1,84 @@
+/**
+ * Relation Picker Component
+ *
+ * Input of a relation field: searches the entities of the target type by
+ * name and keeps the chosen ones as related entities. The relations are
+ * written when the form is saved.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Autocomplete, Chip, TextField } from '@mui/material';
+import { RelatedEntity } from '../../services/entityFields';
+import { EntityField, entityDisplayName, getEntityType } from '../../services/entityTypes';
+
+interface RelationPickerProps {
+  field: EntityField;
+  value: RelatedEntity[];
+  onChange: (value: RelatedEntity[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+const SEARCH_LIMIT = 20;
+
+const RelationPicker: React.FC<RelationPickerProps> = ({ field, value, onChange, error, disabled }) => {
+  const target = getEntityType(field.relation?.target);
+  const multiple = !!field.relation?.multiple;
+  const [input, setInput] = useState('');
+  const [options, setOptions] = useState<RelatedEntity[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!target || disabled) return;
+    let active = true;
+    setLoading(true);
+    target.service.getAll({ filters: input ? { [target.searchFields[0]]: input } : {}, limit: SEARCH_LIMIT })
+      .then(response => {
+        if (!active) return;
+        const data = response.success ? response.data?.data || [] : [];
+        setOptions(data.map(entity => ({
+          id: entity.id,
+          type: target.type,
+          displayName: entityDisplayName(target, entity),
+        })));
+      })
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, [target, input, disabled]);
+
+  return (
+    <Autocomplete<RelatedEntity, boolean>
+      multiple={multiple}
+      options={options}
+      value={multiple ? value : value[0] ?? null}
+      onChange={(_event, selected) =>
+        onChange(Array.isArray(selected) ? selected : selected ? [selected] : [])}
+      onInputChange={(_event, text, reason) => reason === 'input' && setInput(text)}
+      // Options come from the backend search
+      filterOptions={(items) => items}
+      isOptionEqualToValue={(option, selected) => option.id === selected.id}
+      getOptionLabel={(option) => option.displayName}
+      loading={loading}
+      disabled={disabled}
+      noOptionsText={target ? `Aucun(e) ${target.label.toLowerCase()}` : 'Type cible inconnu'}
+      loadingText="Recherche..."
+      renderTags={(selected, getTagProps) => selected.map((option, index) => {
+        const { key, ...tagProps } = getTagProps({ index });
+        return <Chip key={key} label={option.displayName} size="small" {...tagProps} />;
+      })}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={field.label}
+          required={field.required}
+          error={!!error}
+          helperText={error || (target && `${target.pluralLabel} liés par « ${field.relation!.type} »`)}
+        />
+      )}
+    />
+  );
+};
+
+export default RelationPicker;
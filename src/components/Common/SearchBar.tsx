@@ -5,7 +5,7 @@
  * and customizable search behavior.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Autocomplete,
   TextField,
@@ -18,6 +18,7 @@ import {
 } from '@mui/material';
 import { Search, Clear } from '@mui/icons-material';
 import { searchApi, SearchResult } from '../../services/api';
+import { useRateLimit, isCancelled } from '../../services/rateLimiter';
 
 interface SearchBarProps {
   /**
@@ -78,43 +79,48 @@ const SearchBar: React.FC<SearchBarProps> = ({
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [open, setOpen] = useState(false);
-
-  /**
-   * Debounced search function
-   */
-  useEffect(() => {
-    const timeoutId = setTimeout(() => {
-      if (searchValue.trim().length > 2 && enableAutocomplete) {
-        performSearch(searchValue);
-      } else {
-        setSearchResults([]);
-      }
-    }, 300);
-
-    return () => clearTimeout(timeoutId);
-  }, [searchValue, enableAutocomplete]);
+  const { run, cancelAll } = useRateLimit();
 
   /**
    * Perform search using the API
    */
-  const performSearch = async (query: string) => {
+  const performSearch = useCallback(async (query: string) => {
     if (!query.trim()) return;
 
+    // A newer keystroke drops the previous search, queued or in flight
     setLoading(true);
     try {
-      const response = await searchApi.global(query);
+      const response = await run(signal => searchApi.global(query, 20, { signal, priority: 'interactive' }), 'search');
       if (response.success) {
-        setSearchResults(response.data);
+        setSearchResults(response.data || []);
       } else {
         setSearchResults([]);
       }
+      setLoading(false);
     } catch (error) {
+      if (isCancelled(error)) return;
       console.error('Search error:', error);
       setSearchResults([]);
-    } finally {
       setLoading(false);
     }
-  };
+  }, [run]);
+
+  /**
+   * Debounced search function
+   */
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      if (searchValue.trim().length > 2 && enableAutocomplete) {
+        performSearch(searchValue);
+      } else {
+        cancelAll();
+        setLoading(false);
+        setSearchResults([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchValue, enableAutocomplete, performSearch, cancelAll]);
 
   /**
    * Handle search input change
@@ -0,0 +1,390 @@
+/**
+ * Spreadsheet Table Component
+ *
+ * Spreadsheet mode of an entity table: cells are edited in place and
+ * checked with the field validations, the keyboard moves between cells,
+ * ranges are copied and pasted with the clipboard, and edited rows are
+ * saved together. Edits survive paging until they are saved or discarded.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Edit, ErrorOutline, Save, Undo } from '@mui/icons-material';
+import { EntityField, EntityTypeDefinition } from '../../services/entityTypes';
+import { fieldOptions, fieldText, parseFieldValue } from '../../services/entityFields';
+import {
+  CellPosition,
+  CellRange,
+  cellValue,
+  inRange,
+  parseClipboard,
+  pasteCells,
+  rangeBounds,
+  rangeToText,
+  rowChanges,
+  rowErrors,
+  saveDrafts,
+  setCell,
+  SheetDrafts,
+  SheetRowResult,
+} from '../../services/entitySheet';
+
+interface SpreadsheetTableProps<T extends { id: number }> {
+  entityType: EntityTypeDefinition<T>;
+  entities: T[];
+  /** Editable columns, in table order */
+  fields: EntityField[];
+  /** Called after rows were saved, to reload the page */
+  onSaved: () => void;
+  /** Number of edited rows not saved yet */
+  onDirtyChange?: (count: number) => void;
+}
+
+const ORIGIN: CellRange = { anchor: { row: 0, column: 0 }, focus: { row: 0, column: 0 } };
+
+const MOVES: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+function SpreadsheetTable<T extends { id: number }>({
+  entityType,
+  entities,
+  fields,
+  onSaved,
+  onDirtyChange,
+}: SpreadsheetTableProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Closing the editor blurs it, which must not commit a second time
+  const editorClosed = useRef(true);
+  const [drafts, setDrafts] = useState<SheetDrafts>({});
+  // Entities as they were when first edited, so edits of other pages are saved too
+  const [edited, setEdited] = useState<Record<number, T>>({});
+  const [range, setRange] = useState<CellRange>(ORIGIN);
+  const [editing, setEditing] = useState<{ value: string } | null>(null);
+  const [results, setResults] = useState<Record<number, SheetRowResult>>({});
+  const [messages, setMessages] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const dirtyRows = Object.values(edited).filter(entity => Object.keys(rowChanges(fields, entity, drafts[entity.id])).length > 0);
+  const dirtyCells = dirtyRows.reduce((count, entity) => count + Object.keys(rowChanges(fields, entity, drafts[entity.id])).length, 0);
+
+  useEffect(() => {
+    onDirtyChange?.(dirtyRows.length);
+  }, [dirtyRows.length, onDirtyChange]);
+
+  // A new page or a new column set starts again from the first cell
+  useEffect(() => {
+    setRange(ORIGIN);
+    setEditing(null);
+  }, [entities, fields.length]);
+
+  const focus = range.focus;
+  const focusEntity = entities[focus.row];
+  const focusField = fields[focus.column];
+
+  /**
+   * Keep new drafts; rows edited again lose the error of their last save
+   */
+  const updateDrafts = (next: SheetDrafts, touched: T[]) => {
+    const changed = touched.filter(entity => next[entity.id] !== drafts[entity.id]);
+    const ids = changed.map(entity => entity.id);
+    setDrafts(next);
+    setEdited(prev => ({ ...Object.fromEntries(changed.map(entity => [entity.id, entity])), ...prev }));
+    setResults(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.includes(Number(id)))));
+  };
+
+  const moveTo = (position: CellPosition, extend = false) => {
+    const clamped = {
+      row: Math.max(0, Math.min(entities.length - 1, position.row)),
+      column: Math.max(0, Math.min(fields.length - 1, position.column)),
+    };
+    setRange(prev => ({ anchor: extend ? prev.anchor : clamped, focus: clamped }));
+  };
+
+  const startEditing = (value?: string) => {
+    if (!focusEntity || !focusField) return;
+    editorClosed.current = false;
+    const current = cellValue(focusEntity, focusField, drafts);
+    // Lists are edited as text, in the form they are pasted
+    setEditing({ value: value ?? (Array.isArray(current) ? fieldText(focusField, current) : String(current ?? '')) });
+  };
+
+  /**
+   * Keep the edited value, then move by the given offset
+   */
+  const commitEditing = (offset: [number, number] = [0, 0]) => {
+    if (!editing || editorClosed.current || !focusEntity || !focusField) return;
+    editorClosed.current = true;
+    const { value, error } = parseFieldValue(focusField, editing.value);
+    if (error) {
+      setMessages([error]);
+    } else {
+      updateDrafts(setCell(drafts, focusEntity, focusField, value ?? ''), [focusEntity]);
+    }
+    setEditing(null);
+    moveTo({ row: focus.row + offset[0], column: focus.column + offset[1] });
+    containerRef.current?.focus();
+  };
+
+  const cancelEditing = () => {
+    editorClosed.current = true;
+    setEditing(null);
+    containerRef.current?.focus();
+  };
+
+  const clearRange = () => {
+    const { top, bottom, left, right } = rangeBounds(range);
+    let next = drafts;
+    const touched = entities.slice(top, bottom + 1);
+    touched.forEach(entity => fields.slice(left, right + 1).forEach(field => {
+      next = setCell(next, entity, field, '');
+    }));
+    updateDrafts(next, touched);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (editing || entities.length === 0) return;
+    const move = MOVES[event.key];
+    if (move) {
+      event.preventDefault();
+      moveTo({ row: focus.row + move[0], column: focus.column + move[1] }, event.shiftKey);
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      moveTo({ row: focus.row, column: focus.column + (event.shiftKey ? -1 : 1) });
+    } else if (event.key === 'Enter' || event.key === 'F2') {
+      event.preventDefault();
+      startEditing();
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      clearRange();
+    } else if (event.key === 'Escape') {
+      moveTo(focus);
+    } else if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      // Typing replaces the cell content, as in a spreadsheet
+      event.preventDefault();
+      startEditing(event.key);
+    }
+  };
+
+  const handleEditorKeyDown = (event: React.KeyboardEvent) => {
+    event.stopPropagation();
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      commitEditing([event.shiftKey ? -1 : 1, 0]);
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      commitEditing([0, event.shiftKey ? -1 : 1]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      cancelEditing();
+    }
+  };
+
+  const handleCopy = (event: React.ClipboardEvent) => {
+    if (editing) return;
+    event.preventDefault();
+    event.clipboardData.setData('text/plain', rangeToText(entities, fields, drafts, range));
+  };
+
+  const handlePaste = (event: React.ClipboardEvent) => {
+    if (editing) return;
+    event.preventDefault();
+    const cells = parseClipboard(event.clipboardData.getData('text/plain'));
+    const pasted = pasteCells(entityType, entities, fields, drafts, range, cells);
+    updateDrafts(pasted.drafts, entities.slice(rangeBounds(range).top));
+    setMessages(pasted.errors);
+  };
+
+  const handleDiscard = () => {
+    setDrafts({});
+    setEdited({});
+    setResults({});
+    setMessages([]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setProgress(0);
+    setMessages([]);
+    try {
+      const saved = await saveDrafts(entityType, dirtyRows, drafts, {
+        onProgress: (done, total) => setProgress((done / total) * 100),
+      });
+      const savedIds = Object.keys(saved).map(Number).filter(id => saved[id].status === 'saved');
+      setDrafts(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !savedIds.includes(Number(id)))));
+      setEdited(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !savedIds.includes(Number(id)))) as Record<number, T>);
+      setResults(saved);
+      if (savedIds.length > 0) onSaved();
+    } catch (err) {
+      console.error('Spreadsheet save error:', err);
+      setMessages([err instanceof Error ? err.message : 'Erreur lors de l\'enregistrement']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const failedCount = Object.values(results).filter(result => result.status === 'failed').length;
+  const savedCount = Object.values(results).length - failedCount;
+
+  const renderEditor = (field: EntityField) => {
+    const commonProps = {
+      autoFocus: true,
+      fullWidth: true,
+      size: 'small' as const,
+      variant: 'standard' as const,
+      value: editing?.value ?? '',
+      onChange: (e: React.ChangeEvent<HTMLInputElement>) => setEditing({ value: e.target.value }),
+      onKeyDown: handleEditorKeyDown,
+      onBlur: () => commitEditing(),
+    };
+    const options = field.type === 'multiselect' ? undefined : fieldOptions(field);
+    if (options) {
+      return (
+        <TextField {...commonProps} select SelectProps={{ native: true }}>
+          <option value="" />
+          {options.map(option => (
+            <option key={String(option.value)} value={String(option.value)}>{option.label}</option>
+          ))}
+        </TextField>
+      );
+    }
+    return <TextField {...commonProps} type={field.type === 'number' || field.type === 'date' ? field.type : 'text'} />;
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', p: 2 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+          Flèches pour se déplacer, Entrée ou saisie directe pour modifier, Maj+flèches pour sélectionner,
+          Ctrl+C / Ctrl+V pour copier et coller
+        </Typography>
+        {dirtyCells > 0 && (
+          <Chip
+            icon={<Edit />}
+            label={`${dirtyCells} cellule${dirtyCells > 1 ? 's' : ''} modifiée${dirtyCells > 1 ? 's' : ''}`}
+            color="warning"
+            variant="outlined"
+            size="small"
+          />
+        )}
+        <Button startIcon={<Undo />} onClick={handleDiscard} disabled={saving || dirtyRows.length === 0}>
+          Annuler les modifications
+        </Button>
+        <Button
+          variant="contained"
+          startIcon={<Save />}
+          onClick={handleSave}
+          disabled={saving || dirtyRows.length === 0}
+          color={entityType.color}
+        >
+          Enregistrer{dirtyRows.length > 0 ? ` (${dirtyRows.length} ligne${dirtyRows.length > 1 ? 's' : ''})` : ''}
+        </Button>
+      </Box>
+      {saving && <LinearProgress variant="determinate" value={progress} />}
+      {messages.length > 0 && (
+        <Alert severity="warning" onClose={() => setMessages([])} sx={{ mx: 2, mb: 2 }}>
+          {messages.map((message, index) => <div key={index}>{message}</div>)}
+        </Alert>
+      )}
+      {Object.keys(results).length > 0 && !saving && (
+        <Alert severity={failedCount > 0 ? 'error' : 'success'} onClose={() => setResults({})} sx={{ mx: 2, mb: 2 }}>
+          {savedCount} ligne{savedCount > 1 ? 's' : ''} enregistrée{savedCount > 1 ? 's' : ''}
+          {failedCount > 0 && `, ${failedCount} en erreur (marquée${failedCount > 1 ? 's' : ''} dans le tableau)`}
+        </Alert>
+      )}
+
+      <Box
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onCopy={handleCopy}
+        onPaste={handlePaste}
+        sx={{ outline: 'none', userSelect: 'none' }}
+      >
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              {fields.map(field => (
+                <TableCell key={field.name}>{field.label}</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entities.map((entity, row) => {
+              const draft = drafts[entity.id];
+              const errors = { ...results[entity.id]?.fieldErrors, ...rowErrors(fields, entity, draft) };
+              const failure = results[entity.id]?.status === 'failed' ? results[entity.id].message : undefined;
+              const changes = rowChanges(fields, entity, draft);
+              return (
+                <TableRow key={entity.id}>
+                  <TableCell padding="checkbox">
+                    {failure || Object.keys(errors).length > 0 ? (
+                      <Tooltip title={failure || Object.values(errors).join(' ; ')}>
+                        <ErrorOutline color="error" fontSize="small" />
+                      </Tooltip>
+                    ) : Object.keys(changes).length > 0 && (
+                      <Tooltip title="Ligne modifiée, non enregistrée">
+                        <Edit color="warning" fontSize="small" />
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                  {fields.map((field, column) => {
+                    const position = { row, column };
+                    const active = focus.row === row && focus.column === column;
+                    const selected = inRange(range, position);
+                    const error = errors[field.name];
+                    return (
+                      <TableCell
+                        key={field.name}
+                        onMouseDown={(e) => { if (!(editing && active)) moveTo(position, e.shiftKey); }}
+                        onMouseEnter={(e) => { if (e.buttons === 1 && !editing) moveTo(position, true); }}
+                        onDoubleClick={() => startEditing()}
+                        sx={{
+                          cursor: 'cell',
+                          bgcolor: selected ? 'action.selected' : undefined,
+                          outline: active ? 2 : 0,
+                          outlineColor: 'primary.main',
+                          outlineOffset: -2,
+                          boxShadow: field.name in changes ? (theme) => `inset 3px 0 ${theme.palette.warning.main}` : undefined,
+                          borderBottom: error ? 2 : undefined,
+                          borderBottomColor: error ? 'error.main' : undefined,
+                        }}
+                      >
+                        {editing && active ? renderEditor(field) : (
+                          <Tooltip title={error || ''}>
+                            <span>{fieldText(field, cellValue(entity, field, drafts))}</span>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </Box>
+    </Box>
+  );
+}
+
+export default SpreadsheetTable;
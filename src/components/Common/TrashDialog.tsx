@@ -0,0 +1,182 @@
+/**
+ * Trash Dialog Component
+ *
+ * Lists the entities recently deleted, of one type or of all types, with
+ * the relations captured when they were deleted. Restoring recreates the
+ * entity and its relations; forgetting an entry makes the deletion final.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { DeleteForever, RestoreFromTrash } from '@mui/icons-material';
+import { emptyTrash, getTrash, restoreEntry, TrashEntry } from '../../services/entityTrash';
+import { EntityTypeDefinition, getEntityType } from '../../services/entityTypes';
+import { getRelationType } from '../../services/relationTypes';
+import useAuth from '../../hooks/useAuth';
+
+interface TrashDialogProps {
+  open: boolean;
+  /** Type whose entries are listed, all types when left out */
+  entityType?: EntityTypeDefinition;
+  onClose: () => void;
+  /** Called after an entity was restored */
+  onRestored?: () => void;
+}
+
+const TrashDialog: React.FC<TrashDialogProps> = ({ open, entityType, onClose, onRestored }) => {
+  const { can } = useAuth();
+  const canRestore = can('entity:create') && can('relation:create');
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [result, setResult] = useState<{ severity: 'success' | 'warning' | 'error'; messages: string[] } | null>(null);
+
+  const refresh = () => setEntries(getTrash(entityType?.type));
+
+  useEffect(() => {
+    if (open) {
+      setEntries(getTrash(entityType?.type));
+      setResult(null);
+    }
+  }, [open, entityType]);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setRestoring(entry.key);
+    try {
+      const restored = await restoreEntry(entry.key);
+      setResult(restored.errors.length > 0
+        ? { severity: 'warning', messages: [`${entry.displayName} restauré(e), certaines relations manquent :`, ...restored.errors] }
+        : { severity: 'success', messages: [`${entry.displayName} restauré(e) avec ${restored.restored} relation(s)`] });
+      onRestored?.();
+    } catch (err) {
+      setResult({ severity: 'error', messages: [err instanceof Error ? err.message : 'Restauration impossible'] });
+    } finally {
+      setRestoring(null);
+      refresh();
+    }
+  };
+
+  const handleForget = (keys: string[], question: string) => {
+    if (!window.confirm(question)) return;
+    emptyTrash(keys);
+    refresh();
+  };
+
+  // Read from the side of the deleted entity
+  const relationLabel = ({ direction, type, other }: TrashEntry['relations'][number]) => {
+    const relationType = getRelationType(type);
+    return `${direction === 'outgoing' ? relationType.label : relationType.inverseLabel} ${other.displayName}`;
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Corbeille{entityType ? ` des ${entityType.pluralLabel.toLowerCase()}` : ''}
+      </DialogTitle>
+      <DialogContent dividers>
+        {result && (
+          <Alert severity={result.severity} onClose={() => setResult(null)} sx={{ mb: 2 }}>
+            {result.messages.map(message => (
+              <Typography key={message} variant="body2">{message}</Typography>
+            ))}
+          </Alert>
+        )}
+        {entries.length === 0 ? (
+          <Typography color="text.secondary">La corbeille est vide.</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Nom</TableCell>
+                {!entityType && <TableCell>Type</TableCell>}
+                <TableCell>Supprimé le</TableCell>
+                <TableCell>Relations</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.key}>
+                  <TableCell>{entry.displayName}</TableCell>
+                  {!entityType && <TableCell>{getEntityType(entry.type)?.label || entry.type}</TableCell>}
+                  <TableCell>{new Date(entry.deletedAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                      {entry.relations.length === 0 && (
+                        <Typography variant="body2" color="text.secondary">Aucune</Typography>
+                      )}
+                      {entry.relations.map(relation => (
+                        <Chip
+                          key={`${relation.direction}:${relation.type}:${relation.other.type}:${relation.other.id}`}
+                          label={relationLabel(relation)}
+                          size="small"
+                          variant="outlined"
+                        />
+                      ))}
+                    </Box>
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Restaurer">
+                      <span>
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={() => handleRestore(entry)}
+                          disabled={!canRestore || restoring !== null}
+                        >
+                          <RestoreFromTrash />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Supprimer définitivement">
+                      <span>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => handleForget([entry.key], `Supprimer définitivement "${entry.displayName}" ? Il ne pourra plus être restauré.`)}
+                          disabled={restoring !== null}
+                        >
+                          <DeleteForever />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {entries.length > 0 && (
+          <Button
+            color="error"
+            onClick={() => handleForget(entries.map(entry => entry.key), `Vider la corbeille ? ${entries.length} entité(s) ne pourront plus être restaurées.`)}
+            disabled={restoring !== null}
+          >
+            Vider la corbeille
+          </Button>
+        )}
+        <Button onClick={onClose}>Fermer</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TrashDialog;
@@ -0,0 +1,64 @@
+/**
+ * Undo Delete Snackbar Component
+ *
+ * Shown after entities went to the trash, with an action restoring them
+ * straight away.
+ */
+
+import React, { useState } from 'react';
+import { Button, Snackbar } from '@mui/material';
+import { restoreEntry, TrashEntry } from '../../services/entityTrash';
+
+interface UndoDeleteSnackbarProps {
+  /** Entries of the last deletion, none when there is nothing to undo */
+  entries: TrashEntry[];
+  onClose: () => void;
+  /** Called once the entries were restored, with the messages of what failed */
+  onRestored: (errors: string[]) => void;
+}
+
+const AUTO_HIDE_MS = 8000;
+
+const UndoDeleteSnackbar: React.FC<UndoDeleteSnackbarProps> = ({ entries, onClose, onRestored }) => {
+  const [restoring, setRestoring] = useState(false);
+
+  const handleUndo = async () => {
+    setRestoring(true);
+    const errors: string[] = [];
+    // One after the other, so that relations between them are handed over
+    for (const entry of entries) {
+      try {
+        const result = await restoreEntry(entry.key);
+        errors.push(...result.errors.map(message => `${entry.displayName} : ${message}`));
+      } catch (err) {
+        errors.push(`${entry.displayName} : ${err instanceof Error ? err.message : 'restauration impossible'}`);
+      }
+    }
+    setRestoring(false);
+    onClose();
+    onRestored(errors);
+  };
+
+  const message = entries.length === 1
+    ? `« ${entries[0].displayName} » placé(e) dans la corbeille`
+    : `${entries.length} entités placées dans la corbeille`;
+
+  return (
+    <Snackbar
+      open={entries.length > 0}
+      autoHideDuration={restoring ? null : AUTO_HIDE_MS}
+      onClose={(_, reason) => {
+        if (reason !== 'clickaway' && !restoring) onClose();
+      }}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      message={message}
+      action={(
+        <Button color="secondary" size="small" onClick={handleUndo} disabled={restoring}>
+          {restoring ? 'Restauration...' : 'Annuler'}
+        </Button>
+      )}
+    />
+  );
+};
+
+export default UndoDeleteSnackbar;
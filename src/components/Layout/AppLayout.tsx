@@ -30,18 +30,17 @@ import {
   MusicNote,
   Search,
   Dashboard,
-  Category,
-  Language,
-  LocationOn,
-  Build,
-  Palette,
-  Person,
-  AccountBalance,
   Timeline,
   Assessment,
-  TouchApp,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
+import EnvironmentSwitcher from './EnvironmentSwitcher';
+import QueueInspector from './QueueInspector';
+import ConnectionStatus from './ConnectionStatus';
+import SchemaInspector from './SchemaInspector';
+import UserMenu from './UserMenu';
+import useEnvironmentProfile from '../../hooks/useEnvironmentProfile';
+import { ENTITY_TYPE_LIST } from '../../services/entityTypes';
 
 // Drawer width configuration
 const DRAWER_WIDTH = 280;
@@ -60,60 +59,12 @@ const navigationItems = [
     path: '/search',
     description: 'Recherche avancée',
   },
-  {
-    text: 'Instruments',
-    icon: <MusicNote />,
-    path: '/instruments',
-    description: 'Gestion des instruments',
-  },
-  {
-    text: 'Familles',
-    icon: <Category />,
-    path: '/familles',
-    description: 'Familles d\'instruments',
-  },
-  {
-    text: 'Groupes Ethniques',
-    icon: <Language />,
-    path: '/groupes-ethniques',
-    description: 'Groupes ethniques',
-  },
-  {
-    text: 'Localités',
-    icon: <LocationOn />,
-    path: '/localites',
-    description: 'Localités géographiques',
-  },
-  {
-    text: 'Matériaux',
-    icon: <Build />,
-    path: '/materiaux',
-    description: 'Matériaux de construction',
-  },
-  {
-    text: 'Timbres',
-    icon: <Palette />,
-    path: '/timbres',
-    description: 'Timbres sonores',
-  },
-  {
-    text: 'Techniques',
-    icon: <TouchApp />,
-    path: '/techniques',
-    description: 'Techniques de jeu',
-  },
-  {
-    text: 'Artisans',
-    icon: <Person />,
-    path: '/artisans',
-    description: 'Artisans fabricants',
-  },
-  {
-    text: 'Patrimoine',
-    icon: <AccountBalance />,
-    path: '/patrimoines',
-    description: 'Patrimoine culturel',
-  },
+  ...ENTITY_TYPE_LIST.map(({ menuLabel, icon: Icon, route, description }) => ({
+    text: menuLabel,
+    icon: <Icon />,
+    path: route,
+    description,
+  })),
   {
     text: 'Relations',
     icon: <Timeline />,
@@ -141,6 +92,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const isMobile = useMediaQuery(theme.breakpoints.down('lg'));
+  const { activeProfile } = useEnvironmentProfile();
 
   /**
    * Handle drawer toggle for mobile view
@@ -269,7 +221,12 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
             Ontologie des Instruments de Musique
           </Typography>
 
-          {/* Additional header actions can be added here */}
+          {/* Connectivity, request queue, backend environment profile and user */}
+          <ConnectionStatus />
+          {import.meta.env.DEV && <SchemaInspector />}
+          <QueueInspector />
+          <EnvironmentSwitcher />
+          <UserMenu />
         </Toolbar>
       </AppBar>
 
@@ -326,8 +283,8 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
         {/* Toolbar spacer */}
         <Toolbar />
         
-        {/* Page content */}
-        <Box sx={{ p: 3 }}>
+        {/* Page content - remounted on profile switch so pages reload from the new backend */}
+        <Box key={activeProfile.id} sx={{ p: 3 }}>
           {children}
         </Box>
       </Box>
@@ -0,0 +1,135 @@
+/**
+ * Connection Status Component
+ *
+ * Header control showing whether the backend is reachable, the mutations
+ * waiting in the offline outbox and the ones the backend refused on replay.
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+  Popover,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { CloudDone, CloudOff, CloudSync, ErrorOutline } from '@mui/icons-material';
+import useOfflineStatus from '../../hooks/useOfflineStatus';
+import { offlineSync } from '../../services/offlineSync';
+import { OutboxKind } from '../../services/offlineDb';
+
+const KIND_LABELS: Record<OutboxKind, string> = {
+  create: 'Création',
+  update: 'Modification',
+  delete: 'Suppression',
+  'relation-create': 'Création de relation',
+  'relation-delete': 'Suppression de relation',
+};
+
+/**
+ * Online/offline/sync indicator displayed in the application bar
+ */
+const ConnectionStatus: React.FC = () => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const { online, syncing, pending, conflicts, lastSyncAt } = useOfflineStatus();
+
+  let chip: { label: string; color: 'success' | 'warning' | 'error' | 'info'; icon: React.ReactElement };
+  if (syncing) {
+    chip = { label: 'Synchronisation…', color: 'info', icon: <CloudSync /> };
+  } else if (conflicts.length > 0) {
+    chip = { label: `${conflicts.length} conflit${conflicts.length > 1 ? 's' : ''}`, color: 'error', icon: <ErrorOutline /> };
+  } else if (!online) {
+    chip = { label: pending > 0 ? `Hors ligne · ${pending} en attente` : 'Hors ligne', color: 'warning', icon: <CloudOff /> };
+  } else if (pending > 0) {
+    chip = { label: `${pending} en attente`, color: 'info', icon: <CloudSync /> };
+  } else {
+    chip = { label: 'En ligne', color: 'success', icon: <CloudDone /> };
+  }
+
+  return (
+    <>
+      <Tooltip title="État de la connexion">
+        <Chip
+          size="small"
+          icon={chip.icon}
+          label={chip.label}
+          color={chip.color}
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          sx={{ mr: 1 }}
+        />
+      </Tooltip>
+
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box sx={{ p: 2, minWidth: 360, maxWidth: 480 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            Mode hors ligne
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {online ? 'Serveur joignable' : 'Serveur injoignable : les listes affichées proviennent de la copie locale'}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {pending} modification{pending > 1 ? 's' : ''} en attente
+            {lastSyncAt && ` · dernière synchronisation à ${new Date(lastSyncAt).toLocaleTimeString()}`}
+          </Typography>
+
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<CloudSync />}
+            disabled={syncing || pending === 0}
+            onClick={() => offlineSync.sync()}
+            sx={{ mt: 1 }}
+          >
+            Synchroniser maintenant
+          </Button>
+
+          {conflicts.length > 0 && (
+            <>
+              <Divider sx={{ my: 2 }} />
+              <Typography variant="subtitle2" gutterBottom>
+                Modifications refusées par le serveur
+              </Typography>
+              <List dense disablePadding>
+                {conflicts.map((entry) => (
+                  <ListItem
+                    key={entry.id}
+                    disableGutters
+                    secondaryAction={
+                      <>
+                        <Button size="small" onClick={() => offlineSync.retry(entry.id!)}>
+                          Réessayer
+                        </Button>
+                        <Button size="small" color="error" onClick={() => offlineSync.discard(entry.id!)}>
+                          Abandonner
+                        </Button>
+                      </>
+                    }
+                  >
+                    <ListItemText
+                      primary={`${KIND_LABELS[entry.kind]} · ${entry.entityType || entry.relation?.relationType || entry.endpoint}`}
+                      secondary={entry.error}
+                      sx={{ pr: 20 }}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )}
+        </Box>
+      </Popover>
+    </>
+  );
+};
+
+export default ConnectionStatus;
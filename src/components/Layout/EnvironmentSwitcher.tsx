@@ -0,0 +1,91 @@
+/**
+ * Environment Switcher Component
+ *
+ * Header control to select the backend environment profile.
+ * The switch is applied to the API client at runtime, without a rebuild.
+ */
+
+import React, { useState } from 'react';
+import {
+  Button,
+  CircularProgress,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Snackbar,
+  Alert,
+  Tooltip,
+} from '@mui/material';
+import { Check, Storage } from '@mui/icons-material';
+import useEnvironmentProfile from '../../hooks/useEnvironmentProfile';
+
+/**
+ * Backend environment selector displayed in the application bar
+ */
+const EnvironmentSwitcher: React.FC = () => {
+  const { profiles, activeProfile, switching, error, clearError, switchProfile } = useEnvironmentProfile();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  /**
+   * Handle profile selection
+   */
+  const handleSelect = async (profileId: string) => {
+    setAnchorEl(null);
+    await switchProfile(profileId);
+  };
+
+  return (
+    <>
+      <Tooltip title={activeProfile.apiBaseUrl}>
+        <span>
+          <Button
+            color="inherit"
+            size="small"
+            onClick={(e) => setAnchorEl(e.currentTarget)}
+            disabled={switching}
+            startIcon={switching ? <CircularProgress size={16} color="inherit" /> : <Storage />}
+            sx={{ textTransform: 'none' }}
+          >
+            {activeProfile.label}
+          </Button>
+        </span>
+      </Tooltip>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+      >
+        {profiles.map((profile) => (
+          <MenuItem
+            key={profile.id}
+            selected={profile.id === activeProfile.id}
+            onClick={() => handleSelect(profile.id)}
+          >
+            <ListItemIcon>
+              {profile.id === activeProfile.id && <Check fontSize="small" />}
+            </ListItemIcon>
+            <ListItemText
+              primary={profile.label}
+              secondary={profile.description || profile.apiBaseUrl}
+            />
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Snackbar
+        open={!!error}
+        autoHideDuration={6000}
+        onClose={clearError}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="error" onClose={clearError} sx={{ width: '100%' }}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default EnvironmentSwitcher;
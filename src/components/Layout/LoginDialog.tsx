@@ -0,0 +1,119 @@
+/**
+ * Login Dialog Component
+ *
+ * Sign-in form for the active backend profile. On the demonstration profile
+ * it lists the stand-in accounts of the mock backend.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { authService } from '../../services/auth';
+import { isMockBaseUrl } from '../../services/runtimeConfig';
+import { MOCK_USERS } from '../../services/mockData';
+import { ROLE_LABELS } from '../../services/permissions';
+import useEnvironmentProfile from '../../hooks/useEnvironmentProfile';
+
+interface LoginDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Explain that the previous session could not be renewed */
+  expired?: boolean;
+}
+
+const LoginDialog: React.FC<LoginDialogProps> = ({ open, onClose, expired = false }) => {
+  const { activeProfile } = useEnvironmentProfile();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPassword('');
+      setError(null);
+    }
+  }, [open]);
+
+  /**
+   * Submit the credentials
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const response = await authService.login(username.trim(), password);
+    setSubmitting(false);
+
+    if (response.success) {
+      onClose();
+    } else {
+      setError(response.apiError?.kind === 'unauthorized'
+        ? 'Identifiant ou mot de passe incorrect'
+        : response.error || 'Connexion impossible');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <Box component="form" onSubmit={handleSubmit}>
+        <DialogTitle>Connexion · {activeProfile.label}</DialogTitle>
+        <DialogContent>
+          {expired && !error && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Votre session a expiré, veuillez vous reconnecter.
+            </Alert>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <TextField
+            label="Identifiant"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            fullWidth
+            required
+            margin="normal"
+          />
+          <TextField
+            label="Mot de passe"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            fullWidth
+            required
+            margin="normal"
+          />
+          {isMockBaseUrl(activeProfile.apiBaseUrl) && (
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 1 }}>
+              Comptes de démonstration (mot de passe identique à l'identifiant) :{' '}
+              {MOCK_USERS.map(user => `${user.username} (${ROLE_LABELS[user.role]})`).join(', ')}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Annuler</Button>
+          <Button type="submit" variant="contained" disabled={submitting || !username.trim() || !password}>
+            {submitting ? 'Connexion...' : 'Se connecter'}
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default LoginDialog;
@@ -0,0 +1,119 @@
+/**
+ * Queue Inspector Component
+ *
+ * Header control showing the requests waiting in the rate limiter,
+ * their priority lane and the reason they have not started yet.
+ */
+
+import React, { useState } from 'react';
+import {
+  Badge,
+  Box,
+  Chip,
+  IconButton,
+  Popover,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { HourglassEmpty } from '@mui/icons-material';
+import useRequestQueue from '../../hooks/useRequestQueue';
+import { RequestPriority, WaitReason } from '../../services/rateLimiter';
+
+const PRIORITY_LABELS: Record<RequestPriority, { label: string; color: 'primary' | 'default' | 'secondary' }> = {
+  interactive: { label: 'Interactive', color: 'primary' },
+  normal: { label: 'Normale', color: 'default' },
+  background: { label: 'Arrière-plan', color: 'secondary' },
+};
+
+const REASON_LABELS: Record<WaitReason, string> = {
+  'retry-backoff': 'Nouvelle tentative planifiée',
+  paused: 'Pause après limitation du serveur',
+  concurrency: 'Toutes les connexions sont occupées',
+  priority: 'Derrière des requêtes prioritaires',
+  spacing: 'Espacement entre requêtes',
+};
+
+/**
+ * Request queue inspector displayed in the application bar
+ */
+const QueueInspector: React.FC = () => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const { status, entries } = useRequestQueue(Boolean(anchorEl));
+
+  return (
+    <>
+      <Tooltip title="File des requêtes">
+        <IconButton color="inherit" onClick={(e) => setAnchorEl(e.currentTarget)}>
+          <Badge badgeContent={entries.length} color="warning" max={99}>
+            <HourglassEmpty />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box sx={{ p: 2, minWidth: 420 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            File des requêtes
+          </Typography>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {status.activeRequests}/{status.maxConcurrent} en cours · {entries.length} en attente
+            {status.slowdown > 1 && ` · ralenti ×${status.slowdown.toFixed(1)}`}
+          </Typography>
+
+          {entries.length === 0 ? (
+            <Typography variant="body2" sx={{ mt: 2 }}>
+              Aucune requête en attente
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Requête</TableCell>
+                  <TableCell>Priorité</TableCell>
+                  <TableCell>Attente</TableCell>
+                  <TableCell>Raison</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {entries.map((entry, index) => (
+                  <TableRow key={`${entry.id}-${index}`}>
+                    <TableCell>
+                      {entry.id}
+                      {entry.attempt > 0 && ` (essai ${entry.attempt + 1})`}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={PRIORITY_LABELS[entry.effectivePriority].label}
+                        color={PRIORITY_LABELS[entry.effectivePriority].color}
+                        variant={entry.effectivePriority !== entry.priority ? 'outlined' : 'filled'}
+                      />
+                    </TableCell>
+                    <TableCell>{(entry.waitedMs / 1000).toFixed(1)} s</TableCell>
+                    <TableCell>
+                      {REASON_LABELS[entry.reason]}
+                      {entry.retryAt && ` (${Math.max(0, Math.ceil((entry.retryAt - Date.now()) / 1000))} s)`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Box>
+      </Popover>
+    </>
+  );
+};
+
+export default QueueInspector;
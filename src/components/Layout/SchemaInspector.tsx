@@ -0,0 +1,100 @@
+/**
+ * Schema Inspector Component
+ *
+ * Developer panel listing the backend responses that did not match their
+ * declared schema. Only rendered in development builds.
+ */
+
+import React, { useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  IconButton,
+  Popover,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { DataObject } from '@mui/icons-material';
+import useSchemaReports from '../../hooks/useSchemaReports';
+import { schemaMonitor } from '../../services/schemaMonitor';
+
+/**
+ * Schema mismatch panel displayed in the application bar
+ */
+const SchemaInspector: React.FC = () => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const reports = useSchemaReports();
+
+  return (
+    <>
+      <Tooltip title="Contrôle des schémas de réponse">
+        <IconButton color="inherit" onClick={(e) => setAnchorEl(e.currentTarget)}>
+          <Badge badgeContent={reports.length} color="error" max={99}>
+            <DataObject />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box sx={{ p: 2, minWidth: 520, maxWidth: 720, maxHeight: 560, overflow: 'auto' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="subtitle1">Écarts de schéma</Typography>
+            <Button size="small" disabled={reports.length === 0} onClick={() => schemaMonitor.clear()}>
+              Effacer
+            </Button>
+          </Box>
+
+          {reports.length === 0 ? (
+            <Typography variant="body2">
+              Toutes les réponses reçues correspondent à leur schéma
+            </Typography>
+          ) : (
+            reports.map((report) => (
+              <Box key={report.key} sx={{ mb: 2 }}>
+                <Typography variant="body2" sx={{ fontFamily: 'monospace', fontWeight: 600 }}>
+                  {report.key}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {report.occurrences} réponse{report.occurrences > 1 ? 's' : ''} · {report.totalIssues} écart{report.totalIssues > 1 ? 's' : ''}
+                  {' '}· dernière à {new Date(report.lastSeenAt).toLocaleTimeString()}
+                </Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Chemin</TableCell>
+                      <TableCell>Attendu</TableCell>
+                      <TableCell>Reçu</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {report.issues.map((issue, index) => (
+                      <TableRow key={`${issue.path}-${index}`}>
+                        <TableCell sx={{ fontFamily: 'monospace' }}>{issue.path}</TableCell>
+                        <TableCell>{issue.expected}</TableCell>
+                        <TableCell>{issue.received}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            ))
+          )}
+        </Box>
+      </Popover>
+    </>
+  );
+};
+
+export default SchemaInspector;
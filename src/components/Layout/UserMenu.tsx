@@ -0,0 +1,87 @@
+/**
+ * User Menu Component
+ *
+ * Header control showing the signed-in user and their role, with the login
+ * and logout actions. The login dialog opens by itself when a session
+ * could not be renewed.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Chip,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+} from '@mui/material';
+import { AccountCircle, Login, Logout } from '@mui/icons-material';
+import LoginDialog from './LoginDialog';
+import useAuth from '../../hooks/useAuth';
+import { authService } from '../../services/auth';
+import { ROLE_LABELS } from '../../services/permissions';
+
+/**
+ * Current user and session actions displayed in the application bar
+ */
+const UserMenu: React.FC = () => {
+  const { user, expired } = useAuth();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [loginOpen, setLoginOpen] = useState(false);
+
+  useEffect(() => {
+    if (expired) {
+      setLoginOpen(true);
+    }
+  }, [expired]);
+
+  /**
+   * Close the menu and end the session
+   */
+  const handleLogout = async () => {
+    setAnchorEl(null);
+    await authService.logout();
+  };
+
+  return (
+    <>
+      {user ? (
+        <Chip
+          icon={<AccountCircle />}
+          label={`${user.displayName || user.username} · ${ROLE_LABELS[user.role]}`}
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          size="small"
+          sx={{ ml: 1, color: 'inherit', borderColor: 'currentColor' }}
+          variant="outlined"
+        />
+      ) : (
+        <Button
+          color="inherit"
+          size="small"
+          startIcon={<Login />}
+          onClick={() => setLoginOpen(true)}
+          sx={{ ml: 1, textTransform: 'none' }}
+        >
+          Se connecter
+        </Button>
+      )}
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+      >
+        <MenuItem onClick={handleLogout}>
+          <ListItemIcon>
+            <Logout fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Se déconnecter" secondary={user?.username} />
+        </MenuItem>
+      </Menu>
+
+      <LoginDialog open={loginOpen} onClose={() => setLoginOpen(false)} expired={expired} />
+    </>
+  );
+};
+
+export default UserMenu;
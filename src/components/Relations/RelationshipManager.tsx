@@ -53,141 +53,22 @@ import {
   Delete,
   Visibility,
   AccountTree,
-  TrendingUp,
-  Language,
-  MusicNote,
   Category,
-  LocationOn,
-  Build,
-  Palette,
-  Person,
-  AccountBalance,
   Link,
   LinkOff,
 } from '@mui/icons-material';
+import useEntityStore from '../../hooks/useEntityStore';
+import useAuth from '../../hooks/useAuth';
+import useRelationTypes from '../../hooks/useRelationTypes';
 import LoadingSpinner from '../Common/LoadingSpinner';
 import ErrorMessage from '../Common/ErrorMessage';
 import { 
   relationsApi, 
-  instrumentsApi,
-  famillesApi,
-  groupesEthniquesApi,
-  localitesApi,
-  materiauxApi,
-  timbresApi,
-  techniquesApi,
-  artisansApi,
-  patrimoinesApi,
   Relation,
   RelationResult 
 } from '../../services/api';
-
-// Relation type definitions with their constraints - Updated for new cardinality
-const RELATION_TYPES = {
-  'appartientA': {
-    label: 'Appartient à',
-    description: 'Plusieurs instruments appartiennent à une famille (N:1)',
-    from: ['Instrument'],
-    to: ['Famille'],
-    cardinality: 'N:1',
-    icon: <Category />,
-    color: 'primary',
-  },
-  'utilisePar': {
-    label: 'Utilisé par',
-    description: 'Un instrument peut être utilisé par plusieurs groupes ethniques (N:N)',
-    from: ['Instrument'],
-    to: ['GroupeEthnique'],
-    cardinality: 'N:N',
-    icon: <Language />,
-    color: 'secondary',
-  },
-  'produitRythme': {
-    label: 'Produit rythme',
-    description: 'Un instrument peut produire plusieurs rythmes (N:N)',
-    from: ['Instrument'],
-    to: ['Rythme'],
-    cardinality: 'N:N',
-    icon: <TrendingUp />,
-    color: 'success',
-  },
-  'localiseA': {
-    label: 'Localisé à',
-    description: 'Une entité peut être présente dans plusieurs localités (N:N)',
-    from: ['Instrument', 'GroupeEthnique', 'Rythme'],
-    to: ['Localite'],
-    cardinality: 'N:N',
-    icon: <LocationOn />,
-    color: 'info',
-  },
-  'constitueDe': {
-    label: 'Constitué de',
-    description: 'Un instrument peut être constitué de plusieurs matériaux (1:N)',
-    from: ['Instrument'],
-    to: ['Materiau'],
-    cardinality: '1:N',
-    icon: <Build />,
-    color: 'warning',
-  },
-  'joueAvec': {
-    label: 'Joué avec',
-    description: 'Un instrument peut être joué avec plusieurs techniques (1:N)',
-    from: ['Instrument'],
-    to: ['TechniqueDeJeu'],
-    cardinality: '1:N',
-    icon: <Palette />,
-    color: 'error',
-  },
-  'fabrique': {
-    label: 'Fabriqué par',
-    description: 'Un artisan peut fabriquer plusieurs instruments (N:N)',
-    from: ['Artisan'],
-    to: ['Instrument'],
-    cardinality: 'N:N',
-    icon: <Person />,
-    color: 'primary',
-  },
-  'caracterise': {
-    label: 'Caractérisé par',
-    description: 'Un instrument peut avoir plusieurs timbres (N:N)',
-    from: ['Timbre'],
-    to: ['Instrument'],
-    cardinality: 'N:N',
-    icon: <MusicNote />,
-    color: 'secondary',
-  },
-  'appliqueA': {
-    label: 'S\'applique à',
-    description: 'Une technique peut s\'appliquer à plusieurs instruments (N:N)',
-    from: ['TechniqueDeJeu'],
-    to: ['Instrument'],
-    cardinality: 'N:N',
-    icon: <Palette />,
-    color: 'info',
-  },
-  'englobe': {
-    label: 'Englobe',
-    description: 'Un patrimoine englobe plusieurs éléments culturels (1:N)',
-    from: ['PatrimoineCulturel'],
-    to: ['Instrument', 'GroupeEthnique', 'Rythme'],
-    cardinality: '1:N',
-    icon: <AccountBalance />,
-    color: 'success',
-  },
-};
-
-// Entity type services mapping
-const ENTITY_SERVICES = {
-  'Instrument': instrumentsApi,
-  'Famille': famillesApi,
-  'GroupeEthnique': groupesEthniquesApi,
-  'Localite': localitesApi,
-  'Materiau': materiauxApi,
-  'Timbre': timbresApi,
-  'TechniqueDeJeu': techniquesApi,
-  'Artisan': artisansApi,
-  'PatrimoineCulturel': patrimoinesApi,
-};
+import { ENTITY_TYPE_LIST, getEntityType } from '../../services/entityTypes';
+import { getRelationType, relationTypeRegistry } from '../../services/relationTypes';
 
 // Tab panel component
 interface TabPanelProps {
@@ -220,9 +101,14 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const { can } = useAuth();
+  const { types: relationTypes } = useRelationTypes();
   
-  // Relations state
-  const [relations, setRelations] = useState<any[]>([]);
+  // Relations are read from the shared entity store
+  const relations = useEntityStore(
+    store => store.getRelations(currentEntity ? { entity: { type: currentEntity.type, id: currentEntity.id } } : {}),
+    [currentEntity?.type, currentEntity?.id]
+  );
   const [relationStats, setRelationStats] = useState<any>(null);
   
   // Create relationship state
@@ -234,8 +120,14 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
     targetId: '',
     relationType: '',
   });
-  const [sourceEntities, setSourceEntities] = useState<any[]>([]);
-  const [targetEntities, setTargetEntities] = useState<any[]>([]);
+  const sourceEntities = useEntityStore(
+    store => (createForm.sourceType ? store.getEntities(createForm.sourceType) : []),
+    [createForm.sourceType]
+  );
+  const targetEntities = useEntityStore(
+    store => (createForm.targetType ? store.getEntities(createForm.targetType) : []),
+    [createForm.targetType]
+  );
   const [availableRelationTypes, setAvailableRelationTypes] = useState<string[]>([]);
 
   /**
@@ -251,16 +143,16 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
    */
   useEffect(() => {
     if (currentEntity) {
-      loadEntityRelations(currentEntity.id);
+      loadEntityRelations(currentEntity.id, currentEntity.type);
     }
   }, [currentEntity]);
 
   /**
-   * Update available relation types when source/target types change
+   * Update available relation types when source/target types or the registry change
    */
   useEffect(() => {
     updateAvailableRelationTypes();
-  }, [createForm.sourceType, createForm.targetType]);
+  }, [createForm.sourceType, createForm.targetType, relationTypes]);
 
   /**
    * Load all relations
@@ -271,9 +163,7 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
     
     try {
       const response = await relationsApi.getAll();
-      if (response.success) {
-        setRelations(response.data);
-      } else {
+      if (!response.success) {
         setError(response.error || 'Erreur lors du chargement des relations');
       }
     } catch (err) {
@@ -301,13 +191,10 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
   /**
    * Load relations for specific entity
    */
-  const loadEntityRelations = async (entityId: number) => {
+  const loadEntityRelations = async (entityId: number, entityType: string) => {
     setLoading(true);
     try {
-      const response = await relationsApi.getForEntity(entityId.toString());
-      if (response.success) {
-        setRelations(response.data);
-      }
+      await relationsApi.getForEntity(entityId.toString(), entityType);
     } catch (err) {
       console.error('Error loading entity relations:', err);
     } finally {
@@ -318,31 +205,13 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
   /**
    * Load entities for source/target selection
    */
-  const loadEntitiesForType = async (entityType: string, field: 'source' | 'target') => {
-    if (!entityType || !ENTITY_SERVICES[entityType as keyof typeof ENTITY_SERVICES]) return;
+  const loadEntitiesForType = async (entityType: string) => {
+    const definition = getEntityType(entityType);
+    if (!definition) return;
 
     try {
-      const service = ENTITY_SERVICES[entityType as keyof typeof ENTITY_SERVICES];
-      const response = await service.getAll({ limit: 200 });
-      
-      if (response.success) {
-        // Handle different response structures
-        const data = response.data?.data || response.data || [];
-        const entities = Array.isArray(data) ? data.map((entity: any) => ({
-          ...entity,
-          type: entityType,
-          displayName: entity.nomInstrument || entity.nomFamille || entity.nomGroupe || 
-                      entity.nomLocalite || entity.nomMateriau || entity.descriptionTimbre ||
-                      entity.nomTechnique || entity.nomArtisan || entity.nomPatrimoine ||
-                      entity.nom || `${entityType} #${entity.id}`,
-        })) : [];
-        
-        if (field === 'source') {
-          setSourceEntities(entities);
-        } else {
-          setTargetEntities(entities);
-        }
-      }
+      // The entities land in the entity store, which the selectors read from
+      await definition.service.getAll({ limit: 200 });
     } catch (err) {
       console.error(`Error loading ${entityType} entities:`, err);
     }
@@ -359,9 +228,7 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
       return;
     }
 
-    const available = Object.entries(RELATION_TYPES).filter(([type, config]) => {
-      return config.from.includes(sourceType) && config.to.includes(targetType);
-    }).map(([type]) => type);
+    const available = relationTypeRegistry.allowedBetween(sourceType, targetType).map(({ type }) => type);
 
     setAvailableRelationTypes(available);
     
@@ -382,9 +249,9 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
 
     // Load entities when type changes
     if (field === 'sourceType') {
-      loadEntitiesForType(value, 'source');
+      loadEntitiesForType(value);
     } else if (field === 'targetType') {
-      loadEntitiesForType(value, 'target');
+      loadEntitiesForType(value);
     }
   };
 
@@ -417,8 +284,6 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
           targetId: '',
           relationType: '',
         });
-        setSourceEntities([]);
-        setTargetEntities([]);
         setAvailableRelationTypes([]);
         loadRelations();
         loadRelationStatistics();
@@ -465,30 +330,18 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
     }
   };
 
-  /**
-   * Get relation type config
-   */
-  const getRelationTypeConfig = (type: string) => {
-    return RELATION_TYPES[type as keyof typeof RELATION_TYPES] || {
-      label: type,
-      description: 'Relation personnalisée',
-      icon: <Link />,
-      color: 'default',
-    };
-  };
-
   /**
    * Render relation card
    */
   const renderRelationCard = (relation: any, index: number) => {
-    const config = getRelationTypeConfig(relation.relationType);
+    const config = getRelationType(relation.relationType);
     
     return (
       <Card key={`${relation.sourceId}-${relation.targetId}-${relation.relationType}`} sx={{ mb: 2, boxShadow: 2 }}>
         <CardContent>
           <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
             <Box sx={{ mr: 1, color: `${config.color}.main` }}>
-              {config.icon}
+              <config.icon />
             </Box>
             <Typography variant="h6" sx={{ flexGrow: 1 }}>
               {config.label}
@@ -579,14 +432,16 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
             >
               Voir Source
             </Button> */}
-            <Button
-              size="small"
-              color="error"
-              startIcon={<Delete />}
-              onClick={() => handleDeleteRelation(relation)}
-            >
-              Supprimer
-            </Button>
+            {can('relation:delete') && (
+              <Button
+                size="small"
+                color="error"
+                startIcon={<Delete />}
+                onClick={() => handleDeleteRelation(relation)}
+              >
+                Supprimer
+              </Button>
+            )}
           </Box>
         </CardActions>
       </Card>
@@ -605,14 +460,16 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
             Gérez les relations sémantiques de votre graphe Neo4j
           </Typography>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<Add />}
-          onClick={() => setOpenCreateDialog(true)}
-          size="large"
-        >
-          Créer une Relation
-        </Button>
+        {can('relation:create') && (
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => setOpenCreateDialog(true)}
+            size="large"
+          >
+            Créer une Relation
+          </Button>
+        )}
       </Box>
 
       {/* Current Entity Info */}
@@ -643,7 +500,7 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
             <Card>
               <CardContent>
                 <Typography variant="h4" color="secondary">
-                  {Object.keys(RELATION_TYPES).length}
+                  {relationTypes.length}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
                   Types de relations
@@ -757,9 +614,9 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
                           </TableCell>
                           <TableCell>
                             <Chip 
-                              label={getRelationTypeConfig(relation.relationType).label}
+                              label={getRelationType(relation.relationType).label}
                               size="small"
-                              color={getRelationTypeConfig(relation.relationType).color as any}
+                              color={getRelationType(relation.relationType).color as any}
                               variant="outlined"
                             />
                           </TableCell>
@@ -774,13 +631,15 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
                             </Box>
                           </TableCell>
                           <TableCell align="right">
-                            <IconButton
-                              size="small"
-                              color="error"
-                              onClick={() => handleDeleteRelation(relation)}
-                            >
-                              <Delete />
-                            </IconButton>
+                            {can('relation:delete') && (
+                              <IconButton
+                                size="small"
+                                color="error"
+                                onClick={() => handleDeleteRelation(relation)}
+                              >
+                                <Delete />
+                              </IconButton>
+                            )}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -804,15 +663,16 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
         {/* Relation Types Tab */}
         <TabPanel value={activeTab} index={1}>
           <Grid container spacing={3}>
-            {Object.entries(RELATION_TYPES).map(([type, config]) => (
-              <Grid item xs={12} md={6} key={type}>
+            {relationTypes.map((config) => (
+              <Grid item xs={12} md={6} key={config.type}>
                 <Card>
                   <CardContent>
                     <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
-                      {config.icon}
-                      <Typography variant="h6" sx={{ ml: 1 }}>
+                      <config.icon />
+                      <Typography variant="h6" sx={{ ml: 1, flexGrow: 1 }}>
                         {config.label}
                       </Typography>
+                      <Chip label={config.cardinality} size="small" color={config.color as any} variant="outlined" />
                     </Box>
                     <Typography variant="body2" color="text.secondary" paragraph>
                       {config.description}
@@ -825,6 +685,10 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
                       <Typography variant="caption" color="text.secondary">
                         Vers: {config.to.join(', ')}
                       </Typography>
+                      <br />
+                      <Typography variant="caption" color="text.secondary">
+                        Inverse: {config.inverseLabel}
+                      </Typography>
                     </Box>
                   </CardContent>
                 </Card>
@@ -866,9 +730,9 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
                   onChange={(e) => handleCreateFormChange('sourceType', e.target.value)}
                   label="Type d'entité source"
                 >
-                  {Object.keys(ENTITY_SERVICES).map((type) => (
+                  {ENTITY_TYPE_LIST.map(({ type, label }) => (
                     <MenuItem key={type} value={type}>
-                      {type}
+                      {label}
                     </MenuItem>
                   ))}
                 </Select>
@@ -907,9 +771,9 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
                   onChange={(e) => handleCreateFormChange('targetType', e.target.value)}
                   label="Type d'entité cible"
                 >
-                  {Object.keys(ENTITY_SERVICES).map((type) => (
+                  {ENTITY_TYPE_LIST.map(({ type, label }) => (
                     <MenuItem key={type} value={type}>
-                      {type}
+                      {label}
                     </MenuItem>
                   ))}
                 </Select>
@@ -950,7 +814,7 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
                   disabled={availableRelationTypes.length === 0}
                 >
                   {availableRelationTypes.map((type) => {
-                    const config = getRelationTypeConfig(type);
+                    const config = getRelationType(type);
                     return (
                       <MenuItem key={type} value={type}>
                         <Box sx={{ display: 'flex', alignItems: 'center', width: '100%' }}>
@@ -963,7 +827,7 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
                             </Typography>
                           </Box>
                           <Chip 
-                            label={config.cardinality || 'N:N'} 
+                            label={config.cardinality} 
                             size="small" 
                             color={config.color as any}
                             variant="outlined"
@@ -989,10 +853,10 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
               {createForm.relationType && (
                 <Alert severity="info" sx={{ mt: 2 }}>
                   <Typography variant="body2">
-                    <strong>Relation sélectionnée :</strong> {getRelationTypeConfig(createForm.relationType).label}
+                    <strong>Relation sélectionnée :</strong> {getRelationType(createForm.relationType).label}
                   </Typography>
                   <Typography variant="caption">
-                    {getRelationTypeConfig(createForm.relationType).description}
+                    {getRelationType(createForm.relationType).description}
                   </Typography>
                 </Alert>
               )}
@@ -1007,15 +871,15 @@ const RelationshipManager: React.FC<RelationshipManagerProps> = ({
                   </Typography>
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
                     <Chip 
-                      label={sourceEntities.find(e => e.id == createForm.sourceId)?.displayName || 'Source'} 
+                      label={sourceEntities.find(e => e.id === Number(createForm.sourceId))?.displayName || 'Source'} 
                       color="primary" 
                       variant="filled"
                     />
                     <Typography variant="body2">
-                      {getRelationTypeConfig(createForm.relationType).label}
+                      {getRelationType(createForm.relationType).label}
                     </Typography>
                     <Chip 
-                      label={targetEntities.find(e => e.id == createForm.targetId)?.displayName || 'Cible'} 
+                      label={targetEntities.find(e => e.id === Number(createForm.targetId))?.displayName || 'Cible'} 
                       color="secondary" 
                       variant="filled"
                     />
@@ -54,7 +54,13 @@ import {
 } from '@mui/icons-material';
 import CytoscapeComponent from 'react-cytoscapejs';
 import cytoscape from 'cytoscape';
+import { useNavigate } from 'react-router-dom';
 import { relationsApi } from '../../services/api';
+import { ENTITY_TYPE_LIST, entityDetailPath, getEntityType } from '../../services/entityTypes';
+import { ResolvedRelation } from '../../services/entityStore';
+import { getRelationType } from '../../services/relationTypes';
+import useEntityStore from '../../hooks/useEntityStore';
+import useRelationTypes from '../../hooks/useRelationTypes';
 import LoadingSpinner from '../Common/LoadingSpinner';
 import ErrorMessage from '../Common/ErrorMessage';
 
@@ -96,33 +102,11 @@ interface GraphVisualizationProps {
   onEdgeSelect?: (edge: any) => void;
 }
 
-// Entity type configurations
-const ENTITY_CONFIGS = {
-  'Instrument': { color: '#1976d2', size: 12, icon: 'I' },
-  'Famille': { color: '#dc004e', size: 10, icon: 'F' },
-  'GroupeEthnique': { color: '#2e7d32', size: 8, icon: 'G' },
-  'Localite': { color: '#0288d1', size: 8, icon: 'L' },
-  'Materiau': { color: '#ed6c02', size: 6, icon: 'M' },
-  'Timbre': { color: '#9c27b0', size: 6, icon: 'T' },
-  'TechniqueDeJeu': { color: '#795548', size: 6, icon: 'J' },
-  'Artisan': { color: '#ff5722', size: 8, icon: 'A' },
-  'PatrimoineCulturel': { color: '#607d8b', size: 8, icon: 'P' },
-  'Rythme': { color: '#e91e63', size: 6, icon: 'R' },
-};
+// Appearance of types missing from the entity type registry
+const DEFAULT_NODE = { color: '#9e9e9e', size: 6, symbol: '?' };
+
+const nodeStyle = (type: string) => getEntityType(type)?.graph || DEFAULT_NODE;
 
-// Relation type configurations
-const RELATION_CONFIGS = {
-  'appartientA': { color: '#1976d2', label: 'appartient à' },
-  'utilisePar': { color: '#2e7d32', label: 'utilisé par' },
-  'produitRythme': { color: '#e91e63', label: 'produit rythme' },
-  'localiseA': { color: '#0288d1', label: 'localisé à' },
-  'constitueDe': { color: '#ed6c02', label: 'constitué de' },
-  'joueAvec': { color: '#795548', label: 'joué avec' },
-  'fabrique': { color: '#ff5722', label: 'fabriqué par' },
-  'caracterise': { color: '#9c27b0', label: 'caractérise' },
-  'englobe': { color: '#607d8b', label: 'englobe' },
-  'appliqueA': { color: '#f57c00', label: 'appliqué à' },
-};
 
 // Cytoscape stylesheet - simplified to avoid errors
 const cytoscapeStylesheet = [
@@ -191,6 +175,95 @@ const cytoscapeStylesheet = [
   },
 ];
 
+/**
+ * Build the Cytoscape graph from the relations of the entity store
+ */
+const buildRelationGraphData = (relations: ResolvedRelation[]): RelationGraphData => {
+  const nodesMap = new Map<string, CytoscapeNode>();
+  const edges: CytoscapeEdge[] = [];
+
+  // Process each relation to create nodes and edges
+  relations.forEach((relation: any) => {
+    // Validate relation structure
+    if (!relation || !relation.source || !relation.target || !relation.relationType) {
+      console.warn('Invalid relation structure:', relation);
+      return;
+    }
+
+    const sourceKey = `${relation.source.type}_${relation.sourceId}`;
+    const targetKey = `${relation.target.type}_${relation.targetId}`;
+
+    // Validate source and target data
+    if (!relation.source.type || relation.sourceId === undefined || relation.sourceId === null || 
+        !relation.target.type || relation.targetId === undefined || relation.targetId === null) {
+      console.warn('Missing source or target data:', relation);
+      return;
+    }
+
+    // Create source node if not exists
+    if (!nodesMap.has(sourceKey)) {
+      const config = nodeStyle(relation.source.type);
+      nodesMap.set(sourceKey, {
+        data: {
+          id: sourceKey,
+          label: relation.source.displayName || `${relation.source.type} ${relation.sourceId}`,
+          type: 'entity',
+          entityType: relation.source.type,
+          size: config.size * 3,
+          color: config.color,
+          originalData: relation.source,
+        },
+      });
+    }
+
+    // Create target node if not exists
+    if (!nodesMap.has(targetKey)) {
+      const config = nodeStyle(relation.target.type);
+      nodesMap.set(targetKey, {
+        data: {
+          id: targetKey,
+          label: relation.target.displayName || `${relation.target.type} ${relation.targetId}`,
+          type: 'entity',
+          entityType: relation.target.type,
+          size: config.size * 3,
+          color: config.color,
+          originalData: relation.target,
+        },
+      });
+    }
+
+    // Create edge
+    const relationConfig = getRelationType(relation.relationType);
+    edges.push({
+      data: {
+        id: `${sourceKey}_${targetKey}_${relation.relationType}`,
+        source: sourceKey,
+        target: targetKey,
+        label: relationConfig.label,
+        relationType: relation.relationType,
+        color: relationConfig.graphColor,
+        originalData: relation,
+      },
+    });
+  });
+
+  const result = {
+    nodes: Array.from(nodesMap.values()),
+    edges,
+  };
+
+  console.log('Processed graph data:', {
+    nodes: result.nodes.length,
+    edges: result.edges.length,
+    sampleNode: result.nodes[0],
+    sampleEdge: result.edges[0],
+    allNodeIds: result.nodes.slice(0, 5).map(n => n.data.id),
+    allEdgeIds: result.edges.slice(0, 5).map(e => e.data.id)
+  });
+
+  return result;
+};
+
 const GraphVisualization: React.FC<GraphVisualizationProps> = ({
   height = 600,
   showControls = true,
@@ -199,136 +272,26 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
 }) => {
   const cyRef = useRef<cytoscape.Core | null>(null);
   const isMountedRef = useRef(true);
+  const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [graphData, setGraphData] = useState<RelationGraphData>({ nodes: [], edges: [] });
+  const storedRelations = useEntityStore(store => store.getRelations());
+  const { types: relationTypes } = useRelationTypes();
+  // Edge labels and colors come from the relation type registry
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const graphData = React.useMemo(() => buildRelationGraphData(storedRelations), [storedRelations, relationTypes]);
   const [selectedLayout, setSelectedLayout] = useState('cose');
   const [nodeSize, setNodeSize] = useState(1);
   const [edgeWidth, setEdgeWidth] = useState(1);
   const [showLabels, setShowLabels] = useState(true);
   const [filterText, setFilterText] = useState('');
-  const [selectedEntityTypes, setSelectedEntityTypes] = useState<string[]>(Object.keys(ENTITY_CONFIGS));
-  const [selectedRelationTypes, setSelectedRelationTypes] = useState<string[]>(Object.keys(RELATION_CONFIGS));
+  const [selectedEntityTypes, setSelectedEntityTypes] = useState<string[]>(ENTITY_TYPE_LIST.map(({ type }) => type));
+  // Types are hidden rather than selected, so types loaded later start visible
+  const [hiddenRelationTypes, setHiddenRelationTypes] = useState<string[]>([]);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // Process relations data for graph visualization with rate limiting
-  const processRelationGraphData = useCallback(async () => {
-    try {
-      // Add delay to prevent too many simultaneous requests
-      const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-      
-      console.log('Loading relations for graph visualization...');
-      const response = await relationsApi.getAll();
-      
-      // Add a small delay after the request
-      await delay(100);
-      
-      // Validate API response
-      if (!response || !response.success) {
-        throw new Error(response?.error || 'Failed to fetch relations');
-      }
-
-      const relations = response.data || [];
-      console.log('Raw relations data:', relations);
-
-      // Validate relations array
-      if (!Array.isArray(relations)) {
-        console.warn('Relations data is not an array:', relations);
-        return { nodes: [], edges: [] };
-      }
-
-      const nodesMap = new Map<string, CytoscapeNode>();
-      const edges: CytoscapeEdge[] = [];
-
-      // Process each relation to create nodes and edges
-      relations.forEach((relation: any) => {
-        // Validate relation structure
-        if (!relation || !relation.source || !relation.target || !relation.relationType) {
-          console.warn('Invalid relation structure:', relation);
-          return;
-        }
-
-        const sourceKey = `${relation.source.type}_${relation.sourceId}`;
-        const targetKey = `${relation.target.type}_${relation.targetId}`;
-
-        // Validate source and target data
-        if (!relation.source.type || relation.sourceId === undefined || relation.sourceId === null || 
-            !relation.target.type || relation.targetId === undefined || relation.targetId === null) {
-          console.warn('Missing source or target data:', relation);
-          return;
-        }
-
-        // Create source node if not exists
-        if (!nodesMap.has(sourceKey)) {
-          const config = ENTITY_CONFIGS[relation.source.type as keyof typeof ENTITY_CONFIGS] || ENTITY_CONFIGS['Instrument'];
-          nodesMap.set(sourceKey, {
-            data: {
-              id: sourceKey,
-              label: relation.source.displayName || `${relation.source.type} ${relation.sourceId}`,
-              type: 'entity',
-              entityType: relation.source.type,
-              size: config.size * 3,
-              color: config.color,
-              originalData: relation.source,
-            },
-          });
-        }
-
-        // Create target node if not exists
-        if (!nodesMap.has(targetKey)) {
-          const config = ENTITY_CONFIGS[relation.target.type as keyof typeof ENTITY_CONFIGS] || ENTITY_CONFIGS['Instrument'];
-          nodesMap.set(targetKey, {
-            data: {
-              id: targetKey,
-              label: relation.target.displayName || `${relation.target.type} ${relation.targetId}`,
-              type: 'entity',
-              entityType: relation.target.type,
-              size: config.size * 3,
-              color: config.color,
-              originalData: relation.target,
-            },
-          });
-        }
-
-        // Create edge
-        const relationConfig = RELATION_CONFIGS[relation.relationType as keyof typeof RELATION_CONFIGS] || 
-                             { color: '#666', label: relation.relationType };
-        edges.push({
-          data: {
-            id: `${sourceKey}_${targetKey}_${relation.relationType}`,
-            source: sourceKey,
-            target: targetKey,
-            label: relationConfig.label,
-            relationType: relation.relationType,
-            color: relationConfig.color,
-            originalData: relation,
-          },
-        });
-      });
-
-      const result = {
-        nodes: Array.from(nodesMap.values()),
-        edges,
-      };
-
-      console.log('Processed graph data:', {
-        nodes: result.nodes.length,
-        edges: result.edges.length,
-        sampleNode: result.nodes[0],
-        sampleEdge: result.edges[0],
-        allNodeIds: result.nodes.slice(0, 5).map(n => n.data.id),
-        allEdgeIds: result.edges.slice(0, 5).map(e => e.data.id)
-      });
-
-      return result;
-    } catch (error) {
-      console.error('Error processing relation graph data:', error);
-      throw error;
-    }
-  }, []);
-
-  // Load graph data
+  // Load relations into the entity store; the graph is derived from the store
   const loadGraphData = useCallback(async () => {
     if (!isMountedRef.current) return;
     
@@ -336,11 +299,15 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
     setError(null);
     
     try {
-      const data = await processRelationGraphData();
-      if (isMountedRef.current) {
-        setGraphData(data);
+      console.log('Loading relations for graph visualization...');
+      const response = await relationsApi.getAll({}, { priority: 'background' });
+
+      // Validate API response
+      if (!response || !response.success) {
+        throw new Error(response?.error || 'Failed to fetch relations');
       }
     } catch (err) {
+      console.error('Error loading relation graph data:', err);
       if (isMountedRef.current) {
         setError(err instanceof Error ? err.message : 'Failed to load graph data');
       }
@@ -349,26 +316,34 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
         setLoading(false);
       }
     }
-  }, [processRelationGraphData]);
+  }, []);
 
   // Filter graph data based on selected filters
   const filteredGraphData = React.useMemo(() => {
     let filteredNodes = graphData.nodes.filter(node => {
-      const matchesEntityType = selectedEntityTypes.includes(node.data.entityType);
+      // Types outside the registry have no filter chip and stay visible
+      const matchesEntityType = !getEntityType(node.data.entityType) || selectedEntityTypes.includes(node.data.entityType);
       const matchesFilter = !filterText || 
         node.data.label.toLowerCase().includes(filterText.toLowerCase());
       return matchesEntityType && matchesFilter;
     });
 
     let filteredEdges = graphData.edges.filter(edge => {
-      const matchesRelationType = selectedRelationTypes.includes(edge.data.relationType);
+      const matchesRelationType = !hiddenRelationTypes.includes(edge.data.relationType);
       const sourceExists = filteredNodes.some(node => node.data.id === edge.data.source);
       const targetExists = filteredNodes.some(node => node.data.id === edge.data.target);
       return matchesRelationType && sourceExists && targetExists;
     });
 
     return { nodes: filteredNodes, edges: filteredEdges };
-  }, [graphData, selectedEntityTypes, selectedRelationTypes, filterText]);
+  }, [graphData, selectedEntityTypes, hiddenRelationTypes, filterText]);
+
+  // Declared relation types, then the types only seen in relations
+  const relationTypeChips = React.useMemo(() => {
+    const declared = relationTypes.map(({ type }) => type);
+    const seen = graphData.edges.map(edge => edge.data.relationType).filter(type => !declared.includes(type));
+    return Array.from(new Set([...declared, ...seen])).map(getRelationType);
+  }, [relationTypes, graphData]);
 
   // Handle Cytoscape events
   const handleCytoscapeEvents = useCallback((cy: cytoscape.Core) => {
@@ -398,6 +373,16 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
         }
       });
 
+      // Double tap opens the entity's detail page
+      cy.on('dbltap', 'node', (event) => {
+        if (!isMountedRef.current || !cyRef.current) return;
+        const { entityType, originalData } = event.target.data();
+        const definition = getEntityType(entityType);
+        if (definition && originalData?.id !== undefined) {
+          navigate(entityDetailPath(definition, originalData.id));
+        }
+      });
+
       // Edge selection
       cy.on('tap', 'edge', (event) => {
         if (!isMountedRef.current || !cyRef.current) return;
@@ -445,7 +430,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
     } catch (error) {
       console.warn('Error setting up cytoscape events:', error);
     }
-  }, [onNodeSelect, onEdgeSelect, selectedLayout]);
+  }, [onNodeSelect, onEdgeSelect, selectedLayout, navigate]);
 
   // Control functions
   const handleZoomIn = useCallback(() => {
@@ -711,10 +696,10 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
           <Box sx={{ mt: 2 }}>
             <Typography variant="subtitle2" gutterBottom>Entity Types</Typography>
             <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
-              {Object.entries(ENTITY_CONFIGS).map(([type, config]) => (
+              {ENTITY_TYPE_LIST.map(({ type, graph: config }) => (
                 <Chip
                   key={type}
-                  label={`${config.icon} ${type}`}
+                  label={`${config.symbol} ${type}`}
                   size="small"
                   variant={selectedEntityTypes.includes(type) ? 'filled' : 'outlined'}
                   onClick={() => {
@@ -733,20 +718,20 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
           <Box>
             <Typography variant="subtitle2" gutterBottom>Relation Types</Typography>
             <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-              {Object.entries(RELATION_CONFIGS).map(([type, config]) => (
+              {relationTypeChips.map(({ type, label, graphColor }) => (
                 <Chip
                   key={type}
-                  label={config.label}
+                  label={label}
                   size="small"
-                  variant={selectedRelationTypes.includes(type) ? 'filled' : 'outlined'}
+                  variant={!hiddenRelationTypes.includes(type) ? 'filled' : 'outlined'}
                   onClick={() => {
-                    setSelectedRelationTypes(prev =>
+                    setHiddenRelationTypes(prev =>
                       prev.includes(type)
                         ? prev.filter(t => t !== type)
                         : [...prev, type]
                     );
                   }}
-                  sx={{ backgroundColor: selectedRelationTypes.includes(type) ? config.color : undefined }}
+                  sx={{ backgroundColor: !hiddenRelationTypes.includes(type) ? graphColor : undefined }}
                 />
               ))}
             </Box>
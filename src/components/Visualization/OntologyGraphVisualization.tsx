@@ -43,10 +43,16 @@ import {
   FullscreenExit,
   ZoomInMap,
   ZoomOutMap,
+  OpenInNew,
 } from '@mui/icons-material';
 import CytoscapeComponent from 'react-cytoscapejs';
 import cytoscape from 'cytoscape';
+import { Link as RouterLink } from 'react-router-dom';
 import { relationsApi, instrumentsApi } from '../../services/api';
+import { ENTITY_TYPES, entityDetailPath, getEntityType } from '../../services/entityTypes';
+import { getRelationType, RelationTypeDefinition } from '../../services/relationTypes';
+import useEntityStore from '../../hooks/useEntityStore';
+import useRelationTypes from '../../hooks/useRelationTypes';
 import LoadingSpinner from '../Common/LoadingSpinner';
 import ErrorMessage from '../Common/ErrorMessage';
 
@@ -99,7 +105,11 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
   const cyRef = useRef<cytoscape.Core | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [graphData, setGraphData] = useState<OntologyGraphData>({ nodes: [], edges: [] });
+  const [ontologyData, setOntologyData] = useState<any>(null);
+  const [individualIds, setIndividualIds] = useState<number[]>([]);
+  const storedRelations = useEntityStore(store => store.getRelations());
+  const individuals = useEntityStore(store => store.getEntities('Instrument', individualIds), [individualIds]);
+  const { types: relationTypes } = useRelationTypes();
   const [selectedNode, setSelectedNode] = useState<any>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   
@@ -329,7 +339,7 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
       
       // Load ontology with error handling
       console.log('Loading ontology structure...');
-      const ontologyResponse = await relationsApi.getOntology();
+      const ontologyResponse = await relationsApi.getOntology({ priority: 'background' });
       console.log('Ontology response:', ontologyResponse);
       if (!ontologyResponse.success) {
         throw new Error(ontologyResponse.error || 'Failed to load ontology');
@@ -340,7 +350,7 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
 
       // Load relations with error handling
       console.log('Loading relations...');
-      const relationsResponse = await relationsApi.getAll();
+      const relationsResponse = await relationsApi.getAll({}, { priority: 'background' });
       console.log('Relations response:', relationsResponse);
       if (!relationsResponse.success) {
         throw new Error(relationsResponse.error || 'Failed to load relations');
@@ -351,32 +361,20 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
 
       // Load entities with error handling and reduced limit
       console.log('Loading entities...');
-      const entitiesResponse = await instrumentsApi.getAll({ limit: 30 });
+      const entitiesResponse = await instrumentsApi.getAll({ limit: 30 }, { priority: 'background' });
       console.log('Entities response:', entitiesResponse);
       const entities = entitiesResponse.success ? entitiesResponse.data?.data || [] : [];
 
-      // Validate data before processing
-      const ontologyData = ontologyResponse.data || {};
-      const relationsData = Array.isArray(relationsResponse.data) ? relationsResponse.data : [];
+      // Relations and instruments land in the entity store; keep the ontology and the instruments to show
       const entitiesData = Array.isArray(entities) ? entities : [];
-
-      // Process data - use minimal data if needed for testing
-      const USE_MINIMAL_DATA = false; // Set to true to test with minimal data
-      const processedData = USE_MINIMAL_DATA 
-        ? processMinimalOntologyToCytoscape()
-        : processOntologyToCytoscape(ontologyData, relationsData, entitiesData);
-
-      // Validate processed data
-      if (!processedData || !Array.isArray(processedData.nodes) || !Array.isArray(processedData.edges)) {
-        throw new Error('Invalid processed data format');
-      }
-
-      setGraphData(processedData);
+      setOntologyData(ontologyResponse.data || {});
+      setIndividualIds(entitiesData.map((entity: any) => entity.id));
     } catch (err) {
       console.error('Error loading ontology graph data:', err);
       setError('Erreur lors du chargement des données ontologiques');
       // Set empty data on error
-      setGraphData({ nodes: [], edges: [] });
+      setOntologyData(null);
+      setIndividualIds([]);
     } finally {
       setLoading(false);
     }
@@ -412,7 +410,8 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
   const processOntologyToCytoscape = (
     ontology: any,
     relations: any[],
-    entities: any[]
+    entities: any[],
+    relationTypes: RelationTypeDefinition[]
   ): OntologyGraphData => {
     const nodes: CytoscapeNode[] = [];
     const edges: CytoscapeEdge[] = [];
@@ -424,10 +423,13 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
       return { nodes: [], edges: [] };
     }
 
-    // Add entity type nodes
-    const entityTypes = (ontology.metadata?.entitiesCount
-      ? Object.keys(ontology.metadata.entitiesCount)
-      : ['Instrument', 'Famille', 'GroupeEthnique', 'Localite', 'Materiau', 'Timbre', 'TechniqueDeJeu', 'Artisan', 'PatrimoineCulturel', 'Rythme'])
+    // Add entity type nodes, including the domains and ranges of the relation types
+    const entityTypes = Array.from(new Set([
+      ...(ontology.metadata?.entitiesCount
+        ? Object.keys(ontology.metadata.entitiesCount)
+        : ['Instrument', 'Famille', 'GroupeEthnique', 'Localite', 'Materiau', 'Timbre', 'TechniqueDeJeu', 'Artisan', 'PatrimoineCulturel', 'Rythme']),
+      ...relationTypes.flatMap(({ from, to }) => [...from, ...to]),
+    ]))
       .filter(type => type && typeof type === 'string');
 
     entityTypes.forEach(entityType => {
@@ -446,20 +448,24 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
       }
     });
 
-    // Add property nodes
-    const relationTypes = (ontology.children?.find(c => c.name === 'Relations Sémantiques')?.children?.map(r => r.name) || [])
+    // Add property nodes for the relation types of the ontology and of the registry
+    const propertyTypes = Array.from(new Set([
+      ...(ontology.children?.find(c => c.name === 'Relations Sémantiques')?.children?.map(r => r.name) || []),
+      ...relationTypes.map(({ type }) => type),
+    ]))
       .filter(type => type && typeof type === 'string');
 
-    relationTypes.forEach(relationType => {
+    propertyTypes.forEach(relationType => {
       const propertyId = `property_${relationType}`;
       if (!nodeIds.has(propertyId)) {
+        const definition = getRelationType(relationType);
         nodes.push({
           data: {
             id: propertyId,
-            label: relationType,
+            label: definition.label,
             type: 'property',
             nodeType: 'Property',
-            description: `Propriété ${relationType}`,
+            description: definition.declared ? `${definition.description} (${definition.cardinality})` : `Propriété ${relationType}`,
           },
         });
         nodeIds.add(propertyId);
@@ -485,60 +491,14 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
       }
     });
 
-    // Add class hierarchy edges (subclass relationships) - create logical hierarchy
-    const classHierarchy = [
-      { from: 'Instrument', to: 'Famille', relation: 'subclass' },
-      { from: 'Rythme', to: 'Instrument', relation: 'related' },
-      { from: 'TechniqueDeJeu', to: 'Instrument', relation: 'related' },
-      { from: 'Timbre', to: 'Instrument', relation: 'related' },
-      { from: 'Materiau', to: 'Instrument', relation: 'composes' },
-      { from: 'Artisan', to: 'Instrument', relation: 'creates' },
-      { from: 'GroupeEthnique', to: 'PatrimoineCulturel', relation: 'subclass' },
-      { from: 'Localite', to: 'GroupeEthnique', relation: 'contains' },
-    ];
-
-    classHierarchy.forEach(({ from, to, relation }) => {
-      if (!from || !to || !relation) return;
-      
-      const fromId = `class_${from}`;
-      const toId = `class_${to}`;
-      if (nodeIds.has(fromId) && nodeIds.has(toId)) {
-        edges.push({
-          data: {
-            id: `${fromId}_${toId}_${relation}`,
-            source: fromId,
-            target: toId,
-            label: relation === 'subclass' ? 'Subclass' : relation,
-            relationType: relation,
-            relationship: relation === 'subclass' ? 'subclass' : 'semantic',
-          }
-        });
-      }
-    });
-
-    // Add property relationships - create comprehensive mapping
-    const propertyRelations = [
-      { property: 'appartientA', domain: 'Instrument', range: 'Famille' },
-      { property: 'utilisePar', domain: 'Instrument', range: 'GroupeEthnique' },
-      { property: 'constitueDe', domain: 'Instrument', range: 'Materiau' },
-      { property: 'localiseA', domain: 'Instrument', range: 'Localite' },
-      { property: 'produitRythme', domain: 'Instrument', range: 'Rythme' },
-      { property: 'joueAvec', domain: 'Instrument', range: 'TechniqueDeJeu' },
-      { property: 'fabrique', domain: 'Artisan', range: 'Instrument' },
-      { property: 'caracterise', domain: 'Timbre', range: 'Instrument' },
-      { property: 'appliqueA', domain: 'TechniqueDeJeu', range: 'Instrument' },
-      { property: 'englobe', domain: 'PatrimoineCulturel', range: 'GroupeEthnique' },
-    ];
-
-    propertyRelations.forEach(({ property, domain, range }) => {
-      if (!property || !domain || !range) return;
-      
-      const propertyId = `property_${property}`;
-      const domainId = `class_${domain}`;
-      const rangeId = `class_${range}`;
+    // Link each property to its domains and ranges, as declared by the backend
+    relationTypes.forEach(({ type, from, to }) => {
+      const propertyId = `property_${type}`;
+      if (!nodeIds.has(propertyId)) return;
 
-      if (nodeIds.has(propertyId) && nodeIds.has(domainId) && nodeIds.has(rangeId)) {
-        // Domain to property edge
+      from.forEach(domain => {
+        const domainId = `class_${domain}`;
+        if (!nodeIds.has(domainId)) return;
         edges.push({
           data: {
             id: `${domainId}_${propertyId}`,
@@ -549,8 +509,11 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
             relationship: 'property',
           }
         });
+      });
 
-        // Property to range edge
+      to.forEach(range => {
+        const rangeId = `class_${range}`;
+        if (!nodeIds.has(rangeId)) return;
         edges.push({
           data: {
             id: `${propertyId}_${rangeId}`,
@@ -561,7 +524,7 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
             relationship: 'property',
           }
         });
-      }
+      });
     });
 
     // Add individual to class relationships
@@ -588,6 +551,20 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
     return { nodes, edges };
   };
 
+  /**
+   * Graph derived from the ontology and the entity store, so edits made
+   * in other views show up without reloading
+   */
+  const graphData = React.useMemo<OntologyGraphData>(() => {
+    if (!ontologyData) return { nodes: [], edges: [] };
+
+    // Process data - use minimal data if needed for testing
+    const USE_MINIMAL_DATA = false; // Set to true to test with minimal data
+    return USE_MINIMAL_DATA
+      ? processMinimalOntologyToCytoscape()
+      : processOntologyToCytoscape(ontologyData, storedRelations, individuals, relationTypes);
+  }, [ontologyData, storedRelations, individuals, relationTypes]);
+
   /**
    * Handle Cytoscape events
    */
@@ -903,6 +880,24 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
     }
   };
 
+  /**
+   * Link from the selected node to its page: detail page of an instance,
+   * list page of a class
+   */
+  const renderNodeLink = () => {
+    const classType = selectedNode?.type === 'class' ? getEntityType(selectedNode.nodeType) : undefined;
+    const path = selectedNode?.type === 'individual' && selectedNode.properties?.id !== undefined
+      ? entityDetailPath(ENTITY_TYPES.Instrument, selectedNode.properties.id)
+      : classType?.route;
+    if (!path) return null;
+
+    return (
+      <Button size="small" startIcon={<OpenInNew />} component={RouterLink} to={path} sx={{ mt: 1 }}>
+        {classType ? `Voir les ${classType.pluralLabel.toLowerCase()}` : 'Ouvrir la fiche'}
+      </Button>
+    );
+  };
+
   /**
    * Render loading state
    */
@@ -1194,6 +1189,7 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
               </Grid>
             )}
           </Grid>
+          {renderNodeLink()}
         </Paper>
       )}
       
@@ -1223,6 +1219,7 @@ const OntologyGraphVisualization: React.FC<OntologyGraphVisualizationProps> = ({
               {selectedNode.description}
             </Typography>
           )}
+          {renderNodeLink()}
         </Box>
       )}
     </Box>
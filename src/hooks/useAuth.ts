@@ -0,0 +1,34 @@
+/**
+ * Custom hook exposing the current user and their permissions
+ */
+
+import { useEffect, useState } from 'react';
+import { authService, AuthUser } from '../services/auth';
+import { hasPermission, Permission, Role } from '../services/permissions';
+
+interface UseAuthResult {
+  user: AuthUser | null;
+  role: Role | null;
+  /** The last session ended because it could not be renewed */
+  expired: boolean;
+  can: (permission: Permission) => boolean;
+}
+
+export const useAuth = (): UseAuthResult => {
+  const [status, setStatus] = useState(() => authService.getStatus());
+
+  useEffect(() => {
+    setStatus(authService.getStatus());
+    return authService.subscribe(() => setStatus(authService.getStatus()));
+  }, []);
+
+  const role = status.user?.role || null;
+  return {
+    user: status.user,
+    role,
+    expired: status.expired,
+    can: (permission) => hasPermission(role, permission),
+  };
+};
+
+export default useAuth;
@@ -0,0 +1,20 @@
+/**
+ * Custom hook reading the normalized entity store
+ *
+ * The selector runs again whenever the store changes or one of `deps` changes.
+ */
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { entityStore, EntityStore } from '../services/entityStore';
+
+const subscribe = (listener: () => void) => entityStore.subscribe(listener);
+const getVersion = () => entityStore.getVersion();
+
+export const useEntityStore = <T>(selector: (store: EntityStore) => T, deps: ReadonlyArray<unknown> = []): T => {
+  const version = useSyncExternalStore(subscribe, getVersion);
+  // The selector is expected to depend on `deps` only
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useMemo(() => selector(entityStore), [version, ...deps]);
+};
+
+export default useEntityStore;
@@ -0,0 +1,58 @@
+/**
+ * Custom hook for switching backend environment profiles
+ *
+ * The selected profile is only committed once the health check
+ * answers successfully against the new backend.
+ */
+
+import { useEffect, useState } from 'react';
+import { healthApi } from '../services/api';
+import { runtimeConfig, EnvironmentProfile } from '../services/runtimeConfig';
+
+export const useEnvironmentProfile = () => {
+  const [activeProfile, setActiveProfile] = useState<EnvironmentProfile>(runtimeConfig.getActiveProfile());
+  const [profiles, setProfiles] = useState<EnvironmentProfile[]>(runtimeConfig.getProfiles());
+  const [switching, setSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return runtimeConfig.subscribe((profile) => {
+      setActiveProfile(profile);
+      setProfiles(runtimeConfig.getProfiles());
+    });
+  }, []);
+
+  /**
+   * Check the candidate backend, then commit the switch
+   */
+  const switchProfile = async (profileId: string): Promise<boolean> => {
+    const candidate = runtimeConfig.findProfile(profileId);
+    if (!candidate || candidate.id === activeProfile.id) return false;
+
+    setSwitching(true);
+    setError(null);
+    try {
+      const response = await healthApi.check(candidate.apiBaseUrl);
+      // Some backends answer /health without a `success` flag: only an explicit failure blocks the switch
+      if (!response || response.success === false) {
+        setError(`Le backend "${candidate.label}" ne répond pas : ${response?.error || 'vérification échouée'}`);
+        return false;
+      }
+      runtimeConfig.setActiveProfile(candidate.id);
+      return true;
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return {
+    profiles,
+    activeProfile,
+    switching,
+    error,
+    clearError: () => setError(null),
+    switchProfile,
+  };
+};
+
+export default useEnvironmentProfile;
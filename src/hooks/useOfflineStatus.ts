@@ -0,0 +1,19 @@
+/**
+ * Custom hook exposing connectivity and offline outbox state
+ */
+
+import { useEffect, useState } from 'react';
+import { offlineSync, OfflineStatus } from '../services/offlineSync';
+
+export const useOfflineStatus = (): OfflineStatus => {
+  const [status, setStatus] = useState(() => offlineSync.getStatus());
+
+  useEffect(() => {
+    setStatus(offlineSync.getStatus());
+    return offlineSync.subscribe(() => setStatus(offlineSync.getStatus()));
+  }, []);
+
+  return status;
+};
+
+export default useOfflineStatus;
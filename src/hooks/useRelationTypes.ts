@@ -0,0 +1,25 @@
+/**
+ * Custom hook reading the relation type registry
+ *
+ * Loads the relation types declared by the backend on first use.
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { relationTypeRegistry, RelationTypesSnapshot } from '../services/relationTypes';
+
+const subscribe = (listener: () => void) => relationTypeRegistry.subscribe(listener);
+const getSnapshot = () => relationTypeRegistry.getSnapshot();
+
+export const useRelationTypes = (): RelationTypesSnapshot => {
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!snapshot.loaded && !snapshot.error) {
+      relationTypeRegistry.load();
+    }
+  }, [snapshot.loaded, snapshot.error]);
+
+  return snapshot;
+};
+
+export default useRelationTypes;
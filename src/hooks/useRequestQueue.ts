@@ -0,0 +1,33 @@
+/**
+ * Custom hook exposing the live state of the request queue
+ *
+ * Re-renders on every queue change, and every second while `live` is set
+ * so waiting times stay current.
+ */
+
+import { useEffect, useState } from 'react';
+import { rateLimiter, QueueEntry } from '../services/rateLimiter';
+
+const snapshot = () => ({
+  status: rateLimiter.getStatus(),
+  entries: rateLimiter.inspect(),
+});
+
+export const useRequestQueue = (live: boolean = false) => {
+  const [state, setState] = useState(snapshot);
+
+  useEffect(() => {
+    setState(snapshot());
+    return rateLimiter.subscribe(() => setState(snapshot()));
+  }, []);
+
+  useEffect(() => {
+    if (!live) return;
+    const intervalId = setInterval(() => setState(snapshot()), 1000);
+    return () => clearInterval(intervalId);
+  }, [live]);
+
+  return state as { status: ReturnType<typeof rateLimiter.getStatus>; entries: QueueEntry[] };
+};
+
+export default useRequestQueue;
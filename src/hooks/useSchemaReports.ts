@@ -0,0 +1,19 @@
+/**
+ * Custom hook exposing the response schema mismatches
+ */
+
+import { useEffect, useState } from 'react';
+import { schemaMonitor, SchemaReport } from '../services/schemaMonitor';
+
+export const useSchemaReports = (): SchemaReport[] => {
+  const [reports, setReports] = useState(() => schemaMonitor.getReports());
+
+  useEffect(() => {
+    setReports(schemaMonitor.getReports());
+    return schemaMonitor.subscribe(() => setReports(schemaMonitor.getReports()));
+  }, []);
+
+  return reports;
+};
+
+export default useSchemaReports;
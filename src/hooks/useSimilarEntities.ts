@@ -0,0 +1,40 @@
+/**
+ * Custom hook listing the entities whose name is close to a name being
+ * typed, to warn before creating a duplicate
+ */
+
+import { useEffect, useState } from 'react';
+import { findSimilarEntities, SimilarEntity } from '../services/entityDuplicates';
+import { EntityTypeDefinition } from '../services/entityTypes';
+
+// Wait for the typing to pause before reading the entities
+const DEBOUNCE_MS = 400;
+
+export const useSimilarEntities = (
+  definition: EntityTypeDefinition,
+  name: string,
+  { excludeId, enabled = true }: { excludeId?: number; enabled?: boolean } = {}
+): SimilarEntity[] => {
+  const [similar, setSimilar] = useState<SimilarEntity[]>([]);
+
+  useEffect(() => {
+    setSimilar([]);
+    if (!enabled || !name.trim()) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      findSimilarEntities(definition, name, { excludeId, signal: controller.signal })
+        .then(setSimilar)
+        .catch(error => {
+          if (!controller.signal.aborted) console.warn('[Duplicates] Unable to look for similar entities', error);
+        });
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [definition, name, excludeId, enabled]);
+
+  return similar;
+};
+
+export default useSimilarEntities;
@@ -45,6 +45,7 @@ import {
   healthApi,
   SearchResult 
 } from '../../services/api';
+import { entityDetailPath, getEntityType } from '../../services/entityTypes';
 
 // Statistics interface
 interface Statistics {
@@ -222,40 +223,14 @@ const Dashboard: React.FC = () => {
   const handleSearchResultSelect = (result: SearchResult) => {
     console.log('Selected search result:', result);
     
-    // Comprehensive mapping of all entity types to their routes
-    const entityRouteMap: Record<string, string> = {
-      // Main entities
-      'Instrument': '/instruments',
-      'Famille': '/familles', 
-      'GroupeEthnique': '/groupes-ethniques',
-      'Localite': '/localites',
-      'Materiau': '/materiaux',
-      'Timbre': '/timbres',
-      'TechniqueDeJeu': '/techniques',
-      'Artisan': '/artisans',
-      'PatrimoineCulturel': '/patrimoines',
-      
-      // Alternative naming variations that might come from the API
-      'Familles': '/familles',
-      'GroupesEthniques': '/groupes-ethniques', 
-      'Localites': '/localites',
-      'Materiaux': '/materiaux',
-      'Timbres': '/timbres',
-      'Techniques': '/techniques',
-      'TechniquesDeJeu': '/techniques',
-      'Artisans': '/artisans',
-      'Patrimoines': '/patrimoines',
-      'PatrimoinesCulturels': '/patrimoines',
-    };
-
     // Determine the route based on result type or labels
-    const resultType = result.type || (result.labels && result.labels[0]);
-    const route = entityRouteMap[resultType];
+    const definition = getEntityType(result.type || (result.labels && result.labels[0]));
+    const route = definition?.route;
     
-    if (route && result.entity?.id) {
-      // Navigate to the entity page with ID and action parameters
-      console.log(`Navigating to: ${route}?id=${result.entity.id}&action=detail`);
-      navigate(`${route}?id=${result.entity.id}&action=detail`);
+    if (definition && result.entity?.id) {
+      // Navigate to the entity detail page
+      console.log(`Navigating to: ${entityDetailPath(definition, result.entity.id)}`);
+      navigate(entityDetailPath(definition, result.entity.id));
     } else if (route) {
       // Navigate to the entity page without specific ID
       console.log(`Navigating to: ${route}`);
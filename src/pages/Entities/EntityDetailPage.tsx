@@ -0,0 +1,477 @@
+/**
+ * Entity Detail Page Component
+ *
+ * Detail page of one entity of any type, reachable at `<route>/<id>`:
+ * - All fields of the entity
+ * - Incoming and outgoing relations grouped by relation type
+ * - Neighbourhood graph of the directly related entities
+ * - Similar entities and recently visited entities
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Grid,
+  Paper,
+  Card,
+  CardContent,
+  Chip,
+  Button,
+  IconButton,
+  Tooltip,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  Alert,
+} from '@mui/material';
+import { ArrowBack, Link as LinkIcon, History, CompareArrows } from '@mui/icons-material';
+import CytoscapeComponent from 'react-cytoscapejs';
+import type { Core, ElementDefinition, EventObject } from 'cytoscape';
+import LoadingSpinner from '../../components/Common/LoadingSpinner';
+import ErrorMessage from '../../components/Common/ErrorMessage';
+import useEntityStore from '../../hooks/useEntityStore';
+import useRelationTypes from '../../hooks/useRelationTypes';
+import { relationsApi, searchApi, SearchResult } from '../../services/api';
+import { EntityRelation, StoredEntity } from '../../services/entityStore';
+import { EntityVisit, getEntityHistory, recordEntityVisit } from '../../services/entityHistory';
+import {
+  EntityTypeDefinition,
+  entityDetailPath,
+  entityDisplayName,
+  getEntityType,
+} from '../../services/entityTypes';
+import { fieldText } from '../../services/entityFields';
+import { getRelationType } from '../../services/relationTypes';
+
+// Properties that are not shown as fields
+const HIDDEN_PROPERTIES = ['id', 'type', 'version', 'displayName'];
+
+const DEFAULT_NODE_COLOR = '#9e9e9e';
+
+const neighbourhoodStylesheet = [
+  {
+    selector: 'node',
+    style: {
+      'background-color': 'data(color)',
+      'label': 'data(label)',
+      'width': 24,
+      'height': 24,
+      'font-size': '10px',
+      'text-valign': 'bottom',
+      'text-margin-y': 4,
+    },
+  },
+  {
+    selector: 'node[?center]',
+    style: {
+      'width': 36,
+      'height': 36,
+      'font-weight': 'bold',
+      'border-width': 3,
+      'border-color': '#000',
+    },
+  },
+  {
+    selector: 'edge',
+    style: {
+      'width': 2,
+      'line-color': 'data(color)',
+      'target-arrow-color': 'data(color)',
+      'target-arrow-shape': 'triangle',
+      'curve-style': 'bezier',
+      'label': 'data(label)',
+      'font-size': '8px',
+      'text-rotation': 'autorotate',
+    },
+  },
+];
+
+/**
+ * Path of the detail page of a related entity, when its type is known
+ */
+const pathOf = (entity?: { type: string; id: number }) => {
+  const definition = entity && getEntityType(entity.type);
+  return definition && entity ? entityDetailPath(definition, entity.id) : undefined;
+};
+
+/**
+ * Type and id of the record a search result points to
+ */
+const resultRef = (result: SearchResult) => {
+  const id = (result.entity as Record<string, unknown> | null | undefined)?.id;
+  return id === undefined || id === null ? undefined : { type: result.type, id: Number(id) };
+};
+
+/**
+ * Relations of the entity grouped by direction and relation type
+ */
+const groupRelations = (relations: EntityRelation[]) => {
+  const groups = new Map<string, { direction: EntityRelation['direction']; type: string; entities: StoredEntity[] }>();
+  relations.forEach(relation => {
+    const key = `${relation.direction}:${relation.type}`;
+    const group = groups.get(key) || { direction: relation.direction, type: relation.type, entities: [] };
+    if (relation.entity) group.entities.push(relation.entity);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+};
+
+interface EntityDetailPageProps {
+  entityType: EntityTypeDefinition;
+}
+
+/**
+ * Detail page of one entity
+ */
+const EntityDetailPage: React.FC<EntityDetailPageProps> = ({ entityType }) => {
+  const { id: idParam } = useParams<{ id: string }>();
+  const id = Number(idParam);
+  const navigate = useNavigate();
+  const { icon: Icon } = entityType;
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [similar, setSimilar] = useState<SearchResult[]>([]);
+  const [history, setHistory] = useState<EntityVisit[]>(() => getEntityHistory());
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // The entity and its relations are read from the shared entity store
+  const entity = useEntityStore(store => store.getEntity(entityType.type, id), [entityType.type, id]);
+  const relations = useEntityStore(store => store.getEntityRelations(entityType.type, id), [entityType.type, id]);
+  // Relation labels come from the relation type registry
+  const { types: relationTypes } = useRelationTypes();
+
+  const displayName = entity ? entityDisplayName(entityType, entity) : `${entityType.label} #${id}`;
+
+  /**
+   * Load the entity, its relations and the similar entities
+   */
+  useEffect(() => {
+    if (!Number.isFinite(id)) {
+      setError(`Identifiant invalide : ${idParam}`);
+      setLoading(false);
+      return;
+    }
+
+    let active = true;
+    setLoading(true);
+    setError(null);
+    setSimilar([]);
+
+    const load = async () => {
+      const response = await entityType.service.getById(id);
+      if (!active) return;
+      if (!response.success || !response.data) {
+        setError(response.error || `${entityType.label} #${id} introuvable`);
+        setLoading(false);
+        return;
+      }
+      setLoading(false);
+      setHistory(recordEntityVisit({
+        type: entityType.type,
+        id,
+        displayName: entityDisplayName(entityType, response.data),
+      }));
+
+      // Relations land in the entity store
+      await relationsApi.getForEntity(String(id), entityType.type);
+      const similarResponse = await searchApi.similar(String(id), entityType.type);
+      if (active && similarResponse.success) {
+        setSimilar(similarResponse.data || []);
+      }
+    };
+
+    load().catch((err) => {
+      console.error(`Error loading ${entityType.type} ${id}:`, err);
+      if (active) {
+        setError('Erreur lors du chargement de l\'entité');
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [entityType, id, idParam]);
+
+  const relationGroups = useMemo(() => groupRelations(relations), [relations]);
+
+  /**
+   * Entity and its direct neighbours
+   */
+  const neighbourhood = useMemo((): ElementDefinition[] => {
+    const centerId = `${entityType.type}_${id}`;
+    const nodes = new Map<string, ElementDefinition>([[centerId, {
+      data: { id: centerId, label: displayName, color: entityType.graph.color, center: true },
+    }]]);
+    const edges: ElementDefinition[] = [];
+
+    relations.forEach(({ direction, type, entity: other }) => {
+      if (!other) return;
+      const otherId = `${other.type}_${other.id}`;
+      nodes.set(otherId, {
+        data: {
+          id: otherId,
+          label: other.displayName,
+          color: getEntityType(other.type)?.graph.color || DEFAULT_NODE_COLOR,
+          path: pathOf(other),
+        },
+      });
+      const [source, target] = direction === 'outgoing' ? [centerId, otherId] : [otherId, centerId];
+      // Edge labels and colors follow the relation type registry
+      const relationType = relationTypes.find(definition => definition.type === type) || getRelationType(type);
+      edges.push({
+        data: {
+          id: `${source}_${type}_${target}`,
+          source,
+          target,
+          label: relationType.label,
+          color: relationType.graphColor,
+        },
+      });
+    });
+
+    return [...Array.from(nodes.values()), ...edges];
+  }, [entityType, id, displayName, relations, relationTypes]);
+
+  /**
+   * Copy the shareable link of the page
+   */
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 3000);
+    } catch (err) {
+      console.error('Error copying link:', err);
+    }
+  };
+
+  /**
+   * Open the neighbours' detail pages from the graph
+   */
+  const handleCytoscape = (cy: Core) => {
+    cy.removeListener('tap');
+    cy.on('tap', 'node', (event: EventObject) => {
+      const path = event.target.data('path');
+      if (path) navigate(path);
+    });
+  };
+
+  if (loading && !entity) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+        <LoadingSpinner message={`Chargement de ${entityType.label.toLowerCase()}...`} />
+      </Box>
+    );
+  }
+
+  const properties: Record<string, unknown> = entity || {};
+  const fieldNames = entityType.fields.map(field => field.name);
+  const otherProperties = Object.keys(properties).filter(name => !fieldNames.includes(name) && !HIDDEN_PROPERTIES.includes(name));
+  const previousVisits = history.filter(visit => visit.type !== entityType.type || visit.id !== id);
+
+  return (
+    <Box>
+      {/* Page Header */}
+      <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Tooltip title={`Retour aux ${entityType.pluralLabel.toLowerCase()}`}>
+            <IconButton component={RouterLink} to={entityType.route}>
+              <ArrowBack />
+            </IconButton>
+          </Tooltip>
+          <Icon color={entityType.color} fontSize="large" />
+          <Box>
+            <Typography variant="h4" component="h1">
+              {displayName}
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              {entityType.label}
+            </Typography>
+          </Box>
+        </Box>
+        <Button variant="outlined" startIcon={<LinkIcon />} onClick={handleCopyLink}>
+          {linkCopied ? 'Lien copié' : 'Copier le lien'}
+        </Button>
+      </Box>
+
+      {error && (
+        <Box sx={{ mb: 3 }}>
+          <ErrorMessage message={error} />
+        </Box>
+      )}
+
+      {entity && (
+        <Grid container spacing={3}>
+          {/* Fields */}
+          <Grid size={{ xs: 12, md: 5 }}>
+            <Card>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Informations
+                </Typography>
+                {entityType.fields.map(field => {
+                  // Relation fields show the related entities of the store
+                  const value = field.relation
+                    ? relations
+                      .filter(({ direction, type, entity: other }) =>
+                        other && type === field.relation!.type && direction === field.relation!.direction)
+                      .map(({ entity: other }) => ({ id: other!.id, type: other!.type, displayName: other!.displayName }))
+                    : properties[field.name];
+                  const text = fieldText(field, value);
+                  return (
+                    <Box key={field.name} sx={{ mb: 2 }}>
+                      <Typography variant="subtitle2" color="text.secondary">
+                        {field.label}
+                      </Typography>
+                      <Typography variant="body1">
+                        {text === '' ? '—' : text}
+                      </Typography>
+                    </Box>
+                  );
+                })}
+                {otherProperties.map(name => (
+                  <Box key={name} sx={{ mb: 2 }}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      {name}
+                    </Typography>
+                    <Typography variant="body1">{String(properties[name])}</Typography>
+                  </Box>
+                ))}
+              </CardContent>
+            </Card>
+          </Grid>
+
+          {/* Neighbourhood */}
+          <Grid size={{ xs: 12, md: 7 }}>
+            <Paper sx={{ height: 360, position: 'relative' }}>
+              <Typography variant="subtitle2" sx={{ position: 'absolute', top: 8, left: 12, zIndex: 1 }}>
+                Voisinage
+              </Typography>
+              <CytoscapeComponent
+                elements={neighbourhood}
+                style={{ width: '100%', height: '100%' }}
+                stylesheet={neighbourhoodStylesheet}
+                layout={{ name: 'concentric', fit: true, padding: 40 }}
+                cy={handleCytoscape}
+              />
+            </Paper>
+          </Grid>
+
+          {/* Relations */}
+          <Grid size={{ xs: 12, md: 8 }}>
+            <Card>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Relations ({relations.length})
+                </Typography>
+                {relationGroups.length === 0 ? (
+                  <Alert severity="info">Aucune relation</Alert>
+                ) : relationGroups.map(({ direction, type, entities }) => {
+                  const relationType = getRelationType(type);
+                  const RelationIcon = relationType.icon;
+                  return (
+                    <Box key={`${direction}:${type}`} sx={{ mb: 2 }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                        <RelationIcon fontSize="small" sx={{ color: relationType.graphColor }} />
+                        <Typography variant="subtitle1">
+                          {direction === 'outgoing' ? relationType.label : relationType.inverseLabel}
+                        </Typography>
+                        <Chip label={entities.length} size="small" variant="outlined" />
+                      </Box>
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                        {entities.map(other => {
+                          const path = pathOf(other);
+                          return (
+                            <Chip
+                              key={`${other.type}:${other.id}`}
+                              label={other.displayName}
+                              color={getEntityType(other.type)?.color || 'default'}
+                              variant="outlined"
+                              onClick={path ? () => navigate(path) : undefined}
+                            />
+                          );
+                        })}
+                      </Box>
+                    </Box>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </Grid>
+
+          {/* Similar entities and history */}
+          <Grid size={{ xs: 12, md: 4 }}>
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  Entités similaires
+                </Typography>
+                {similar.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    Aucune entité similaire
+                  </Typography>
+                ) : (
+                  <List dense disablePadding>
+                    {similar.map(result => {
+                      const ref = resultRef(result);
+                      const path = pathOf(ref);
+                      return (
+                        <ListItemButton
+                          key={`${result.type}:${ref?.id ?? result.name}`}
+                          disabled={!path}
+                          onClick={() => path && navigate(path)}
+                        >
+                          <ListItemIcon>
+                            <CompareArrows />
+                          </ListItemIcon>
+                          <ListItemText primary={result.name} secondary={getEntityType(result.type)?.label || result.type} />
+                        </ListItemButton>
+                      );
+                    })}
+                  </List>
+                )}
+              </CardContent>
+            </Card>
+
+            {previousVisits.length > 0 && (
+              <Card>
+                <CardContent>
+                  <Typography variant="h6" gutterBottom>
+                    Consultés récemment
+                  </Typography>
+                  <List dense disablePadding>
+                    {previousVisits.map((visit, index) => {
+                      const path = pathOf(visit);
+                      return (
+                        <React.Fragment key={`${visit.type}:${visit.id}`}>
+                          {index > 0 && <Divider component="li" />}
+                          <ListItemButton disabled={!path} onClick={() => path && navigate(path)}>
+                            <ListItemIcon>
+                              <History />
+                            </ListItemIcon>
+                            <ListItemText
+                              primary={visit.displayName}
+                              secondary={getEntityType(visit.type)?.label || visit.type}
+                            />
+                          </ListItemButton>
+                        </React.Fragment>
+                      );
+                    })}
+                  </List>
+                </CardContent>
+              </Card>
+            )}
+          </Grid>
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default EntityDetailPage;
@@ -6,7 +6,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { useLocation } from 'react-router-dom';
+import { Link as RouterLink, useLocation } from 'react-router-dom';
 import useEntityUrlNavigation from '../../hooks/useEntityUrlNavigation';
 import {
   Box,
@@ -39,6 +39,7 @@ import {
   Alert,
   Checkbox,
   Collapse,
+  Link,
 } from '@mui/material';
 import {
   Add,
@@ -53,6 +54,10 @@ import {
   Close,
   ArrowForward,
   ArrowBack,
+  OpenInNew,
+  Download,
+  MergeType,
+  RestoreFromTrash,
 } from '@mui/icons-material';
 import LoadingSpinner from '../../components/Common/LoadingSpinner';
 import ErrorMessage from '../../components/Common/ErrorMessage';
@@ -67,8 +72,24 @@ import {
   Famille,
   GroupeEthnique,
   Artisan,
-  ApiListResponse 
+  ApiListResponse,
+  ApiError,
 } from '../../services/api';
+import { submitFailure } from '../../services/apiError';
+import { nextRetryAt } from '../../services/rateLimiter';
+import useEntityStore from '../../hooks/useEntityStore';
+import useAuth from '../../hooks/useAuth';
+import MergeConflictDialog from '../../components/Common/MergeConflictDialog';
+import ExportDialog from '../../components/Common/ExportDialog';
+import RelationPicker from '../../components/Common/RelationPicker';
+import DuplicatesDialog from '../../components/Common/DuplicatesDialog';
+import TrashDialog from '../../components/Common/TrashDialog';
+import UndoDeleteSnackbar from '../../components/Common/UndoDeleteSnackbar';
+import useSimilarEntities from '../../hooks/useSimilarEntities';
+import { VersionConflict } from '../../services/versioning';
+import { trashEntity, TrashEntry } from '../../services/entityTrash';
+import { fieldText, propertyFields, readRelationFields, RelatedEntity, writeRelationFields } from '../../services/entityFields';
+import { ENTITY_TYPES, entityDetailPath } from '../../services/entityTypes';
 
 // Form data interface for create/edit
 interface InstrumentFormData {
@@ -77,6 +98,8 @@ interface InstrumentFormData {
   anneeCreation: number | '';
 }
 
+const familleField = ENTITY_TYPES.Instrument.fields.find(field => field.name === 'famille')!;
+
 // Form validation errors
 interface FormErrors {
   nomInstrument?: string;
@@ -91,12 +114,15 @@ interface FormErrors {
 // @ts-ignore
 const InstrumentsPage: React.FC = () => {
   const location = useLocation();
-  const [instruments, setInstruments] = useState<Instrument[]>([]);
+  const [instrumentIds, setInstrumentIds] = useState<number[]>([]);
+  const instruments = useEntityStore(store => store.getEntities<Instrument>('Instrument', instrumentIds), [instrumentIds]);
   const [familles, setFamilles] = useState<Famille[]>([]);
   const [groupesEthniques, setGroupesEthniques] = useState<GroupeEthnique[]>([]);
   const [artisans, setArtisans] = useState<Artisan[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { can } = useAuth();
+  const [retryAt, setRetryAt] = useState<number | null>(null);
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [totalCount, setTotalCount] = useState(0);
@@ -121,7 +147,25 @@ const InstrumentsPage: React.FC = () => {
   });
   const [formLoading, setFormLoading] = useState(false);
   const [formErrors, setFormErrors] = useState<FormErrors>({});
-  const [relations, setRelations] = useState<any[]>([]);
+  const [submitErrors, setSubmitErrors] = useState<string[]>([]);
+  const [conflict, setConflict] = useState<VersionConflict<Instrument> | null>(null);
+  // Famille of the form, written as an appartientA relation once the instrument is saved
+  const [famille, setFamille] = useState<RelatedEntity[]>([]);
+  const [relationValues, setRelationValues] = useState<Record<string, RelatedEntity[]>>({});
+  // Instruments already named like the one being created
+  const similar = useSimilarEntities(ENTITY_TYPES.Instrument, formData.nomInstrument, {
+    enabled: openDialog && dialogMode === 'create',
+  });
+  const [exportOpen, setExportOpen] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  // Entries of the last deletion, while it can be undone
+  const [deleted, setDeleted] = useState<TrashEntry[]>([]);
+  const [relationsInstrumentId, setRelationsInstrumentId] = useState<number | null>(null);
+  const relations = useEntityStore(
+    store => (relationsInstrumentId === null ? [] : store.getEntityRelations('Instrument', relationsInstrumentId)),
+    [relationsInstrumentId]
+  );
   const [showRelations, setShowRelations] = useState(false);
   const [relationsLoading, setRelationsLoading] = useState(false);
   const [showDetail, setShowDetail] = useState(false);
@@ -215,6 +259,16 @@ const InstrumentsPage: React.FC = () => {
     },
   });
 
+  // Active filters, shared by the list and the export
+  const filterParams = {
+    ...(searchQuery && { search: searchQuery }),
+    ...(selectedFamily && { famille: selectedFamily }),
+    ...(selectedGroupeEthnique && { groupeEthnique: selectedGroupeEthnique }),
+    ...(selectedArtisan && { artisan: selectedArtisan }),
+    ...(yearFrom && { anneeMin: parseInt(yearFrom) }),
+    ...(yearTo && { anneeMax: parseInt(yearTo) }),
+  };
+
   /**
    * Load instruments with filters and pagination
    */
@@ -232,17 +286,13 @@ const InstrumentsPage: React.FC = () => {
     
     setLoading(true);
     setError(null);
+    setRetryAt(null);
 
     try {
       const params = {
         page: page + 1,
         limit: rowsPerPage,
-        ...(searchQuery && { search: searchQuery }),
-        ...(selectedFamily && { famille: selectedFamily }),
-        ...(selectedGroupeEthnique && { groupeEthnique: selectedGroupeEthnique }),
-        ...(selectedArtisan && { artisan: selectedArtisan }),
-        ...(yearFrom && { anneeMin: parseInt(yearFrom) }),
-        ...(yearTo && { anneeMax: parseInt(yearTo) }),
+        ...filterParams,
       };
 
       console.log('📡 API call params:', params);
@@ -250,25 +300,15 @@ const InstrumentsPage: React.FC = () => {
       console.log('📥 API response:', response);
       
       if (response.success) {
-        // Handle the smart API response structure
-        const instruments = Array.isArray(response.data) 
-          ? response.data 
-          : (response.data?.data ? response.data.data : []);
-        
+        // The API boundary refuses list envelopes that do not match their schema
+        const instruments = response.data.data;
         console.log('✅ Frontend: Setting instruments:', instruments.length, 'items');
-        setInstruments(instruments);
-        
-        const totalCount = response.total || 
-                          response.data?.total || 
-                          response.pagination?.total || 
-                          instruments.length || 
-                          0;
-        
-        console.log('📊 Frontend: Setting totalCount:', totalCount);
-        setTotalCount(totalCount);
+        setInstrumentIds(instruments.map((instrument: Instrument) => instrument.id));
+        setTotalCount(response.data.total);
       } else {
         console.error('❌ API error:', response.error);
         setError(response.error || 'Erreur lors du chargement des instruments');
+        setRetryAt(nextRetryAt(response));
       }
     } catch (err) {
       console.error('💥 Exception in loadInstruments:', err);
@@ -284,12 +324,9 @@ const InstrumentsPage: React.FC = () => {
    */
   const loadFamilles = async () => {
     try {
-      const response = await famillesApi.getAll();
+      const response = await famillesApi.getAll({}, { priority: 'background' });
       if (response.success) {
-        // Handle different response structures safely
-        const data = response.data?.data || response.data || [];
-        const familles = Array.isArray(data) ? data : [];
-        setFamilles(familles);
+        setFamilles(response.data.data);
       }
     } catch (err) {
       console.error('Error loading families:', err);
@@ -301,12 +338,9 @@ const InstrumentsPage: React.FC = () => {
    */
   const loadGroupesEthniques = async () => {
     try {
-      const response = await groupesEthniquesApi.getAll({ limit: 100 });
+      const response = await groupesEthniquesApi.getAll({ limit: 100 }, { priority: 'background' });
       if (response.success) {
-        // Handle different response structures safely
-        const data = response.data?.data || response.data || [];
-        const groupes = Array.isArray(data) ? data : [];
-        setGroupesEthniques(groupes);
+        setGroupesEthniques(response.data.data);
       }
     } catch (err) {
       console.error('Error loading ethnic groups:', err);
@@ -318,12 +352,9 @@ const InstrumentsPage: React.FC = () => {
    */
   const loadArtisans = async () => {
     try {
-      const response = await artisansApi.getAll({ limit: 100 });
+      const response = await artisansApi.getAll({ limit: 100 }, { priority: 'background' });
       if (response.success) {
-        // Handle different response structures safely
-        const data = response.data?.data || response.data || [];
-        const artisans = Array.isArray(data) ? data : [];
-        setArtisans(artisans);
+        setArtisans(response.data.data);
       }
     } catch (err) {
       console.error('Error loading artisans:', err);
@@ -426,37 +457,29 @@ const InstrumentsPage: React.FC = () => {
    * Handle bulk delete
    */
   const handleBulkDelete = async () => {
-    if (!window.confirm(`Êtes-vous sûr de vouloir supprimer ${selectedInstruments.length} instruments ?`)) {
-      return;
-    }
-
     try {
       setLoading(true);
-      let successCount = 0;
+      const entries: TrashEntry[] = [];
       let errorCount = 0;
 
       for (const id of selectedInstruments) {
         try {
-          await instrumentsApi.delete(id);
-          successCount++;
+          const instrument = instruments.find(item => item.id === id) ?? (await instrumentsApi.getById(id)).data;
+          if (!instrument) throw new Error(`Instrument ${id} introuvable`);
+          entries.push(await trashEntity(ENTITY_TYPES.Instrument, instrument));
         } catch {
           errorCount++;
         }
       }
 
       setSelectedInstruments([]);
+      setDeleted(entries);
       loadInstruments();
       
-      if (errorCount === 0) {
-        setSuccessMessage(`${successCount} instruments supprimés avec succès`);
-      } else {
-        setError(`${successCount} instruments supprimés, ${errorCount} erreurs`);
+      if (errorCount > 0) {
+        setError(`${entries.length} instruments placés dans la corbeille, ${errorCount} erreurs`);
+        setTimeout(() => setError(null), 5000);
       }
-      
-      setTimeout(() => {
-        setSuccessMessage(null);
-        setError(null);
-      }, 5000);
     } catch (err) {
       setError('Erreur lors de la suppression en lot');
     } finally {
@@ -469,35 +492,19 @@ const InstrumentsPage: React.FC = () => {
    */
   const loadInstrumentRelations = async (instrumentId: number) => {
     setRelationsLoading(true);
+    setRelationsInstrumentId(instrumentId);
     try {
       console.log('Loading relations for instrument ID:', instrumentId);
       
-      // Based on the API test, we know that the entity ID should just be the numeric ID
-      const relationsResponse = await relationsApi.getForEntity(`${instrumentId}`);
+      // The response lands in the entity store, which the dialog reads from
+      const relationsResponse = await relationsApi.getForEntity(`${instrumentId}`, 'Instrument');
       console.log('API Response:', relationsResponse);
       
-      if (relationsResponse.success && relationsResponse.data) {
-        const data = relationsResponse.data;
-        let allRelations: any[] = [];
-        
-        // The API returns relations in the format: { relations: { incoming: [], outgoing: [] } }
-        if (data.relations) {
-          const incoming = data.relations.incoming || [];
-          const outgoing = data.relations.outgoing || [];
-          
-          // The relations already come with direction and proper entity info
-          allRelations = [...incoming, ...outgoing];
-        }
-        
-        console.log('Processed relations:', allRelations);
-        setRelations(allRelations);
-      } else {
-        setRelations([]);
+      if (!relationsResponse.success) {
         console.warn('No relations found for instrument:', instrumentId);
       }
     } catch (err) {
       console.error('Error loading relations:', err);
-      setRelations([]);
       setError('Erreur lors du chargement des relations');
     } finally {
       setRelationsLoading(false);
@@ -514,10 +521,45 @@ const InstrumentsPage: React.FC = () => {
       description: '',
       anneeCreation: '',
     });
+    setFamille([]);
+    setRelationValues({});
     setFormErrors({});
+    setSubmitErrors([]);
     setOpenDialog(true);
   };
 
+  /**
+   * Read the famille of an instrument into the form
+   */
+  const loadFamille = async (instrument: Instrument) => {
+    setFamille([]);
+    setRelationValues({});
+    try {
+      const values = await readRelationFields(ENTITY_TYPES.Instrument, instrument.id);
+      setRelationValues(values);
+      setFamille(values.famille || []);
+    } catch (err) {
+      console.error('Error loading instrument famille:', err);
+      setSubmitErrors(['Impossible de charger la famille de l\'instrument']);
+    }
+  };
+
+  /**
+   * Write the famille of a saved instrument; on failure the form stays open
+   * on the saved instrument so it can be saved again
+   */
+  const saveFamille = async (saved: Instrument | undefined): Promise<boolean> => {
+    if (!saved) return true;
+    const errors = await writeRelationFields(ENTITY_TYPES.Instrument, saved.id, { famille }, relationValues);
+    if (errors.length === 0) return true;
+    loadInstruments();
+    setDialogMode('edit');
+    setSelectedInstrument(saved);
+    setSubmitErrors([`Instrument "${saved.nomInstrument}" enregistré, mais :`, ...errors]);
+    setRelationValues(await readRelationFields(ENTITY_TYPES.Instrument, saved.id).catch(() => relationValues));
+    return false;
+  };
+
   /**
    * Open edit dialog
    */
@@ -530,7 +572,9 @@ const InstrumentsPage: React.FC = () => {
       anneeCreation: instrument.anneeCreation || '',
     });
     setFormErrors({});
+    setSubmitErrors([]);
     setOpenDialog(true);
+    loadFamille(instrument);
   };
 
   /**
@@ -546,6 +590,7 @@ const InstrumentsPage: React.FC = () => {
     });
     setFormErrors({});
     loadInstrumentRelations(instrument.id);
+    loadFamille(instrument);
     setOpenDialog(true);
   };
 
@@ -609,6 +654,16 @@ const InstrumentsPage: React.FC = () => {
     return Object.keys(errors).length === 0;
   };
 
+  /**
+   * Map a failed submission into the dialog: backend field errors go under
+   * their inputs, anything else is listed above the form
+   */
+  const applySubmitFailure = (response: { error?: string; apiError?: ApiError }, fallbackMessage: string) => {
+    const { fieldErrors, messages } = submitFailure(response, ['nomInstrument', 'description', 'anneeCreation'], fallbackMessage);
+    setFormErrors(prev => ({ ...prev, ...fieldErrors }));
+    setSubmitErrors(messages);
+  };
+
   /**
    * Handle form submission
    */
@@ -618,6 +673,7 @@ const InstrumentsPage: React.FC = () => {
     }
 
     setFormLoading(true);
+    setSubmitErrors([]);
 
     try {
       const submitData = {
@@ -628,6 +684,7 @@ const InstrumentsPage: React.FC = () => {
       if (dialogMode === 'create') {
         const response = await instrumentsApi.create(submitData);
         if (response.success) {
+          if (!(await saveFamille(response.data))) return;
           setOpenDialog(false);
           loadInstruments();
           setFormData({ nomInstrument: '', description: '', anneeCreation: '' });
@@ -635,49 +692,95 @@ const InstrumentsPage: React.FC = () => {
           setSuccessMessage(`Instrument "${response.data.nomInstrument}" créé avec succès`);
           setTimeout(() => setSuccessMessage(null), 5000);
         } else {
-          setFormErrors({ nomInstrument: response.error || 'Erreur lors de la création' });
+          applySubmitFailure(response, 'Erreur lors de la création');
         }
       } else if (dialogMode === 'edit' && selectedInstrument) {
-        const response = await instrumentsApi.update(selectedInstrument.id, submitData);
+        const response = await instrumentsApi.update(selectedInstrument.id, submitData, selectedInstrument);
         if (response.success) {
+          if (!(await saveFamille(response.data))) return;
           setOpenDialog(false);
           loadInstruments();
           setFormData({ nomInstrument: '', description: '', anneeCreation: '' });
           setFormErrors({});
           setSuccessMessage(`Instrument "${response.data.nomInstrument}" modifié avec succès`);
           setTimeout(() => setSuccessMessage(null), 5000);
+        } else if (response.conflict) {
+          setConflict(response.conflict);
         } else {
-          setFormErrors({ nomInstrument: response.error || 'Erreur lors de la modification' });
+          applySubmitFailure(response, 'Erreur lors de la modification');
         }
       }
     } catch (err) {
       console.error('Form submission error:', err);
-      setFormErrors({ nomInstrument: 'Erreur lors de la soumission du formulaire' });
+      setSubmitErrors(['Erreur lors de la soumission du formulaire']);
     } finally {
       setFormLoading(false);
     }
   };
 
   /**
-   * Handle delete
+   * Resubmit the merged values, based on the instrument currently on the server
    */
-  const handleDelete = async (instrument: Instrument) => {
-    if (!window.confirm(`Êtes-vous sûr de vouloir supprimer "${instrument.nomInstrument}" ?`)) {
-      return;
-    }
+  const handleConflictResolve = async (merged: Record<string, unknown>) => {
+    if (!selectedInstrument || !conflict) return;
 
+    setFormLoading(true);
     try {
-      const response = await instrumentsApi.delete(instrument.id);
+      const values = merged as Partial<Instrument>;
+      const response = await instrumentsApi.update(selectedInstrument.id, values, conflict.theirs);
       if (response.success) {
+        setConflict(null);
+        if (!(await saveFamille(response.data))) return;
+        setOpenDialog(false);
         loadInstruments();
-        setSuccessMessage(`Instrument "${instrument.nomInstrument}" supprimé avec succès`);
+        setFormData({ nomInstrument: '', description: '', anneeCreation: '' });
+        setSuccessMessage(`Instrument "${response.data?.nomInstrument}" modifié avec succès`);
         setTimeout(() => setSuccessMessage(null), 5000);
+      } else if (response.conflict) {
+        // Changed again in the meantime
+        setConflict(response.conflict);
       } else {
-        setError(response.error || 'Erreur lors de la suppression');
+        setConflict(null);
+        setSelectedInstrument(conflict.theirs);
+        setFormData({
+          nomInstrument: values.nomInstrument || '',
+          description: values.description || '',
+          anneeCreation: values.anneeCreation ?? '',
+        });
+        applySubmitFailure(response, 'Erreur lors de la modification');
       }
+    } catch (err) {
+      console.error('Form submission error:', err);
+      setConflict(null);
+      setSubmitErrors(['Erreur lors de la soumission du formulaire']);
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  /**
+   * Handle delete
+   */
+  const handleDelete = async (instrument: Instrument) => {
+    try {
+      setDeleted([await trashEntity(ENTITY_TYPES.Instrument, instrument)]);
+      loadInstruments();
     } catch (err) {
       console.error('Delete error:', err);
-      alert('Erreur lors de la suppression');
+      setError(err instanceof Error ? err.message : 'Erreur lors de la suppression');
+    }
+  };
+
+  /**
+   * Reload once the last deletion was undone
+   */
+  const handleUndoneDelete = (errors: string[]) => {
+    loadInstruments();
+    if (errors.length > 0) {
+      setError(errors.join(' · '));
+    } else {
+      setSuccessMessage('Suppression annulée');
+      setTimeout(() => setSuccessMessage(null), 5000);
     }
   };
 
@@ -705,14 +808,16 @@ const InstrumentsPage: React.FC = () => {
               Gérez les instruments de musique de votre ontologie
             </Typography>
           </Box>
-          <Button
-            variant="contained"
-            startIcon={<Add />}
-            onClick={handleCreate}
-            size="large"
-          >
-            Ajouter un Instrument
-          </Button>
+          {can('entity:create') && (
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={handleCreate}
+              size="large"
+            >
+              Ajouter un Instrument
+            </Button>
+          )}
         </Box>
         
         {/* Quick Stats */}
@@ -763,6 +868,7 @@ const InstrumentsPage: React.FC = () => {
             message={error}
             showRetry
             onRetry={loadInstruments}
+            retryAt={retryAt}
           />
         </Box>
       )}
@@ -869,6 +975,38 @@ const InstrumentsPage: React.FC = () => {
               >
                 Effacer
               </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<Download />}
+                onClick={() => setExportOpen(true)}
+                // @ts-ignore
+                fullWidth={{ xs: true, sm: false, lg: true, xl: false }}
+              >
+                Exporter
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<MergeType />}
+                onClick={() => setDuplicatesOpen(true)}
+                // @ts-ignore
+                fullWidth={{ xs: true, sm: false, lg: true, xl: false }}
+              >
+                Doublons
+              </Button>
+              {can('entity:delete') && (
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<RestoreFromTrash />}
+                  onClick={() => setTrashOpen(true)}
+                  // @ts-ignore
+                  fullWidth={{ xs: true, sm: false, lg: true, xl: false }}
+                >
+                  Corbeille
+                </Button>
+              )}
             </Box>
             <Box sx={{ 
               textAlign: { xs: 'center', lg: 'right' }, 
@@ -1021,15 +1159,17 @@ const InstrumentsPage: React.FC = () => {
               >
                 Désélectionner
               </Button>
-              <Button
-                variant="contained"
-                size="small"
-                color="error"
-                startIcon={<Delete />}
-                onClick={handleBulkDelete}
-              >
-                Supprimer
-              </Button>
+              {can('entity:delete') && (
+                <Button
+                  variant="contained"
+                  size="small"
+                  color="error"
+                  startIcon={<Delete />}
+                  onClick={handleBulkDelete}
+                >
+                  Supprimer
+                </Button>
+              )}
             </Box>
           </Box>
         </Paper>
@@ -1130,14 +1270,25 @@ const InstrumentsPage: React.FC = () => {
                         <Visibility fontSize="small" />
                       </IconButton>
                     </Tooltip>
-                    <Tooltip title="Modifier">
-                      <IconButton 
-                        onClick={() => handleEdit(instrument)}
+                    <Tooltip title="Ouvrir la fiche">
+                      <IconButton
+                        component={RouterLink}
+                        to={entityDetailPath(ENTITY_TYPES.Instrument, instrument.id)}
                         size="small"
                       >
-                        <Edit fontSize="small" />
+                        <OpenInNew fontSize="small" />
                       </IconButton>
                     </Tooltip>
+                    {can('entity:update') && (
+                      <Tooltip title="Modifier">
+                        <IconButton 
+                          onClick={() => handleEdit(instrument)}
+                          size="small"
+                        >
+                          <Edit fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
                     <Tooltip title="Relations" sx={{ display: { xs: 'none', sm: 'block' } }}>
                       <IconButton 
                         onClick={() => handleViewRelations(instrument)}
@@ -1147,15 +1298,17 @@ const InstrumentsPage: React.FC = () => {
                         <Timeline fontSize="small" />
                       </IconButton>
                     </Tooltip>
-                    <Tooltip title="Supprimer">
-                      <IconButton 
-                        onClick={() => handleDelete(instrument)}
-                        size="small"
-                        color="error"
-                      >
-                        <Delete fontSize="small" />
-                      </IconButton>
-                    </Tooltip>
+                    {can('entity:delete') && (
+                      <Tooltip title="Supprimer">
+                        <IconButton 
+                          onClick={() => handleDelete(instrument)}
+                          size="small"
+                          color="error"
+                        >
+                          <Delete fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
                   </Box>
                 </TableCell>
               </TableRow>
@@ -1255,7 +1408,7 @@ const InstrumentsPage: React.FC = () => {
                           <Box sx={{ flex: 1 }}>
                             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
                               <Typography variant="subtitle1">
-                                <strong>{relation.sourceLabel || (relation.direction === 'outgoing' ? selectedInstrument?.nomInstrument : getEntityDisplayName(relation.entity))}</strong>
+                                <strong>{relation.direction === 'outgoing' ? selectedInstrument?.nomInstrument : getEntityDisplayName(relation.entity)}</strong>
                               </Typography>
                               <Chip 
                                 label={relation.type || 'relation'} 
@@ -1264,7 +1417,7 @@ const InstrumentsPage: React.FC = () => {
                                 sx={{ mx: 1 }}
                               />
                               <Typography variant="subtitle1">
-                                <strong>{relation.targetLabel || (relation.direction === 'incoming' ? selectedInstrument?.nomInstrument : getEntityDisplayName(relation.entity))}</strong>
+                                <strong>{relation.direction === 'incoming' ? selectedInstrument?.nomInstrument : getEntityDisplayName(relation.entity)}</strong>
                               </Typography>
                             </Box>
                             <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
@@ -1369,16 +1522,18 @@ const InstrumentsPage: React.FC = () => {
                 >
                   Voir les relations
                 </Button>
-                <Button
-                  variant="outlined"
-                  startIcon={<Edit />}
-                  onClick={() => {
-                    setShowDetail(false);
-                    handleEdit(selectedInstrument);
-                  }}
-                >
-                  Modifier
-                </Button>
+                {can('entity:update') && (
+                  <Button
+                    variant="outlined"
+                    startIcon={<Edit />}
+                    onClick={() => {
+                      setShowDetail(false);
+                      handleEdit(selectedInstrument);
+                    }}
+                  >
+                    Modifier
+                  </Button>
+                )}
               </Box>
             </Box>
           ) : (
@@ -1422,9 +1577,33 @@ const InstrumentsPage: React.FC = () => {
                   Année de création: {selectedInstrument.anneeCreation}
                 </Typography>
               )}
+              {famille.length > 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  Famille: {fieldText(familleField, famille)}
+                </Typography>
+              )}
             </Box>
           ) : (
             <Box component="form" sx={{ mt: 2 }}>
+              {submitErrors.length > 0 && (
+                <Alert severity="error" onClose={() => setSubmitErrors([])} sx={{ mb: 2 }}>
+                  {submitErrors.map((message, index) => (
+                    <div key={index}>{message}</div>
+                  ))}
+                </Alert>
+              )}
+              {similar.length > 0 && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  Nom proche de : {similar.map(({ entity }, index) => (
+                    <React.Fragment key={entity.id}>
+                      {index > 0 && ', '}
+                      <Link component={RouterLink} to={entityDetailPath(ENTITY_TYPES.Instrument, entity.id)} target="_blank">
+                        {entity.nomInstrument}
+                      </Link>
+                    </React.Fragment>
+                  ))}. Vérifiez qu'il ne s'agit pas d'un doublon.
+                </Alert>
+              )}
               <Grid container spacing={3}>
                 <Grid item xs={12}>
                   <TextField
@@ -1469,6 +1648,9 @@ const InstrumentsPage: React.FC = () => {
                     inputProps={{ min: 1, max: new Date().getFullYear() }}
                   />
                 </Grid>
+                <Grid size={12}>
+                  <RelationPicker field={familleField} value={famille} onChange={setFamille} />
+                </Grid>
               </Grid>
             </Box>
           )}
@@ -1489,6 +1671,43 @@ const InstrumentsPage: React.FC = () => {
           )}
         </DialogActions>
       </Dialog>
+
+      <MergeConflictDialog
+        open={!!conflict}
+        conflict={conflict}
+        fields={propertyFields(ENTITY_TYPES.Instrument)}
+        submitting={formLoading}
+        onCancel={() => setConflict(null)}
+        onResolve={handleConflictResolve}
+      />
+
+      <ExportDialog
+        open={exportOpen}
+        entityType={ENTITY_TYPES.Instrument}
+        params={filterParams}
+        filtered={Object.keys(filterParams).length > 0}
+        onClose={() => setExportOpen(false)}
+      />
+
+      <DuplicatesDialog
+        open={duplicatesOpen}
+        entityType={ENTITY_TYPES.Instrument}
+        onClose={() => setDuplicatesOpen(false)}
+        onMerged={loadInstruments}
+      />
+
+      <TrashDialog
+        open={trashOpen}
+        entityType={ENTITY_TYPES.Instrument}
+        onClose={() => setTrashOpen(false)}
+        onRestored={loadInstruments}
+      />
+
+      <UndoDeleteSnackbar
+        entries={deleted}
+        onClose={() => setDeleted([])}
+        onRestored={handleUndoneDelete}
+      />
     </Box>
   );
 };
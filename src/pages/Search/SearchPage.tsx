@@ -43,14 +43,6 @@ import {
   LocationOn,
   Timeline,
   TrendingUp,
-  MusicNote,   
-  Language,
-  Category,
-  AccountBalance,
-  Build,
-  Palette,
-  TouchApp,
-  Person,
   Code,
   PlayArrow,
   Clear,
@@ -59,11 +51,13 @@ import { useSearchParams, useNavigate } from 'react-router-dom';
 import LoadingSpinner from '../../components/Common/LoadingSpinner';
 import ErrorMessage from '../../components/Common/ErrorMessage';
 import SearchBar from '../../components/Common/SearchBar';
+import useAuth from '../../hooks/useAuth';
 import { 
   searchApi, 
   SearchResult,
   relationsApi 
 } from '../../services/api';
+import { entityDetailPath, getEntityType } from '../../services/entityTypes';
 
 // Tab panel component
 interface TabPanelProps {
@@ -91,31 +85,8 @@ interface SearchResultItemProps {
 }
 
 const SearchResultItem: React.FC<SearchResultItemProps> = ({ result, onClick }) => {
-  const getEntityIcon = (type: string) => {
-    const icons: Record<string, React.ReactNode> = {
-      'Instrument': <MusicNote color="primary" />,
-      'Famille': <Category color="secondary" />,
-      'GroupeEthnique': <Language color="success" />,
-      'Localite': <LocationOn color="info" />,
-      'PatrimoineCulturel': <AccountBalance color="warning" />,
-      'Materiau': <Build color="inherit" />,
-      'Timbre': <Palette color="inherit" />,
-      'TechniqueDeJeu': <TouchApp color="inherit" />,
-      'Artisan': <Person color="inherit" />,
-    };
-    return icons[type] || <Search />;
-  };
-
-  const getTypeColor = (type: string) => {
-    const colors: Record<string, any> = {
-      'Instrument': 'primary',
-      'Famille': 'secondary',
-      'GroupeEthnique': 'success',
-      'Localite': 'info',
-      'PatrimoineCulturel': 'warning',
-    };
-    return colors[type] || 'default';
-  };
+  const entityType = getEntityType(result.type);
+  const EntityIcon = entityType?.icon;
 
   return (
     <Card 
@@ -131,14 +102,14 @@ const SearchResultItem: React.FC<SearchResultItemProps> = ({ result, onClick })
     >
       <CardContent>
         <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
-          {getEntityIcon(result.type)}
+          {EntityIcon ? <EntityIcon color={entityType.color} /> : <Search />}
           <Typography variant="h6" sx={{ ml: 1, flexGrow: 1 }}>
             {result.name}
           </Typography>
           <Chip 
-            label={result.type} 
+            label={entityType?.label || result.type} 
             size="small" 
-            color={getTypeColor(result.type)}
+            color={entityType?.color || 'default'}
             variant="outlined"
           />
         </Box>
@@ -191,6 +162,8 @@ const SearchPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState(0);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { can } = useAuth();
+  const canRunCypher = can('cypher:execute');
   
   // Global search state
   const [globalQuery, setGlobalQuery] = useState(searchParams.get('q') || '');
@@ -223,6 +196,15 @@ const SearchPage: React.FC = () => {
   const [cypherResults, setCypherResults] = useState<any[]>([]);
   const [cypherHistory, setCypherHistory] = useState<string[]>([]);
 
+  /**
+   * Leave the Cypher tab when the user loses access to it
+   */
+  useEffect(() => {
+    if (!canRunCypher && activeTab === 2) {
+      setActiveTab(0);
+    }
+  }, [canRunCypher, activeTab]);
+
   /**
    * Load initial search if query parameter exists
    */
@@ -245,7 +227,7 @@ const SearchPage: React.FC = () => {
     setError(null);
 
     try {
-      const response = await searchApi.global(query);
+      const response = await searchApi.global(query, 20, { priority: 'interactive' });
       console.log('Search response:', response); // Debug log
       
       if (response.success) {
@@ -545,40 +527,14 @@ const SearchPage: React.FC = () => {
   const handleResultSelect = (result: SearchResult) => {
     console.log('Selected search result:', result);
     
-    // Comprehensive mapping of all entity types to their routes
-    const entityRouteMap: Record<string, string> = {
-      // Main entities
-      'Instrument': '/instruments',
-      'Famille': '/familles', 
-      'GroupeEthnique': '/groupes-ethniques',
-      'Localite': '/localites',
-      'Materiau': '/materiaux',
-      'Timbre': '/timbres',
-      'TechniqueDeJeu': '/techniques',
-      'Artisan': '/artisans',
-      'PatrimoineCulturel': '/patrimoines',
-      
-      // Alternative naming variations
-      'Familles': '/familles',
-      'GroupesEthniques': '/groupes-ethniques', 
-      'Localites': '/localites',
-      'Materiaux': '/materiaux',
-      'Timbres': '/timbres',
-      'Techniques': '/techniques',
-      'TechniquesDeJeu': '/techniques',
-      'Artisans': '/artisans',
-      'Patrimoines': '/patrimoines',
-      'PatrimoinesCulturels': '/patrimoines',
-    };
-
     // Determine the route based on result type or labels
-    const resultType = result.type || (result.labels && result.labels[0]);
-    const route = entityRouteMap[resultType];
+    const definition = getEntityType(result.type || (result.labels && result.labels[0]));
+    const route = definition?.route;
     
-    if (route && result.entity?.id) {
-      // Navigate to the entity page with ID and action parameters
-      console.log(`Navigating to: ${route}?id=${result.entity.id}&action=view`);
-      navigate(`${route}?id=${result.entity.id}&action=view`);
+    if (definition && result.entity?.id) {
+      // Navigate to the entity detail page
+      console.log(`Navigating to: ${entityDetailPath(definition, result.entity.id)}`);
+      navigate(entityDetailPath(definition, result.entity.id));
     } else if (route) {
       // Navigate to the entity page without specific ID
       console.log(`Navigating to: ${route}`);
@@ -622,7 +578,7 @@ const SearchPage: React.FC = () => {
           {/* <Tab label="Similarité" icon={<Timeline />} />
           <Tab label="Patterns Culturels" icon={<Language />} />
           <Tab label="Analyse de Centralité" icon={<TrendingUp />} /> */}
-          <Tab label="Requêtes Cypher" icon={<Code />} />
+          {canRunCypher && <Tab label="Requêtes Cypher" icon={<Code />} />}
         </Tabs>
 
         {/* Global Search Tab */}
@@ -1118,7 +1074,7 @@ const SearchPage: React.FC = () => {
         </TabPanel>
         */}
 
-        {/* Cypher Query Tab */}
+        {/* Cypher Query Tab, only reachable by admins */}
         <TabPanel value={activeTab} index={2}>
           <Grid container spacing={3}>
             {/* Query Editor */}
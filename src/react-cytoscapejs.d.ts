@@ -0,0 +1,20 @@
+/**
+ * Types of the react-cytoscapejs component, which ships none
+ */
+declare module 'react-cytoscapejs' {
+  import type { ComponentType, CSSProperties } from 'react';
+  import type { Core, ElementDefinition } from 'cytoscape';
+
+  interface CytoscapeComponentProps {
+    elements: ElementDefinition[];
+    style?: CSSProperties;
+    className?: string;
+    /** Called with the Cytoscape instance once it is created */
+    cy?: (cy: Core) => void;
+    /** Stylesheet, layout and the other Cytoscape options */
+    [option: string]: unknown;
+  }
+
+  const CytoscapeComponent: ComponentType<CytoscapeComponentProps>;
+  export default CytoscapeComponent;
+}
@@ -0,0 +1,56 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { FilterGroup, instrumentsApi } from './api';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+
+const names = (response: { data: { data: Array<{ nomInstrument: string }> } }) =>
+  response.data.data.map(instrument => instrument.nomInstrument).sort();
+
+beforeEach(() => {
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+});
+
+describe('instrumentsApi.getAll', () => {
+  test('leaves search and year ranges to the server without relation filters', async () => {
+    const response = await instrumentsApi.getAll({ anneeMin: 1250, anneeMax: 1800 });
+    expect(names(response)).toEqual(['Balafon', 'Kora']);
+    expect(response.data.total).toBe(2);
+  });
+
+  test('intersects combined relation filters', async () => {
+    const response = await instrumentsApi.getAll({ famille: 'Cordophones', groupeEthnique: 'Mandingues' });
+    expect(names(response)).toEqual(['Kora']);
+
+    const withArtisan = await instrumentsApi.getAll({ filters: { groupeEthnique: 'Mandingues', artisan: 'Mamadou Diabaté' } });
+    expect(names(withArtisan)).toEqual(['Balafon']);
+  });
+
+  test('applies search and years on top of relation filters', async () => {
+    expect(names(await instrumentsApi.getAll({ groupeEthnique: 'Mandingues', search: 'lames' }))).toEqual(['Balafon']);
+    expect(names(await instrumentsApi.getAll({ groupeEthnique: 'Mandingues', anneeMin: 1250 }))).toEqual(['Balafon', 'Kora']);
+  });
+
+  test('forwards the advanced filter, with or without relation filters', async () => {
+    const where: FilterGroup = { combinator: 'and', conditions: [{ field: 'anneeCreation', operator: 'between', min: 1250 }] };
+    expect(names(await instrumentsApi.getAll({ where }))).toEqual(['Balafon', 'Kora']);
+    expect(names(await instrumentsApi.getAll({ famille: 'Cordophones', where }))).toEqual(['Kora']);
+  });
+
+  test('sorts, on the server or on top of relation filters', async () => {
+    const sort = [{ key: 'nomInstrument', direction: 'desc' as const }];
+    const all = await instrumentsApi.getAll({ sort, limit: 3 });
+    expect(all.data.data.map(instrument => instrument.nomInstrument)).toEqual(['Xalam', 'Tambin', 'Tama']);
+
+    const mandingues = await instrumentsApi.getAll({ groupeEthnique: 'Mandingues', sort });
+    expect(mandingues.data.data.map(instrument => instrument.nomInstrument)).toEqual(['Kora', 'Djembé', 'Balafon']);
+    expect(mandingues.pagination?.sort).toBe('-nomInstrument');
+  });
+
+  test('paginates filtered results with exact totals', async () => {
+    const response = await instrumentsApi.getAll({ groupeEthnique: 'Mandingues', page: 2, limit: 2 });
+    expect(response.data.data).toHaveLength(1);
+    expect(response.data.total).toBe(3);
+    expect(response.pagination?.total).toBe(3);
+  });
+});
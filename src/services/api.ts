@@ -6,24 +6,89 @@
  */
 
 import axios, { AxiosResponse } from 'axios';
-import { withRateLimit } from './rateLimiter';
-
-// Base configuration
-const API_BASE_URL = 'http://localhost:3001/api';
+import { withRateLimit, RateLimitOptions } from './rateLimiter';
+import { isMockBaseUrl, runtimeConfig } from './runtimeConfig';
+import { ApiError } from './apiError';
+import { requestCache, cacheKey } from './requestCache';
+import { entityStore } from './entityStore';
+import { breaksEnvelope, schemaMonitor } from './schemaMonitor';
+import { authService, isAuthRoute } from './auth';
+import { ifMatch, VersionConflict } from './versioning';
+import { withCoordinates, withGeoPoint } from './geoPoint';
+import { sortEntities } from './sortOrder';
+import type {
+  Instrument,
+  Famille,
+  GroupeEthnique,
+  Localite,
+  Materiau,
+  Timbre,
+  TechniqueDeJeu,
+  Artisan,
+  PatrimoineCulturel,
+  Rythme,
+  Relation,
+  RelationResult,
+  RelationType,
+  SearchResult,
+  GlobalSearchResponse,
+} from './apiSchemas';
+import { offlineSync, isNetworkFailure, OutboxDraft } from './offlineSync';
+import type { OutboxEntry } from './offlineDb';
+
+const networkAdapter = axios.getAdapter(axios.defaults.adapter);
+
+// The mock backend and its seed are only loaded once the mock profile is used
+const loadMockBackend = () => import('./mockBackend').then(module => module.mockBackend);
 
 // Create axios instance with default config
 const apiClient = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: runtimeConfig.getActiveProfile().apiBaseUrl,
   headers: {
     'Content-Type': 'application/json',
   },
   timeout: 50000,
+  // Requests aimed at the mock profile are answered in the browser
+  adapter: async (config) => (isMockBaseUrl(config.baseURL) ? (await loadMockBackend()).adapter(config) : networkAdapter(config)),
+});
+
+// Apply environment profile switches without a rebuild
+runtimeConfig.subscribe((profile) => {
+  apiClient.defaults.baseURL = profile.apiBaseUrl;
+  requestCache.invalidate();
+  entityStore.clear();
+});
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Already replayed once after a token refresh */
+    authRetried?: boolean;
+  }
+}
+
+// Replay mutations queued while offline through the same client
+offlineSync.setTransport((request) => apiClient.request(request));
+
+// Login, refresh and logout go through the same client, without a token
+authService.setTransport(({ url, data }) => apiClient.post(url, data).then((response) => response.data));
+
+// Mutations refused for lack of a session wait for the next login
+authService.subscribe(() => {
+  if (authService.getUser()) {
+    offlineSync.sync();
+  }
 });
 
-// Request interceptor for debugging
+// Request interceptor: logging and access token
 apiClient.interceptors.request.use(
-  (config) => {
+  async (config) => {
     console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
+    if (!isAuthRoute(config.url)) {
+      const token = await authService.getAccessToken();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+    }
     return config;
   },
   (error) => {
@@ -32,20 +97,25 @@ apiClient.interceptors.request.use(
   }
 );
 
-// Response interceptor for error handling
+// Response interceptor: schema checks and error handling
 apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    console.error('API Response Error:', error);
-    if (error.response?.status === 404) {
-      return Promise.resolve({
-        data: {
-          success: false,
-          error: 'Resource not found',
-          data: undefined
-        }
-      });
+  (response) => {
+    // Record mismatches are only reported, a malformed envelope is refused
+    const issues = schemaMonitor.check(response.config.method, response.config.url, response.data);
+    if (breaksEnvelope(issues)) {
+      return Promise.reject(new ApiError('schema', 'Réponse du serveur inattendue', { status: response.status, details: issues }));
     }
+    return response;
+  },
+  async (error) => {
+    // An expired access token is renewed once, then the request is replayed
+    const config = error?.config;
+    if (error?.response?.status === 401 && config && !config.authRetried && !isAuthRoute(config.url) && authService.getUser()) {
+      if (await authService.refresh()) {
+        return apiClient.request({ ...config, authRetried: true });
+      }
+    }
+    console.error('API Response Error:', error);
     return Promise.reject(error);
   }
 );
@@ -55,7 +125,12 @@ export interface ApiResponse<T = any> {
   success: boolean;
   data: T | undefined;
   error?: string;
+  apiError?: ApiError;
   message?: string;
+  queued?: boolean;
+  offline?: boolean;
+  /** Set when an update was refused because the record changed meanwhile */
+  conflict?: VersionConflict<T>;
 }
 
 export interface ApiListResponse<T = any> {
@@ -70,490 +145,622 @@ export interface ApiListResponse<T = any> {
     page: number;
     limit: number;
     total: number;
+    /** Sort applied by the backend, absent when it ignored the `sort` parameter */
+    sort?: string;
   };
   error?: string;
+  apiError?: ApiError;
+  offline?: boolean;
 }
 
+/**
+ * Per-call options of rate-limited methods
+ *
+ * Aborting `signal` cancels the call whether it is still queued or already
+ * sent; the returned promise then rejects with an ApiError of kind 'cancelled'.
+ */
+export type RequestOptions = RateLimitOptions;
+
 export interface ListParams {
   page?: number;
   limit?: number;
   search?: string;
   filters?: Record<string, any>;
+  /** Advanced filter, sent as JSON in the `where` query parameter */
+  where?: FilterGroup;
+  /** Sort keys, most significant first */
+  sort?: SortKey[];
 }
 
-// Entity interfaces
-export interface Instrument {
-  id: number;
-  nomInstrument: string;
-  description?: string;
-  anneeCreation?: number;
+/**
+ * Sort on a field, or on a relation count with `relations:type` (outgoing)
+ * and `relations:^type` (incoming)
+ */
+export interface SortKey {
+  key: string;
+  direction: 'asc' | 'desc';
 }
 
-export interface Famille {
-  id: number;
-  nomFamille: string;
-  descriptionFamille?: string;
-}
+/**
+ * Value of the `sort` query parameter: keys joined by commas, descending
+ * ones prefixed with `-`
+ */
+export const sortParam = (sort: SortKey[] = []): string =>
+  sort.map(({ key, direction }) => (direction === 'desc' ? `-${key}` : key)).join(',');
 
-export interface GroupeEthnique {
-  id: number;
-  nomGroupe: string;
-  langue?: string;
-  description?: string;
+/**
+ * Condition of an advanced filter, on a field or on a relation
+ */
+export type FilterCondition =
+  | { field: string; operator: 'contains' | 'equals'; value: string }
+  | { field: string; operator: 'between'; min?: number; max?: number }
+  | { field: string; operator: 'in'; values: string[] }
+  | { relationType: string; direction: 'outgoing' | 'incoming'; operator: 'has' | 'lacks' };
+
+export interface FilterGroup {
+  combinator: 'and' | 'or';
+  conditions: FilterCondition[];
 }
 
-export interface Localite {
-  id: number;
-  nomLocalite: string;
-  coordonnees?: string;
-  description?: string;
+export interface InstrumentFilters {
+  famille?: string;
+  groupeEthnique?: string;
+  artisan?: string;
+  anneeMin?: number;
+  anneeMax?: number;
 }
 
-export interface Materiau {
-  id: number;
-  nomMateriau: string;
-  type?: string;
-  description?: string;
+/**
+ * Instrument filters may be given at the top level or under `filters`
+ */
+export interface InstrumentListParams extends ListParams, InstrumentFilters {
+  filters?: InstrumentFilters;
 }
 
-export interface Timbre {
-  id: number;
-  descriptionTimbre: string;
-  frequence?: number;
-  intensite?: number;
-}
+// Entity, relation and search types are derived from the runtime schemas
+export type {
+  Instrument,
+  Famille,
+  GroupeEthnique,
+  Localite,
+  Materiau,
+  Timbre,
+  TechniqueDeJeu,
+  Artisan,
+  PatrimoineCulturel,
+  Rythme,
+  RelationType,
+  Relation,
+  RelationResult,
+  EntityRelations,
+  SearchResult,
+  GlobalSearchResponse,
+  GeographicSearchResponse,
+  CulturalPattern,
+  CentralityItem,
+} from './apiSchemas';
 
-export interface TechniqueDeJeu {
-  id: number;
-  nomTechnique: string;
-  description?: string;
-  difficulte?: string;
+export interface CreateRelationData {
+  sourceId: string | number;
+  targetId: string | number;
+  relationType: string;
 }
 
-export interface Artisan {
-  id: number;
-  nomArtisan: string;
-  specialite?: string;
-  region?: string;
+// Search parameters
+export interface GeographicSearchParams {
+  lat: number;
+  lng: number;
+  radius: number;
 }
 
-export interface PatrimoineCulturel {
-  id: number;
-  nomPatrimoine: string;
-  type?: string;
-  description?: string;
+/**
+ * Build a failed response carrying a structured ApiError
+ */
+function failure<D>(error: unknown, fallbackMessage: string, data: D) {
+  const apiError = ApiError.from(error, fallbackMessage);
+  return {
+    success: false as const,
+    error: apiError.message,
+    apiError,
+    data,
+  };
 }
 
-// Relation interfaces
-export interface RelationType {
-  type: string;
-  constraints: {
-    from: string[];
-    to: string[];
-    cardinality: '1:1' | '1:N' | 'N:1' | 'N:N';
-    description?: string;
-  };
+/**
+ * Attach the three states of the record to an update refused with 409
+ * because the record changed since it was read; the backend sends the
+ * current record along
+ */
+function withVersionConflict<T>(response: ApiResponse<T>, entityType: string, original: Partial<T> | undefined, mine: Partial<T>): ApiResponse<T> {
+  const theirs = response.apiError?.kind === 'conflict' ? response.apiError.details?.current : undefined;
+  if (!theirs) return response;
+  entityStore.upsertEntity(entityType, theirs);
+  return { ...response, conflict: { original: original || {}, theirs, mine } };
 }
 
-export interface Relation {
-  sourceId: number;
-  targetId: number;
-  relationType: string;
-  source?: {
-    id: number;
-    type: string;
-    displayName: string;
-    [key: string]: any;
-  };
-  target?: {
-    id: number;
-    type: string;
-    displayName: string;
-    [key: string]: any;
-  };
+/**
+ * Drop every cached read after a relation change: relations feed entity
+ * lists (by family, group, artisan), statistics and graphs
+ */
+function invalidateRelations() {
+  requestCache.invalidate();
 }
 
-export interface RelationResult {
-  source: any;
-  target: any;
-  relationType: string;
-  sourceLabels: string[];
-  targetLabels: string[];
+/**
+ * Drop cached reads of an endpoint after a successful mutation
+ *
+ * Relation-backed reads (`/relations/entity/...`) may mention the entity too.
+ */
+function invalidateEndpoint(endpoint: string) {
+  requestCache.invalidate(endpoint);
+  requestCache.invalidate('/relations');
 }
 
-export interface CreateRelationData {
-  sourceId: string | number;
-  targetId: string | number;
-  relationType: string;
+/**
+ * Items of a list response, whatever its nesting
+ */
+function listItems(payload: any): any[] {
+  const data = payload?.data?.data ?? payload?.data ?? [];
+  return Array.isArray(data) ? data : [];
 }
 
-// Search interfaces
-export interface SearchResult {
-  entity: any;
-  labels: string[];
-  name: string;
-  type: string;
+/**
+ * Copy the entities of a successful list response into the entity store
+ */
+function storeList<R extends { success: boolean }>(entityType: string) {
+  return (response: R): R => {
+    if (response.success) {
+      entityStore.upsertEntities(entityType, listItems(response));
+    }
+    return response;
+  };
 }
 
-export interface GlobalSearchResponse {
-  searchTerm: string;
-  totalResults: number;
-  results: Record<string, SearchResult[]>;
-  allResults: SearchResult[];
+/**
+ * Send a mutation, or keep it in the offline outbox when the backend cannot
+ * be reached; a queued mutation is applied to the entity store right away
+ * and answered with `queued: true`
+ */
+async function sendOrQueue<D>(
+  draft: OutboxDraft,
+  send: () => Promise<ApiResponse<D>>,
+  applyLocally: (entry: OutboxEntry) => D | undefined
+): Promise<ApiResponse<D>> {
+  if (offlineSync.isOnline()) {
+    const response = await send();
+    if (response.success || !isNetworkFailure(response)) {
+      return response;
+    }
+    offlineSync.reportNetworkFailure();
+  }
+
+  const entry = await offlineSync.enqueue(draft);
+  requestCache.invalidate(draft.endpoint);
+  return {
+    success: true,
+    queued: true,
+    data: applyLocally(entry),
+    message: 'Modification enregistrée hors ligne, elle sera synchronisée au retour de la connexion',
+  };
 }
 
-export interface GeographicSearchParams {
-  lat: number;
-  lng: number;
-  radius: number;
+// Instrument filters backed by a `/instruments/by-*` endpoint
+const RELATION_FILTERS = ['famille', 'groupeEthnique', 'artisan'] as const;
+
+const RELATION_FILTER_ROUTES: Record<typeof RELATION_FILTERS[number], string> = {
+  famille: 'by-family',
+  groupeEthnique: 'by-group',
+  artisan: 'by-artisan',
+};
+
+/**
+ * Criteria the `by-*` endpoints do not apply themselves
+ */
+function matchesInstrument(instrument: Instrument, search: string | undefined, criteria: InstrumentFilters): boolean {
+  if (search) {
+    const term = search.toLowerCase();
+    const text = `${instrument.nomInstrument || ''} ${instrument.description || ''}`.toLowerCase();
+    if (!text.includes(term)) return false;
+  }
+  if (criteria.anneeMin !== undefined || criteria.anneeMax !== undefined) {
+    const year = instrument.anneeCreation;
+    if (year === undefined || year === null) return false;
+    if (criteria.anneeMin !== undefined && year < criteria.anneeMin) return false;
+    if (criteria.anneeMax !== undefined && year > criteria.anneeMax) return false;
+  }
+  return true;
 }
 
 // Generic service interface
-interface CrudService<T> {
-  getAll: (params?: ListParams) => Promise<ApiListResponse<T>>;
+export interface CrudService<T> {
+  getAll: (params?: ListParams, options?: RequestOptions) => Promise<ApiListResponse<T>>;
   getById: (id: number) => Promise<ApiResponse<T>>;
   create: (data: Partial<T>) => Promise<ApiResponse<T>>;
-  update: (id: number, data: Partial<T>) => Promise<ApiResponse<T>>;
+  update: (id: number, data: Partial<T>, original?: Partial<T>) => Promise<ApiResponse<T>>;
   delete: (id: number) => Promise<ApiResponse<void>>;
-  getStatistics?: () => Promise<ApiResponse<any>>;
+  getStatistics?: (options?: RequestOptions) => Promise<ApiResponse<any>>;
 }
 
 // Generic CRUD service factory
-function createCrudService<T>(endpoint: string): CrudService<T> {
+function createCrudService<T>(endpoint: string, entityType: string): CrudService<T> {
   return {
-    async getAll(params: ListParams = {}): Promise<ApiListResponse<T>> {
-      return withRateLimit(`${endpoint}-getAll`, async () => {
+    async getAll(params: ListParams = {}, options: RequestOptions = {}): Promise<ApiListResponse<T>> {
+      const query = {
+        page: params.page || 1,
+        limit: params.limit || 10,
+        search: params.search,
+        ...params.filters,
+        where: params.where?.conditions.length ? JSON.stringify(params.where) : undefined,
+        sort: params.sort?.length ? sortParam(params.sort) : undefined,
+      };
+      const key = cacheKey(endpoint, query);
+      return requestCache.fetch(key, (shared) =>
+        offlineSync.mirrored(key, () => withRateLimit(`${endpoint}-getAll`, async (signal) => {
+          try {
+            const response: AxiosResponse<ApiListResponse<T>> = await apiClient.get(endpoint, {
+              params: query,
+              signal,
+            });
+            return response.data;
+          } catch (error: any) {
+            console.error(`Error fetching ${endpoint}:`, error);
+            return failure(error, `Failed to fetch ${endpoint}`, { data: [], total: 0 });
+          }
+        }, { ...options, signal: shared }), endpoint).then(storeList<ApiListResponse<T>>(entityType)),
+        { signal: options.signal }
+      );
+    },
+
+    async getById(id: number): Promise<ApiResponse<T>> {
+      return requestCache.fetch(cacheKey(`${endpoint}/${id}`), async (signal) => {
         try {
-          const response: AxiosResponse<ApiListResponse<T>> = await apiClient.get(endpoint, {
-            params: {
-              page: params.page || 1,
-              limit: params.limit || 10,
-              search: params.search,
-              ...params.filters,
-            },
-          });
+          const response: AxiosResponse<ApiResponse<T>> = await apiClient.get(`${endpoint}/${id}`, { signal });
+          if (response.data.success && response.data.data) {
+            entityStore.upsertEntity(entityType, response.data.data);
+          }
           return response.data;
         } catch (error: any) {
-          console.error(`Error fetching ${endpoint}:`, error);
-          return {
-            success: false,
-            error: error.message || `Failed to fetch ${endpoint}`,
-            data: { data: [], total: 0 }
-          };
+          console.error(`Error fetching ${endpoint}/${id}:`, error);
+          return failure(error, `Failed to fetch ${endpoint}/${id}`, undefined);
         }
       });
     },
 
-    async getById(id: number): Promise<ApiResponse<T>> {
-      try {
-        const response: AxiosResponse<ApiResponse<T>> = await apiClient.get(`${endpoint}/${id}`);
-        return response.data;
-      } catch (error: any) {
-        console.error(`Error fetching ${endpoint}/${id}:`, error);
-        return {
-          success: false,
-          error: error.message || `Failed to fetch ${endpoint}/${id}`,
-          data: undefined
-        };
-      }
-    },
-
     async create(data: Partial<T>): Promise<ApiResponse<T>> {
-      try {
-        const response: AxiosResponse<ApiResponse<T>> = await apiClient.post(endpoint, data);
-        return response.data;
-      } catch (error: any) {
-        console.error(`Error creating ${endpoint}:`, error);
-        return {
-          success: false,
-          error: error.response?.data?.message || error.message || `Failed to create ${endpoint}`,
-          data: undefined
-        };
-      }
+      return sendOrQueue({ kind: 'create', endpoint, entityType, data }, async () => {
+        try {
+          const response: AxiosResponse<ApiResponse<T>> = await apiClient.post(endpoint, data);
+          invalidateEndpoint(endpoint);
+          if (response.data.success && response.data.data) {
+            entityStore.upsertEntity(entityType, response.data.data);
+          }
+          return response.data;
+        } catch (error: any) {
+          console.error(`Error creating ${endpoint}:`, error);
+          return failure(error, `Failed to create ${endpoint}`, undefined);
+        }
+      }, (entry) => {
+        const created = { ...data, id: entry.entityId } as T;
+        entityStore.upsertEntity(entityType, created);
+        return created;
+      });
     },
 
-    async update(id: number, data: Partial<T>): Promise<ApiResponse<T>> {
-      try {
-        const response: AxiosResponse<ApiResponse<T>> = await apiClient.put(`${endpoint}/${id}`, data);
-        return response.data;
-      } catch (error: any) {
-        console.error(`Error updating ${endpoint}/${id}:`, error);
-        return {
-          success: false,
-          error: error.response?.data?.message || error.message || `Failed to update ${endpoint}/${id}`,
-          data: undefined
-        };
-      }
+    /**
+     * Update a record; with the `original` record the edit started from, the
+     * backend refuses the update if the record changed meanwhile and the
+     * response carries a `conflict` to merge
+     */
+    async update(id: number, data: Partial<T>, original?: Partial<T>): Promise<ApiResponse<T>> {
+      const version = (original as { version?: number } | undefined)?.version;
+      return sendOrQueue({ kind: 'update', endpoint, entityType, entityId: id, data, version }, async () => {
+        try {
+          const response: AxiosResponse<ApiResponse<T>> = await apiClient.put(`${endpoint}/${id}`, data, {
+            headers: ifMatch(version),
+          });
+          invalidateEndpoint(endpoint);
+          if (response.data.success) {
+            entityStore.upsertEntity(entityType, response.data.data || { ...data, id });
+          }
+          return response.data;
+        } catch (error: any) {
+          console.error(`Error updating ${endpoint}/${id}:`, error);
+          invalidateEndpoint(endpoint);
+          return withVersionConflict(failure(error, `Failed to update ${endpoint}/${id}`, undefined), entityType, original, data);
+        }
+      }, () => {
+        entityStore.upsertEntity(entityType, { ...data, id });
+        return entityStore.getEntity<T>(entityType, id);
+      });
     },
 
     async delete(id: number): Promise<ApiResponse<void>> {
-      try {
-        const response: AxiosResponse<ApiResponse<void>> = await apiClient.delete(`${endpoint}/${id}`);
-        return response.data;
-      } catch (error: any) {
-        console.error(`Error deleting ${endpoint}/${id}:`, error);
-        return {
-          success: false,
-          error: error.response?.data?.message || error.message || `Failed to delete ${endpoint}/${id}`,
-          data: undefined
-        };
-      }
-    },
-
-    async getStatistics(): Promise<ApiResponse<any>> {
-      return withRateLimit(`${endpoint}-getStatistics`, async () => {
+      return sendOrQueue({ kind: 'delete', endpoint, entityType, entityId: id }, async () => {
         try {
-          const response: AxiosResponse<ApiResponse<any>> = await apiClient.get(`${endpoint}/statistics`);
+          const response: AxiosResponse<ApiResponse<void>> = await apiClient.delete(`${endpoint}/${id}`);
+          invalidateEndpoint(endpoint);
+          if (response.data.success) {
+            entityStore.removeEntity(entityType, id);
+          }
           return response.data;
         } catch (error: any) {
-          console.error(`Error fetching ${endpoint}/statistics:`, error);
-          return {
-            success: false,
-            error: error.message || `Failed to fetch ${endpoint}/statistics`,
-            data: undefined
-          };
+          console.error(`Error deleting ${endpoint}/${id}:`, error);
+          return failure(error, `Failed to delete ${endpoint}/${id}`, undefined);
         }
+      }, () => {
+        entityStore.removeEntity(entityType, id);
+        return undefined;
       });
     },
+
+    async getStatistics(options: RequestOptions = {}): Promise<ApiResponse<any>> {
+      return requestCache.fetch(cacheKey(`${endpoint}/statistics`), (shared) =>
+        withRateLimit(`${endpoint}-getStatistics`, async (signal) => {
+          try {
+            const response: AxiosResponse<ApiResponse<any>> = await apiClient.get(`${endpoint}/statistics`, { signal });
+            return response.data;
+          } catch (error: any) {
+            console.error(`Error fetching ${endpoint}/statistics:`, error);
+            return failure(error, `Failed to fetch ${endpoint}/statistics`, undefined);
+          }
+        }, { ...options, signal: shared }),
+        { signal: options.signal }
+      );
+    },
   };
 }
 
-// Instruments API with smart filtering
+/**
+ * Every instrument of a `/instruments` query, page by page
+ */
+async function fetchEveryInstrument(params: Record<string, unknown>, signal?: AbortSignal): Promise<Instrument[]> {
+  const instruments: Instrument[] = [];
+  for (let page = 1; ; page++) {
+    const response: AxiosResponse<ApiListResponse<Instrument>> = await apiClient.get('/instruments', {
+      params: { ...params, page, limit: 100 },
+      signal,
+    });
+    const items = response.data.data?.data || [];
+    instruments.push(...items);
+    if (items.length < 100 || instruments.length >= (response.data.pagination?.total ?? response.data.data?.total ?? 0)) {
+      return instruments;
+    }
+  }
+}
+
+// Instruments API with composable filtering
 export const instrumentsApi = {
-  ...createCrudService<Instrument>('/instruments'),
-  
-  // Override getAll to use working endpoints
-  async getAll(params: ListParams = {}): Promise<ApiListResponse<Instrument>> {
-    return withRateLimit('instruments-getAll', async () => {
+  ...createCrudService<Instrument>('/instruments', 'Instrument'),
+
+  /**
+   * List instruments matching every given filter
+   *
+   * Without relation filters the whole query (search, years, advanced
+   * filter, sort, pagination) is left to `/instruments`. Relation filters go
+   * through the `by-*` endpoints, whose full result sets are intersected,
+   * with the instruments matching the advanced filter if any, before the
+   * remaining criteria, the sort and the pagination are applied, so totals
+   * stay exact.
+   */
+  async getAll(params: InstrumentListParams = {}, options: RequestOptions = {}): Promise<ApiListResponse<Instrument>> {
+    const { page = 1, limit = 10, search, filters, where, sort, ...direct } = params;
+    const criteria: InstrumentFilters = { ...filters, ...direct };
+    const whereParam = where?.conditions.length ? JSON.stringify(where) : undefined;
+    const sortValue = sort?.length ? sortParam(sort) : undefined;
+    const query = Object.fromEntries(
+      Object.entries({ page, limit, search, ...criteria, where: whereParam, sort: sortValue })
+        .filter(([, value]) => value !== undefined && value !== '')
+    );
+    const relationFilters = RELATION_FILTERS.filter(name => criteria[name]);
+
+    const key = cacheKey('/instruments', query);
+    return requestCache.fetch(key, (shared) => offlineSync.mirrored(key, () => withRateLimit('instruments-getAll', async (signal) => {
       try {
-        console.log('🔧 Smart instrumentsApi.getAll called with params:', params);
-        
-        // Check for specific filters and use working endpoints
-        const filters = params.filters || {};
-        const famille = params.famille || filters.famille;
-        const groupeEthnique = params.groupeEthnique || filters.groupeEthnique;
-        const artisan = params.artisan || filters.artisan;
-        const search = params.search;
-        
-        let response: AxiosResponse<any>;
-        
-        if (search) {
-          console.log('🔍 Using search:', search);
-          response = await apiClient.get('/instruments', { params });
-        } else if (famille && !groupeEthnique && !artisan) {
-          console.log('🎯 Using by-family endpoint for:', famille);
-          response = await apiClient.get(`/instruments/by-family/${encodeURIComponent(famille)}`);
-          
-          // Transform response to match expected format
-          if (response.data.success) {
-            const instruments = response.data.data.map((item: any) => item.instrument);
-            const page = parseInt(params.page as string) || 1;
-            const limit = parseInt(params.limit as string) || 10;
-            const startIndex = (page - 1) * limit;
-            const endIndex = startIndex + limit;
-            const paginatedData = instruments.slice(startIndex, endIndex);
-            
-            return {
-              success: true,
-              data: {
-                data: paginatedData,
-                total: instruments.length
-              },
-              pagination: {
-                page,
-                limit,
-                total: instruments.length
-              }
-            };
-          }
-        } else if (groupeEthnique && !famille && !artisan) {
-          console.log('🌍 Using by-group endpoint for:', groupeEthnique);
-          response = await apiClient.get(`/instruments/by-group/${encodeURIComponent(groupeEthnique)}`);
-          
-          // Transform response to match expected format
-          if (response.data.success) {
-            const instruments = response.data.data.map((item: any) => item.instrument);
-            const page = parseInt(params.page as string) || 1;
-            const limit = parseInt(params.limit as string) || 10;
-            const startIndex = (page - 1) * limit;
-            const endIndex = startIndex + limit;
-            const paginatedData = instruments.slice(startIndex, endIndex);
-            
-            return {
-              success: true,
-              data: {
-                data: paginatedData,
-                total: instruments.length
-              },
-              pagination: {
-                page,
-                limit,
-                total: instruments.length
-              }
-            };
-          }
-        } else if (artisan && !famille && !groupeEthnique) {
-          console.log('👨‍🎨 Using by-artisan endpoint for:', artisan);
-          response = await apiClient.get(`/instruments/by-artisan/${encodeURIComponent(artisan)}`);
-          
-          // Transform response to match expected format
-          if (response.data.success) {
-            const instruments = response.data.data.map((item: any) => item.instrument);
-            const page = parseInt(params.page as string) || 1;
-            const limit = parseInt(params.limit as string) || 10;
-            const startIndex = (page - 1) * limit;
-            const endIndex = startIndex + limit;
-            const paginatedData = instruments.slice(startIndex, endIndex);
-            
-            return {
-              success: true,
-              data: {
-                data: paginatedData,
-                total: instruments.length
-              },
-              pagination: {
-                page,
-                limit,
-                total: instruments.length
-              }
-            };
-          }
-        } else {
-          console.log('📋 Using default endpoint');
-          response = await apiClient.get('/instruments', { params });
+        if (relationFilters.length === 0) {
+          const response: AxiosResponse<ApiListResponse<Instrument>> = await apiClient.get('/instruments', { params: query, signal });
+          return response.data;
         }
-        
-        return response.data;
-      } catch (error: any) {
-        console.error('Error in smart instrumentsApi.getAll:', error);
+
+        const responses: AxiosResponse<ApiResponse<any[]>>[] = await Promise.all(relationFilters.map(name =>
+          apiClient.get(`/instruments/${RELATION_FILTER_ROUTES[name]}/${encodeURIComponent(String(criteria[name]))}`, { signal })
+        ));
+        const failed = responses.find(response => !response.data.success);
+        if (failed) {
+          return { success: false, error: failed.data.error || 'Failed to fetch instruments', data: { data: [], total: 0 } };
+        }
+
+        const [first, ...others] = responses.map(response =>
+          (response.data.data || []).map((item: any): Instrument => item.instrument ?? item)
+        );
+        if (whereParam) {
+          others.push(await fetchEveryInstrument({ where: whereParam }, signal));
+        }
+        const matching = others
+          .reduce((result, list) => {
+            const ids = new Set(list.map(instrument => instrument.id));
+            return result.filter(instrument => ids.has(instrument.id));
+          }, first)
+          .filter(instrument => matchesInstrument(instrument, search, criteria));
+        // Field keys are sorted here; relation counts are left unsorted, and not echoed back
+        const sorted = sort?.length && sort.every(({ key }) => !key.startsWith('relations:'))
+          ? sortEntities(matching, sort, (instrument, key) => (instrument as Record<string, unknown>)[key])
+          : undefined;
+
+        const skip = (page - 1) * limit;
         return {
-          success: false,
-          error: error.message || 'Failed to fetch instruments',
-          data: { data: [], total: 0 }
+          success: true,
+          data: { data: (sorted || matching).slice(skip, skip + limit), total: matching.length, limit, skip },
+          pagination: { page, limit, total: matching.length, ...(sorted ? { sort: sortValue } : {}) },
         };
+      } catch (error: any) {
+        console.error('Error fetching instruments:', error);
+        return failure(error, 'Failed to fetch instruments', { data: [], total: 0 });
       }
-    });
+    }, { ...options, signal: shared }), '/instruments').then(storeList<ApiListResponse<Instrument>>('Instrument')), { signal: options.signal });
   }
 };
-export const famillesApi = createCrudService<Famille>('/familles');
-export const groupesEthniquesApi = createCrudService<GroupeEthnique>('/groupes-ethniques');
-export const localitesApi = createCrudService<Localite>('/localites');
-export const materiauxApi = createCrudService<Materiau>('/materiaux');
-export const timbresApi = createCrudService<Timbre>('/timbres');
-export const techniquesApi = createCrudService<TechniqueDeJeu>('/techniques');
-export const artisansApi = createCrudService<Artisan>('/artisans');
-export const patrimoinesApi = createCrudService<PatrimoineCulturel>('/patrimoines');
+export const famillesApi = createCrudService<Famille>('/familles', 'Famille');
+export const groupesEthniquesApi = createCrudService<GroupeEthnique>('/groupes-ethniques', 'GroupeEthnique');
+const localitesCrud = createCrudService<Localite>('/localites', 'Localite');
+// Localités are edited through their point, searched through its numbers
+export const localitesApi: CrudService<Localite> = {
+  ...localitesCrud,
+  async getAll(params, options) {
+    const response = await localitesCrud.getAll(params, options);
+    return response.data?.data ? { ...response, data: { ...response.data, data: response.data.data.map(withGeoPoint) } } : response;
+  },
+  async getById(id) {
+    const response = await localitesCrud.getById(id);
+    return response.data ? { ...response, data: withGeoPoint(response.data) } : response;
+  },
+  create: (data) => localitesCrud.create(withCoordinates(data)),
+  update: (id, data, original) => localitesCrud.update(id, withCoordinates(data), original),
+};
+export const materiauxApi = createCrudService<Materiau>('/materiaux', 'Materiau');
+export const timbresApi = createCrudService<Timbre>('/timbres', 'Timbre');
+export const techniquesApi = createCrudService<TechniqueDeJeu>('/techniques', 'TechniqueDeJeu');
+export const artisansApi = createCrudService<Artisan>('/artisans', 'Artisan');
+export const patrimoinesApi = createCrudService<PatrimoineCulturel>('/patrimoines', 'PatrimoineCulturel');
+export const rythmesApi = createCrudService<Rythme>('/rythmes', 'Rythme');
 
 // Relations API service
 export const relationsApi = {
-  async getAll(params: ListParams = {}): Promise<ApiResponse<Relation[]>> {
-    return withRateLimit('relations-getAll', async () => {
+  async getAll(params: ListParams = {}, options: RequestOptions = {}): Promise<ApiResponse<Relation[]>> {
+    const query = {
+      page: params.page || 1,
+      limit: params.limit || 50,
+      relationType: params.filters?.relationType,
+    };
+    const key = cacheKey('/relations', query);
+    return requestCache.fetch(key, (shared) =>
+      offlineSync.mirrored(key, () => withRateLimit('relations-getAll', async (signal) => {
+        try {
+          const response: AxiosResponse<ApiResponse<Relation[]>> = await apiClient.get('/relations', {
+            params: query,
+            signal,
+          });
+          return response.data;
+        } catch (error: any) {
+          console.error('Error fetching relations:', error);
+          return failure(error, 'Failed to fetch relations', []);
+        }
+      }, { ...options, signal: shared })).then((response) => {
+        if (response.success) {
+          entityStore.ingestRelations(response.data || []);
+        }
+        return response;
+      }),
+      { signal: options.signal }
+    );
+  },
+
+  async getForEntity(entityId: string, entityType?: string): Promise<ApiResponse<any>> {
+    const key = cacheKey(`/relations/entity/${entityId}`);
+    return requestCache.fetch(key, (signal) => offlineSync.mirrored(key, async () => {
       try {
-        const response: AxiosResponse<ApiResponse<Relation[]>> = await apiClient.get('/relations', {
-          params: {
-            page: params.page || 1,
-            limit: params.limit || 50,
-            relationType: params.filters?.relationType,
-          },
-        });
+        const response: AxiosResponse<ApiResponse<any>> = await apiClient.get(`/relations/entity/${entityId}`, { signal });
         return response.data;
       } catch (error: any) {
-        console.error('Error fetching relations:', error);
-        return {
-          success: false,
-          error: error.message || 'Failed to fetch relations',
-          data: []
-        };
+        console.error(`Error fetching relations for entity ${entityId}:`, error);
+        return failure(error, `Failed to fetch relations for entity ${entityId}`, undefined);
       }
-    });
-  },
-
-  async getForEntity(entityId: string): Promise<ApiResponse<any>> {
-    try {
-      const response: AxiosResponse<ApiResponse<any>> = await apiClient.get(`/relations/entity/${entityId}`);
-      return response.data;
-    } catch (error: any) {
-      console.error(`Error fetching relations for entity ${entityId}:`, error);
-      return {
-        success: false,
-        error: error.message || `Failed to fetch relations for entity ${entityId}`,
-        data: undefined
-      };
-    }
+    }).then((response) => {
+      if (response.success && response.data) {
+        entityStore.ingestEntityRelations(entityType, Number(entityId), response.data);
+      }
+      return response;
+    }));
   },
 
   async getByType(relationType: string, limit: number = 100): Promise<ApiResponse<RelationResult[]>> {
-    try {
-      const response: AxiosResponse<ApiResponse<RelationResult[]>> = await apiClient.get(`/relations/type/${relationType}`, {
-        params: { limit }
-      });
-      return response.data;
-    } catch (error: any) {
-      console.error(`Error fetching relations by type ${relationType}:`, error);
-      return {
-        success: false,
-        error: error.message || `Failed to fetch relations by type ${relationType}`,
-        data: []
-      };
-    }
+    const key = cacheKey(`/relations/type/${relationType}`, { limit });
+    return requestCache.fetch(key, (signal) => offlineSync.mirrored(key, async () => {
+      try {
+        const response: AxiosResponse<ApiResponse<RelationResult[]>> = await apiClient.get(`/relations/type/${relationType}`, {
+          params: { limit },
+          signal,
+        });
+        return response.data;
+      } catch (error: any) {
+        console.error(`Error fetching relations by type ${relationType}:`, error);
+        return failure(error, `Failed to fetch relations by type ${relationType}`, []);
+      }
+    }).then((response) => {
+      if (response.success) {
+        entityStore.ingestRelationResults(response.data || []);
+      }
+      return response;
+    }));
   },
 
   async getTypes(): Promise<ApiResponse<RelationType[]>> {
-    try {
-      const response: AxiosResponse<ApiResponse<RelationType[]>> = await apiClient.get('/relations/types');
-      return response.data;
-    } catch (error: any) {
-      console.error('Error fetching relation types:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to fetch relation types',
-        data: []
-      };
-    }
+    const key = cacheKey('/relations/types');
+    return requestCache.fetch(key, (signal) => offlineSync.mirrored(key, async () => {
+      try {
+        const response: AxiosResponse<ApiResponse<RelationType[]>> = await apiClient.get('/relations/types', { signal });
+        return response.data;
+      } catch (error: any) {
+        console.error('Error fetching relation types:', error);
+        return failure(error, 'Failed to fetch relation types', []);
+      }
+    }));
   },
 
   async getStatistics(): Promise<ApiResponse<any>> {
-    try {
-      const response: AxiosResponse<ApiResponse<any>> = await apiClient.get('/relations/statistics');
-      return response.data;
-    } catch (error: any) {
-      console.error('Error fetching relation statistics:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to fetch relation statistics',
-        data: undefined
-      };
-    }
+    return requestCache.fetch(cacheKey('/relations/statistics'), async (signal) => {
+      try {
+        const response: AxiosResponse<ApiResponse<any>> = await apiClient.get('/relations/statistics', { signal });
+        return response.data;
+      } catch (error: any) {
+        console.error('Error fetching relation statistics:', error);
+        return failure(error, 'Failed to fetch relation statistics', undefined);
+      }
+    });
   },
 
   async create(data: CreateRelationData): Promise<ApiResponse<any>> {
-    try {
-      const response: AxiosResponse<ApiResponse<any>> = await apiClient.post('/relations', data);
-      return response.data;
-    } catch (error: any) {
-      console.error('Error creating relation:', error);
-      return {
-        success: false,
-        error: error.response?.data?.message || error.message || 'Failed to create relation',
-        data: undefined
-      };
-    }
+    return sendOrQueue({ kind: 'relation-create', endpoint: '/relations', relation: data }, async () => {
+      try {
+        const response: AxiosResponse<ApiResponse<any>> = await apiClient.post('/relations', data);
+        invalidateRelations();
+        const created = response.data.data;
+        if (response.data.success && created?.source && created?.target) {
+          // The created relation comes back with its endpoints, read or not yet
+          entityStore.ingestRelations([created]);
+        } else if (response.data.success) {
+          entityStore.addRelation(data.sourceId, data.targetId, data.relationType);
+        }
+        return response.data;
+      } catch (error: any) {
+        console.error('Error creating relation:', error);
+        return failure(error, 'Failed to create relation', undefined);
+      }
+    }, () => {
+      entityStore.addRelation(data.sourceId, data.targetId, data.relationType);
+      return data;
+    });
   },
 
   async delete(sourceId: number | string, targetId: number | string, relationType: string): Promise<ApiResponse<void>> {
-    try {
-      const response: AxiosResponse<ApiResponse<void>> = await apiClient.delete(
-        `/relations/${sourceId}/${targetId}/${relationType}`
-      );
-      return response.data;
-    } catch (error: any) {
-      console.error('Error deleting relation:', error);
-      return {
-        success: false,
-        error: error.response?.data?.message || error.message || 'Failed to delete relation',
-        data: undefined
-      };
-    }
+    const relation = { sourceId, targetId, relationType };
+    return sendOrQueue({ kind: 'relation-delete', endpoint: '/relations', relation }, async () => {
+      try {
+        const response: AxiosResponse<ApiResponse<void>> = await apiClient.delete(
+          `/relations/${sourceId}/${targetId}/${relationType}`
+        );
+        invalidateRelations();
+        if (response.data.success) {
+          entityStore.removeRelation(sourceId, targetId, relationType);
+        }
+        return response.data;
+      } catch (error: any) {
+        console.error('Error deleting relation:', error);
+        return failure(error, 'Failed to delete relation', undefined);
+      }
+    }, () => {
+      entityStore.removeRelation(sourceId, targetId, relationType);
+      return undefined;
+    });
   },
 
   async validate(data: CreateRelationData): Promise<ApiResponse<any>> {
@@ -562,28 +769,24 @@ export const relationsApi = {
       return response.data;
     } catch (error: any) {
       console.error('Error validating relation:', error);
-      return {
-        success: false,
-        error: error.response?.data?.message || error.message || 'Failed to validate relation',
-        data: undefined
-      };
+      return failure(error, 'Failed to validate relation', undefined);
     }
   },
 
-  async getOntology(): Promise<ApiResponse<any>> {
-    return withRateLimit('relations-getOntology', async () => {
-      try {
-        const response: AxiosResponse<ApiResponse<any>> = await apiClient.get('/relations/ontology');
-        return response.data;
-      } catch (error: any) {
-        console.error('Error fetching ontology structure:', error);
-        return {
-          success: false,
-          error: error.response?.data?.message || error.message || 'Failed to fetch ontology structure',
-          data: undefined
-        };
-      }
-    });
+  async getOntology(options: RequestOptions = {}): Promise<ApiResponse<any>> {
+    const key = cacheKey('/relations/ontology');
+    return requestCache.fetch(key, (shared) =>
+      offlineSync.mirrored(key, () => withRateLimit('relations-getOntology', async (signal) => {
+        try {
+          const response: AxiosResponse<ApiResponse<any>> = await apiClient.get('/relations/ontology', { signal });
+          return response.data;
+        } catch (error: any) {
+          console.error('Error fetching ontology structure:', error);
+          return failure(error, 'Failed to fetch ontology structure', undefined);
+        }
+      }, { ...options, signal: shared })),
+      { signal: options.signal }
+    );
   },
 
   async findPaths(sourceId: number, targetId: number, maxDepth: number = 3): Promise<ApiResponse<any[]>> {
@@ -595,43 +798,38 @@ export const relationsApi = {
       return response.data;
     } catch (error: any) {
       console.error('Error finding paths:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to find paths',
-        data: []
-      };
+      return failure(error, 'Failed to find paths', []);
     }
   },
 };
 
 // Search API service
 export const searchApi = {
-  async global(query: string, limit: number = 20): Promise<ApiResponse<SearchResult[]>> {
-    try {
-      const response: AxiosResponse<ApiResponse<GlobalSearchResponse>> = await apiClient.get('/search/global', {
-        params: { q: query, limit }
-      });
-      
-      if (response.data.success) {
-        return {
-          success: true,
-          data: response.data.data?.allResults || []
-        };
-      } else {
-        return {
-          success: false,
-          error: response.data.error || 'Search failed',
-          data: []
-        };
+  async global(query: string, limit: number = 20, options: RequestOptions = {}): Promise<ApiResponse<SearchResult[]>> {
+    return withRateLimit('search-global', async (signal) => {
+      try {
+        const response: AxiosResponse<ApiResponse<GlobalSearchResponse>> = await apiClient.get('/search/global', {
+          params: { q: query, limit },
+          signal,
+        });
+        
+        if (response.data.success) {
+          return {
+            success: true,
+            data: response.data.data?.allResults || []
+          };
+        } else {
+          return {
+            success: false,
+            error: response.data.error || 'Search failed',
+            data: []
+          };
+        }
+      } catch (error: any) {
+        console.error('Error performing global search:', error);
+        return failure(error, 'Failed to perform global search', []);
       }
-    } catch (error: any) {
-      console.error('Error performing global search:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to perform global search',
-        data: []
-      };
-    }
+    }, options);
   },
 
   async geographic(params: GeographicSearchParams): Promise<ApiResponse<SearchResult[]>> {
@@ -642,11 +840,7 @@ export const searchApi = {
       return response.data;
     } catch (error: any) {
       console.error('Error performing geographic search:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to perform geographic search',
-        data: []
-      };
+      return failure(error, 'Failed to perform geographic search', []);
     }
   },
 
@@ -658,11 +852,7 @@ export const searchApi = {
       return response.data;
     } catch (error: any) {
       console.error('Error performing similarity search:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to perform similarity search',
-        data: []
-      };
+      return failure(error, 'Failed to perform similarity search', []);
     }
   },
 
@@ -683,11 +873,7 @@ export const searchApi = {
       }
     } catch (error: any) {
       console.error('Error loading cultural patterns:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to load cultural patterns',
-        data: []
-      };
+      return failure(error, 'Failed to load cultural patterns', []);
     }
   },
 
@@ -708,11 +894,7 @@ export const searchApi = {
       }
     } catch (error: any) {
       console.error('Error loading centrality analysis:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to load centrality analysis',
-        data: []
-      };
+      return failure(error, 'Failed to load centrality analysis', []);
     }
   },
 
@@ -739,28 +921,20 @@ export const searchApi = {
       }
     } catch (error: any) {
       console.error('Error executing Cypher query:', error);
-      return {
-        success: false,
-        error: error.response?.data?.message || error.message || 'Failed to execute Cypher query',
-        data: []
-      };
+      return failure(error, 'Failed to execute Cypher query', []);
     }
   },
 };
 
 // Health check API
 export const healthApi = {
-  async check(): Promise<ApiResponse<any>> {
+  async check(baseURL?: string): Promise<ApiResponse<any>> {
     try {
-      const response: AxiosResponse<ApiResponse<any>> = await apiClient.get('/health');
+      const response: AxiosResponse<ApiResponse<any>> = await apiClient.get('/health', baseURL ? { baseURL } : undefined);
       return response.data;
     } catch (error: any) {
       console.error('Error checking health:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to check health',
-        data: undefined
-      };
+      return failure(error, 'Failed to check health', undefined);
     }
   },
 
@@ -770,11 +944,7 @@ export const healthApi = {
       return response.data;
     } catch (error: any) {
       console.error('Error checking database health:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to check database health',
-        data: undefined
-      };
+      return failure(error, 'Failed to check database health', undefined);
     }
   },
 
@@ -795,6 +965,9 @@ export const healthApi = {
   },
 };
 
+export { ApiError } from './apiError';
+export type { ApiErrorKind } from './apiError';
+
 export default {
   instruments: instrumentsApi,
   familles: famillesApi,
@@ -805,6 +978,7 @@ export default {
   techniques: techniquesApi,
   artisans: artisansApi,
   patrimoines: patrimoinesApi,
+  rythmes: rythmesApi,
   relations: relationsApi,
   search: searchApi,
   health: healthApi,
@@ -0,0 +1,172 @@
+/**
+ * API Error Model
+ *
+ * Structured representation of a failed API call: the kind of failure,
+ * the HTTP status and the per-field validation messages sent by the backend.
+ */
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'conflict'
+  | 'validation'
+  | 'server'
+  | 'schema'
+  | 'cancelled';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly fieldErrors: Record<string, string>;
+  readonly details?: any;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { status?: number; fieldErrors?: Record<string, string>; details?: any; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.fieldErrors = options.fieldErrors || {};
+    this.details = options.details;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /**
+   * Whether the backend reported at least one field-level error
+   */
+  hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  /**
+   * Split field errors between the fields a form knows about and the rest
+   */
+  splitFieldErrors(fieldNames: string[]): { matched: Record<string, string>; unmatched: string[] } {
+    const matched: Record<string, string> = {};
+    const unmatched: string[] = [];
+    Object.entries(this.fieldErrors).forEach(([field, message]) => {
+      if (fieldNames.includes(field)) {
+        matched[field] = message;
+      } else {
+        unmatched.push(`${field}: ${message}`);
+      }
+    });
+    return { matched, unmatched };
+  }
+
+  /**
+   * Build an ApiError from anything thrown by axios or the services
+   */
+  static from(error: any, fallbackMessage: string): ApiError {
+    if (error instanceof ApiError) return error;
+
+    const response = error?.response;
+    if (error?.code === 'ERR_CANCELED' || error?.name === 'CanceledError' || error?.name === 'AbortError') {
+      return new ApiError('cancelled', 'Requête annulée');
+    }
+    if (!response) {
+      const isTimeout = error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT';
+      return new ApiError(
+        isTimeout ? 'timeout' : 'network',
+        isTimeout ? 'Le serveur n\'a pas répondu à temps' : (error?.message || fallbackMessage),
+        { details: error?.code }
+      );
+    }
+
+    const status: number = response.status;
+    const body = response.data || {};
+    const message: string = body.message || (typeof body.error === 'string' ? body.error : '') || error.message || fallbackMessage;
+    const fieldErrors = parseFieldErrors(body);
+
+    return new ApiError(kindForStatus(status, fieldErrors), message, {
+      status,
+      fieldErrors,
+      details: body,
+      retryAfterMs: parseRetryAfter(response.headers?.['retry-after']),
+    });
+  }
+}
+
+/**
+ * Split a failed submission for a form: backend errors on the given fields go
+ * under their inputs, anything else is listed above the form
+ */
+export const submitFailure = (
+  response: { error?: string; apiError?: ApiError },
+  fieldNames: string[],
+  fallbackMessage: string
+): { fieldErrors: Record<string, string>; messages: string[] } => {
+  const apiError = response.apiError;
+  if (!apiError?.hasFieldErrors()) {
+    return { fieldErrors: {}, messages: [response.error || fallbackMessage] };
+  }
+  const { matched, unmatched } = apiError.splitFieldErrors(fieldNames);
+  return {
+    fieldErrors: matched,
+    messages: unmatched.length > 0 || Object.keys(matched).length === 0 ? [apiError.message, ...unmatched] : unmatched,
+  };
+};
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Map an HTTP status to an error kind
+ */
+const kindForStatus = (status: number, fieldErrors: Record<string, string>): ApiErrorKind => {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not-found';
+  if (status === 409) return 'conflict';
+  if (status === 400 || status === 422) return 'validation';
+  if (status >= 400 && status < 500 && Object.keys(fieldErrors).length > 0) return 'validation';
+  return 'server';
+};
+
+/**
+ * Extract a field -> message map from the usual backend validation payloads:
+ * `{ errors: { field: msg } }`, `{ errors: [{ field|path|param, message|msg }] }`
+ * and Joi-style `{ details: [{ path: [...], message }] }`
+ */
+const parseFieldErrors = (body: any): Record<string, string> => {
+  const result: Record<string, string> = {};
+  const source = body?.errors ?? body?.fieldErrors ?? body?.details ?? body?.error?.details;
+
+  if (Array.isArray(source)) {
+    source.forEach((item: any) => {
+      if (!item || typeof item !== 'object') return;
+      const rawField = item.field ?? item.path ?? item.param ?? item.property;
+      const field = Array.isArray(rawField) ? rawField.join('.') : rawField;
+      const message = item.message ?? item.msg;
+      if (field && message && !result[field]) {
+        result[field] = String(message);
+      }
+    });
+  } else if (source && typeof source === 'object') {
+    Object.entries(source).forEach(([field, value]) => {
+      const message = Array.isArray(value) ? value[0] : value;
+      if (message) {
+        result[field] = String(message);
+      }
+    });
+  }
+
+  return result;
+};
+
+export default ApiError;
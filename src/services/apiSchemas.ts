@@ -0,0 +1,334 @@
+/**
+ * API Schemas
+ *
+ * Runtime schemas of the backend payloads and the TypeScript types derived
+ * from them. `api.ts` re-exports the types; the response interceptor checks
+ * every answer against the schema of its route.
+ */
+
+import {
+  array,
+  boolean,
+  Infer,
+  literal,
+  looseObject,
+  number,
+  object,
+  optional,
+  record,
+  Schema,
+  string,
+  unknown,
+} from './schema';
+import { ROLES } from './permissions';
+
+// ---- Entities ----
+
+// Optimistic concurrency token, bumped by the backend on every update
+const version = optional(number());
+
+export const instrumentSchema = object({
+  id: number(),
+  version,
+  nomInstrument: string(),
+  description: optional(string()),
+  anneeCreation: optional(number()),
+});
+
+export const familleSchema = object({
+  id: number(),
+  version,
+  nomFamille: string(),
+  descriptionFamille: optional(string()),
+});
+
+export const groupeEthniqueSchema = object({
+  id: number(),
+  version,
+  nomGroupe: string(),
+  langue: optional(string()),
+  description: optional(string()),
+});
+
+export const localiteSchema = object({
+  id: number(),
+  version,
+  nomLocalite: string(),
+  coordonnees: optional(string()),
+  latitude: optional(number()),
+  longitude: optional(number()),
+  description: optional(string()),
+});
+
+export const materiauSchema = object({
+  id: number(),
+  version,
+  nomMateriau: string(),
+  type: optional(string()),
+  usages: optional(array(string())),
+  description: optional(string()),
+});
+
+export const timbreSchema = object({
+  id: number(),
+  version,
+  descriptionTimbre: string(),
+  frequence: optional(number()),
+  intensite: optional(number()),
+});
+
+export const techniqueDeJeuSchema = object({
+  id: number(),
+  version,
+  nomTechnique: string(),
+  description: optional(string()),
+  difficulte: optional(string()),
+});
+
+export const artisanSchema = object({
+  id: number(),
+  version,
+  nomArtisan: string(),
+  specialite: optional(string()),
+  region: optional(string()),
+});
+
+export const patrimoineCulturelSchema = object({
+  id: number(),
+  version,
+  nomPatrimoine: string(),
+  type: optional(string()),
+  description: optional(string()),
+  inscritUnesco: optional(boolean()),
+  lienReference: optional(string()),
+});
+
+export const rythmeSchema = object({
+  id: number(),
+  version,
+  nomRythme: string(),
+  metrique: optional(string()),
+  tempoMin: optional(number()),
+  tempoMax: optional(number()),
+  notation: optional(string()),
+  description: optional(string()),
+  occasions: optional(array(string())),
+  enregistrement: optional(string()),
+});
+
+export type Instrument = Infer<typeof instrumentSchema>;
+export type Famille = Infer<typeof familleSchema>;
+export type GroupeEthnique = Infer<typeof groupeEthniqueSchema>;
+export type Localite = Infer<typeof localiteSchema>;
+export type Materiau = Infer<typeof materiauSchema>;
+export type Timbre = Infer<typeof timbreSchema>;
+export type TechniqueDeJeu = Infer<typeof techniqueDeJeuSchema>;
+export type Artisan = Infer<typeof artisanSchema>;
+export type PatrimoineCulturel = Infer<typeof patrimoineCulturelSchema>;
+export type Rythme = Infer<typeof rythmeSchema>;
+
+/**
+ * Schema of each entity endpoint
+ */
+export const ENTITY_SCHEMAS: Record<string, Schema<any>> = {
+  '/instruments': instrumentSchema,
+  '/familles': familleSchema,
+  '/groupes-ethniques': groupeEthniqueSchema,
+  '/localites': localiteSchema,
+  '/materiaux': materiauSchema,
+  '/timbres': timbreSchema,
+  '/techniques': techniqueDeJeuSchema,
+  '/artisans': artisanSchema,
+  '/patrimoines': patrimoineCulturelSchema,
+  '/rythmes': rythmeSchema,
+};
+
+// ---- Relations ----
+
+export const relationTypeSchema = object({
+  type: string(),
+  constraints: object({
+    from: array(string()),
+    to: array(string()),
+    cardinality: literal('1:1', '1:N', 'N:1', 'N:N'),
+    description: optional(string()),
+  }),
+});
+
+const relationEndSchema = looseObject({
+  id: number(),
+  type: string(),
+  displayName: string(),
+});
+
+export const relationSchema = object({
+  sourceId: number(),
+  targetId: number(),
+  relationType: string(),
+  source: optional(relationEndSchema),
+  target: optional(relationEndSchema),
+});
+
+export const relationResultSchema = object({
+  source: unknown(),
+  target: unknown(),
+  relationType: string(),
+  sourceLabels: array(string()),
+  targetLabels: array(string()),
+});
+
+const entityRelationSchema = object({
+  type: string(),
+  entity: looseObject({ id: number() }),
+  entityLabels: array(string()),
+});
+
+export const entityRelationsSchema = looseObject({
+  relations: object({
+    incoming: array(entityRelationSchema),
+    outgoing: array(entityRelationSchema),
+  }),
+});
+
+export type RelationType = Infer<typeof relationTypeSchema>;
+export type Relation = Infer<typeof relationSchema>;
+export type RelationResult = Infer<typeof relationResultSchema>;
+export type EntityRelations = Infer<typeof entityRelationsSchema>;
+
+// ---- Search ----
+
+export const searchResultSchema = object({
+  entity: unknown(),
+  labels: array(string()),
+  name: string(),
+  type: string(),
+});
+
+export const globalSearchResponseSchema = object({
+  searchTerm: string(),
+  totalResults: number(),
+  results: record(array(searchResultSchema)),
+  allResults: array(searchResultSchema),
+});
+
+export const geographicSearchResponseSchema = looseObject({
+  results: array(looseObject({
+    localite: optional(localiteSchema),
+    distance: optional(number()),
+    instruments: optional(array(instrumentSchema)),
+    groupesEthniques: optional(array(groupeEthniqueSchema)),
+  })),
+});
+
+export const culturalPatternSchema = looseObject({
+  patrimoine: optional(string()),
+  groupe: optional(string()),
+  localite: optional(string()),
+  instruments: optional(array(string())),
+  rythmes: optional(array(string())),
+  materiaux: optional(array(string())),
+  familles: optional(array(string())),
+});
+
+export const centralitySchema = looseObject({
+  entity: looseObject({ id: number() }),
+  type: string(),
+  centrality: number(),
+});
+
+export type SearchResult = Infer<typeof searchResultSchema>;
+export type GlobalSearchResponse = Infer<typeof globalSearchResponseSchema>;
+export type GeographicSearchResponse = Infer<typeof geographicSearchResponseSchema>;
+export type CulturalPattern = Infer<typeof culturalPatternSchema>;
+export type CentralityItem = Infer<typeof centralitySchema>;
+
+// ---- Authentication ----
+
+export const authUserSchema = object({
+  username: string(),
+  displayName: optional(string()),
+  role: literal(...ROLES),
+});
+
+/**
+ * Login and refresh payload; `expiresIn` is in seconds, `user` may be
+ * omitted by the refresh route
+ */
+export const authTokensSchema = object({
+  accessToken: string(),
+  refreshToken: optional(string()),
+  expiresIn: optional(number()),
+  user: optional(authUserSchema),
+});
+
+export type AuthUser = Infer<typeof authUserSchema>;
+export type AuthTokens = Infer<typeof authTokensSchema>;
+
+// ---- Envelopes ----
+
+/**
+ * `{ success, data }` envelope of most routes
+ */
+export const envelope = <T>(data: Schema<T>) => looseObject({
+  success: boolean(),
+  data,
+});
+
+/**
+ * Paginated list envelope of the entity endpoints
+ */
+export const listEnvelope = <T>(item: Schema<T>) => looseObject({
+  success: boolean(),
+  data: object({
+    data: array(item),
+    total: number(),
+    limit: optional(number()),
+    skip: optional(number()),
+  }),
+  pagination: optional(object({
+    page: number(),
+    limit: number(),
+    total: number(),
+  })),
+});
+
+const statisticsSchema = looseObject({ total: number() });
+
+interface RouteSchema {
+  method: string;
+  pattern: RegExp;
+  schema: Schema<any>;
+}
+
+const entityRoutes = Object.entries(ENTITY_SCHEMAS).flatMap(([endpoint, schema]): RouteSchema[] => [
+  { method: 'get', pattern: new RegExp(`^${endpoint}/statistics$`), schema: envelope(statisticsSchema) },
+  { method: 'get', pattern: new RegExp(`^${endpoint}$`), schema: listEnvelope(schema) },
+  { method: 'post', pattern: new RegExp(`^${endpoint}$`), schema: envelope(schema) },
+  { method: 'get', pattern: new RegExp(`^${endpoint}/\\d+$`), schema: envelope(schema) },
+  { method: 'put', pattern: new RegExp(`^${endpoint}/\\d+$`), schema: envelope(optional(schema)) },
+]);
+
+const ROUTE_SCHEMAS: RouteSchema[] = [
+  { method: 'get', pattern: /^\/instruments\/by-(family|group|artisan)\/[^/]+$/, schema: envelope(array(looseObject({ instrument: instrumentSchema }))) },
+  ...entityRoutes,
+  { method: 'get', pattern: /^\/relations$/, schema: envelope(array(relationSchema)) },
+  { method: 'get', pattern: /^\/relations\/types$/, schema: envelope(array(relationTypeSchema)) },
+  { method: 'get', pattern: /^\/relations\/statistics$/, schema: envelope(statisticsSchema) },
+  { method: 'get', pattern: /^\/relations\/entity\/[^/]+$/, schema: envelope(entityRelationsSchema) },
+  { method: 'get', pattern: /^\/relations\/type\/[^/]+$/, schema: envelope(array(relationResultSchema)) },
+  { method: 'get', pattern: /^\/search\/global$/, schema: envelope(globalSearchResponseSchema) },
+  { method: 'get', pattern: /^\/search\/geographic$/, schema: envelope(geographicSearchResponseSchema) },
+  { method: 'get', pattern: /^\/search\/similar\/[^/]+$/, schema: envelope(array(searchResultSchema)) },
+  { method: 'get', pattern: /^\/search\/cultural-patterns$/, schema: envelope(object({ patterns: array(culturalPatternSchema), count: number() })) },
+  { method: 'post', pattern: /^\/auth\/(login|refresh)$/, schema: envelope(authTokensSchema) },
+  { method: 'get', pattern: /^\/search\/centrality$/, schema: envelope(object({ centralityAnalysis: array(centralitySchema), count: number() })) },
+];
+
+/**
+ * Schema of the response of a route, if one is declared
+ */
+export const responseSchemaFor = (method: string | undefined, url: string | undefined): Schema<any> | undefined => {
+  const path = `/${(url || '').split('?')[0].replace(/^\/+|\/+$/g, '')}`;
+  const verb = (method || 'get').toLowerCase();
+  return ROUTE_SCHEMAS.find(route => route.method === verb && route.pattern.test(path))?.schema;
+};
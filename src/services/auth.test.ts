@@ -0,0 +1,58 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { famillesApi } from './api';
+import { authService } from './auth';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+
+beforeEach(async () => {
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+  await authService.logout();
+});
+
+describe('authentication', () => {
+  test('rejects unknown credentials', async () => {
+    const response = await authService.login('admin', 'mauvais');
+    expect(response.success).toBe(false);
+    expect(response.apiError?.kind).toBe('unauthorized');
+    expect(authService.getUser()).toBeNull();
+  });
+
+  test('gates mutations by role', async () => {
+    const anonymous = await famillesApi.create({ nomFamille: 'Électrophones' });
+    expect(anonymous.apiError?.kind).toBe('unauthorized');
+
+    await authService.login('lecteur', 'lecteur');
+    expect(authService.can('entity:create')).toBe(false);
+    const viewer = await famillesApi.create({ nomFamille: 'Électrophones' });
+    expect(viewer.apiError?.kind).toBe('forbidden');
+
+    await authService.login('contributeur', 'contributeur');
+    const created = await famillesApi.create({ nomFamille: 'Électrophones' });
+    expect(created.success).toBe(true);
+    const deleted = await famillesApi.delete(created.data!.id);
+    expect(deleted.apiError?.kind).toBe('forbidden');
+
+    await authService.login('conservateur', 'conservateur');
+    expect((await famillesApi.delete(created.data!.id)).success).toBe(true);
+    expect(authService.can('cypher:execute')).toBe(false);
+  });
+
+  test('renews an expired access token and replays the request', async () => {
+    await authService.login('contributeur', 'contributeur');
+    mockBackend.expireAccessTokens();
+
+    const created = await famillesApi.create({ nomFamille: 'Électrophones' });
+    expect(created.success).toBe(true);
+    expect(authService.getStatus()).toMatchObject({ user: { role: 'contributor' }, expired: false });
+  });
+
+  test('ends the session when it can no longer be renewed', async () => {
+    await authService.login('contributeur', 'contributeur');
+    mockBackend.revokeSessions();
+
+    const response = await famillesApi.create({ nomFamille: 'Électrophones' });
+    expect(response.apiError?.kind).toBe('unauthorized');
+    expect(authService.getStatus()).toEqual({ user: null, expired: true });
+  });
+});
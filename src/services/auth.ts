@@ -0,0 +1,247 @@
+/**
+ * Authentication Service
+ *
+ * Holds the session of the active environment profile (tokens and user),
+ * persisted per profile, and renews the access token through the backend's
+ * refresh route. `api.ts` injects the token into every request and asks for
+ * a refresh when the backend answers 401.
+ */
+
+import { ApiError } from './apiError';
+import { authTokensSchema, AuthTokens, AuthUser } from './apiSchemas';
+import { hasPermission, Permission, Role } from './permissions';
+import { runtimeConfig } from './runtimeConfig';
+import { validate } from './schema';
+import type { ApiResponse } from './api';
+
+export type { AuthUser } from './apiSchemas';
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken?: string;
+  /** Time (ms) after which the backend refuses the access token */
+  expiresAt?: number;
+  user: AuthUser;
+}
+
+export interface AuthStatus {
+  user: AuthUser | null;
+  /** The last session ended because it could not be renewed */
+  expired: boolean;
+}
+
+export interface AuthRequest {
+  url: string;
+  data?: any;
+}
+
+/**
+ * Posts to an auth route and resolves with the response body
+ */
+export type AuthTransport = (request: AuthRequest) => Promise<any>;
+
+const STORAGE_PREFIX = 'ontology.session.';
+
+// Renew the access token this long before it expires
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+/**
+ * Whether a request targets the auth routes, which never carry the token
+ */
+export const isAuthRoute = (url?: string) => /^\/?auth\//.test(url || '');
+
+/**
+ * Build a session from a login or refresh payload
+ */
+const toSession = (payload: unknown, previous?: AuthSession): AuthSession => {
+  const issues = validate(authTokensSchema, payload);
+  const tokens = payload as AuthTokens;
+  const user = tokens?.user ?? previous?.user;
+  if (issues.length > 0 || !user) {
+    throw new ApiError('server', 'Réponse d\'authentification invalide', { details: issues });
+  }
+  return {
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken ?? previous?.refreshToken,
+    expiresAt: tokens.expiresIn ? Date.now() + tokens.expiresIn * 1000 : undefined,
+    user: { username: user.username, displayName: user.displayName, role: user.role },
+  };
+};
+
+const readSession = (profileId: string): AuthSession | null => {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_PREFIX}${profileId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+class AuthService {
+  private profileId = runtimeConfig.getActiveProfile().id;
+  private session: AuthSession | null = readSession(this.profileId);
+  private expired = false;
+  private transport: AuthTransport | null = null;
+  private refreshing: Promise<boolean> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    // Each backend profile has its own session
+    runtimeConfig.subscribe((profile) => {
+      if (profile.id === this.profileId) return;
+      this.profileId = profile.id;
+      this.session = readSession(profile.id);
+      this.expired = false;
+      this.refreshing = null;
+      this.notify();
+    });
+  }
+
+  /**
+   * Set how auth routes are called
+   */
+  setTransport(transport: AuthTransport) {
+    this.transport = transport;
+  }
+
+  getStatus(): AuthStatus {
+    return { user: this.session?.user || null, expired: this.expired };
+  }
+
+  getUser(): AuthUser | null {
+    return this.session?.user || null;
+  }
+
+  getRole(): Role | null {
+    return this.session?.user.role || null;
+  }
+
+  /**
+   * Whether the current user may perform an action
+   */
+  can(permission: Permission): boolean {
+    return hasPermission(this.getRole(), permission);
+  }
+
+  async login(username: string, password: string): Promise<ApiResponse<AuthUser>> {
+    try {
+      const payload = await this.send({ url: '/auth/login', data: { username, password } });
+      const session = toSession(payload?.data);
+      this.store(session);
+      this.expired = false;
+      this.notify();
+      return { success: true, data: session.user };
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Connexion impossible');
+      return { success: false, error: apiError.message, apiError, data: undefined };
+    }
+  }
+
+  async logout(): Promise<void> {
+    const session = this.session;
+    this.store(null);
+    this.expired = false;
+    this.notify();
+
+    if (session?.refreshToken) {
+      try {
+        await this.send({ url: '/auth/logout', data: { refreshToken: session.refreshToken } });
+      } catch (error) {
+        console.warn('[Auth] Logout not acknowledged by the backend:', error);
+      }
+    }
+  }
+
+  /**
+   * Token to send with a request, renewed first when about to expire
+   */
+  async getAccessToken(): Promise<string | null> {
+    const expiresAt = this.session?.expiresAt;
+    if (expiresAt && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+      await this.refresh();
+    }
+    return this.session?.accessToken || null;
+  }
+
+  /**
+   * Renew the access token; concurrent callers share one refresh request.
+   * A refused refresh token ends the session as expired.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.renew().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Listen to login, logout and renewals
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async renew(): Promise<boolean> {
+    const session = this.session;
+    if (!session) return false;
+    if (!session.refreshToken) {
+      this.expire();
+      return false;
+    }
+
+    try {
+      const payload = await this.send({ url: '/auth/refresh', data: { refreshToken: session.refreshToken } });
+      // Logged out or switched profile meanwhile
+      if (this.session !== session) return false;
+      this.store(toSession(payload?.data, session));
+      this.notify();
+      return true;
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Renouvellement de session impossible');
+      // An unreachable backend does not invalidate the session
+      if (apiError.kind === 'network' || apiError.kind === 'timeout') return false;
+      if (this.session === session) this.expire();
+      return false;
+    }
+  }
+
+  private expire() {
+    this.store(null);
+    this.expired = true;
+    this.notify();
+  }
+
+  private send(request: AuthRequest): Promise<any> {
+    if (!this.transport) {
+      return Promise.reject(new Error('Auth transport not configured'));
+    }
+    return this.transport(request);
+  }
+
+  private store(session: AuthSession | null) {
+    this.session = session;
+    try {
+      if (session) {
+        localStorage.setItem(`${STORAGE_PREFIX}${this.profileId}`, JSON.stringify(session));
+      } else {
+        localStorage.removeItem(`${STORAGE_PREFIX}${this.profileId}`);
+      }
+    } catch (error) {
+      console.warn('[Auth] Unable to persist session', error);
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Create a singleton instance
+export const authService = new AuthService();
+
+export default authService;
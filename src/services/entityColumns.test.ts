@@ -0,0 +1,69 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { artisansApi, groupesEthniquesApi, relationsApi, timbresApi } from './api';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { ENTITY_TYPES } from './entityTypes';
+import { relationTypeRegistry } from './relationTypes';
+import {
+  columnValue,
+  fetchColumnRelations,
+  loadColumnLayout,
+  nextSort,
+  saveColumnLayout,
+  sortEntities,
+  tableColumns,
+} from './entityColumns';
+
+beforeEach(() => {
+  localStorage.clear();
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+});
+
+describe('entity columns', () => {
+  test('cycles header sorts and remembers the layout per type', () => {
+    const once = nextSort([], 'frequence');
+    expect(once).toEqual([{ key: 'frequence', direction: 'asc' }]);
+    const twice = nextSort(once, 'intensite', true);
+    expect(nextSort(twice, 'frequence', true)).toEqual([{ key: 'frequence', direction: 'desc' }, { key: 'intensite', direction: 'asc' }]);
+    expect(nextSort([{ key: 'frequence', direction: 'desc' }], 'frequence')).toEqual([]);
+
+    saveColumnLayout(ENTITY_TYPES.Timbre, { columns: ['frequence', 'ancienChamp', 'relations:caracterise'], sort: twice });
+    expect(loadColumnLayout(ENTITY_TYPES.Timbre)).toEqual({ columns: ['frequence', 'relations:caracterise'], sort: twice });
+    expect(loadColumnLayout(ENTITY_TYPES.Rythme).sort).toEqual([]);
+  });
+
+  test('sorts on the backend, on fields and relation counts', async () => {
+    const timbres = await timbresApi.getAll({ sort: [{ key: 'frequence', direction: 'asc' }] });
+    expect(timbres.data.data.map(timbre => timbre.frequence)).toEqual([110, 440]);
+    expect(timbres.pagination?.sort).toBe('frequence');
+
+    const artisans = await artisansApi.getAll({ sort: [{ key: 'relations:fabrique', direction: 'desc' }] });
+    expect(artisans.data.data.map(artisan => artisan.nomArtisan)).toEqual(['Ousmane Ndiaye', 'Lamine Cissokho', 'Mamadou Diabaté']);
+  });
+
+  test('sorts a page on the client with the relation counts', async () => {
+    await relationTypeRegistry.load();
+    const definition = ENTITY_TYPES.Artisan;
+    const column = tableColumns(definition).find(candidate => candidate.key === 'relations:fabrique')!;
+    const artisans = (await artisansApi.getAll()).data.data;
+    const relations = await fetchColumnRelations(artisans, [column]);
+
+    const sorted = sortEntities(artisans, [{ key: column.key, direction: 'desc' }, { key: 'nomArtisan', direction: 'desc' }],
+      (artisan, key) => (key === column.key ? columnValue(artisan, column, relations) : (artisan as any)[key]));
+    expect(sorted.map(artisan => artisan.nomArtisan)).toEqual(['Ousmane Ndiaye', 'Mamadou Diabaté', 'Lamine Cissokho']);
+  });
+
+  test('shows the entities of relation fields', async () => {
+    const definition = ENTITY_TYPES.GroupeEthnique;
+    const column = tableColumns(definition).find(candidate => candidate.key === 'localites')!;
+    expect(column.relation).toEqual({ type: 'localiseA', direction: 'outgoing' });
+    const groupes = (await groupesEthniquesApi.getAll()).data.data;
+    const perEntity = vi.spyOn(relationsApi, 'getForEntity');
+    const relations = await fetchColumnRelations(groupes, [column]);
+    expect(perEntity).not.toHaveBeenCalled();
+    perEntity.mockRestore();
+    const mandingues = groupes.find(groupe => groupe.nomGroupe === 'Mandingues')!;
+    expect(columnValue(mandingues, column, relations)).toBe('Bamako, Ziguinchor');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Entity Columns
+ *
+ * Columns of the entity tables: the form fields of a type, and computed
+ * columns counting its relations of each type. Relation fields and counts
+ * are read per entity once the page is loaded. The columns shown, their
+ * order and the sort are remembered in the browser per entity type.
+ */
+
+import { SortKey } from './api';
+import { fetchRelatedEntities } from './entityExport';
+import { fieldText, RelatedEntity } from './entityFields';
+import { EntityField, EntityTypeDefinition } from './entityTypes';
+import { relationEndsOf, RelationTypeDefinition } from './relationTypes';
+
+export type { SortKey } from './api';
+export { sortEntities } from './sortOrder';
+
+export interface TableColumn {
+  key: string;
+  label: string;
+  field?: EntityField;
+  relation?: { type: string; direction: 'outgoing' | 'incoming' };
+}
+
+export interface ColumnLayout {
+  /** Keys of the columns shown, in order */
+  columns: string[];
+  /** Sort keys, most significant first */
+  sort: SortKey[];
+}
+
+/** Related entities of the entities of a page, by entity id then column key */
+export type ColumnRelations = Record<number, Record<string, RelatedEntity[]>>;
+
+const STORAGE_PREFIX = 'ontology.columns.';
+const DEFAULT_COLUMN_COUNT = 4;
+const RELATION_PREFIX = 'relations:';
+
+/**
+ * Key of the column counting the relations of a type, also its sort key
+ */
+export const relationCountKey = (type: string, direction: 'outgoing' | 'incoming') =>
+  `${RELATION_PREFIX}${direction === 'incoming' ? '^' : ''}${type}`;
+
+/**
+ * Every column a table of the type can show
+ */
+export const tableColumns = (definition: EntityTypeDefinition, types?: RelationTypeDefinition[]): TableColumn[] => [
+  ...(definition.fields || []).map(field => ({
+    key: field.name,
+    label: field.label,
+    field,
+    ...(field.relation && { relation: { type: field.relation.type, direction: field.relation.direction } }),
+  })),
+  ...relationEndsOf(definition.type, types).map(({ definition: relation, direction, label }) => ({
+    key: relationCountKey(relation.type, direction),
+    label: `Nombre « ${label} »`,
+    relation: { type: relation.type, direction },
+  })),
+];
+
+/**
+ * Layout used until the user changes it: the first fields, in form order
+ */
+export const defaultColumnLayout = (definition: EntityTypeDefinition): ColumnLayout => ({
+  columns: (definition.fields || []).slice(0, DEFAULT_COLUMN_COUNT).map(field => field.name),
+  sort: [],
+});
+
+/**
+ * Stored layout of a type; columns of fields the type no longer has are
+ * dropped, relation columns are kept as relation types load later
+ */
+export const loadColumnLayout = (definition: EntityTypeDefinition): ColumnLayout => {
+  const known = (key: string) =>
+    key.startsWith(RELATION_PREFIX) || (definition.fields || []).some(field => field.name === key);
+  try {
+    const stored = JSON.parse(localStorage.getItem(`${STORAGE_PREFIX}${definition.type}`) || 'null');
+    if (!stored || !Array.isArray(stored.columns) || !Array.isArray(stored.sort)) {
+      return defaultColumnLayout(definition);
+    }
+    const columns = stored.columns.filter(known);
+    return {
+      columns: columns.length > 0 ? columns : defaultColumnLayout(definition).columns,
+      sort: stored.sort.filter((item: SortKey) => known(item.key) && ['asc', 'desc'].includes(item.direction)),
+    };
+  } catch {
+    return defaultColumnLayout(definition);
+  }
+};
+
+export const saveColumnLayout = (definition: EntityTypeDefinition, layout: ColumnLayout) => {
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}${definition.type}`, JSON.stringify(layout));
+  } catch (error) {
+    console.warn('[EntityColumns] Unable to persist column layout', error);
+  }
+};
+
+/**
+ * Sort after a click on a column header: ascending, then descending, then
+ * unsorted. A plain click sorts on that column only, `append` (shift click)
+ * adds it after the current keys.
+ */
+export const nextSort = (sort: SortKey[], key: string, append = false): SortKey[] => {
+  const current = sort.find(item => item.key === key);
+  const next: SortKey | null = !current
+    ? { key, direction: 'asc' }
+    : current.direction === 'asc' ? { key, direction: 'desc' } : null;
+
+  if (!append) return next ? [next] : [];
+  return next
+    ? (current ? sort.map(item => (item.key === key ? next : item)) : [...sort, next])
+    : sort.filter(item => item.key !== key);
+};
+
+/**
+ * Whether the backend can sort on a column; relation fields are not
+ * properties of the entities
+ */
+export const isSortable = (column: TableColumn) => column.field?.type !== 'relation';
+
+/**
+ * Value of a cell once its relations are read: the names of a relation
+ * field, the number of relations of a count column
+ */
+export const columnValue = (entity: Record<string, any>, column: TableColumn, relations: ColumnRelations = {}): unknown => {
+  if (!column.relation) return entity[column.key];
+  const related = relations[entity.id]?.[column.key];
+  if (!related) return undefined;
+  return column.field ? fieldText(column.field, related) : related.length;
+};
+
+/**
+ * Read the related entities of each entity for the given relation columns,
+ * one relation type at a time; without them the columns stay empty
+ */
+export const fetchColumnRelations = async (
+  entities: { id: number }[],
+  columns: TableColumn[],
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<ColumnRelations> => {
+  const related = columns.filter(column => column.relation);
+  if (related.length === 0) return {};
+  try {
+    return await fetchRelatedEntities(related, entities.map(entity => entity.id), { signal });
+  } catch (error) {
+    if (!signal?.aborted) console.warn('[Columns] Unable to read the relations of the columns', error);
+    return {};
+  }
+};
@@ -0,0 +1,74 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { instrumentsApi, relationsApi } from './api';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { authService } from './auth';
+import { ENTITY_TYPES } from './entityTypes';
+import { relationTypeRegistry } from './relationTypes';
+import { readRelationFields } from './entityFields';
+import {
+  findDuplicateGroups,
+  findSimilarEntities,
+  mergeChoices,
+  mergeEntities,
+  nameSimilarity,
+  planMergeRelations,
+} from './entityDuplicates';
+
+const definition = ENTITY_TYPES.Instrument;
+
+const readInstrument = (id: number) => instrumentsApi.getById(id);
+
+const createInstrument = async (nomInstrument: string, description?: string) =>
+  (await instrumentsApi.create({ nomInstrument, description })).data!;
+
+beforeEach(async () => {
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+  await authService.login('conservateur', 'conservateur');
+  await relationTypeRegistry.load();
+});
+
+describe('entity duplicates', () => {
+  test('groups names equal once normalized or close in spelling', async () => {
+    await createInstrument('Djembe');
+    await createInstrument('Djèmbe');
+    await createInstrument('Djembés');
+    expect(nameSimilarity('Kora', 'Koro')).toBeLessThan(0.85);
+
+    const instruments = (await instrumentsApi.getAll({ limit: 100 })).data.data;
+    const groups = findDuplicateGroups(definition, instruments);
+    expect(groups.map(group => group.entities.map(instrument => instrument.nomInstrument).sort()))
+      .toEqual([['Djembe', 'Djembé', 'Djembés', 'Djèmbe']]);
+
+    const similar = await findSimilarEntities(definition, 'DJEMBE', { excludeId: 102 });
+    expect(similar.map(({ entity, similarity }) => [entity.nomInstrument, similarity]))
+      .toEqual([['Djembe', 1], ['Djèmbe', 1], ['Djembés', 1 - 1 / 7]]);
+  });
+
+  test('merges values and re-points relations before deleting the duplicate', async () => {
+    const duplicate = await createInstrument('Djembe', 'Tambour mandingue');
+    await relationsApi.create({ sourceId: duplicate.id, targetId: 3, relationType: 'appartientA' });
+    await relationsApi.create({ sourceId: duplicate.id, targetId: 22, relationType: 'localiseA' });
+    await relationsApi.create({ sourceId: 61, targetId: duplicate.id, relationType: 'fabrique' });
+    const survivor = (await readInstrument(102)).data!;
+
+    const plan = await planMergeRelations(definition, survivor, [duplicate]);
+    expect(plan.map(({ type, status }) => [type, status])).toEqual([
+      ['appartientA', 'dropped'],
+      ['localiseA', 'kept'],
+      ['fabrique', 'move'],
+    ]);
+    const choices = mergeChoices(definition.fields, survivor, [duplicate]);
+    expect(choices.description).toEqual([survivor.description, 'Tambour mandingue']);
+
+    const result = await mergeEntities(definition, survivor, [duplicate], { ...survivor, description: 'Tambour mandingue' }, plan);
+    expect(result).toEqual({ moved: 1, deleted: [duplicate.id], errors: [] });
+    expect((await readInstrument(duplicate.id)).success).toBe(false);
+    expect((await readInstrument(102)).data?.description).toBe('Tambour mandingue');
+    const relations = await relationsApi.getForEntity('102', 'Instrument');
+    expect(relations.data.relations.incoming.filter((item: any) => item.type === 'fabrique').map((item: any) => item.entity.id).sort())
+      .toEqual([61, 62]);
+    expect((await readRelationFields(definition, 102)).famille.map(famille => famille.displayName)).toEqual(['Membranophones']);
+  });
+});
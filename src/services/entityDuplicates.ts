@@ -0,0 +1,284 @@
+/**
+ * Entity Duplicates
+ *
+ * Duplicate finder and merge of the entities of a type. Names are compared
+ * on their display field once normalized (case, accents, punctuation and
+ * spaces ignored), then with an edit distance so that near spellings match.
+ * A merge keeps one entity, the survivor: it gets the chosen field values,
+ * the relations of the duplicates are re-pointed to it, then the duplicates
+ * are deleted.
+ */
+
+import { relationsApi } from './api';
+import { fetchAllEntities } from './entityExport';
+import { entityRelationsOf, isEmptyValue, propertyFields, readEntityRelations, RelatedEntity } from './entityFields';
+import { EntityField, EntityTypeDefinition, entityDisplayName } from './entityTypes';
+import { getRelationType } from './relationTypes';
+
+/** Similarity from which two names are taken for the same entity */
+export const DUPLICATE_THRESHOLD = 0.85;
+
+export interface SimilarEntity<T = Record<string, any>> {
+  entity: T;
+  /** 1 for names equal once normalized */
+  similarity: number;
+}
+
+export interface DuplicateGroup<T = Record<string, any>> {
+  /** Normalized name of the first entity of the group */
+  key: string;
+  entities: T[];
+  /** Lowest similarity between the entities of the group and the first one */
+  similarity: number;
+}
+
+export interface MergeRelation {
+  direction: 'outgoing' | 'incoming';
+  type: string;
+  other: RelatedEntity;
+  /** Duplicate holding the relation */
+  duplicateId: number;
+  /**
+   * `move` re-points the relation to the survivor, `kept` when the survivor
+   * already has it, `dropped` when it cannot be moved
+   */
+  status: 'move' | 'kept' | 'dropped';
+  reason?: string;
+}
+
+export interface MergeResult {
+  moved: number;
+  /** Ids of the deleted duplicates */
+  deleted: number[];
+  errors: string[];
+}
+
+/**
+ * Name reduced to lowercase letters and digits separated by single spaces
+ */
+export const normalizeName = (value: unknown): string =>
+  String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two names between 0 and 1, from the edit distance of their
+ * normalized forms
+ */
+export const nameSimilarity = (a: unknown, b: unknown): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+};
+
+/**
+ * Entities whose name is close to the given one, the closest first
+ */
+export const similarEntities = <T extends { id: number }>(
+  definition: EntityTypeDefinition,
+  entities: T[],
+  name: string,
+  { excludeId, threshold = DUPLICATE_THRESHOLD }: { excludeId?: number; threshold?: number } = {}
+): SimilarEntity<T>[] => entities
+  .filter(entity => entity.id !== excludeId)
+  .map(entity => ({ entity, similarity: nameSimilarity(name, entityDisplayName(definition, entity)) }))
+  .filter(({ similarity }) => similarity >= threshold)
+  .sort((a, b) => b.similarity - a.similarity);
+
+/**
+ * Read the entities of the type and keep those close to a name, to warn
+ * before creating a duplicate
+ */
+export const findSimilarEntities = async (
+  definition: EntityTypeDefinition,
+  name: string,
+  options: { excludeId?: number; signal?: AbortSignal } = {}
+): Promise<SimilarEntity[]> => {
+  if (!normalizeName(name)) return [];
+  const entities = await fetchAllEntities(definition, { signal: options.signal });
+  return similarEntities(definition, entities as { id: number }[], name, options);
+};
+
+/**
+ * Groups of entities with close names. Each entity joins the first group
+ * whose first entity it is close to; groups of one entity are left out.
+ */
+export const findDuplicateGroups = <T extends { id: number }>(
+  definition: EntityTypeDefinition,
+  entities: T[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateGroup<T>[] => {
+  const groups: DuplicateGroup<T>[] = [];
+  entities.forEach(entity => {
+    const name = entityDisplayName(definition, entity);
+    const group = groups.find(candidate =>
+      nameSimilarity(entityDisplayName(definition, candidate.entities[0]), name) >= threshold);
+    if (group) {
+      group.entities.push(entity);
+      group.similarity = Math.min(group.similarity, nameSimilarity(entityDisplayName(definition, group.entities[0]), name));
+    } else if (normalizeName(name)) {
+      groups.push({ key: normalizeName(name), entities: [entity], similarity: 1 });
+    }
+  });
+  return groups.filter(group => group.entities.length > 1);
+};
+
+// ---- Merge ----
+
+/**
+ * Distinct values of each field among the merged entities, the survivor's
+ * first
+ */
+export const mergeChoices = (
+  fields: EntityField[],
+  survivor: Record<string, any>,
+  duplicates: Record<string, any>[]
+): Record<string, any[]> => Object.fromEntries(fields.map(field => {
+  const values: any[] = [];
+  [survivor, ...duplicates].forEach(entity => {
+    const value = entity[field.name];
+    if (!isEmptyValue(value) && !values.some(known => JSON.stringify(known) === JSON.stringify(value))) {
+      values.push(value);
+    }
+  });
+  return [field.name, values];
+}));
+
+/**
+ * Values the survivor starts with: its own, or the first value of a
+ * duplicate for the fields it leaves empty
+ */
+export const defaultMergeValues = (choices: Record<string, any[]>): Record<string, any> =>
+  Object.fromEntries(Object.entries(choices).filter(([, values]) => values.length > 0).map(([name, values]) => [name, values[0]]));
+
+/**
+ * Whether a relation type allows a single relation per entity on that side
+ */
+const singleOn = (type: string, direction: 'outgoing' | 'incoming') => {
+  const { cardinality } = getRelationType(type);
+  return direction === 'outgoing' ? ['N:1', '1:1'].includes(cardinality) : ['1:N', '1:1'].includes(cardinality);
+};
+
+/**
+ * Relations of the duplicates and what the merge does with each: moved to
+ * the survivor, already held by it, or dropped when it would link the merged
+ * entities together or go past the cardinality of its type
+ */
+export const planMergeRelations = async (
+  definition: EntityTypeDefinition,
+  survivor: { id: number },
+  duplicates: { id: number }[]
+): Promise<MergeRelation[]> => {
+  const merged = new Set([survivor.id, ...duplicates.map(duplicate => duplicate.id)]);
+  const held = new Set<string>();
+  const singles = new Set<string>();
+  const hold = (direction: string, type: string, otherId: number) => {
+    held.add(`${direction}:${type}:${otherId}`);
+    singles.add(`${direction}:${type}`);
+  };
+
+  entityRelationsOf(await readEntityRelations(definition, survivor.id))
+    .forEach(({ direction, type, other }) => hold(direction, type, other.id));
+
+  const plan: MergeRelation[] = [];
+  for (const duplicate of duplicates) {
+    for (const { direction, type, other } of entityRelationsOf(await readEntityRelations(definition, duplicate.id))) {
+      const relation = { direction, type, other, duplicateId: duplicate.id };
+      if (merged.has(other.id)) {
+        plan.push({ ...relation, status: 'dropped', reason: 'Relation entre entités fusionnées' });
+      } else if (held.has(`${direction}:${type}:${other.id}`)) {
+        plan.push({ ...relation, status: 'kept' });
+      } else if (singleOn(type, direction) && singles.has(`${direction}:${type}`)) {
+        plan.push({ ...relation, status: 'dropped', reason: `« ${getRelationType(type).label} » n'admet qu'une relation, celle de l'entité conservée reste` });
+      } else {
+        plan.push({ ...relation, status: 'move' });
+        hold(direction, type, other.id);
+      }
+    }
+  }
+  return plan;
+};
+
+/**
+ * Merge the duplicates into the survivor: save the chosen values, create
+ * the moved relations on the survivor, delete the relations of each
+ * duplicate, then the duplicate. A duplicate whose relations could not all
+ * be moved is kept, so that nothing is lost.
+ */
+export const mergeEntities = async (
+  definition: EntityTypeDefinition,
+  survivor: Record<string, any> & { id: number },
+  duplicates: (Record<string, any> & { id: number })[],
+  values: Record<string, any>,
+  plan: MergeRelation[],
+  { onProgress }: { onProgress?: (done: number, total: number) => void } = {}
+): Promise<MergeResult> => {
+  const changes = Object.fromEntries(propertyFields(definition)
+    .filter(field => field.name in values && JSON.stringify(values[field.name]) !== JSON.stringify(survivor[field.name]))
+    .map(field => [field.name, values[field.name]]));
+  if (Object.keys(changes).length > 0) {
+    const response = await definition.service.update(survivor.id, changes, survivor);
+    if (!response.success) {
+      throw response.apiError || new Error(response.conflict
+        ? `${entityDisplayName(definition, survivor)} a été modifié entre-temps, rechargez la liste`
+        : response.error || 'Enregistrement des valeurs impossible');
+    }
+  }
+
+  const result: MergeResult = { moved: 0, deleted: [], errors: [] };
+  const ends = (direction: 'outgoing' | 'incoming', id: number, otherId: number): [number, number] =>
+    (direction === 'outgoing' ? [id, otherId] : [otherId, id]);
+
+  for (const [index, duplicate] of duplicates.entries()) {
+    const name = entityDisplayName(definition, duplicate);
+    const relations = plan.filter(relation => relation.duplicateId === duplicate.id);
+    const errors: string[] = [];
+
+    for (const relation of relations.filter(item => item.status === 'move')) {
+      const [sourceId, targetId] = ends(relation.direction, survivor.id, relation.other.id);
+      const response = await relationsApi.create({ sourceId, targetId, relationType: relation.type });
+      if (response.success) {
+        result.moved++;
+      } else {
+        errors.push(`${name} : ${relation.type} ${relation.other.displayName} non déplacée (${response.error})`);
+      }
+    }
+    if (errors.length === 0) {
+      for (const relation of relations) {
+        const response = await relationsApi.delete(...ends(relation.direction, duplicate.id, relation.other.id), relation.type);
+        // Relations between duplicates are listed on both sides
+        if (!response.success && !(relation.status === 'dropped' && response.apiError?.status === 404)) {
+          errors.push(`${name} : ${relation.type} ${relation.other.displayName} non supprimée (${response.error})`);
+        }
+      }
+    }
+    if (errors.length === 0) {
+      const response = await definition.service.delete(duplicate.id);
+      if (response.success) {
+        result.deleted.push(duplicate.id);
+      } else {
+        errors.push(`${name} : suppression impossible (${response.error})`);
+      }
+    }
+    result.errors.push(...(errors.length > 0 ? [...errors, `${name} est conservé(e)`] : []));
+    onProgress?.(index + 1, duplicates.length);
+  }
+  return result;
+};
@@ -0,0 +1,55 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { relationTypeRegistry } from './relationTypes';
+import { ENTITY_TYPES } from './entityTypes';
+import { buildExport, fetchExportRows, fieldColumns, relationColumns, toCsv, toJsonLd } from './entityExport';
+
+beforeEach(() => {
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+});
+
+describe('entity export', () => {
+  test('quotes CSV fields as in RFC 4180', () => {
+    const columns = [{ key: 'nom', label: 'Nom' }, { key: 'description', label: 'Description' }];
+    const rows = [{ entity: { nom: 'Kora', description: 'Harpe-luth, dite "griot", 21 cordes\nMandingue' }, related: {} }];
+    expect(toCsv(rows, columns)).toBe('Nom,Description\r\nKora,"Harpe-luth, dite ""griot"", 21 cordes\nMandingue"\r\n');
+  });
+
+  test('reads every page and adds related entities as columns', async () => {
+    await relationTypeRegistry.load();
+    const definition = ENTITY_TYPES.Instrument;
+    const columns = [
+      ...fieldColumns(definition).filter(column => column.key === 'nomInstrument'),
+      ...relationColumns(definition).filter(column => column.key === 'appartientA' || column.key === 'fabriqueInverse'),
+    ];
+    const progress: number[] = [];
+
+    const rows = await fetchExportRows(definition, columns, {
+      params: { search: 'Kora' },
+      onProgress: ({ loaded, total }) => progress.push(loaded / total),
+    });
+
+    expect(rows.map(row => row.entity.nomInstrument)).toEqual(['Kora']);
+    expect(rows[0].related.appartientA.map(famille => famille.displayName)).toEqual(['Cordophones']);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(toCsv(rows, columns).split('\r\n')[0]).toBe('Nom,Appartient à,Fabriqué par');
+
+    const jsonLd = JSON.parse(toJsonLd(definition, rows, columns, 'https://example.org'));
+    expect(jsonLd['@context'].fabriqueInverse).toEqual({ '@reverse': 'fabrique', '@type': '@id' });
+    expect(jsonLd['@graph'][0]).toMatchObject({ '@type': 'Instrument', appartientA: ['familles/1'] });
+  });
+
+  test('writes XLSX as a zip package holding the sheet', () => {
+    const columns = [{ key: 'nom', label: 'Nom' }];
+    const { content, filename } = buildExport('xlsx', ENTITY_TYPES.Famille, [{ entity: { nom: 'Idiophones & co' }, related: {} }], columns);
+    const bytes = content as Uint8Array;
+
+    expect(filename).toMatch(/^familles_\d{4}-\d{2}-\d{2}\.xlsx$/);
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    const text = new TextDecoder().decode(bytes);
+    expect(text).toContain('xl/worksheets/sheet1.xml');
+    expect(text).toContain('<t xml:space="preserve">Idiophones &amp; co</t>');
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Entity Export Service
+ *
+ * Exports the entities of a type, all of them or those matching the current
+ * list parameters, as CSV, JSON, JSON-LD or XLSX. Entities and relations are
+ * read page by page through the rate-limited list endpoints; related
+ * entities (an instrument's famille, its groupes ethniques...) become extra
+ * columns.
+ */
+
+import { relationsApi } from './api';
+import type { ListParams, Relation } from './api';
+import { EntityTypeDefinition, entityDetailPath, getEntityType } from './entityTypes';
+import { propertyFields } from './entityFields';
+import { relationEndsOf, RelationTypeDefinition } from './relationTypes';
+import { toXlsx, XlsxCell } from './xlsx';
+
+export type ExportFormat = 'csv' | 'json' | 'jsonld' | 'xlsx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  jsonld: { label: 'JSON-LD', extension: 'jsonld', mimeType: 'application/ld+json' },
+  xlsx: { label: 'Excel (XLSX)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+};
+
+export const EXPORT_PAGE_SIZE = 100;
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  /** Set on columns listing related entities */
+  relation?: { type: string; direction: 'outgoing' | 'incoming' };
+}
+
+export interface RelatedEntity {
+  id: number;
+  type: string;
+  displayName: string;
+}
+
+export interface ExportRow {
+  entity: Record<string, any>;
+  /** Related entities by relation column key */
+  related: Record<string, RelatedEntity[]>;
+}
+
+export interface ExportProgress {
+  /** Pages read so far */
+  loaded: number;
+  /** Pages to read, known once the first page of each list came back */
+  total: number;
+}
+
+export interface ExportOptions {
+  /** List parameters of the current view; empty for the full set */
+  params?: ListParams;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+/**
+ * Identifier and property fields of a type, relation fields are exported
+ * as relation columns
+ */
+export const fieldColumns = (definition: EntityTypeDefinition): ExportColumn[] => [
+  { key: 'id', label: 'ID' },
+  ...propertyFields(definition).map(field => ({ key: field.name, label: field.label })),
+];
+
+/**
+ * One column per relation type the type takes part in, on either side
+ */
+export const relationColumns = (
+  definition: EntityTypeDefinition,
+  types?: RelationTypeDefinition[]
+): ExportColumn[] => relationEndsOf(definition.type, types).map(({ definition: relation, direction, label }) => ({
+  key: direction === 'outgoing' ? relation.type : `${relation.type}Inverse`,
+  label,
+  relation: { type: relation.type, direction },
+}));
+
+const fail = (response: { error?: string; apiError?: Error }, fallback: string): never => {
+  throw response.apiError || new Error(response.error || fallback);
+};
+
+/**
+ * Read every entity of a type matching the list parameters, page by page
+ */
+export const fetchAllEntities = async (
+  definition: EntityTypeDefinition,
+  { params = {}, signal, onPage }: { params?: ListParams; signal?: AbortSignal; onPage?: (total: number) => void } = {}
+): Promise<Record<string, any>[]> => {
+  const entities: Record<string, any>[] = [];
+  for (let page = 1; ; page++) {
+    const response = await definition.service.getAll({ ...params, page, limit: EXPORT_PAGE_SIZE }, { signal });
+    if (!response.success) fail(response, `Lecture des ${definition.pluralLabel.toLowerCase()} impossible`);
+    const items = response.data?.data || [];
+    const total = response.pagination?.total ?? response.data?.total ?? entities.length + items.length;
+    entities.push(...items);
+    onPage?.(total);
+    if (items.length < EXPORT_PAGE_SIZE || entities.length >= total) break;
+  }
+  return entities;
+};
+
+/**
+ * Related entities of the given entities for each relation column, by
+ * entity id then column key. Relations are read type by type, page by page,
+ * rather than entity by entity.
+ */
+export const fetchRelatedEntities = async (
+  columns: { key: string; relation?: { type: string; direction: 'outgoing' | 'incoming' } }[],
+  ids: number[],
+  { signal, onPage }: { signal?: AbortSignal; onPage?: (typeIndex: number, total: number) => void } = {}
+): Promise<Record<number, Record<string, RelatedEntity[]>>> => {
+  const relationTypes = Array.from(new Set(columns.flatMap(column => column.relation ? [column.relation.type] : [])));
+  const related: Record<number, Record<string, RelatedEntity[]>> = Object.fromEntries(ids.map(id => [id, {}]));
+
+  for (const [index, relationType] of relationTypes.entries()) {
+    const relations: Relation[] = [];
+    for (let page = 1; ; page++) {
+      const response = await relationsApi.getAll({ page, limit: EXPORT_PAGE_SIZE, filters: { relationType } }, { signal });
+      if (!response.success) fail(response, `Lecture des relations ${relationType} impossible`);
+      const items = response.data || [];
+      relations.push(...items);
+      const total = (response as { pagination?: { total: number } }).pagination?.total ?? relations.length;
+      onPage?.(index, total);
+      if (items.length < EXPORT_PAGE_SIZE || relations.length >= total) break;
+    }
+
+    columns.filter(column => column.relation?.type === relationType).forEach(({ key, relation }) => {
+      const outgoing = relation!.direction === 'outgoing';
+      ids.forEach(id => { related[id][key] = []; });
+      relations.forEach(item => {
+        const entity = related[outgoing ? item.sourceId : item.targetId];
+        if (!entity) return;
+        const otherId = outgoing ? item.targetId : item.sourceId;
+        const other = outgoing ? item.target : item.source;
+        entity[key].push({
+          id: otherId,
+          type: other?.type || '',
+          displayName: other?.displayName || `#${otherId}`,
+        });
+      });
+    });
+  }
+  return related;
+};
+
+/**
+ * Read the entities and the relations of the chosen relation columns
+ */
+export const fetchExportRows = async (
+  definition: EntityTypeDefinition,
+  columns: ExportColumn[],
+  { params = {}, signal, onProgress }: ExportOptions = {}
+): Promise<ExportRow[]> => {
+  const relationTypes = Array.from(new Set(columns.flatMap(column => column.relation ? [column.relation.type] : [])));
+  // Until a list's first page is read, it counts as a single page
+  const pageCounts: number[] = [1, ...relationTypes.map(() => 1)];
+  let loaded = 0;
+  const advance = (list: number, total: number) => {
+    pageCounts[list] = Math.max(1, Math.ceil(total / EXPORT_PAGE_SIZE));
+    loaded++;
+    onProgress?.({ loaded, total: pageCounts.reduce((sum, count) => sum + count, 0) });
+  };
+
+  const entities = await fetchAllEntities(definition, { params, signal, onPage: total => advance(0, total) });
+  const related = await fetchRelatedEntities(columns, entities.map(entity => Number(entity.id)), {
+    signal,
+    onPage: (index, total) => advance(index + 1, total),
+  });
+  return entities.map(entity => ({ entity, related: related[Number(entity.id)] }));
+};
+
+/**
+ * Value of a cell in the flat formats: related entities are joined by name
+ */
+const cellValue = (row: ExportRow, column: ExportColumn): XlsxCell => {
+  if (column.relation) {
+    return (row.related[column.key] || []).map(related => related.displayName).join('; ');
+  }
+  const value = row.entity[column.key];
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join('; ');
+  return typeof value === 'object' ? JSON.stringify(value) : value;
+};
+
+/**
+ * CSV as defined by RFC 4180: CRLF line breaks, fields holding a comma, a
+ * quote or a line break are quoted and their quotes doubled
+ */
+export const toCsv = (rows: ExportRow[], columns: ExportColumn[]): string => {
+  const escape = (value: XlsxCell) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    columns.map(column => escape(column.label)),
+    ...rows.map(row => columns.map(column => escape(cellValue(row, column)))),
+  ].map(line => line.join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Plain objects keyed by column, related entities as { id, type, displayName }
+ */
+export const toJson = (rows: ExportRow[], columns: ExportColumn[]): string =>
+  JSON.stringify(rows.map(row => Object.fromEntries(columns.map(column => [
+    column.key,
+    column.relation ? row.related[column.key] || [] : row.entity[column.key] ?? null,
+  ]))), null, 2);
+
+/**
+ * Linked data graph: entities and their relations are identified by the
+ * URL of their detail page, incoming relations are declared as reverse
+ * properties
+ */
+export const toJsonLd = (definition: EntityTypeDefinition, rows: ExportRow[], columns: ExportColumn[], baseUrl: string): string => {
+  const iri = (type: string, id: number) => {
+    const related = getEntityType(type);
+    return related ? entityDetailPath(related, id).replace(/^\//, '') : `${id}`;
+  };
+  const context: Record<string, any> = { '@base': `${baseUrl}/`, '@vocab': `${baseUrl}/ontologie#` };
+  columns.forEach(({ key, relation }) => {
+    if (relation) {
+      context[key] = relation.direction === 'outgoing'
+        ? { '@id': relation.type, '@type': '@id' }
+        : { '@reverse': relation.type, '@type': '@id' };
+    }
+  });
+
+  const graph = rows.map(row => {
+    const node: Record<string, any> = { '@id': iri(definition.type, row.entity.id), '@type': definition.type };
+    columns.forEach(column => {
+      if (column.key === 'id') return;
+      if (column.relation) {
+        const related = row.related[column.key] || [];
+        if (related.length > 0) node[column.key] = related.map(entity => iri(entity.type, entity.id));
+        return;
+      }
+      const value = row.entity[column.key];
+      if (value !== null && value !== undefined && value !== '') node[column.key] = value;
+    });
+    return node;
+  });
+
+  return JSON.stringify({ '@context': context, '@graph': graph }, null, 2);
+};
+
+/**
+ * File contents, name and type of an export
+ */
+export const buildExport = (
+  format: ExportFormat,
+  definition: EntityTypeDefinition,
+  rows: ExportRow[],
+  columns: ExportColumn[],
+  baseUrl: string = window.location.origin
+): { content: string | Uint8Array; filename: string; mimeType: string } => {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const date = new Date().toISOString().slice(0, 10);
+  const filename = `${definition.route.replace(/^\//, '')}_${date}.${extension}`;
+
+  switch (format) {
+    case 'csv':
+      // The byte order mark lets spreadsheets detect UTF-8
+      return { content: `\ufeff${toCsv(rows, columns)}`, filename, mimeType };
+    case 'json':
+      return { content: toJson(rows, columns), filename, mimeType };
+    case 'jsonld':
+      return { content: toJsonLd(definition, rows, columns, baseUrl), filename, mimeType };
+    case 'xlsx':
+      return {
+        content: toXlsx(
+          definition.pluralLabel,
+          columns.map(column => column.label),
+          rows.map(row => columns.map(column => cellValue(row, column)))
+        ),
+        filename,
+        mimeType,
+      };
+  }
+};
+
+/**
+ * Let the browser save a generated file
+ */
+export const downloadFile = (content: string | Uint8Array, filename: string, mimeType: string) => {
+  const blob = new Blob([content as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,66 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { authService } from './auth';
+import { localitesApi } from './api';
+import { ENTITY_TYPES } from './entityTypes';
+import { fieldError, fieldText, parseFieldValue, readRelationFields, writeRelationFields } from './entityFields';
+
+const field = (type: string, name: string) =>
+  Object.values(ENTITY_TYPES).flatMap(definition => definition.fields).find(candidate => candidate.type === type && candidate.name === name)!;
+
+beforeEach(async () => {
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+  await authService.login('conservateur', 'conservateur');
+});
+
+describe('entity fields', () => {
+  test('converts, checks and shows each kind of value', () => {
+    const unesco = field('boolean', 'inscritUnesco');
+    expect(parseFieldValue(unesco, 'Oui')).toEqual({ value: true });
+    expect(parseFieldValue(unesco, 'peut-être').error).toBe('Inscrit à l\'UNESCO doit valoir oui ou non');
+    expect(fieldText(unesco, false)).toBe('Non');
+
+    const usages = field('multiselect', 'usages');
+    expect(parseFieldValue(usages, 'membrane; Fût')).toEqual({ value: ['Membrane', 'Fût'] });
+    expect(parseFieldValue(usages, 'Membrane, Pied').error).toBe('Usages : valeur « Pied » inconnue');
+    expect(fieldText(usages, ['Lames', 'Fût'])).toBe('Lames, Fût');
+
+    const occasions = field('tags', 'occasions');
+    expect(parseFieldValue(occasions, 'Mariage; Fête | Mariage')).toEqual({ value: ['Mariage', 'Fête'] });
+
+    const coordonnees = field('geopoint', 'coordonnees');
+    expect(parseFieldValue(coordonnees, ' 14.7167 ; -17.4677 ')).toEqual({ value: '14.7167,-17.4677' });
+    expect(fieldError(coordonnees, '95,10', {})).toBe('La latitude doit être entre -90 et 90');
+    expect(fieldError(coordonnees, '', {})).toBe('Coordonnées est requis');
+
+    const lien = field('url', 'lienReference');
+    expect(fieldError(lien, 'https://ich.unesco.org', {})).toBeNull();
+    expect(fieldError(lien, 'ftp://example.org', {})).toBe('Lien de référence doit commencer par http:// ou https://');
+    expect(fieldError(lien, 'unesco', {})).toBe('Lien de référence doit être une adresse web (https://...)');
+
+    const famille = field('relation', 'famille');
+    expect(fieldError(famille, [{ id: 1 }, { id: 2 }], {})).toBe('Famille n\'accepte qu\'une seule entité');
+    expect(parseFieldValue(famille, 'Cordophones').error).toBe('Famille se renseigne par une relation');
+  });
+
+  test('writes relation fields as relations of the entity', async () => {
+    const definition = ENTITY_TYPES.Instrument;
+    const previous = await readRelationFields(definition, 100);
+    expect(previous.famille).toEqual([{ id: 1, type: 'Famille', displayName: 'Cordophones' }]);
+
+    const errors = await writeRelationFields(definition, 100, { famille: [{ id: 3, type: 'Famille', displayName: 'Idiophones' }] }, previous);
+    expect(errors).toEqual([]);
+    expect((await readRelationFields(definition, 100)).famille.map(related => related.displayName)).toEqual(['Idiophones']);
+  });
+
+  test('keeps the coordinates of the geographic search in line with the point', async () => {
+    const created = await localitesApi.create({ nomLocalite: 'Saint-Louis', coordonnees: '16.0179,-16.4896' });
+    expect(created.data).toMatchObject({ latitude: 16.0179, longitude: -16.4896 });
+
+    const numeric = await localitesApi.create({ nomLocalite: 'Kaolack', latitude: 14.1652, longitude: -16.0758 });
+    const read = await localitesApi.getAll({ search: 'Kaolack' });
+    expect(read.data.data.find(localite => localite.id === numeric.data!.id)?.coordonnees).toBe('14.1652,-16.0758');
+  });
+});
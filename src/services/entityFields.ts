@@ -0,0 +1,276 @@
+/**
+ * Entity Fields
+ *
+ * Behaviour of each kind of form field: conversion of a typed or pasted
+ * text, checks made before the field's own validation, and the text shown
+ * for a value. Relation fields are not properties of the entity: they read
+ * and write relations of the entity (an instrument's famille through
+ * `appartientA`), as lists of related entities.
+ */
+
+import { relationsApi } from './api';
+import type { RelatedEntity } from './entityExport';
+import { EntityField, EntityTypeDefinition, entityDisplayName, getEntityType } from './entityTypes';
+
+import { formatGeoPoint, parseGeoPoint } from './geoPoint';
+
+export type { RelatedEntity } from './entityExport';
+export { formatGeoPoint, parseGeoPoint } from './geoPoint';
+export type { GeoPoint } from './geoPoint';
+
+export const BOOLEAN_OPTIONS = [
+  { value: true, label: 'Oui' },
+  { value: false, label: 'Non' },
+];
+
+const TRUE_TEXTS = ['oui', 'vrai', 'true', '1', 'x'];
+const FALSE_TEXTS = ['non', 'faux', 'false', '0'];
+
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/**
+ * Whether a field holds a property of the entity, as opposed to relations
+ */
+export const isPropertyField = (field: EntityField) => field.type !== 'relation';
+
+export const propertyFields = (definition: EntityTypeDefinition): EntityField[] =>
+  (definition.fields || []).filter(isPropertyField);
+
+export const relationFields = (definition: EntityTypeDefinition): EntityField[] =>
+  (definition.fields || []).filter(field => field.type === 'relation');
+
+/**
+ * Choices of a field, yes and no for a boolean
+ */
+export const fieldOptions = (field: EntityField) => (field.type === 'boolean' ? BOOLEAN_OPTIONS : field.options);
+
+export const isEmptyValue = (value: any) =>
+  value === undefined || value === null || (Array.isArray(value) ? value.length === 0 : String(value).trim() === '');
+
+/**
+ * Value of a field in an empty form
+ */
+export const emptyFieldValue = (field: EntityField): any => {
+  if (['multiselect', 'tags', 'relation'].includes(field.type)) return [];
+  return field.type === 'boolean' ? false : '';
+};
+
+// ---- Conversion ----
+
+const splitList = (raw: string) => raw.split(/[;|,\n]/).map(item => item.trim()).filter(Boolean);
+
+const findOption = (field: EntityField, raw: string) => fieldOptions(field)?.find(candidate =>
+  String(candidate.value) === raw.trim() || normalize(candidate.label) === normalize(raw));
+
+/**
+ * Convert a raw text value, from a file column or a pasted cell, to the type
+ * of its field
+ */
+export const parseFieldValue = (field: EntityField, raw: any): { value?: any; error?: string } => {
+  if (isEmptyValue(raw)) return {};
+  if ((typeof raw === 'number' && field.type === 'number') || (typeof raw === 'boolean' && field.type === 'boolean')) {
+    return { value: raw };
+  }
+  raw = Array.isArray(raw) ? raw.join(';') : String(raw);
+  switch (field.type) {
+    case 'number': {
+      const value = Number(raw.replace(',', '.'));
+      return Number.isNaN(value) ? { error: `${field.label} doit être un nombre` } : { value };
+    }
+    case 'boolean': {
+      const text = normalize(raw);
+      if (TRUE_TEXTS.includes(text)) return { value: true };
+      if (FALSE_TEXTS.includes(text)) return { value: false };
+      return { error: `${field.label} doit valoir oui ou non` };
+    }
+    case 'select': {
+      const option = field.options && findOption(field, raw);
+      if (!field.options) return { value: raw.trim() };
+      return option ? { value: option.value } : { error: `${field.label} : valeur « ${raw} » inconnue` };
+    }
+    case 'multiselect': {
+      const values = splitList(raw);
+      const unknown = values.find(item => !findOption(field, item));
+      return unknown
+        ? { error: `${field.label} : valeur « ${unknown} » inconnue` }
+        : { value: values.map(item => findOption(field, item)!.value) };
+    }
+    case 'tags':
+      return { value: Array.from(new Set(splitList(raw))) };
+    case 'geopoint': {
+      const point = parseGeoPoint(raw);
+      return point ? { value: formatGeoPoint(point) } : { error: `${field.label} : coordonnées attendues sous la forme « latitude,longitude »` };
+    }
+    case 'relation':
+      return { error: `${field.label} se renseigne par une relation` };
+    default:
+      return { value: raw.trim() };
+  }
+};
+
+// ---- Validation ----
+
+/**
+ * Check made by the kind of a field on a value that is not empty
+ */
+const kindError = (field: EntityField, value: any): string | null => {
+  switch (field.type) {
+    case 'number':
+      return Number.isNaN(Number(value)) ? `${field.label} doit être un nombre` : null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${field.label} doit valoir oui ou non`;
+    case 'url': {
+      try {
+        const url = new URL(String(value).trim());
+        return ['http:', 'https:'].includes(url.protocol) ? null : `${field.label} doit commencer par http:// ou https://`;
+      } catch {
+        return `${field.label} doit être une adresse web (https://...)`;
+      }
+    }
+    case 'multiselect': {
+      const unknown = (Array.isArray(value) ? value : [value])
+        .find(item => !field.options?.some(option => String(option.value) === String(item)));
+      return unknown === undefined ? null : `${field.label} : valeur « ${unknown} » inconnue`;
+    }
+    case 'tags':
+      return Array.isArray(value) ? null : `${field.label} doit être une liste de mots-clés`;
+    case 'geopoint': {
+      const point = parseGeoPoint(value);
+      if (!point) return `${field.label} : coordonnées attendues sous la forme « latitude,longitude »`;
+      if (point.latitude < -90 || point.latitude > 90) return 'La latitude doit être entre -90 et 90';
+      if (point.longitude < -180 || point.longitude > 180) return 'La longitude doit être entre -180 et 180';
+      return null;
+    }
+    case 'relation':
+      return !field.relation?.multiple && Array.isArray(value) && value.length > 1
+        ? `${field.label} n'accepte qu'une seule entité`
+        : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Error of a value: missing required value, value not fitting the kind of
+ * the field, then the field's own validation
+ */
+export const fieldError = (field: EntityField, value: any, values: Record<string, any>): string | null => {
+  if (isEmptyValue(value)) return field.required ? `${field.label} est requis` : null;
+  return kindError(field, value) || (field.validation ? field.validation(value, values) : null);
+};
+
+// ---- Display ----
+
+/**
+ * Text shown for a value, options by their label
+ */
+export const fieldText = (field: EntityField, value: any): string => {
+  if (isEmptyValue(value)) return '';
+  const label = (item: any) => fieldOptions(field)?.find(option => String(option.value) === String(item))?.label ?? String(item);
+  switch (field.type) {
+    case 'relation':
+      return (value as RelatedEntity[]).map(related => related.displayName).join(', ');
+    case 'multiselect':
+    case 'tags':
+      return (Array.isArray(value) ? value : [value]).map(label).join(', ');
+    case 'geopoint': {
+      const point = parseGeoPoint(value);
+      return point ? `${point.latitude}, ${point.longitude}` : String(value);
+    }
+    default:
+      return label(value);
+  }
+};
+
+// ---- Relation fields ----
+
+type EntityRelationsPayload = {
+  relations?: Record<'outgoing' | 'incoming', { type: string; entity: Record<string, any>; entityLabels?: string[] }[]>;
+};
+
+/**
+ * Entities linked by one relation type and direction, from the payload of
+ * `relationsApi.getForEntity`
+ */
+export const relatedEntitiesOf = (
+  payload: EntityRelationsPayload | undefined,
+  relationType: string,
+  direction: 'outgoing' | 'incoming'
+): RelatedEntity[] => (payload?.relations?.[direction] || [])
+  .filter(item => item.type === relationType)
+  .map(({ entity, entityLabels }) => {
+    const definition = getEntityType(entityLabels?.[0]);
+    return {
+      id: Number(entity.id),
+      type: definition?.type || entityLabels?.[0] || '',
+      displayName: definition ? entityDisplayName(definition, entity) : String(entity.id),
+    };
+  });
+
+/**
+ * Every relation of an entity, by direction and type, from the payload of
+ * `relationsApi.getForEntity`
+ */
+export const entityRelationsOf = (
+  payload: EntityRelationsPayload | undefined
+): { direction: 'outgoing' | 'incoming'; type: string; other: RelatedEntity }[] =>
+  (['outgoing', 'incoming'] as const).flatMap(direction =>
+    Array.from(new Set((payload?.relations?.[direction] || []).map(item => item.type))).flatMap(type =>
+      relatedEntitiesOf(payload, type, direction).map(other => ({ direction, type, other }))));
+
+/**
+ * Relations payload of an entity; throws when it cannot be read
+ */
+export const readEntityRelations = async (definition: EntityTypeDefinition, id: number) => {
+  const response = await relationsApi.getForEntity(String(id), definition.type);
+  if (!response.success) {
+    throw response.apiError || new Error(response.error || 'Lecture des relations impossible');
+  }
+  return response.data as EntityRelationsPayload | undefined;
+};
+
+/**
+ * Current values of the relation fields of an entity
+ */
+export const readRelationFields = async (
+  definition: EntityTypeDefinition,
+  id: number
+): Promise<Record<string, RelatedEntity[]>> => {
+  const fields = relationFields(definition);
+  if (fields.length === 0) return {};
+  const payload = await readEntityRelations(definition, id);
+  return Object.fromEntries(fields.map(field =>
+    [field.name, relatedEntitiesOf(payload, field.relation!.type, field.relation!.direction)]));
+};
+
+/**
+ * Create and delete the relations of an entity so that its relation fields
+ * hold the given values; returns the messages of the changes that failed
+ */
+export const writeRelationFields = async (
+  definition: EntityTypeDefinition,
+  id: number,
+  values: Record<string, any>,
+  previous: Record<string, RelatedEntity[]> = {}
+): Promise<string[]> => {
+  const errors: string[] = [];
+  for (const field of relationFields(definition)) {
+    const { type, direction } = field.relation!;
+    const next: RelatedEntity[] = values[field.name] || [];
+    const before = previous[field.name] || [];
+    const ends = (other: RelatedEntity) =>
+      (direction === 'outgoing' ? [id, other.id] : [other.id, id]) as [number, number];
+
+    for (const removed of before.filter(item => !next.some(other => other.id === item.id))) {
+      const response = await relationsApi.delete(...ends(removed), type);
+      if (!response.success) errors.push(`${field.label} : ${removed.displayName} non retiré (${response.error})`);
+    }
+    for (const added of next.filter(item => !before.some(other => other.id === item.id))) {
+      const [sourceId, targetId] = ends(added);
+      const response = await relationsApi.create({ sourceId, targetId, relationType: type });
+      if (!response.success) errors.push(`${field.label} : ${added.displayName} non ajouté (${response.error})`);
+    }
+  }
+  return errors;
+};
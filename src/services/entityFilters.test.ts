@@ -0,0 +1,57 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { artisansApi, rythmesApi, timbresApi } from './api';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { ENTITY_TYPES } from './entityTypes';
+import { decodeFilters, describeCondition, encodeFilters, FilterGroup } from './entityFilters';
+
+beforeEach(() => {
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+});
+
+describe('entity filters', () => {
+  test('round-trip through the page URL', () => {
+    const group: FilterGroup = {
+      combinator: 'or',
+      conditions: [
+        { field: 'nomRythme', operator: 'contains', value: 'ku' },
+        { field: 'tempoMin', operator: 'between', min: 95, max: undefined },
+        { field: 'metrique', operator: 'in', values: ['4/4', '12/8'] },
+        { relationType: 'produitRythme', direction: 'incoming', operator: 'lacks' },
+      ],
+    };
+    const params = encodeFilters(group, new URLSearchParams('onglet=2'));
+
+    expect(params.toString()).toBe('onglet=2&filtre=nomRythme%7Eku&filtre=tempoMin%3D95..&filtre=metrique%3D4%2F4%7C12%2F8&filtre=-%5EproduitRythme&logique=ou');
+    expect(decodeFilters(ENTITY_TYPES.Rythme, params)).toEqual(group);
+    expect(describeCondition(ENTITY_TYPES.Rythme, group.conditions[1])).toBe('Tempo minimal (BPM) ≥ 95');
+  });
+
+  test('filters lists on field ranges, options and relations', async () => {
+    const highPitched = await timbresApi.getAll({ where: { combinator: 'and', conditions: [{ field: 'frequence', operator: 'between', min: 200 }] } });
+    expect(highPitched.data.data.map(timbre => timbre.descriptionTimbre)).toEqual(['Cristallin et perlé']);
+
+    const rythmes = await rythmesApi.getAll({
+      where: {
+        combinator: 'and',
+        conditions: [
+          { field: 'metrique', operator: 'in', values: ['12/8'] },
+          { field: 'nomRythme', operator: 'contains', value: 'dun' },
+        ],
+      },
+    });
+    expect(rythmes.data.data.map(rythme => rythme.nomRythme)).toEqual(['Dununba']);
+
+    const makers = await artisansApi.getAll({
+      where: {
+        combinator: 'or',
+        conditions: [
+          { relationType: 'fabrique', direction: 'outgoing', operator: 'lacks' },
+          { field: 'nomArtisan', operator: 'equals', value: 'lamine cissokho' },
+        ],
+      },
+    });
+    expect(makers.data.data.map(artisan => artisan.nomArtisan)).toEqual(['Lamine Cissokho']);
+  });
+});
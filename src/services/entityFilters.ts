@@ -0,0 +1,146 @@
+/**
+ * Entity Filters
+ *
+ * Advanced filters of the entity pages, built from the fields of a type and
+ * from its relations. A filter travels in the page URL as repeated `filtre`
+ * parameters, one per condition, plus `logique=ou` when the conditions are
+ * combined with OR:
+ *
+ * - `nomFamille~cor`: text containing `cor`
+ * - `nomFamille=Cordophones`: text equal to `Cordophones`
+ * - `frequence=100..500`, `frequence=100..`: number range
+ * - `metrique=4/4|12/8`: one of the options of a select field
+ * - `+appartientA`, `-appartientA`: has / lacks an outgoing relation,
+ *   `+^fabrique` and `-^fabrique` for an incoming relation
+ */
+
+import type { FilterCondition, FilterGroup } from './api';
+import { EntityField, EntityTypeDefinition } from './entityTypes';
+import { fieldOptions, propertyFields } from './entityFields';
+import { relationTypeRegistry } from './relationTypes';
+
+export type { FilterCondition, FilterGroup } from './api';
+
+export const EMPTY_FILTER: FilterGroup = { combinator: 'and', conditions: [] };
+
+const FILTER_PARAM = 'filtre';
+const COMBINATOR_PARAM = 'logique';
+
+/**
+ * Kind of condition offered for a field, from its type; a multiple choice
+ * field matches when one of its values is among the chosen ones
+ */
+export const fieldFilterKind = (field: EntityField): 'text' | 'number' | 'select' => {
+  if (field.type === 'number') return 'number';
+  if (['select', 'multiselect', 'boolean'].includes(field.type) && fieldOptions(field)) return 'select';
+  return 'text';
+};
+
+// ---- URL encoding ----
+
+const encodeCondition = (condition: FilterCondition): string => {
+  if ('relationType' in condition) {
+    return `${condition.operator === 'has' ? '+' : '-'}${condition.direction === 'incoming' ? '^' : ''}${condition.relationType}`;
+  }
+  switch (condition.operator) {
+    case 'contains':
+      return `${condition.field}~${condition.value}`;
+    case 'equals':
+      return `${condition.field}=${condition.value}`;
+    case 'between':
+      return `${condition.field}=${condition.min ?? ''}..${condition.max ?? ''}`;
+    case 'in':
+      return `${condition.field}=${condition.values.join('|')}`;
+  }
+};
+
+const toNumber = (value: string) => (value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+/**
+ * Condition of a URL token; tokens naming an unknown field are dropped
+ */
+const decodeCondition = (definition: EntityTypeDefinition, token: string): FilterCondition | null => {
+  const relation = token.match(/^([+-])(\^?)(\w+)$/);
+  if (relation) {
+    return {
+      relationType: relation[3],
+      direction: relation[2] ? 'incoming' : 'outgoing',
+      operator: relation[1] === '+' ? 'has' : 'lacks',
+    };
+  }
+
+  const match = token.match(/^(\w+)([~=])(.*)$/);
+  const field = match && propertyFields(definition).find(candidate => candidate.name === match[1]);
+  if (!match || !field) return null;
+  const [, name, operator, value] = match;
+
+  switch (fieldFilterKind(field)) {
+    case 'number': {
+      const [min, max = min] = value.split('..');
+      const range = { field: name, operator: 'between' as const, min: toNumber(min), max: toNumber(max) };
+      return range.min === undefined && range.max === undefined ? null : range;
+    }
+    case 'select':
+      return { field: name, operator: 'in', values: value.split('|').filter(Boolean) };
+    default:
+      return { field: name, operator: operator === '~' ? 'contains' : 'equals', value };
+  }
+};
+
+/**
+ * Filter of a page URL
+ */
+export const decodeFilters = (definition: EntityTypeDefinition, params: URLSearchParams): FilterGroup => ({
+  combinator: params.get(COMBINATOR_PARAM) === 'ou' ? 'or' : 'and',
+  conditions: params.getAll(FILTER_PARAM)
+    .map(token => decodeCondition(definition, token))
+    .filter((condition): condition is FilterCondition => condition !== null),
+});
+
+/**
+ * Page URL parameters with the filter replaced, other parameters are kept
+ */
+export const encodeFilters = (group: FilterGroup, params: URLSearchParams = new URLSearchParams()): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  next.delete(FILTER_PARAM);
+  next.delete(COMBINATOR_PARAM);
+  group.conditions.forEach(condition => next.append(FILTER_PARAM, encodeCondition(condition)));
+  if (group.combinator === 'or' && group.conditions.length > 1) {
+    next.set(COMBINATOR_PARAM, 'ou');
+  }
+  return next;
+};
+
+// ---- Labels ----
+
+/**
+ * Chip label of a condition
+ */
+export const describeCondition = (definition: EntityTypeDefinition, condition: FilterCondition): string => {
+  if ('relationType' in condition) {
+    const relation = relationTypeRegistry.get(condition.relationType);
+    const label = condition.direction === 'outgoing' ? relation.label : relation.inverseLabel;
+    return `${condition.operator === 'has' ? 'Avec' : 'Sans'} « ${label} »`;
+  }
+
+  const field = (definition.fields || []).find(candidate => candidate.name === condition.field);
+  const label = field?.label || condition.field;
+  switch (condition.operator) {
+    case 'contains':
+      return `${label} contient « ${condition.value} »`;
+    case 'equals':
+      return `${label} = « ${condition.value} »`;
+    case 'between':
+      if (condition.min !== undefined && condition.max !== undefined) {
+        return condition.min === condition.max
+          ? `${label} = ${condition.min}`
+          : `${label} entre ${condition.min} et ${condition.max}`;
+      }
+      return condition.min !== undefined ? `${label} ≥ ${condition.min}` : `${label} ≤ ${condition.max}`;
+    case 'in': {
+      const optionLabel = (value: string) =>
+        (field && fieldOptions(field))?.find(option => String(option.value) === value)?.label || value;
+      return `${label} : ${condition.values.map(optionLabel).join(' ou ')}`;
+    }
+  }
+};
@@ -0,0 +1,24 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { getEntityHistory, recordEntityVisit } from './entityHistory';
+import { runtimeConfig } from './runtimeConfig';
+
+beforeEach(() => {
+  localStorage.clear();
+  runtimeConfig.setActiveProfile('mock');
+});
+
+describe('entity history', () => {
+  test('keeps each entity once, most recent first', () => {
+    recordEntityVisit({ type: 'Instrument', id: 100, displayName: 'Kora' });
+    recordEntityVisit({ type: 'Famille', id: 1, displayName: 'Cordophones' });
+    recordEntityVisit({ type: 'Instrument', id: 100, displayName: 'Kora' });
+
+    expect(getEntityHistory().map(visit => visit.displayName)).toEqual(['Kora', 'Cordophones']);
+  });
+
+  test('is kept per environment profile', () => {
+    recordEntityVisit({ type: 'Instrument', id: 100, displayName: 'Kora' });
+    runtimeConfig.setActiveProfile('local');
+    expect(getEntityHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Entity History Service
+ *
+ * Entities recently opened on their detail page, most recent first,
+ * remembered in the browser per environment profile.
+ */
+
+import { runtimeConfig } from './runtimeConfig';
+
+export interface EntityVisit {
+  type: string;
+  id: number;
+  displayName: string;
+  visitedAt: number;
+}
+
+const STORAGE_PREFIX = 'ontology.history.';
+const MAX_VISITS = 12;
+
+const storageKey = () => `${STORAGE_PREFIX}${runtimeConfig.getActiveProfile().id}`;
+
+const read = (): EntityVisit[] => {
+  try {
+    const stored = localStorage.getItem(storageKey());
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Visits, most recent first
+ */
+export const getEntityHistory = (): EntityVisit[] => read();
+
+/**
+ * Record a visit; an entity appears once, at its last visit
+ */
+export const recordEntityVisit = (visit: Omit<EntityVisit, 'visitedAt'>): EntityVisit[] => {
+  const visits = [
+    { ...visit, visitedAt: Date.now() },
+    ...read().filter(item => item.type !== visit.type || item.id !== visit.id),
+  ].slice(0, MAX_VISITS);
+  try {
+    localStorage.setItem(storageKey(), JSON.stringify(visits));
+  } catch (error) {
+    console.warn('[EntityHistory] Unable to persist history', error);
+  }
+  return visits;
+};
@@ -0,0 +1,69 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { famillesApi } from './api';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { authService } from './auth';
+import { ENTITY_TYPES } from './entityTypes';
+import { dryRunImport, executeImport, importErrorReport, parseCsv, parseImportFile, suggestMapping } from './entityImport';
+
+const FILE = [
+  'ID;Nom de la Famille;Description',
+  ';Électrophones;"Son produit électriquement; amplifié"',
+  '2;Membranophones;Tambours à membrane',
+  ';idiophones;Instruments dont le corps vibre lui-même',
+  ';X;',
+  ';Electrophones;Doublon',
+  '99;Inconnue;',
+].join('\r\n');
+
+beforeEach(async () => {
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+  await authService.login('conservateur', 'conservateur');
+});
+
+describe('entity import', () => {
+  test('parses quoted CSV fields with either separator', () => {
+    expect(parseCsv('nom,description\r\nKora,"21 cordes, ""griot""\nMandingue"\r\n').records)
+      .toEqual([{ nom: 'Kora', description: '21 cordes, "griot"\nMandingue' }]);
+    expect(parseImportFile('familles.json', '[{"nomFamille":"Cordophones","@type":"Famille"}]').columns).toEqual(['nomFamille']);
+  });
+
+  test('maps columns by field name or label', () => {
+    const file = parseCsv(FILE);
+    expect(suggestMapping(file.columns, ENTITY_TYPES.Famille.fields))
+      .toEqual({ ID: 'id', 'Nom de la Famille': 'nomFamille', Description: 'descriptionFamille' });
+  });
+
+  test('sorts rows into creations, updates, duplicates and errors, then imports them', async () => {
+    const definition = ENTITY_TYPES.Famille;
+    const file = parseCsv(FILE);
+    const plan = await dryRunImport(definition, file, suggestMapping(file.columns, definition.fields));
+
+    expect(plan.map(row => row.action)).toEqual(['create', 'update', 'duplicate', 'error', 'duplicate', 'error']);
+    expect(plan[1].changes).toEqual({ descriptionFamille: 'Tambours à membrane' });
+    expect(plan[3].messages).toEqual(['Le nom de la famille doit contenir au moins 2 caractères']);
+    expect(plan[4].messages).toEqual(['Doublon de la ligne 1']);
+
+    const progress: number[] = [];
+    const results = await executeImport(definition, plan, { onProgress: ({ done }) => progress.push(done) });
+    expect(results.map(result => result.status)).toEqual(['created', 'updated']);
+    expect(progress).toEqual([1, 2]);
+    expect((await famillesApi.getAll({ search: 'Membranophones' })).data.data[0].descriptionFamille).toBe('Tambours à membrane');
+    expect((await famillesApi.getAll({ search: 'Électrophones' })).data.total).toBe(1);
+
+    const report = importErrorReport(file, plan, results).split('\r\n');
+    expect(report[0]).toBe('Ligne,Erreur,ID,Nom de la Famille,Description');
+    expect(report[2]).toBe('6,Famille d\'Instrument #99 introuvable,99,Inconnue,');
+  });
+
+  test('stops at a cancellation with the results of the rows already sent', async () => {
+    const definition = ENTITY_TYPES.Famille;
+    const file = parseCsv(FILE);
+    const plan = await dryRunImport(definition, file, suggestMapping(file.columns, definition.fields));
+
+    const controller = new AbortController();
+    const results = await executeImport(definition, plan, { signal: controller.signal, onProgress: () => controller.abort() });
+    expect(results.map(result => [result.line, result.status])).toEqual([[1, 'created']]);
+  });
+});
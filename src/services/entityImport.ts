@@ -0,0 +1,317 @@
+/**
+ * Entity Import Service
+ *
+ * Imports a CSV or JSON file into an entity type in three stages: the file
+ * is parsed, its columns are mapped to the fields of the type, then a dry
+ * run compares each row with the entities already stored and sorts it into
+ * a creation, an update, a duplicate or an error. Only the creations and
+ * updates of the dry run are sent when the import is executed.
+ */
+
+import type { ApiError } from './apiError';
+import { EntityField, EntityTypeDefinition, entityDisplayName } from './entityTypes';
+import { ExportColumn, fetchAllEntities, toCsv } from './entityExport';
+import { fieldError, parseFieldValue, propertyFields } from './entityFields';
+import { isCancelled } from './rateLimiter';
+
+export interface ImportFile {
+  columns: string[];
+  records: Record<string, any>[];
+}
+
+/** Column → field name; unmapped columns are ignored */
+export type ImportMapping = Record<string, string>;
+
+/** Pseudo-field of a column holding entity ids */
+export const ID_FIELD = 'id';
+
+export type ImportAction = 'create' | 'update' | 'duplicate' | 'error';
+
+export interface ImportPlanRow {
+  /** Line in the file, header excluded, starting at 1 */
+  line: number;
+  action: ImportAction;
+  record: Record<string, any>;
+  /** Mapped and converted values */
+  values: Record<string, any>;
+  /** Stored entity an update or a duplicate refers to */
+  existing?: Record<string, any>;
+  /** Fields an update changes */
+  changes?: Record<string, any>;
+  messages: string[];
+}
+
+export interface ImportResult {
+  line: number;
+  status: 'created' | 'updated' | 'failed';
+  message?: string;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+// ---- Parsing ----
+
+/**
+ * CSV as defined by RFC 4180; the separator (comma or semicolon) is taken
+ * from the header line
+ */
+export const parseCsv = (text: string): ImportFile => {
+  const source = text.replace(/^\ufeff/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const separator = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      line.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      line.push(field);
+      lines.push(line);
+      line = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || line.length > 0) {
+    line.push(field);
+    lines.push(line);
+  }
+
+  const [header = [], ...body] = lines.filter(cells => cells.some(cell => cell.trim() !== ''));
+  const columns = header.map(column => column.trim());
+  return {
+    columns,
+    records: body.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))),
+  };
+};
+
+/**
+ * JSON array of objects, as written by the export, or a list response
+ */
+export const parseJson = (text: string): ImportFile => {
+  const parsed = JSON.parse(text);
+  const items = Array.isArray(parsed) ? parsed : parsed?.['@graph'] || parsed?.data?.data || parsed?.data;
+  if (!Array.isArray(items)) {
+    throw new Error('Le fichier JSON doit contenir une liste d\'objets');
+  }
+  const records = items.filter(item => item && typeof item === 'object' && !Array.isArray(item));
+  const columns = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+    .filter(column => !column.startsWith('@'));
+  return { columns, records };
+};
+
+export const parseImportFile = (filename: string, text: string): ImportFile =>
+  /\.(json|jsonld)$/i.test(filename) ? parseJson(text) : parseCsv(text);
+
+// ---- Mapping ----
+
+// Names are compared without case, accents or extra spaces
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim().replace(/\s+/g, ' ');
+
+// Column names are also compared without punctuation: `Nom de la famille` ~ `nom_de_la_famille`
+const columnKey = (value: string) => normalize(value).replace(/[^a-z0-9]/g, '');
+
+/**
+ * Map each column whose name matches a field name or label
+ */
+export const suggestMapping = (columns: string[], fields: EntityField[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+  columns.forEach(column => {
+    const key = columnKey(column);
+    if (key === ID_FIELD) {
+      mapping[column] = ID_FIELD;
+      return;
+    }
+    const field = fields.find(candidate => columnKey(candidate.name) === key || columnKey(candidate.label) === key);
+    if (field && !Object.values(mapping).includes(field.name)) {
+      mapping[column] = field.name;
+    }
+  });
+  return mapping;
+};
+
+// ---- Dry run ----
+
+const isEmpty = (value: any) => value === undefined || value === null || String(value).trim() === '';
+
+/**
+ * Sort every row of the file without sending anything
+ *
+ * A row refers to a stored entity through its id column or, lacking one,
+ * through its display name. Such a row is an update when it changes a
+ * field and a duplicate otherwise; a row repeating an earlier row of the
+ * file is a duplicate too.
+ */
+export const planImport = (
+  definition: EntityTypeDefinition,
+  file: ImportFile,
+  mapping: ImportMapping,
+  existingEntities: Record<string, any>[]
+): ImportPlanRow[] => {
+  const fields = propertyFields(definition);
+  const byId = new Map(existingEntities.map(entity => [Number(entity.id), entity]));
+  const byName = new Map(existingEntities.map(entity => [normalize(entityDisplayName(definition, entity)), entity]));
+  const seen = new Map<string, number>();
+  const idColumn = Object.keys(mapping).find(column => mapping[column] === ID_FIELD);
+
+  return file.records.map((record, index): ImportPlanRow => {
+    const line = index + 1;
+    const messages: string[] = [];
+    const values: Record<string, any> = {};
+
+    fields.forEach(field => {
+      const column = Object.keys(mapping).find(candidate => mapping[candidate] === field.name);
+      if (!column) return;
+      const { value, error } = parseFieldValue(field, record[column]);
+      if (error) messages.push(error);
+      if (value !== undefined) values[field.name] = value;
+    });
+
+    let existing: Record<string, any> | undefined;
+    if (idColumn && !isEmpty(record[idColumn])) {
+      existing = byId.get(Number(record[idColumn]));
+      if (!existing) messages.push(`${definition.label} #${record[idColumn]} introuvable`);
+    }
+    const name = values[definition.displayField];
+    const matchedByName = !existing && !isEmpty(name) && byName.has(normalize(String(name)));
+    if (matchedByName) {
+      existing = byName.get(normalize(String(name)));
+    }
+
+    // Required fields may be left out of an update, they keep their value
+    fields.forEach(field => {
+      const value = values[field.name] ?? (existing ? existing[field.name] : undefined);
+      if (field.required && isEmpty(value)) {
+        messages.push(`${field.label} est requis`);
+      } else if (!isEmpty(values[field.name])) {
+        const error = fieldError(field, values[field.name], { ...existing, ...values });
+        if (error) messages.push(error);
+      }
+    });
+
+    if (messages.length > 0) {
+      return { line, action: 'error', record, values, existing, messages };
+    }
+
+    const key = existing ? `#${existing.id}` : normalize(String(name ?? ''));
+    const firstLine = key ? seen.get(key) : undefined;
+    if (firstLine !== undefined) {
+      return { line, action: 'duplicate', record, values, existing, messages: [`Doublon de la ligne ${firstLine}`] };
+    }
+    if (key) seen.set(key, line);
+
+    if (!existing) {
+      return { line, action: 'create', record, values, messages };
+    }
+    // A row found by its name does not rename the entity to another spelling
+    const changes = Object.fromEntries(Object.entries(values).filter(([field, value]) =>
+      JSON.stringify(existing![field]) !== JSON.stringify(value) && !(matchedByName && field === definition.displayField)));
+    return Object.keys(changes).length > 0
+      ? { line, action: 'update', record, values, existing, changes, messages }
+      : { line, action: 'duplicate', record, values, existing, messages: [`Identique à « ${entityDisplayName(definition, existing)} »`] };
+  });
+};
+
+/**
+ * Read the stored entities and run the dry run against them
+ */
+export const dryRunImport = async (
+  definition: EntityTypeDefinition,
+  file: ImportFile,
+  mapping: ImportMapping,
+  options: { signal?: AbortSignal } = {}
+): Promise<ImportPlanRow[]> => {
+  const existing = await fetchAllEntities(definition, options);
+  return planImport(definition, file, mapping, existing);
+};
+
+// ---- Execution ----
+
+const failureMessage = (response: { error?: string; apiError?: ApiError; conflict?: unknown }) => {
+  if (response.conflict) return 'Modifié entre-temps sur le serveur';
+  const fieldErrors = response.apiError?.hasFieldErrors()
+    ? Object.entries(response.apiError.fieldErrors).map(([field, message]) => `${field}: ${message}`)
+    : [];
+  return [response.error || response.apiError?.message || 'Erreur inconnue', ...fieldErrors].join(' — ');
+};
+
+/**
+ * Send the creations and updates of a dry run, one row at a time. A
+ * cancellation stops the import and resolves with the results of the rows
+ * already sent, which are stored on the server by then.
+ */
+export const executeImport = async (
+  definition: EntityTypeDefinition,
+  plan: ImportPlanRow[],
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: ImportProgress) => void } = {}
+): Promise<ImportResult[]> => {
+  const rows = plan.filter(row => row.action === 'create' || row.action === 'update');
+  const results: ImportResult[] = [];
+
+  for (const row of rows) {
+    if (signal?.aborted) break;
+    try {
+      const response = row.action === 'create'
+        ? await definition.service.create(row.values)
+        : await definition.service.update(row.existing!.id, row.changes!, row.existing);
+      results.push(response.success
+        ? { line: row.line, status: row.action === 'create' ? 'created' : 'updated' }
+        : { line: row.line, status: 'failed', message: failureMessage(response) });
+    } catch (error: any) {
+      if (isCancelled(error)) break;
+      results.push({ line: row.line, status: 'failed', message: error?.message || 'Erreur réseau ou serveur' });
+    }
+    onProgress?.({ done: results.length, total: rows.length });
+  }
+
+  return results;
+};
+
+// ---- Report ----
+
+/**
+ * CSV of the rows that were not imported: dry run errors and failed
+ * requests, with the original columns so the file can be fixed and
+ * imported again
+ */
+export const importErrorReport = (file: ImportFile, plan: ImportPlanRow[], results: ImportResult[] = []): string => {
+  const failures = new Map(results.filter(result => result.status === 'failed').map(result => [result.line, result.message]));
+  const columns: ExportColumn[] = [
+    { key: '__line', label: 'Ligne' },
+    { key: '__message', label: 'Erreur' },
+    ...file.columns.map(column => ({ key: column, label: column })),
+  ];
+  const rows = plan
+    .filter(row => row.action === 'error' || failures.has(row.line))
+    .map(row => ({
+      entity: {
+        ...row.record,
+        __line: row.line,
+        __message: row.action === 'error' ? row.messages.join(' ; ') : failures.get(row.line),
+      },
+      related: {},
+    }));
+  return toCsv(rows, columns);
+};
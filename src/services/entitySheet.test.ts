@@ -0,0 +1,68 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { ApiError, materiauxApi } from './api';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { authService } from './auth';
+import { ENTITY_TYPES } from './entityTypes';
+import { parseClipboard, pasteCells, rangeToText, rowErrors, saveDrafts, setCell } from './entitySheet';
+
+const definition = ENTITY_TYPES.Materiau;
+const fields = definition.fields;
+
+const loadMateriaux = async () => (await materiauxApi.getAll()).data.data;
+
+beforeEach(async () => {
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+  await authService.login('conservateur', 'conservateur');
+});
+
+describe('entity sheet', () => {
+  test('copies and pastes ranges of cells', async () => {
+    const materiaux = await loadMateriaux();
+    const drafts = setCell({}, materiaux[0], fields[1], 'Bois');
+    expect(rangeToText(materiaux, fields, drafts, { anchor: { row: 1, column: 1 }, focus: { row: 0, column: 0 } }))
+      .toBe('Bambou\tBois\nBois de vène\t');
+
+    const pasted = pasteCells(definition, materiaux, fields, {}, { anchor: { row: 0, column: 0 }, focus: { row: 0, column: 0 } },
+      parseClipboard('Bambou\tbois\r\nBois de vène\tPierre\r\n'));
+    expect(pasted.drafts).toEqual({ 33: { typeMateriau: 'Bois' } });
+    expect(pasted.errors).toEqual(['Bois de vène : Type de Matériau : valeur « Pierre » inconnue']);
+
+    const filled = pasteCells(definition, materiaux, fields, {}, { anchor: { row: 2, column: 1 }, focus: { row: 3, column: 1 } }, [['Naturel']]);
+    expect(filled.drafts).toEqual({ 30: { typeMateriau: 'Naturel' }, 31: { typeMateriau: 'Naturel' } });
+    expect(setCell(filled.drafts, materiaux[2], fields[1], '')).toEqual({ 31: { typeMateriau: 'Naturel' } });
+  });
+
+  test('saves valid rows and reports the others per row', async () => {
+    const [bambou, bois, calebasse, peau] = await loadMateriaux();
+    let drafts = setCell({}, bambou, fields[1], 'Bois');
+    drafts = setCell(drafts, bois, fields[0], 'Bois de vène');
+    drafts = setCell(drafts, calebasse, fields[0], '');
+    drafts = setCell(drafts, peau, fields[0], 'Bambou');
+    expect(rowErrors(fields, calebasse, drafts[calebasse.id])).toEqual({ nomMateriau: 'Nom du Matériau est requis' });
+
+    const progress: number[] = [];
+    const results = await saveDrafts(definition, [bambou, bois, calebasse, peau], drafts, { onProgress: done => progress.push(done) });
+    expect(progress).toEqual([1, 2, 3]);
+    expect(results[bambou.id]).toEqual({ status: 'saved' });
+    expect(results[bois.id]).toBeUndefined();
+    expect(results[calebasse.id]).toMatchObject({ status: 'failed', fieldErrors: { nomMateriau: 'Nom du Matériau est requis' } });
+    expect(results[peau.id].message).toContain('existe déjà');
+    expect((await loadMateriaux())[0]).toMatchObject({ typeMateriau: 'Bois' });
+  });
+
+  test('keeps saving the other rows when a request fails', async () => {
+    const [bambou, bois] = await loadMateriaux();
+    let drafts = setCell({}, bambou, fields[1], 'Bois');
+    drafts = setCell(drafts, bois, fields[1], 'Naturel');
+    const update = vi.spyOn(definition.service, 'update')
+      .mockImplementationOnce(() => Promise.reject(new ApiError('cancelled', 'Requête annulée')));
+
+    const results = await saveDrafts(definition, [bambou, bois], drafts);
+    update.mockRestore();
+    expect(results[bambou.id]).toEqual({ status: 'failed', message: 'Requête annulée' });
+    expect(results[bois.id]).toEqual({ status: 'saved' });
+    expect((await loadMateriaux())[1]).toMatchObject({ typeMateriau: 'Naturel' });
+  });
+});
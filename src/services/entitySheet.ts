@@ -0,0 +1,218 @@
+/**
+ * Entity Sheet
+ *
+ * Spreadsheet mode of the entity tables: cells edited in place are kept as
+ * drafts per row, checked with the field validations, and saved row by row
+ * through the service of the type. Ranges are copied and pasted as
+ * tab-separated text, the format spreadsheets put on the clipboard.
+ */
+
+import type { ApiError } from './apiError';
+import { EntityField, EntityTypeDefinition, entityDisplayName } from './entityTypes';
+import { fieldError, fieldText, isEmptyValue, parseFieldValue, propertyFields } from './entityFields';
+
+export interface CellPosition {
+  row: number;
+  column: number;
+}
+
+export interface CellRange {
+  anchor: CellPosition;
+  focus: CellPosition;
+}
+
+/** Edited values, by entity id then field name */
+export type SheetDrafts = Record<number, Record<string, any>>;
+
+export interface SheetRowResult {
+  status: 'saved' | 'failed';
+  message?: string;
+  /** Backend messages of the fields of the sheet */
+  fieldErrors?: Record<string, string>;
+}
+
+/**
+ * Rows and columns covered by a range, whatever its direction
+ */
+export const rangeBounds = ({ anchor, focus }: CellRange) => ({
+  top: Math.min(anchor.row, focus.row),
+  bottom: Math.max(anchor.row, focus.row),
+  left: Math.min(anchor.column, focus.column),
+  right: Math.max(anchor.column, focus.column),
+});
+
+export const inRange = (range: CellRange, { row, column }: CellPosition) => {
+  const { top, bottom, left, right } = rangeBounds(range);
+  return row >= top && row <= bottom && column >= left && column <= right;
+};
+
+/**
+ * Value of a cell, edited or stored
+ */
+export const cellValue = (entity: Record<string, any>, field: EntityField, drafts: SheetDrafts) => {
+  const draft = drafts[entity.id];
+  return draft && field.name in draft ? draft[field.name] : entity[field.name];
+};
+
+/**
+ * Errors of the edited cells of a row, by field name
+ */
+export const rowErrors = (fields: EntityField[], entity: Record<string, any>, draft: Record<string, any> = {}) => {
+  const values = { ...entity, ...draft };
+  const errors: Record<string, string> = {};
+  fields.filter(field => field.name in draft).forEach(field => {
+    const error = fieldError(field, values[field.name], values);
+    if (error) errors[field.name] = error;
+  });
+  return errors;
+};
+
+/**
+ * Edited fields of a row whose value differs from the stored one
+ */
+export const rowChanges = (fields: EntityField[], entity: Record<string, any>, draft: Record<string, any> = {}) => {
+  const changes: Record<string, any> = {};
+  fields.filter(field => field.name in draft).forEach(field => {
+    const value = draft[field.name];
+    const stored = entity[field.name];
+    if (isEmptyValue(value) && isEmptyValue(stored)) return;
+    if (String(value ?? '') !== String(stored ?? '')) {
+      changes[field.name] = isEmptyValue(value) && field.type === 'number' ? null : value;
+    }
+  });
+  return changes;
+};
+
+/**
+ * Drafts holding a value, dropping cells set back to their stored value
+ */
+export const setCell = (
+  drafts: SheetDrafts,
+  entity: Record<string, any>,
+  field: EntityField,
+  value: any
+): SheetDrafts => {
+  const draft = { ...drafts[entity.id], [field.name]: value };
+  if (isEmptyValue(value) ? isEmptyValue(entity[field.name]) : String(value) === String(entity[field.name] ?? '')) {
+    delete draft[field.name];
+  }
+  const next = { ...drafts, [entity.id]: draft };
+  if (Object.keys(draft).length === 0) delete next[entity.id];
+  return next;
+};
+
+// ---- Clipboard ----
+
+/**
+ * Range as tab-separated text; tabs and line breaks inside a value become
+ * spaces
+ */
+export const rangeToText = (
+  entities: Record<string, any>[],
+  fields: EntityField[],
+  drafts: SheetDrafts,
+  range: CellRange
+): string => {
+  const { top, bottom, left, right } = rangeBounds(range);
+  return entities.slice(top, bottom + 1).map(entity =>
+    fields.slice(left, right + 1)
+      .map(field => fieldText(field, cellValue(entity, field, drafts)).replace(/[\t\r\n]+/g, ' '))
+      .join('\t')
+  ).join('\n');
+};
+
+/**
+ * Cells of tab-separated text, without the line break ending the last row
+ */
+export const parseClipboard = (text: string): string[][] =>
+  text.replace(/\r?\n$/, '').split(/\r?\n/).map(line => line.split('\t'));
+
+/**
+ * Paste cells from the top left corner of a range. A single value fills
+ * the whole range; cells beyond the sheet are dropped, and values that do
+ * not fit their field are left out and reported.
+ */
+export const pasteCells = (
+  definition: EntityTypeDefinition,
+  entities: Record<string, any>[],
+  fields: EntityField[],
+  drafts: SheetDrafts,
+  range: CellRange,
+  cells: string[][]
+): { drafts: SheetDrafts; errors: string[] } => {
+  const { top, bottom, left, right } = rangeBounds(range);
+  const single = cells.length === 1 && cells[0].length === 1;
+  const height = single ? bottom - top + 1 : cells.length;
+  const width = single ? right - left + 1 : Math.max(...cells.map(row => row.length));
+  const errors: string[] = [];
+  let next = drafts;
+
+  for (let row = 0; row < height && top + row < entities.length; row++) {
+    for (let column = 0; column < width && left + column < fields.length; column++) {
+      const raw = single ? cells[0][0] : cells[row][column];
+      if (raw === undefined) continue;
+      const entity = entities[top + row];
+      const field = fields[left + column];
+      const { value, error } = parseFieldValue(field, raw);
+      if (error) {
+        errors.push(`${entityDisplayName(definition, entity)} : ${error}`);
+      } else {
+        next = setCell(next, entity, field, value ?? '');
+      }
+    }
+  }
+  return { drafts: next, errors };
+};
+
+// ---- Saving ----
+
+/**
+ * Save the edited rows one after the other. Rows with invalid cells are not
+ * sent; a row refused by the backend, or whose request failed, keeps its
+ * drafts and gets its error.
+ */
+export const saveDrafts = async (
+  definition: EntityTypeDefinition,
+  entities: Record<string, any>[],
+  drafts: SheetDrafts,
+  { onProgress }: { onProgress?: (done: number, total: number) => void } = {}
+): Promise<Record<number, SheetRowResult>> => {
+  const fields = propertyFields(definition);
+  const rows = entities.filter(entity => Object.keys(rowChanges(fields, entity, drafts[entity.id])).length > 0);
+  const results: Record<number, SheetRowResult> = {};
+
+  for (const [index, entity] of rows.entries()) {
+    const draft = drafts[entity.id];
+    const errors = rowErrors(fields, entity, draft);
+    if (Object.keys(errors).length > 0) {
+      results[entity.id] = { status: 'failed', message: Object.values(errors).join(' ; '), fieldErrors: errors };
+    } else {
+      try {
+        const response = await definition.service.update(entity.id, rowChanges(fields, entity, draft), entity);
+        results[entity.id] = response.success
+          ? { status: 'saved' }
+          : failedRow(response, fields);
+      } catch (error: any) {
+        results[entity.id] = { status: 'failed', message: error?.message || 'Erreur réseau ou serveur' };
+      }
+    }
+    onProgress?.(index + 1, rows.length);
+  }
+  return results;
+};
+
+const failedRow = (
+  response: { error?: string; apiError?: ApiError; conflict?: unknown },
+  fields: EntityField[]
+): SheetRowResult => {
+  if (response.conflict) {
+    return { status: 'failed', message: 'Modifié entre-temps par un autre utilisateur, rechargez la page' };
+  }
+  const { matched, unmatched } = response.apiError?.splitFieldErrors(fields.map(field => field.name))
+    || { matched: {}, unmatched: [] };
+  return {
+    status: 'failed',
+    message: [response.error || 'Erreur lors de la modification', ...unmatched].join(' ; '),
+    fieldErrors: matched,
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'vitest';
+import { EntityStore } from './entityStore';
+
+const cordophones = { id: 1, nomFamille: 'Cordophones' };
+
+describe('entity store', () => {
+  test('drops the relations of a removed entity that was never read itself', () => {
+    const store = new EntityStore();
+    store.ingestEntityRelations('Instrument', 100, {
+      relations: { outgoing: [{ type: 'appartientA', entity: cordophones, entityLabels: ['Famille'] }], incoming: [] },
+    });
+    expect(store.getEntity('Instrument', 100)).toBeUndefined();
+    expect(store.getEntityRelations('Famille', 1)).toHaveLength(1);
+
+    store.removeEntity('Instrument', 100);
+    expect(store.getEntityRelations('Famille', 1)).toEqual([]);
+    expect(store.getRelations()).toEqual([]);
+  });
+
+  test('leaves a created relation with an unknown endpoint to the next read', () => {
+    const store = new EntityStore();
+    store.upsertEntity('Famille', cordophones);
+    store.addRelation(100, 1, 'appartientA');
+    expect(store.getRelations()).toEqual([]);
+
+    store.upsertEntity('Instrument', { id: 100, nomInstrument: 'Kora' });
+    store.addRelation(100, 1, 'appartientA');
+    expect(store.getEntityRelations('Instrument', 100).map(({ type, entity }) => [type, entity?.displayName]))
+      .toEqual([['appartientA', 'Cordophones']]);
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Entity Store Service
+ *
+ * Normalized client-side copy of the entities and relations fetched by the
+ * API services. Entities are keyed by type and id; relations only reference
+ * entity keys and are indexed by source, target and relation type, so an
+ * edit made in one view is visible in every other view reading the store.
+ */
+
+export interface StoredEntity {
+  id: number;
+  type: string;
+  displayName: string;
+  [key: string]: any;
+}
+
+export interface StoredRelation {
+  key: string;
+  sourceKey: string;
+  targetKey: string;
+  relationType: string;
+}
+
+/**
+ * Relation resolved against the stored entities (same shape as `Relation`)
+ */
+export interface ResolvedRelation {
+  sourceId: number;
+  targetId: number;
+  relationType: string;
+  source?: StoredEntity;
+  target?: StoredEntity;
+}
+
+export interface RelationFilter {
+  relationType?: string;
+  entity?: { type: string; id: number };
+}
+
+/**
+ * Relation seen from one entity, as displayed in entity detail views
+ */
+export interface EntityRelation {
+  direction: 'incoming' | 'outgoing';
+  type: string;
+  entity?: StoredEntity;
+  entityLabels: string[];
+}
+
+const UNKNOWN_TYPE = 'Entite';
+
+// Name properties of the ontology entities, in lookup order
+const NAME_FIELDS = [
+  'nomInstrument',
+  'nomFamille',
+  'nomGroupe',
+  'nomLocalite',
+  'nomMateriau',
+  'nomTechnique',
+  'nomArtisan',
+  'nomPatrimoine',
+  'nomRythme',
+  'descriptionTimbre',
+  'nom',
+];
+
+const nameOf = (entity: Record<string, any>): string | undefined =>
+  NAME_FIELDS.map(field => entity[field]).find(value => typeof value === 'string' && value);
+
+export const entityKey = (type: string, id: number | string) => `${type}:${id}`;
+
+const relationKey = (sourceKey: string, relationType: string, targetKey: string) =>
+  `${sourceKey}-[${relationType}]->${targetKey}`;
+
+/**
+ * Add a value to the set stored under a key of an index
+ */
+const addToIndex = (index: Map<string, Set<string>>, key: string, value: string) => {
+  let set = index.get(key);
+  if (!set) {
+    set = new Set();
+    index.set(key, set);
+  }
+  set.add(value);
+};
+
+const removeFromIndex = (index: Map<string, Set<string>>, key: string, value: string) => {
+  const set = index.get(key);
+  if (!set) return;
+  set.delete(value);
+  if (set.size === 0) index.delete(key);
+};
+
+export class EntityStore {
+  private entities = new Map<string, StoredEntity>();
+  private relations = new Map<string, StoredRelation>();
+  private bySource = new Map<string, Set<string>>();
+  private byTarget = new Map<string, Set<string>>();
+  private byType = new Map<string, Set<string>>();
+  private listeners = new Set<() => void>();
+  private version = 0;
+
+  /**
+   * Current version, bumped on every change
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Listen to store changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ---- Entities ----
+
+  /**
+   * Insert or update entities fetched from their own endpoint
+   */
+  upsertEntities(type: string, entities: any[]) {
+    let changed = false;
+    entities.forEach(entity => {
+      changed = this.writeEntity(type, entity, true) || changed;
+    });
+    if (changed) this.notify();
+  }
+
+  upsertEntity(type: string, entity: any) {
+    this.upsertEntities(type, [entity]);
+  }
+
+  /**
+   * Remove an entity and every relation touching it
+   */
+  removeEntity(type: string, id: number) {
+    const key = entityKey(type, id);
+    // Relations may have been read without the entity itself
+    const relKeys = [...(this.bySource.get(key) || []), ...(this.byTarget.get(key) || [])];
+    if (!this.entities.delete(key) && relKeys.length === 0) return;
+    relKeys.forEach(relKey => this.deleteRelation(relKey));
+    this.notify();
+  }
+
+  getEntity<T = StoredEntity>(type: string, id: number): (T & StoredEntity) | undefined {
+    return this.entities.get(entityKey(type, id)) as (T & StoredEntity) | undefined;
+  }
+
+  /**
+   * Stored entities of a type, or only the given ids in that order
+   */
+  getEntities<T = StoredEntity>(type: string, ids?: number[]): Array<T & StoredEntity> {
+    if (ids) {
+      return ids
+        .map(id => this.entities.get(entityKey(type, id)))
+        .filter((entity): entity is StoredEntity => !!entity) as Array<T & StoredEntity>;
+    }
+    return Array.from(this.entities.values()).filter(entity => entity.type === type) as Array<T & StoredEntity>;
+  }
+
+  // ---- Relations ----
+
+  /**
+   * Ingest relations in the `Relation` shape of `relationsApi.getAll`
+   */
+  ingestRelations(relations: any[]) {
+    relations.forEach(relation => {
+      if (!relation?.relationType) return;
+      const sourceKey = this.refEntity(relation.source, relation.sourceId);
+      const targetKey = this.refEntity(relation.target, relation.targetId);
+      this.writeRelation(sourceKey, relation.relationType, targetKey);
+    });
+    this.notify();
+  }
+
+  /**
+   * Ingest relations in the `RelationResult` shape of `relationsApi.getByType`
+   */
+  ingestRelationResults(results: any[]) {
+    results.forEach(result => {
+      if (!result?.relationType) return;
+      const sourceKey = this.refEntity({ ...result.source, type: result.sourceLabels?.[0] });
+      const targetKey = this.refEntity({ ...result.target, type: result.targetLabels?.[0] });
+      this.writeRelation(sourceKey, result.relationType, targetKey);
+    });
+    this.notify();
+  }
+
+  /**
+   * Ingest the `incoming`/`outgoing` payload of `relationsApi.getForEntity`
+   *
+   * The payload is complete for that entity: relations missing from it are dropped.
+   */
+  ingestEntityRelations(type: string | undefined, id: number, payload: any) {
+    const centerKey = type ? entityKey(type, id) : this.findKeyById(id) || entityKey(UNKNOWN_TYPE, id);
+    const incoming: any[] = payload?.relations?.incoming || [];
+    const outgoing: any[] = payload?.relations?.outgoing || [];
+
+    [...(this.bySource.get(centerKey) || []), ...(this.byTarget.get(centerKey) || [])].forEach(relKey => this.deleteRelation(relKey));
+
+    outgoing.forEach(item => {
+      const otherKey = this.refEntity({ ...item.entity, type: item.entityLabels?.[0] });
+      this.writeRelation(centerKey, item.type, otherKey);
+    });
+    incoming.forEach(item => {
+      const otherKey = this.refEntity({ ...item.entity, type: item.entityLabels?.[0] });
+      this.writeRelation(otherKey, item.type, centerKey);
+    });
+    this.notify();
+  }
+
+  /**
+   * Record a relation created by the user, resolving entities by id. An
+   * endpoint missing from the store leaves the relation to the next read.
+   */
+  addRelation(sourceId: number | string, targetId: number | string, relationType: string) {
+    const sourceKey = this.findKeyById(Number(sourceId));
+    const targetKey = this.findKeyById(Number(targetId));
+    if (!sourceKey || !targetKey) return;
+    this.writeRelation(sourceKey, relationType, targetKey);
+    this.notify();
+  }
+
+  /**
+   * Forget a deleted relation
+   */
+  removeRelation(sourceId: number | string, targetId: number | string, relationType: string) {
+    const matches = Array.from(this.byType.get(relationType) || []).filter(relKey => {
+      const relation = this.relations.get(relKey);
+      return relation
+        && this.idOf(relation.sourceKey) === Number(sourceId)
+        && this.idOf(relation.targetKey) === Number(targetId);
+    });
+    if (matches.length === 0) return;
+    matches.forEach(relKey => this.deleteRelation(relKey));
+    this.notify();
+  }
+
+  /**
+   * Resolved relations, optionally restricted to one relation type
+   * and/or to the relations touching one entity
+   */
+  getRelations(filter: RelationFilter = {}): ResolvedRelation[] {
+    let keys: string[];
+    if (filter.entity) {
+      const key = entityKey(filter.entity.type, filter.entity.id);
+      keys = [...(this.bySource.get(key) || []), ...(this.byTarget.get(key) || [])];
+    } else if (filter.relationType) {
+      keys = Array.from(this.byType.get(filter.relationType) || []);
+    } else {
+      keys = Array.from(this.relations.keys());
+    }
+    return keys
+      .map(key => this.relations.get(key))
+      .filter((relation): relation is StoredRelation => !!relation)
+      .filter(relation => !filter.relationType || relation.relationType === filter.relationType)
+      .map(relation => this.resolve(relation));
+  }
+
+  /**
+   * Incoming and outgoing relations of one entity
+   */
+  getEntityRelations(type: string, id: number): EntityRelation[] {
+    const key = entityKey(type, id);
+    const outgoing = Array.from(this.bySource.get(key) || []).map(relKey => {
+      const relation = this.relations.get(relKey)!;
+      return this.viewFrom('outgoing', relation.relationType, relation.targetKey);
+    });
+    const incoming = Array.from(this.byTarget.get(key) || []).map(relKey => {
+      const relation = this.relations.get(relKey)!;
+      return this.viewFrom('incoming', relation.relationType, relation.sourceKey);
+    });
+    return [...incoming, ...outgoing];
+  }
+
+  /**
+   * Drop everything, e.g. when switching backend
+   */
+  clear() {
+    this.entities.clear();
+    this.relations.clear();
+    this.bySource.clear();
+    this.byTarget.clear();
+    this.byType.clear();
+    this.notify();
+  }
+
+  // ---- Internals ----
+
+  private notify() {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Write an entity; snapshots embedded in relations never override
+   * data fetched from the entity's own endpoint
+   */
+  private writeEntity(type: string, raw: any, authoritative: boolean): boolean {
+    if (!raw || raw.id === undefined || raw.id === null) return false;
+    const id = Number(raw.id);
+    const key = entityKey(type, id);
+    const existing = this.entities.get(key);
+    if (existing && !authoritative) return false;
+
+    const { displayName: rawDisplayName, ...fields } = raw;
+    const merged = { ...(existing || {}), ...fields, id, type };
+    this.entities.set(key, {
+      ...merged,
+      displayName: nameOf(merged) || rawDisplayName || `${type} #${id}`,
+    });
+    return true;
+  }
+
+  /**
+   * Register the entity embedded in a relation and return its key
+   */
+  private refEntity(raw: any, fallbackId?: number | string): string {
+    const id = raw?.id ?? fallbackId;
+    if (id === undefined || id === null) return entityKey(UNKNOWN_TYPE, 'unknown');
+    const known = this.findKeyById(Number(id));
+    const type = raw?.type || (known ? this.typeOf(known) : UNKNOWN_TYPE);
+    this.writeEntity(type, { ...raw, id }, false);
+    return entityKey(type, id);
+  }
+
+  private writeRelation(sourceKey: string, relationType: string, targetKey: string) {
+    const key = relationKey(sourceKey, relationType, targetKey);
+    if (this.relations.has(key)) return;
+    this.relations.set(key, { key, sourceKey, targetKey, relationType });
+    addToIndex(this.bySource, sourceKey, key);
+    addToIndex(this.byTarget, targetKey, key);
+    addToIndex(this.byType, relationType, key);
+  }
+
+  private deleteRelation(key: string) {
+    const relation = this.relations.get(key);
+    if (!relation) return;
+    this.relations.delete(key);
+    removeFromIndex(this.bySource, relation.sourceKey, key);
+    removeFromIndex(this.byTarget, relation.targetKey, key);
+    removeFromIndex(this.byType, relation.relationType, key);
+  }
+
+  /**
+   * Key of a stored entity with this id, whatever its type
+   */
+  private findKeyById(id: number): string | undefined {
+    const found = Array.from(this.entities.values()).find(entity => entity.id === id);
+    return found && entityKey(found.type, id);
+  }
+
+  private typeOf(key: string): string {
+    return key.slice(0, key.lastIndexOf(':'));
+  }
+
+  private idOf(key: string): number {
+    return Number(key.slice(key.lastIndexOf(':') + 1));
+  }
+
+  private resolve(relation: StoredRelation): ResolvedRelation {
+    return {
+      sourceId: this.idOf(relation.sourceKey),
+      targetId: this.idOf(relation.targetKey),
+      relationType: relation.relationType,
+      source: this.entities.get(relation.sourceKey),
+      target: this.entities.get(relation.targetKey),
+    };
+  }
+
+  private viewFrom(direction: 'incoming' | 'outgoing', relationType: string, otherKey: string): EntityRelation {
+    return {
+      direction,
+      type: relationType,
+      entity: this.entities.get(otherKey),
+      entityLabels: [this.typeOf(otherKey)],
+    };
+  }
+}
+
+// Create a singleton instance
+export const entityStore = new EntityStore();
+
+export default entityStore;
@@ -0,0 +1,55 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { instrumentsApi } from './api';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { authService } from './auth';
+import { ENTITY_TYPES, EntityTypeDefinition } from './entityTypes';
+import { relationTypeRegistry } from './relationTypes';
+import { entityRelationsOf, readEntityRelations } from './entityFields';
+import { getTrash, restoreEntry, trashEntity } from './entityTrash';
+
+const readInstrument = (id: number) => instrumentsApi.getById(id);
+
+const relationKeys = async (definition: EntityTypeDefinition, id: number) =>
+  entityRelationsOf(await readEntityRelations(definition, id))
+    .map(({ direction, type, other }) => `${direction}:${type}:${other.id}`)
+    .sort();
+
+beforeEach(async () => {
+  localStorage.clear();
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+  await authService.login('conservateur', 'conservateur');
+  await relationTypeRegistry.load();
+});
+
+describe('entity trash', () => {
+  test('restores a deleted entity with its relations', async () => {
+    const tambin = (await readInstrument(107)).data!;
+    const relations = await relationKeys(ENTITY_TYPES.Instrument, 107);
+
+    const entry = await trashEntity(ENTITY_TYPES.Instrument, tambin);
+    expect((await readInstrument(107)).success).toBe(false);
+    expect(getTrash('Instrument')).toEqual([entry]);
+    expect(entry.relations).toHaveLength(relations.length);
+
+    const result = await restoreEntry(entry.key);
+    expect(result).toMatchObject({ restored: relations.length, deferred: 0, errors: [] });
+    expect(result.entity).toMatchObject({ nomInstrument: 'Tambin', description: tambin.description });
+    expect(await relationKeys(ENTITY_TYPES.Instrument, result.entity.id)).toEqual(relations);
+    expect(getTrash()).toEqual([]);
+  });
+
+  test('hands a relation to an entity still in the trash over to its entry', async () => {
+    const aerophones = await trashEntity(ENTITY_TYPES.Famille, { id: 4, nomFamille: 'Aérophones' });
+    const tambin = await trashEntity(ENTITY_TYPES.Instrument, (await readInstrument(107)).data!);
+
+    const famille = await restoreEntry(aerophones.key);
+    expect(famille).toMatchObject({ restored: 0, deferred: 1, errors: [] });
+
+    const instrument = await restoreEntry(tambin.key);
+    expect(instrument).toMatchObject({ restored: tambin.relations.length + 1, errors: [] });
+    expect(await relationKeys(ENTITY_TYPES.Famille, famille.entity.id))
+      .toEqual([`incoming:appartientA:${instrument.entity.id}`]);
+  });
+});
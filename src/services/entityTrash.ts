@@ -0,0 +1,169 @@
+/**
+ * Entity Trash
+ *
+ * Deleting an entity first captures its property values and its relations,
+ * then deletes it on the backend. The capture is kept in the browser per
+ * environment profile, so that the deletion can be undone: restoring
+ * recreates the entity, under a new id, and its relations. A relation whose
+ * other end is still in the trash is handed over to that entry and comes
+ * back with it.
+ */
+
+import { relationsApi } from './api';
+import { entityRelationsOf, isEmptyValue, propertyFields, readEntityRelations, RelatedEntity } from './entityFields';
+import { EntityTypeDefinition, entityDisplayName, getEntityType } from './entityTypes';
+import { runtimeConfig } from './runtimeConfig';
+
+export interface TrashedRelation {
+  direction: 'outgoing' | 'incoming';
+  type: string;
+  other: RelatedEntity;
+}
+
+export interface TrashEntry {
+  key: string;
+  type: string;
+  /** Id of the entity when it was deleted */
+  id: number;
+  displayName: string;
+  values: Record<string, any>;
+  relations: TrashedRelation[];
+  deletedAt: number;
+}
+
+export interface RestoreResult {
+  entity: Record<string, any> & { id: number };
+  /** Relations created again */
+  restored: number;
+  /** Relations handed over to an entry still in the trash */
+  deferred: number;
+  errors: string[];
+}
+
+const STORAGE_PREFIX = 'ontology.trash.';
+const MAX_ENTRIES = 50;
+/** Entries older than this are forgotten */
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const storageKey = () => `${STORAGE_PREFIX}${runtimeConfig.getActiveProfile().id}`;
+
+const read = (): TrashEntry[] => {
+  try {
+    const stored = localStorage.getItem(storageKey());
+    const entries: TrashEntry[] = stored ? JSON.parse(stored) : [];
+    return entries.filter(entry => Date.now() - entry.deletedAt < TRASH_RETENTION_MS);
+  } catch {
+    return [];
+  }
+};
+
+const write = (entries: TrashEntry[]) => {
+  try {
+    localStorage.setItem(storageKey(), JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+  } catch (error) {
+    console.warn('[Trash] Unable to persist the trash', error);
+  }
+};
+
+const sameEntity = (a: { type: string; id: number }, b: { type: string; id: number }) =>
+  a.type === b.type && a.id === b.id;
+
+/**
+ * Entries of the trash, most recently deleted first, of one type if given
+ */
+export const getTrash = (type?: string): TrashEntry[] =>
+  read().filter(entry => !type || entry.type === type);
+
+/**
+ * Capture an entity and its relations, then delete it. Throws when the
+ * relations cannot be read or the deletion fails; nothing is trashed then.
+ */
+export const trashEntity = async (
+  definition: EntityTypeDefinition,
+  entity: Record<string, any> & { id: number }
+): Promise<TrashEntry> => {
+  const relations = entityRelationsOf(await readEntityRelations(definition, entity.id));
+  const response = await definition.service.delete(entity.id);
+  if (!response.success) {
+    throw response.apiError || new Error(response.error || 'Erreur lors de la suppression');
+  }
+
+  const deletedAt = Date.now();
+  const entry: TrashEntry = {
+    key: `${definition.type}:${entity.id}:${deletedAt}`,
+    type: definition.type,
+    id: entity.id,
+    displayName: entityDisplayName(definition, entity),
+    values: Object.fromEntries(propertyFields(definition)
+      .filter(field => !isEmptyValue(entity[field.name]))
+      .map(field => [field.name, entity[field.name]])),
+    relations,
+    deletedAt,
+  };
+  write([entry, ...read()]);
+  return entry;
+};
+
+/**
+ * Recreate a trashed entity and its relations, then take it out of the
+ * trash. Throws when the entity cannot be created; the entry stays then.
+ * Relations that fail are reported, the entity is restored anyway.
+ */
+export const restoreEntry = async (key: string): Promise<RestoreResult> => {
+  const entry = read().find(item => item.key === key);
+  if (!entry) {
+    throw new Error('Cette entité n\'est plus dans la corbeille');
+  }
+  const definition = getEntityType(entry.type);
+  if (!definition) {
+    throw new Error(`Type d'entité inconnu : ${entry.type}`);
+  }
+
+  const response = await definition.service.create(entry.values);
+  if (!response.success || !response.data) {
+    throw response.apiError || new Error(response.error || `Impossible de restaurer ${entry.displayName}`);
+  }
+  const entity = response.data;
+  const restoredAs: RelatedEntity = { id: entity.id, type: entry.type, displayName: entry.displayName };
+  const result: RestoreResult = { entity, restored: 0, deferred: 0, errors: [] };
+
+  // Other entries may have changed while the entity was created
+  let others = read().filter(item => item.key !== key);
+  for (const relation of entry.relations) {
+    const trashed = others.find(item => sameEntity(item, relation.other));
+    if (trashed) {
+      trashed.relations.push({
+        direction: relation.direction === 'outgoing' ? 'incoming' : 'outgoing',
+        type: relation.type,
+        other: restoredAs,
+      });
+      result.deferred++;
+      continue;
+    }
+    const [sourceId, targetId] = relation.direction === 'outgoing'
+      ? [entity.id, relation.other.id]
+      : [relation.other.id, entity.id];
+    const created = await relationsApi.create({ sourceId, targetId, relationType: relation.type });
+    if (created.success) {
+      result.restored++;
+    } else {
+      result.errors.push(`${relation.type} ${relation.other.displayName} non recréée (${created.error})`);
+    }
+  }
+
+  // Entries deleted earlier still point to the former id
+  others = others.map(item => ({
+    ...item,
+    relations: item.relations.map(relation =>
+      (sameEntity(relation.other, entry) ? { ...relation, other: restoredAs } : relation)),
+  }));
+  write(others);
+  return result;
+};
+
+/**
+ * Forget entries for good, the given ones or the whole trash
+ */
+export const emptyTrash = (keys?: string[]) => {
+  write(keys ? read().filter(entry => !keys.includes(entry.key)) : []);
+};
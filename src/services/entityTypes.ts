@@ -0,0 +1,552 @@
+/**
+ * Entity Type Registry
+ *
+ * Single description of every entity type of the ontology: labels, icon,
+ * colors, route, service, display field and form fields. Navigation, routes,
+ * CRUD pages, search results, the relationship manager and the graph are all
+ * derived from it, so adding an entity type means adding one entry here.
+ */
+
+import type { SvgIconComponent } from '@mui/icons-material';
+import {
+  AccountBalance,
+  Build,
+  Category,
+  GraphicEq,
+  Language,
+  LocationOn,
+  MusicNote,
+  Palette,
+  Person,
+  TouchApp,
+} from '@mui/icons-material';
+import {
+  artisansApi,
+  famillesApi,
+  groupesEthniquesApi,
+  instrumentsApi,
+  localitesApi,
+  materiauxApi,
+  patrimoinesApi,
+  rythmesApi,
+  techniquesApi,
+  timbresApi,
+} from './api';
+import type {
+  Artisan,
+  CrudService,
+  Famille,
+  GroupeEthnique,
+  Instrument,
+  Localite,
+  Materiau,
+  PatrimoineCulturel,
+  Rythme,
+  TechniqueDeJeu,
+  Timbre,
+} from './api';
+
+export interface EntityField {
+  name: string;
+  label: string;
+  type: 'text' | 'number' | 'textarea' | 'select' | 'date'
+    | 'boolean' | 'url' | 'multiselect' | 'tags' | 'geopoint' | 'relation';
+  required?: boolean;
+  /** Choices of `select` and `multiselect` fields */
+  options?: Array<{ value: any; label: string }>;
+  /**
+   * Relation edited by a `relation` field: its value is the list of entities
+   * of type `target` linked to the entity by `type` in that direction
+   */
+  relation?: { type: string; direction: 'outgoing' | 'incoming'; target: string; multiple?: boolean };
+  /** Receives the whole form to check a field against the others */
+  validation?: (value: any, values: Record<string, any>) => string | null;
+}
+
+export type EntityColor = 'primary' | 'secondary' | 'success' | 'info' | 'warning' | 'error';
+
+export interface EntityTypeDefinition<T extends { id: number } = any> {
+  /** Node label used by the backend (`Famille`, `TechniqueDeJeu`...) */
+  type: string;
+  label: string;
+  pluralLabel: string;
+  /** Navigation entry */
+  menuLabel: string;
+  description: string;
+  icon: SvgIconComponent;
+  color: EntityColor;
+  /** Node appearance in the graph views */
+  graph: { color: string; size: number; symbol: string };
+  route: string;
+  service: CrudService<T>;
+  displayField: keyof T & string;
+  searchFields: string[];
+  fields: EntityField[];
+  /** Other names the backend may use for the type */
+  aliases?: string[];
+  /** Managed by a dedicated page instead of the generic CRUD page */
+  customPage?: boolean;
+}
+
+const defineEntityType = <T extends { id: number }>(definition: EntityTypeDefinition<T>) => definition;
+
+const minLength = (length: number, message: string) => (value: any) =>
+  String(value ?? '').trim().length < length ? message : null;
+
+const tempo = (value: any): string | null => {
+  const bpm = Number(value);
+  return bpm < 20 || bpm > 400 ? 'Le tempo doit être entre 20 et 400 BPM' : null;
+};
+
+export const ENTITY_TYPES = {
+  Instrument: defineEntityType<Instrument>({
+    type: 'Instrument',
+    label: 'Instrument',
+    pluralLabel: 'Instruments',
+    menuLabel: 'Instruments',
+    description: 'Gestion des instruments',
+    icon: MusicNote,
+    color: 'primary',
+    graph: { color: '#1976d2', size: 12, symbol: 'I' },
+    route: '/instruments',
+    service: instrumentsApi,
+    displayField: 'nomInstrument',
+    searchFields: ['nomInstrument', 'description'],
+    fields: [
+      { name: 'nomInstrument', label: 'Nom', type: 'text', required: true },
+      { name: 'description', label: 'Description', type: 'textarea' },
+      { name: 'anneeCreation', label: 'Année de création', type: 'number' },
+      {
+        name: 'famille',
+        label: 'Famille',
+        type: 'relation',
+        relation: { type: 'appartientA', direction: 'outgoing', target: 'Famille' },
+      },
+    ],
+    aliases: ['Instruments'],
+    customPage: true,
+  }),
+
+  Famille: defineEntityType<Famille>({
+    type: 'Famille',
+    label: 'Famille d\'Instrument',
+    pluralLabel: 'Familles d\'Instruments',
+    menuLabel: 'Familles',
+    description: 'Familles d\'instruments',
+    icon: Category,
+    color: 'secondary',
+    graph: { color: '#dc004e', size: 10, symbol: 'F' },
+    route: '/familles',
+    service: famillesApi,
+    displayField: 'nomFamille',
+    searchFields: ['nomFamille', 'descriptionFamille'],
+    fields: [
+      {
+        name: 'nomFamille',
+        label: 'Nom de la Famille',
+        type: 'text',
+        required: true,
+        validation: (value) => {
+          if (!value || value.trim().length < 2) {
+            return 'Le nom de la famille doit contenir au moins 2 caractères';
+          }
+          if (value.length > 50) {
+            return 'Le nom de la famille ne peut pas dépasser 50 caractères';
+          }
+          return null;
+        },
+      },
+      {
+        name: 'descriptionFamille',
+        label: 'Description',
+        type: 'textarea',
+        required: false,
+        validation: (value) => {
+          if (value && value.length > 200) {
+            return 'La description ne peut pas dépasser 200 caractères';
+          }
+          return null;
+        },
+      },
+    ],
+    aliases: ['Familles'],
+  }),
+
+  GroupeEthnique: defineEntityType<GroupeEthnique>({
+    type: 'GroupeEthnique',
+    label: 'Groupe Ethnique',
+    pluralLabel: 'Groupes Ethniques',
+    menuLabel: 'Groupes Ethniques',
+    description: 'Groupes ethniques',
+    icon: Language,
+    color: 'success',
+    graph: { color: '#2e7d32', size: 8, symbol: 'G' },
+    route: '/groupes-ethniques',
+    service: groupesEthniquesApi,
+    displayField: 'nomGroupe',
+    searchFields: ['nomGroupe', 'langue'],
+    fields: [
+      {
+        name: 'nomGroupe',
+        label: 'Nom du Groupe',
+        type: 'text',
+        required: true,
+        validation: minLength(2, 'Le nom doit contenir au moins 2 caractères'),
+      },
+      {
+        name: 'langue',
+        label: 'Langue Principale',
+        type: 'text',
+        required: false,
+      },
+      {
+        name: 'localites',
+        label: 'Localités',
+        type: 'relation',
+        relation: { type: 'localiseA', direction: 'outgoing', target: 'Localite', multiple: true },
+      },
+    ],
+    aliases: ['GroupesEthniques'],
+  }),
+
+  Localite: defineEntityType<Localite>({
+    type: 'Localite',
+    label: 'Localité',
+    pluralLabel: 'Localités',
+    menuLabel: 'Localités',
+    description: 'Localités géographiques',
+    icon: LocationOn,
+    color: 'info',
+    graph: { color: '#0288d1', size: 8, symbol: 'L' },
+    route: '/localites',
+    service: localitesApi,
+    displayField: 'nomLocalite',
+    searchFields: ['nomLocalite'],
+    fields: [
+      {
+        name: 'nomLocalite',
+        label: 'Nom de la Localité',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'coordonnees',
+        label: 'Coordonnées',
+        type: 'geopoint',
+        required: true,
+      },
+    ],
+    aliases: ['Localites'],
+  }),
+
+  Materiau: defineEntityType<Materiau>({
+    type: 'Materiau',
+    label: 'Matériau',
+    pluralLabel: 'Matériaux',
+    menuLabel: 'Matériaux',
+    description: 'Matériaux de construction',
+    icon: Build,
+    color: 'primary',
+    graph: { color: '#ed6c02', size: 6, symbol: 'M' },
+    route: '/materiaux',
+    service: materiauxApi,
+    displayField: 'nomMateriau',
+    searchFields: ['nomMateriau', 'typeMateriau'],
+    fields: [
+      {
+        name: 'nomMateriau',
+        label: 'Nom du Matériau',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'typeMateriau',
+        label: 'Type de Matériau',
+        type: 'select',
+        required: false,
+        options: [
+          { value: 'Bois', label: 'Bois' },
+          { value: 'Métal', label: 'Métal' },
+          { value: 'Peau', label: 'Peau' },
+          { value: 'Textile', label: 'Textile' },
+          { value: 'Plastique', label: 'Plastique' },
+          { value: 'Composite', label: 'Composite' },
+          { value: 'Naturel', label: 'Naturel' },
+          { value: 'Synthétique', label: 'Synthétique' },
+        ],
+      },
+      {
+        name: 'usages',
+        label: 'Usages',
+        type: 'multiselect',
+        required: false,
+        options: [
+          { value: 'Caisse de résonance', label: 'Caisse de résonance' },
+          { value: 'Membrane', label: 'Membrane' },
+          { value: 'Cordes', label: 'Cordes' },
+          { value: 'Lames', label: 'Lames' },
+          { value: 'Fût', label: 'Fût' },
+          { value: 'Embouchure', label: 'Embouchure' },
+        ],
+      },
+    ],
+    aliases: ['Materiaux'],
+  }),
+
+  Timbre: defineEntityType<Timbre>({
+    type: 'Timbre',
+    label: 'Timbre',
+    pluralLabel: 'Timbres',
+    menuLabel: 'Timbres',
+    description: 'Timbres sonores',
+    icon: Palette,
+    color: 'primary',
+    graph: { color: '#9c27b0', size: 6, symbol: 'T' },
+    route: '/timbres',
+    service: timbresApi,
+    displayField: 'descriptionTimbre',
+    searchFields: ['descriptionTimbre'],
+    fields: [
+      {
+        name: 'descriptionTimbre',
+        label: 'Description du Timbre',
+        type: 'textarea',
+        required: true,
+        validation: minLength(5, 'La description doit contenir au moins 5 caractères'),
+      },
+      {
+        name: 'frequence',
+        label: 'Fréquence (Hz)',
+        type: 'number',
+        required: false,
+        validation: (value) => (Number(value) <= 0 ? 'La fréquence doit être positive' : null),
+      },
+      { name: 'intensite', label: 'Intensité (dB)', type: 'number', required: false },
+    ],
+    aliases: ['Timbres'],
+  }),
+
+  TechniqueDeJeu: defineEntityType<TechniqueDeJeu>({
+    type: 'TechniqueDeJeu',
+    label: 'Technique de Jeu',
+    pluralLabel: 'Techniques de Jeu',
+    menuLabel: 'Techniques',
+    description: 'Techniques de jeu',
+    icon: TouchApp,
+    color: 'primary',
+    graph: { color: '#795548', size: 6, symbol: 'J' },
+    route: '/techniques',
+    service: techniquesApi,
+    displayField: 'nomTechnique',
+    searchFields: ['nomTechnique', 'descriptionTechnique'],
+    fields: [
+      {
+        name: 'nomTechnique',
+        label: 'Nom de la Technique',
+        type: 'text',
+        required: true,
+        validation: minLength(2, 'Le nom doit contenir au moins 2 caractères'),
+      },
+      {
+        name: 'descriptionTechnique',
+        label: 'Description de la Technique',
+        type: 'textarea',
+        required: false,
+      },
+    ],
+    aliases: ['Techniques', 'TechniquesDeJeu'],
+  }),
+
+  Artisan: defineEntityType<Artisan>({
+    type: 'Artisan',
+    label: 'Artisan',
+    pluralLabel: 'Artisans',
+    menuLabel: 'Artisans',
+    description: 'Artisans fabricants',
+    icon: Person,
+    color: 'primary',
+    graph: { color: '#ff5722', size: 8, symbol: 'A' },
+    route: '/artisans',
+    service: artisansApi,
+    displayField: 'nomArtisan',
+    searchFields: ['nomArtisan'],
+    fields: [
+      {
+        name: 'nomArtisan',
+        label: 'Nom de l\'Artisan',
+        type: 'text',
+        required: true,
+        validation: minLength(2, 'Le nom doit contenir au moins 2 caractères'),
+      },
+      {
+        name: 'anneesExperience',
+        label: 'Années d\'Expérience',
+        type: 'number',
+        required: false,
+        validation: (value) => {
+          if (value && (value < 0 || value > 80)) {
+            return 'L\'expérience doit être entre 0 et 80 ans';
+          }
+          return null;
+        },
+      },
+    ],
+    aliases: ['Artisans'],
+  }),
+
+  PatrimoineCulturel: defineEntityType<PatrimoineCulturel>({
+    type: 'PatrimoineCulturel',
+    label: 'Patrimoine Culturel',
+    pluralLabel: 'Patrimoines Culturels',
+    menuLabel: 'Patrimoine',
+    description: 'Patrimoine culturel',
+    icon: AccountBalance,
+    color: 'warning',
+    graph: { color: '#607d8b', size: 8, symbol: 'P' },
+    route: '/patrimoines',
+    service: patrimoinesApi,
+    displayField: 'nomPatrimoine',
+    searchFields: ['nomPatrimoine', 'descriptionPatrimoine'],
+    fields: [
+      {
+        name: 'nomPatrimoine',
+        label: 'Nom du Patrimoine',
+        type: 'text',
+        required: true,
+        validation: minLength(2, 'Le nom doit contenir au moins 2 caractères'),
+      },
+      {
+        name: 'descriptionPatrimoine',
+        label: 'Description du Patrimoine',
+        type: 'textarea',
+        required: false,
+      },
+      {
+        name: 'inscritUnesco',
+        label: 'Inscrit à l\'UNESCO',
+        type: 'boolean',
+        required: false,
+      },
+      {
+        name: 'lienReference',
+        label: 'Lien de référence',
+        type: 'url',
+        required: false,
+      },
+    ],
+    aliases: ['Patrimoines', 'PatrimoinesCulturels'],
+  }),
+
+  Rythme: defineEntityType<Rythme>({
+    type: 'Rythme',
+    label: 'Rythme',
+    pluralLabel: 'Rythmes',
+    menuLabel: 'Rythmes',
+    description: 'Rythmes traditionnels',
+    icon: GraphicEq,
+    color: 'secondary',
+    graph: { color: '#e91e63', size: 6, symbol: 'R' },
+    route: '/rythmes',
+    service: rythmesApi,
+    displayField: 'nomRythme',
+    searchFields: ['nomRythme', 'description'],
+    fields: [
+      {
+        name: 'nomRythme',
+        label: 'Nom du Rythme',
+        type: 'text',
+        required: true,
+        validation: minLength(2, 'Le nom doit contenir au moins 2 caractères'),
+      },
+      {
+        name: 'metrique',
+        label: 'Métrique',
+        type: 'select',
+        required: false,
+        options: [
+          { value: '2/4', label: '2/4' },
+          { value: '3/4', label: '3/4' },
+          { value: '4/4', label: '4/4' },
+          { value: '6/8', label: '6/8' },
+          { value: '12/8', label: '12/8' },
+        ],
+      },
+      {
+        name: 'tempoMin',
+        label: 'Tempo minimal (BPM)',
+        type: 'number',
+        required: false,
+        validation: tempo,
+      },
+      {
+        name: 'tempoMax',
+        label: 'Tempo maximal (BPM)',
+        type: 'number',
+        required: false,
+        validation: (value, values) => {
+          if (values.tempoMin !== '' && values.tempoMin !== undefined && Number(value) < Number(values.tempoMin)) {
+            return 'Le tempo maximal doit être supérieur au tempo minimal';
+          }
+          return tempo(value);
+        },
+      },
+      {
+        name: 'notation',
+        label: 'Notation du motif',
+        type: 'text',
+        required: false,
+        validation: (value) => (/^[xXo.\s|-]+$/.test(value)
+          ? null
+          : 'Notez le motif avec x (frappe), o (frappe ouverte), . (silence) et | (mesure)'),
+      },
+      {
+        name: 'description',
+        label: 'Description',
+        type: 'textarea',
+        required: false,
+      },
+      {
+        name: 'occasions',
+        label: 'Occasions',
+        type: 'tags',
+        required: false,
+      },
+      {
+        name: 'enregistrement',
+        label: 'Enregistrement',
+        type: 'url',
+        required: false,
+      },
+      {
+        name: 'localites',
+        label: 'Localités',
+        type: 'relation',
+        relation: { type: 'localiseA', direction: 'outgoing', target: 'Localite', multiple: true },
+      },
+    ],
+    aliases: ['Rythmes'],
+  }),
+};
+
+export type EntityTypeName = keyof typeof ENTITY_TYPES;
+
+// Registry order is the navigation order
+export const ENTITY_TYPE_LIST: EntityTypeDefinition[] = Object.values(ENTITY_TYPES);
+
+/**
+ * Definition of a type from its name or one of its aliases
+ */
+export const getEntityType = (name?: string | null): EntityTypeDefinition | undefined =>
+  name ? ENTITY_TYPE_LIST.find(definition => definition.type === name || definition.aliases?.includes(name)) : undefined;
+
+/**
+ * Name shown for an entity of a type
+ */
+export const entityDisplayName = (definition: EntityTypeDefinition, entity: Record<string, any>): string =>
+  entity[definition.displayField] || `${definition.label} #${entity.id}`;
+
+/**
+ * Shareable path of an entity's detail page
+ */
+export const entityDetailPath = (definition: EntityTypeDefinition, id: number | string): string =>
+  `${definition.route}/${id}`;
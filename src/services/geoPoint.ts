@@ -0,0 +1,41 @@
+/**
+ * Geographic points
+ *
+ * Forms edit a point as a `latitude,longitude` text in the `coordonnees`
+ * property, while the geographic search of the backend reads the numeric
+ * `latitude` and `longitude` properties. The services write both and derive
+ * the point of records that only have the numbers.
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Point of a `latitude,longitude` text, as stored in the `coordonnees` properties
+ */
+export const parseGeoPoint = (value: any): GeoPoint | null => {
+  if (value === undefined || value === null) return null;
+  const match = String(value).trim().match(/^(-?\d+(?:\.\d+)?)\s*[,;]\s*(-?\d+(?:\.\d+)?)$/);
+  return match ? { latitude: Number(match[1]), longitude: Number(match[2]) } : null;
+};
+
+export const formatGeoPoint = ({ latitude, longitude }: GeoPoint): string =>
+  `${Number(latitude.toFixed(6))},${Number(longitude.toFixed(6))}`;
+
+/**
+ * Record to send: the numeric coordinates follow the `coordonnees` point
+ */
+export const withCoordinates = <T extends Record<string, any>>(data: T): T => {
+  const point = parseGeoPoint(data.coordonnees);
+  return point ? { ...data, ...point } : data;
+};
+
+/**
+ * Record as read: a record with only numeric coordinates gets its point
+ */
+export const withGeoPoint = <T extends Record<string, any>>(record: T): T =>
+  (record && !record.coordonnees && typeof record.latitude === 'number' && typeof record.longitude === 'number'
+    ? { ...record, coordonnees: formatGeoPoint({ latitude: record.latitude, longitude: record.longitude }) }
+    : record);
@@ -0,0 +1,101 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { AxiosHeaders } from 'axios';
+import { instrumentsApi, famillesApi, rythmesApi, relationsApi, searchApi, healthApi } from './api';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { entityStore } from './entityStore';
+import { authService } from './auth';
+
+beforeEach(async () => {
+  // Switching profile also drops the request cache and the entity store
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+  await authService.login('admin', 'admin');
+});
+
+describe('mock backend', () => {
+  test('answers the health routes', async () => {
+    const response = await healthApi.check();
+    expect(response.success).toBe(true);
+  });
+
+  test('lists entities with pagination and search', async () => {
+    const page = await famillesApi.getAll({ page: 1, limit: 2 });
+    expect(page.success).toBe(true);
+    expect(page.data.data).toHaveLength(2);
+    expect(page.data.total).toBe(4);
+
+    const search = await famillesApi.getAll({ search: 'cordo' });
+    expect(search.data.data.map((famille) => famille.nomFamille)).toEqual(['Cordophones']);
+  });
+
+  test('filters instruments through the by-family route', async () => {
+    const response = await instrumentsApi.getAll({ filters: { famille: 'Membranophones' } });
+    expect(response.data.data.map((instrument) => instrument.nomInstrument).sort()).toEqual(['Djembé', 'Sabar', 'Tama']);
+  });
+
+  test('answers a failing route instead of leaving the request pending', async () => {
+    const request = (params: Record<string, string>, data?: string) =>
+      mockBackend.adapter({ method: 'get', url: '/familles', params, data, headers: new AxiosHeaders() });
+    await expect(request({ where: '{"combinator":"and","conditions":[' })).rejects.toMatchObject({ response: { status: 400 } });
+    await expect(request({ where: '{"combinator":"and"}' })).rejects.toMatchObject({ response: { status: 400 } });
+    await expect(request({}, '{"nomFamille":')).rejects.toMatchObject({ response: { status: 400 } });
+  });
+
+  test('creates, updates and deletes entities', async () => {
+    const created = await famillesApi.create({ nomFamille: 'Électrophones' });
+    expect(created.success).toBe(true);
+    const id = created.data!.id;
+    expect(entityStore.getEntity('Famille', id)?.displayName).toBe('Électrophones');
+
+    const updated = await famillesApi.update(id, { descriptionFamille: 'Son produit électriquement' });
+    expect(updated.data?.descriptionFamille).toBe('Son produit électriquement');
+
+    const deleted = await famillesApi.delete(id);
+    expect(deleted.success).toBe(true);
+    expect(entityStore.getEntity('Famille', id)).toBeUndefined();
+    expect((await famillesApi.getAll({ search: 'Électrophones' })).data.total).toBe(0);
+  });
+
+  test('reports validation errors per field', async () => {
+    const response = await famillesApi.create({ nomFamille: '' });
+    expect(response.success).toBe(false);
+    expect(response.apiError?.kind).toBe('validation');
+    expect(response.apiError?.fieldErrors).toHaveProperty('nomFamille');
+  });
+
+  test('enforces relation constraints and cardinality', async () => {
+    const wrongTarget = await relationsApi.validate({ sourceId: 100, targetId: 10, relationType: 'appartientA' });
+    expect(wrongTarget.data.valid).toBe(false);
+
+    // The Kora already belongs to a family (N:1)
+    const secondFamily = await relationsApi.create({ sourceId: 100, targetId: 2, relationType: 'appartientA' });
+    expect(secondFamily.success).toBe(false);
+
+    const created = await relationsApi.create({ sourceId: 107, targetId: 20, relationType: 'localiseA' });
+    expect(created.success).toBe(true);
+
+    const relations = await relationsApi.getForEntity('107', 'Instrument');
+    expect(relations.data.relations.outgoing.map((item: any) => item.type)).toContain('localiseA');
+  });
+
+  test('links rhythms to the instruments producing them', async () => {
+    const rythmes = await rythmesApi.getAll({ search: 'mbalax' });
+    expect(rythmes.data.data[0]).toMatchObject({ metrique: '4/4', tempoMin: 100, tempoMax: 130 });
+
+    const created = await relationsApi.create({ sourceId: 101, targetId: rythmes.data.data[0].id, relationType: 'produitRythme' });
+    expect(created.success).toBe(true);
+    expect(entityStore.getRelations({ relationType: 'produitRythme' }).map(relation => relation.sourceId)).toContain(101);
+  });
+
+  test('serves search and ontology routes', async () => {
+    const search = await searchApi.global('kora');
+    expect(search.data?.map((result) => result.type)).toContain('Instrument');
+
+    const paths = await relationsApi.findPaths(100, 101);
+    expect(paths.data?.[0].length).toBe(2);
+
+    const ontology = await relationsApi.getOntology();
+    expect(ontology.data.metadata.entitiesCount.Instrument).toBe(8);
+  });
+});
@@ -0,0 +1,883 @@
+/**
+ * Mock Backend Service
+ *
+ * In-browser stand-in for the Neo4j backend, used by the "Démonstration"
+ * environment profile and by the Vitest suite. It is plugged into the axios
+ * client as an adapter and implements every route called by `api.ts` on top
+ * of a seeded in-memory graph, plus stand-in login and token refresh
+ * routes for the demonstration accounts.
+ */
+
+import { AxiosError, AxiosHeaders, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { createSeed, MockNode, MockRelation, MockSeed, MockUser, MOCK_RELATION_TYPES, MOCK_USERS } from './mockData';
+import { hasPermission, Permission, ROLE_LABELS } from './permissions';
+import { parseVersionTag } from './versioning';
+import { compareValues } from './sortOrder';
+import type { FilterCondition, FilterGroup } from './api';
+
+// Entity endpoints and the label of their nodes
+const ENTITY_ENDPOINTS: Record<string, string> = {
+  instruments: 'Instrument',
+  familles: 'Famille',
+  'groupes-ethniques': 'GroupeEthnique',
+  localites: 'Localite',
+  materiaux: 'Materiau',
+  timbres: 'Timbre',
+  techniques: 'TechniqueDeJeu',
+  artisans: 'Artisan',
+  patrimoines: 'PatrimoineCulturel',
+  rythmes: 'Rythme',
+};
+
+// Property holding the display name of each label
+const NAME_FIELDS: Record<string, string> = {
+  Instrument: 'nomInstrument',
+  Famille: 'nomFamille',
+  GroupeEthnique: 'nomGroupe',
+  Localite: 'nomLocalite',
+  Materiau: 'nomMateriau',
+  Timbre: 'descriptionTimbre',
+  TechniqueDeJeu: 'nomTechnique',
+  Artisan: 'nomArtisan',
+  PatrimoineCulturel: 'nomPatrimoine',
+  Rythme: 'nomRythme',
+};
+
+// Range filters: [property, bound]
+const RANGE_FILTERS: Record<string, [string, 'min' | 'max']> = {
+  anneeMin: ['anneeCreation', 'min'],
+  anneeMax: ['anneeCreation', 'max'],
+};
+
+// Instrument filters matched against the name of a related node
+const INSTRUMENT_RELATION_FILTERS: Record<string, { relationType: string; direction: 'outgoing' | 'incoming' }> = {
+  famille: { relationType: 'appartientA', direction: 'outgoing' },
+  groupeEthnique: { relationType: 'utilisePar', direction: 'outgoing' },
+  localite: { relationType: 'localiseA', direction: 'outgoing' },
+  materiau: { relationType: 'constitueDe', direction: 'outgoing' },
+  artisan: { relationType: 'fabrique', direction: 'incoming' },
+};
+
+interface RouteContext {
+  params: string[];
+  query: Record<string, any>;
+  body: any;
+  headers: AxiosHeaders;
+}
+
+interface MockResult {
+  status?: number;
+  data: any;
+  headers?: Record<string, string>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (context: RouteContext) => MockResult;
+  /** Permission checked against the bearer token, if any */
+  permission?: Permission;
+}
+
+interface MockSession {
+  user: MockUser;
+  expiresAt: number;
+}
+
+// Default lifetime of an access token
+const TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+
+/**
+ * Error answered with an HTTP status
+ */
+class MockHttpError extends Error {
+  constructor(public status: number, public body: any) {
+    super(body?.error || `HTTP ${status}`);
+  }
+}
+
+/**
+ * Value of a JSON text sent by the client; malformed ones are refused with a 400
+ */
+const parseJson = (value: unknown, what: string) => {
+  if (typeof value !== 'string' || !value) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new MockHttpError(400, { success: false, error: `${what} : JSON invalide` });
+  }
+};
+
+const notFound = (what: string) => new MockHttpError(404, { success: false, error: `${what} introuvable` });
+
+const ok = (data: any, status = 200): MockResult => ({ status, data: { success: true, data } });
+
+const matches = (value: any, expected: any) =>
+  String(value ?? '').toLowerCase() === String(expected ?? '').toLowerCase();
+
+/**
+ * Distance in kilometres between two coordinates
+ */
+const haversine = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export class MockBackend {
+  private nodes = new Map<number, MockNode>();
+  private relations: MockRelation[] = [];
+  private nextId = 1;
+  private latency = 0;
+  private debug = import.meta.env?.REACT_APP_MOCK_DEBUG === 'true';
+  private routes: Route[];
+  private sessions = new Map<string, MockSession>();
+  private refreshTokens = new Map<string, MockUser>();
+  private tokenLifetime = TOKEN_LIFETIME_MS;
+  private nextToken = 1;
+
+  constructor(seed: MockSeed = createSeed()) {
+    this.reset(seed);
+    this.routes = this.buildRoutes();
+  }
+
+  /**
+   * Restore the seed graph (or another one), e.g. between tests; sessions
+   * are kept
+   */
+  reset(seed: MockSeed = createSeed()) {
+    this.nodes = new Map(seed.nodes.map(node => [node.id, node]));
+    this.relations = seed.relations;
+    this.nextId = Math.max(0, ...seed.nodes.map(node => node.id)) + 1;
+  }
+
+  /**
+   * Simulated network latency in milliseconds
+   */
+  setLatency(latency: number) {
+    this.latency = latency;
+  }
+
+  /**
+   * Log every answered request in the console
+   */
+  setDebug(debug: boolean) {
+    this.debug = debug;
+  }
+
+  /**
+   * Lifetime of the access tokens issued from now on
+   */
+  setTokenLifetime(lifetime: number) {
+    this.tokenLifetime = lifetime;
+  }
+
+  /**
+   * Expire every access token, as if their lifetime had elapsed
+   */
+  expireAccessTokens() {
+    this.sessions.forEach(session => {
+      session.expiresAt = 0;
+    });
+  }
+
+  /**
+   * Revoke every access and refresh token, as after a backend restart
+   */
+  revokeSessions() {
+    this.sessions.clear();
+    this.refreshTokens.clear();
+  }
+
+  /**
+   * Axios adapter answering from the in-memory graph
+   */
+  adapter = (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    return new Promise((resolve, reject) => {
+      const signal = config.signal as AbortSignal | undefined;
+      if (signal?.aborted) {
+        reject(new CanceledError(undefined, undefined, config));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CanceledError(undefined, undefined, config));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener?.('abort', onAbort);
+        let response: AxiosResponse;
+        try {
+          response = this.respond(config);
+        } catch (error) {
+          reject(error);
+          return;
+        }
+        const validateStatus = config.validateStatus || ((status: number) => status >= 200 && status < 300);
+        if (validateStatus(response.status)) {
+          resolve(response);
+        } else {
+          reject(new AxiosError(
+            `Request failed with status code ${response.status}`,
+            response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+            config,
+            {},
+            response
+          ));
+        }
+      }, this.latency);
+      signal?.addEventListener?.('abort', onAbort, { once: true });
+    });
+  };
+
+  // ---- Dispatch ----
+
+  private respond(config: InternalAxiosRequestConfig): AxiosResponse {
+    const method = (config.method || 'get').toLowerCase();
+    const path = (config.url || '').split('?')[0].replace(/^\/+|\/+$/g, '');
+
+    let result: MockResult;
+    try {
+      const body = parseJson(config.data, 'Corps de requête');
+      const route = this.routes.find(candidate => candidate.method === method && candidate.pattern.test(path));
+      if (!route) {
+        throw new MockHttpError(404, { success: false, error: `Route ${method.toUpperCase()} /${path} inconnue` });
+      }
+      if (route.permission) {
+        this.authorize(config, route.permission);
+      }
+      const params = (path.match(route.pattern) || []).slice(1).map(decodeURIComponent);
+      result = route.handle({ params, query: config.params || {}, body: body || {}, headers: AxiosHeaders.from(config.headers) });
+    } catch (error) {
+      // A failing handler answers like a backend would, instead of leaving the request pending
+      result = error instanceof MockHttpError
+        ? { status: error.status, data: error.body }
+        : { status: 500, data: { success: false, error: error instanceof Error ? error.message : 'Erreur interne' } };
+    }
+
+    const status = result.status || 200;
+    if (this.debug) {
+      console.log(`[MockBackend] ${method.toUpperCase()} /${path} -> ${status}`);
+    }
+    return {
+      data: JSON.parse(JSON.stringify(result.data)),
+      status,
+      statusText: String(status),
+      headers: { 'content-type': 'application/json', ...result.headers },
+      config,
+      request: {},
+    };
+  }
+
+  /**
+   * Check the bearer token of a request against a permission
+   */
+  private authorize(config: InternalAxiosRequestConfig, permission: Permission) {
+    const header = AxiosHeaders.from(config.headers).get('Authorization');
+    const token = typeof header === 'string' ? header.replace(/^Bearer\s+/i, '') : '';
+    const session = token ? this.sessions.get(token) : undefined;
+    if (!session || session.expiresAt <= Date.now()) {
+      throw new MockHttpError(401, { success: false, error: session ? 'Session expirée' : 'Authentification requise' });
+    }
+    if (!hasPermission(session.user.role, permission)) {
+      throw new MockHttpError(403, {
+        success: false,
+        error: `Action non autorisée pour le rôle ${ROLE_LABELS[session.user.role]}`,
+      });
+    }
+  }
+
+  private buildRoutes(): Route[] {
+    const entity = `(${Object.keys(ENTITY_ENDPOINTS).join('|')})`;
+    const route = (method: string, pattern: string, handle: Route['handle'], permission?: Permission): Route => ({
+      method,
+      pattern: new RegExp(`^${pattern}$`),
+      handle,
+      permission,
+    });
+
+    return [
+      route('post', 'auth/login', ({ body }) => this.login(String(body.username || ''), String(body.password || ''))),
+      route('post', 'auth/refresh', ({ body }) => this.refresh(String(body.refreshToken || ''))),
+      route('post', 'auth/logout', ({ body }) => {
+        this.refreshTokens.delete(String(body.refreshToken || ''));
+        return ok(null);
+      }),
+
+      route('get', 'health', () => ({ data: { success: true, status: 'OK', message: 'Backend de démonstration', timestamp: new Date().toISOString() } })),
+      route('get', 'db-health', () => ({ data: { success: true, status: 'OK', database: 'mémoire', nodes: this.nodes.size } })),
+
+      route('get', 'instruments/by-family/([^/]+)', ({ params }) => this.instrumentsBy('appartientA', 'outgoing', 'famille', params[0])),
+      route('get', 'instruments/by-group/([^/]+)', ({ params }) => this.instrumentsBy('utilisePar', 'outgoing', 'groupe', params[0])),
+      route('get', 'instruments/by-artisan/([^/]+)', ({ params }) => this.instrumentsBy('fabrique', 'incoming', 'artisan', params[0])),
+
+      route('get', 'relations/types', () => ok(MOCK_RELATION_TYPES)),
+      route('get', 'relations/statistics', () => ok(this.relationStatistics())),
+      route('get', 'relations/ontology', () => ok(this.ontology())),
+      route('post', 'relations/validate', ({ body }) => ok(this.validateRelation(body))),
+      route('get', 'relations/entity/([^/]+)', ({ params }) => ok(this.entityRelations(Number(params[0])))),
+      route('get', 'relations/type/([^/]+)', ({ params, query }) => ok(this.relationsOfType(params[0], Number(query.limit) || 100))),
+      route('get', 'relations/paths/([^/]+)/([^/]+)', ({ params, query }) =>
+        ok(this.paths(Number(params[0]), Number(params[1]), Number(query.maxDepth) || 3))),
+      route('delete', 'relations/([^/]+)/([^/]+)/([^/]+)', ({ params }) =>
+        this.deleteRelation(Number(params[0]), Number(params[1]), params[2]), 'relation:delete'),
+      route('get', 'relations', ({ query }) => this.listRelations(query)),
+      route('post', 'relations', ({ body }) => this.createRelation(body), 'relation:create'),
+
+      route('get', 'search/global', ({ query }) => ok(this.globalSearch(String(query.q || ''), Number(query.limit) || 20))),
+      route('get', 'search/geographic', ({ query }) => ok(this.geographicSearch(Number(query.lat), Number(query.lng), Number(query.radius) || 100))),
+      route('get', 'search/similar/([^/]+)', ({ params }) => ok(this.similar(Number(params[0])))),
+      route('get', 'search/cultural-patterns', () => {
+        const patterns = this.culturalPatterns();
+        return ok({ patterns, count: patterns.length });
+      }),
+      route('get', 'search/centrality', () => {
+        const centralityAnalysis = this.centrality();
+        return ok({ centralityAnalysis, count: centralityAnalysis.length });
+      }),
+      route('post', 'search/cypher', () => {
+        throw new MockHttpError(501, { success: false, error: 'Les requêtes Cypher ne sont pas disponibles sur le backend de démonstration' });
+      }, 'cypher:execute'),
+
+      route('get', `${entity}/statistics`, ({ params }) => ok(this.entityStatistics(ENTITY_ENDPOINTS[params[0]]))),
+      route('get', `${entity}/(\\d+)`, ({ params }) => this.versioned(this.requireNode(ENTITY_ENDPOINTS[params[0]], Number(params[1])))),
+      route('put', `${entity}/(\\d+)`, ({ params, body, headers }) =>
+        this.updateEntity(ENTITY_ENDPOINTS[params[0]], Number(params[1]), body, headers.get('If-Match')), 'entity:update'),
+      route('delete', `${entity}/(\\d+)`, ({ params }) => this.deleteEntity(ENTITY_ENDPOINTS[params[0]], Number(params[1])), 'entity:delete'),
+      route('get', entity, ({ params, query }) => this.listEntities(ENTITY_ENDPOINTS[params[0]], query)),
+      route('post', entity, ({ params, body }) => this.createEntity(ENTITY_ENDPOINTS[params[0]], body), 'entity:create'),
+    ];
+  }
+
+  // ---- Authentication ----
+
+  private issueTokens(user: MockUser) {
+    const accessToken = `mock-access-${this.nextToken++}`;
+    const refreshToken = `mock-refresh-${this.nextToken++}`;
+    this.sessions.set(accessToken, { user, expiresAt: Date.now() + this.tokenLifetime });
+    this.refreshTokens.set(refreshToken, user);
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: Math.round(this.tokenLifetime / 1000),
+      user: { username: user.username, displayName: user.displayName, role: user.role },
+    };
+  }
+
+  private login(username: string, password: string): MockResult {
+    const user = MOCK_USERS.find(candidate => candidate.username === username && candidate.password === password);
+    if (!user) {
+      throw new MockHttpError(401, { success: false, error: 'Identifiant ou mot de passe incorrect' });
+    }
+    return ok(this.issueTokens(user));
+  }
+
+  /**
+   * Exchange a refresh token for new tokens; the old refresh token is revoked
+   */
+  private refresh(refreshToken: string): MockResult {
+    const user = this.refreshTokens.get(refreshToken);
+    if (!user) {
+      throw new MockHttpError(401, { success: false, error: 'Session expirée, veuillez vous reconnecter' });
+    }
+    this.refreshTokens.delete(refreshToken);
+    return ok(this.issueTokens(user));
+  }
+
+  // ---- Graph helpers ----
+
+  private nodesOf(label: string): MockNode[] {
+    return Array.from(this.nodes.values()).filter(node => node.label === label);
+  }
+
+  private requireNode(label: string | undefined, id: number): MockNode {
+    const node = this.nodes.get(id);
+    if (!node || (label && node.label !== label)) {
+      throw notFound(`${label || 'Entité'} ${id}`);
+    }
+    return node;
+  }
+
+  private nameOf(node: MockNode): string {
+    return node.properties[NAME_FIELDS[node.label]] || `${node.label} #${node.id}`;
+  }
+
+  private toEntity(node: MockNode) {
+    return { id: node.id, ...node.properties, version: node.version ?? 1 };
+  }
+
+  /**
+   * Entity response with its version as ETag
+   */
+  private versioned(node: MockNode, status = 200): MockResult {
+    return { ...ok(this.toEntity(node), status), headers: { etag: `"${node.version ?? 1}"` } };
+  }
+
+  private toTyped(node: MockNode) {
+    return { id: node.id, type: node.label, displayName: this.nameOf(node), ...node.properties };
+  }
+
+  private toSearchResult(node: MockNode) {
+    return { entity: this.toEntity(node), labels: [node.label], name: this.nameOf(node), type: node.label };
+  }
+
+  /**
+   * Nodes linked to a node by a relation type, in one direction
+   */
+  private neighbours(id: number, relationType: string, direction: 'outgoing' | 'incoming'): MockNode[] {
+    return this.relations
+      .filter(relation => relation.relationType === relationType
+        && (direction === 'outgoing' ? relation.sourceId === id : relation.targetId === id))
+      .map(relation => this.nodes.get(direction === 'outgoing' ? relation.targetId : relation.sourceId))
+      .filter((node): node is MockNode => !!node);
+  }
+
+  private degree(id: number): number {
+    return this.relations.filter(relation => relation.sourceId === id || relation.targetId === id).length;
+  }
+
+  // ---- Entities ----
+
+  private listEntities(label: string, query: Record<string, any>): MockResult {
+    const { page, limit, search, filters, where, sort, ...rest } = query;
+    const criteria: Record<string, any> = { ...rest, ...(filters || {}) };
+    const nameField = NAME_FIELDS[label];
+
+    let items = this.nodesOf(label);
+    if (search) {
+      const term = String(search).toLowerCase();
+      items = items.filter(node => Object.values(node.properties).some(value => String(value).toLowerCase().includes(term)));
+    }
+    Object.entries(criteria).forEach(([key, expected]) => {
+      if (expected === undefined || expected === null || expected === '') return;
+      const range = RANGE_FILTERS[key];
+      if (range) {
+        const [property, bound] = range;
+        items = items.filter(node => typeof node.properties[property] === 'number'
+          && (bound === 'min' ? node.properties[property] >= Number(expected) : node.properties[property] <= Number(expected)));
+        return;
+      }
+      const relationFilter = label === 'Instrument' ? INSTRUMENT_RELATION_FILTERS[key] : undefined;
+      items = items.filter(node => (relationFilter
+        ? this.neighbours(node.id, relationFilter.relationType, relationFilter.direction).some(other => matches(this.nameOf(other), expected))
+        : matches(node.properties[key], expected)));
+    });
+    if (where) {
+      const group: FilterGroup = parseJson(where, 'Filtre where');
+      if (!Array.isArray(group?.conditions)) {
+        throw new MockHttpError(400, { success: false, error: 'Filtre where : liste de conditions attendue' });
+      }
+      const test = (node: MockNode) => (condition: FilterCondition) => this.matchesCondition(node, condition);
+      items = items.filter(node => (group.combinator === 'or'
+        ? group.conditions.some(test(node))
+        : group.conditions.every(test(node))));
+    }
+    const byName = (a: MockNode, b: MockNode) => String(a.properties[nameField] || '').localeCompare(String(b.properties[nameField] || ''));
+    const keys = String(sort || '').split(',').filter(Boolean);
+    items.sort((a, b) => {
+      for (const token of keys) {
+        const key = token.replace(/^-/, '');
+        const order = compareValues(this.sortValue(a, key), this.sortValue(b, key));
+        if (order !== 0) return token.startsWith('-') ? -order : order;
+      }
+      return byName(a, b);
+    });
+
+    const pageSize = Number(limit) || 10;
+    const pageNumber = Number(page) || 1;
+    const skip = (pageNumber - 1) * pageSize;
+    return {
+      data: {
+        success: true,
+        data: { data: items.slice(skip, skip + pageSize).map(node => this.toEntity(node)), total: items.length, limit: pageSize, skip },
+        pagination: { page: pageNumber, limit: pageSize, total: items.length, ...(keys.length ? { sort: keys.join(',') } : {}) },
+      },
+    };
+  }
+
+  /**
+   * Value a node is sorted on: a property, or its number of relations of a
+   * type with `relations:type` and `relations:^type`
+   */
+  private sortValue(node: MockNode, key: string): unknown {
+    const relation = key.match(/^relations:(\^?)(\w+)$/);
+    return relation
+      ? this.neighbours(node.id, relation[2], relation[1] ? 'incoming' : 'outgoing').length
+      : node.properties[key];
+  }
+
+  /**
+   * Whether a node passes one condition of an advanced filter
+   */
+  private matchesCondition(node: MockNode, condition: FilterCondition): boolean {
+    if ('relationType' in condition) {
+      const linked = this.neighbours(node.id, condition.relationType, condition.direction).length > 0;
+      return condition.operator === 'has' ? linked : !linked;
+    }
+    const value = node.properties[condition.field];
+    switch (condition.operator) {
+      case 'contains':
+        return (Array.isArray(value) ? value.join(', ') : String(value ?? '')).toLowerCase().includes(condition.value.toLowerCase());
+      case 'equals':
+        return Array.isArray(value) ? value.some(item => matches(item, condition.value)) : matches(value, condition.value);
+      case 'between':
+        return typeof value === 'number'
+          && (condition.min === undefined || value >= condition.min)
+          && (condition.max === undefined || value <= condition.max);
+      case 'in':
+        return condition.values.some(expected => (Array.isArray(value)
+          ? value.some(item => matches(item, expected))
+          : matches(value, expected)));
+    }
+  }
+
+  private validateEntity(label: string, body: any, currentId?: number) {
+    const nameField = NAME_FIELDS[label];
+    const name = body?.[nameField];
+    if (currentId === undefined || name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        throw new MockHttpError(400, { success: false, error: 'Données invalides', errors: { [nameField]: 'Ce champ est requis' } });
+      }
+      const duplicate = this.nodesOf(label).find(node => node.id !== currentId && matches(node.properties[nameField], name.trim()));
+      if (duplicate) {
+        throw new MockHttpError(409, { success: false, error: `${label} « ${name} » existe déjà` });
+      }
+    }
+  }
+
+  private createEntity(label: string, body: any): MockResult {
+    this.validateEntity(label, body);
+    const { id: _ignored, version: _version, ...properties } = body;
+    const node: MockNode = { id: this.nextId++, label, properties, version: 1 };
+    this.nodes.set(node.id, node);
+    return this.versioned(node, 201);
+  }
+
+  /**
+   * Update a node; an If-Match header must name its current version
+   */
+  private updateEntity(label: string, id: number, body: any, ifMatch: unknown): MockResult {
+    const node = this.requireNode(label, id);
+    const current = node.version ?? 1;
+    if (ifMatch && ifMatch !== '*' && parseVersionTag(ifMatch) !== current) {
+      throw new MockHttpError(409, {
+        success: false,
+        error: `${label} modifié entre-temps par un autre utilisateur`,
+        current: this.toEntity(node),
+      });
+    }
+    this.validateEntity(label, body, id);
+    const { id: _ignored, version: _version, ...properties } = body;
+    node.properties = { ...node.properties, ...properties };
+    node.version = current + 1;
+    return this.versioned(node);
+  }
+
+  private deleteEntity(label: string, id: number): MockResult {
+    this.requireNode(label, id);
+    this.nodes.delete(id);
+    this.relations = this.relations.filter(relation => relation.sourceId !== id && relation.targetId !== id);
+    return { data: { success: true, message: `${label} ${id} supprimé` } };
+  }
+
+  private entityStatistics(label: string) {
+    const nodes = this.nodesOf(label);
+    const connected = nodes.filter(node => this.degree(node.id) > 0).length;
+    return { total: nodes.length, connected, isolated: nodes.length - connected };
+  }
+
+  private instrumentsBy(relationType: string, direction: 'outgoing' | 'incoming', key: string, name: string): MockResult {
+    const instruments = this.nodesOf('Instrument').flatMap(instrument => {
+      const other = this.neighbours(instrument.id, relationType, direction).find(node => matches(this.nameOf(node), name));
+      return other ? [{ instrument: this.toEntity(instrument), [key]: this.toEntity(other) }] : [];
+    });
+    return ok(instruments);
+  }
+
+  // ---- Relations ----
+
+  private toRelation(relation: MockRelation) {
+    const source = this.nodes.get(relation.sourceId);
+    const target = this.nodes.get(relation.targetId);
+    return {
+      sourceId: relation.sourceId,
+      targetId: relation.targetId,
+      relationType: relation.relationType,
+      source: source && this.toTyped(source),
+      target: target && this.toTyped(target),
+    };
+  }
+
+  private listRelations(query: Record<string, any>): MockResult {
+    const relations = this.relations.filter(relation => !query.relationType || relation.relationType === query.relationType);
+    const limit = Number(query.limit) || 50;
+    const page = Number(query.page) || 1;
+    const skip = (page - 1) * limit;
+    return {
+      data: {
+        success: true,
+        data: relations.slice(skip, skip + limit).map(relation => this.toRelation(relation)),
+        pagination: { page, limit, total: relations.length },
+      },
+    };
+  }
+
+  private relationsOfType(relationType: string, limit: number) {
+    return this.relations
+      .filter(relation => relation.relationType === relationType)
+      .slice(0, limit)
+      .map((relation) => {
+        const source = this.nodes.get(relation.sourceId)!;
+        const target = this.nodes.get(relation.targetId)!;
+        return {
+          source: this.toEntity(source),
+          target: this.toEntity(target),
+          relationType,
+          sourceLabels: [source.label],
+          targetLabels: [target.label],
+        };
+      });
+  }
+
+  private entityRelations(id: number) {
+    const node = this.requireNode(undefined, id);
+    const view = (relation: MockRelation, otherId: number) => {
+      const other = this.nodes.get(otherId)!;
+      return { type: relation.relationType, entity: this.toEntity(other), entityLabels: [other.label] };
+    };
+    return {
+      entity: this.toEntity(node),
+      labels: [node.label],
+      relations: {
+        outgoing: this.relations.filter(relation => relation.sourceId === id).map(relation => view(relation, relation.targetId)),
+        incoming: this.relations.filter(relation => relation.targetId === id).map(relation => view(relation, relation.sourceId)),
+      },
+    };
+  }
+
+  private validateRelation(body: any): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    const definition = MOCK_RELATION_TYPES.find(type => type.type === body?.relationType);
+    const source = this.nodes.get(Number(body?.sourceId));
+    const target = this.nodes.get(Number(body?.targetId));
+
+    if (!definition) errors.push(`Type de relation inconnu : ${body?.relationType}`);
+    if (!source) errors.push(`Entité source ${body?.sourceId} introuvable`);
+    if (!target) errors.push(`Entité cible ${body?.targetId} introuvable`);
+
+    if (definition && source && target) {
+      const { from, to, cardinality } = definition.constraints;
+      if (!from.includes(source.label)) errors.push(`${source.label} ne peut pas être source de ${definition.type}`);
+      if (!to.includes(target.label)) errors.push(`${target.label} ne peut pas être cible de ${definition.type}`);
+
+      const sameType = this.relations.filter(relation => relation.relationType === definition.type);
+      if (sameType.some(relation => relation.sourceId === source.id && relation.targetId === target.id)) {
+        errors.push('Cette relation existe déjà');
+      }
+      if ((cardinality === 'N:1' || cardinality === '1:1') && sameType.some(relation => relation.sourceId === source.id)) {
+        errors.push(`${this.nameOf(source)} a déjà une relation ${definition.type}`);
+      }
+      if ((cardinality === '1:N' || cardinality === '1:1') && sameType.some(relation => relation.targetId === target.id)) {
+        errors.push(`${this.nameOf(target)} est déjà la cible d'une relation ${definition.type}`);
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private createRelation(body: any): MockResult {
+    const { valid, errors } = this.validateRelation(body);
+    if (!valid) {
+      const status = errors.includes('Cette relation existe déjà') ? 409 : 400;
+      throw new MockHttpError(status, { success: false, error: errors.join(' ; ') });
+    }
+    const relation: MockRelation = {
+      sourceId: Number(body.sourceId),
+      targetId: Number(body.targetId),
+      relationType: body.relationType,
+    };
+    this.relations.push(relation);
+    return ok(this.toRelation(relation), 201);
+  }
+
+  private deleteRelation(sourceId: number, targetId: number, relationType: string): MockResult {
+    const index = this.relations.findIndex(relation =>
+      relation.sourceId === sourceId && relation.targetId === targetId && relation.relationType === relationType);
+    if (index < 0) {
+      throw notFound(`Relation ${relationType} entre ${sourceId} et ${targetId}`);
+    }
+    this.relations.splice(index, 1);
+    return { data: { success: true, message: 'Relation supprimée' } };
+  }
+
+  private relationStatistics() {
+    const byType: Record<string, number> = {};
+    this.relations.forEach(relation => {
+      byType[relation.relationType] = (byType[relation.relationType] || 0) + 1;
+    });
+    return { total: this.relations.length, byType };
+  }
+
+  /**
+   * Shortest paths between two nodes, following relations in both directions
+   */
+  private paths(sourceId: number, targetId: number, maxDepth: number) {
+    this.requireNode(undefined, sourceId);
+    this.requireNode(undefined, targetId);
+
+    const results: Array<{ nodes: any[]; relationships: string[]; length: number }> = [];
+    let frontier: Array<{ ids: number[]; types: string[] }> = [{ ids: [sourceId], types: [] }];
+
+    for (let depth = 0; depth < maxDepth && results.length === 0; depth++) {
+      const next: typeof frontier = [];
+      frontier.forEach(path => {
+        const last = path.ids[path.ids.length - 1];
+        this.relations.forEach(relation => {
+          const other = relation.sourceId === last ? relation.targetId : relation.targetId === last ? relation.sourceId : undefined;
+          if (other === undefined || path.ids.includes(other)) return;
+          const extended = { ids: [...path.ids, other], types: [...path.types, relation.relationType] };
+          if (other === targetId) {
+            results.push({
+              nodes: extended.ids.map(id => this.toTyped(this.nodes.get(id)!)),
+              relationships: extended.types,
+              length: extended.types.length,
+            });
+          } else {
+            next.push(extended);
+          }
+        });
+      });
+      frontier = next;
+    }
+
+    return results;
+  }
+
+  private ontology() {
+    const labels = Object.values(ENTITY_ENDPOINTS);
+    const entitiesCount: Record<string, number> = {};
+    labels.forEach(label => {
+      entitiesCount[label] = this.nodesOf(label).length;
+    });
+
+    return {
+      name: 'Ontologie des Instruments de Musique',
+      type: 'root',
+      children: [
+        {
+          name: 'Classes',
+          type: 'category',
+          children: labels.map(label => ({
+            name: label,
+            type: 'class',
+            description: `${entitiesCount[label]} individu(s)`,
+            relations: {
+              outgoing: MOCK_RELATION_TYPES.filter(type => type.constraints.from.includes(label)).map(type => type.type),
+              incoming: MOCK_RELATION_TYPES.filter(type => type.constraints.to.includes(label)).map(type => type.type),
+            },
+          })),
+        },
+        {
+          name: 'Relations Sémantiques',
+          type: 'category',
+          children: MOCK_RELATION_TYPES.map(type => ({
+            name: type.type,
+            type: 'relation',
+            description: type.constraints.description,
+            from: type.constraints.from,
+            to: type.constraints.to,
+            cardinality: type.constraints.cardinality,
+          })),
+        },
+      ],
+      metadata: {
+        entitiesCount,
+        relationsCount: this.relations.length,
+        source: 'mock',
+      },
+    };
+  }
+
+  // ---- Search ----
+
+  private globalSearch(term: string, limit: number) {
+    const needle = term.toLowerCase();
+    const allResults = Array.from(this.nodes.values())
+      .filter(node => needle && Object.values(node.properties).some(value => String(value).toLowerCase().includes(needle)))
+      .slice(0, limit)
+      .map(node => this.toSearchResult(node));
+
+    const results: Record<string, any[]> = {};
+    allResults.forEach(result => {
+      results[result.type] = [...(results[result.type] || []), result];
+    });
+    return { searchTerm: term, totalResults: allResults.length, results, allResults };
+  }
+
+  private geographicSearch(lat: number, lng: number, radius: number) {
+    const results = this.nodesOf('Localite')
+      .filter(localite => typeof localite.properties.latitude === 'number')
+      .map(localite => ({
+        localite: this.toEntity(localite),
+        distance: Math.round(haversine(lat, lng, localite.properties.latitude, localite.properties.longitude) * 10) / 10,
+        instruments: this.neighbours(localite.id, 'localiseA', 'incoming').filter(node => node.label === 'Instrument').map(node => this.toEntity(node)),
+        groupesEthniques: this.neighbours(localite.id, 'localiseA', 'incoming').filter(node => node.label === 'GroupeEthnique').map(node => this.toEntity(node)),
+      }))
+      .filter(result => result.distance <= radius)
+      .sort((a, b) => a.distance - b.distance);
+    return { center: { lat, lng }, radius, results };
+  }
+
+  /**
+   * Entities of the same label sharing neighbours with the given one
+   */
+  private similar(id: number) {
+    const node = this.requireNode(undefined, id);
+    const neighbourIds = (nodeId: number) => new Set(this.relations
+      .filter(relation => relation.sourceId === nodeId || relation.targetId === nodeId)
+      .map(relation => (relation.sourceId === nodeId ? relation.targetId : relation.sourceId)));
+    const mine = neighbourIds(id);
+
+    return this.nodesOf(node.label)
+      .filter(other => other.id !== id)
+      .map(other => ({ other, shared: Array.from(neighbourIds(other.id)).filter(item => mine.has(item)).length }))
+      .filter(item => item.shared > 0)
+      .sort((a, b) => b.shared - a.shared)
+      .map(item => ({ ...this.toSearchResult(item.other), similarity: item.shared }));
+  }
+
+  private culturalPatterns() {
+    return this.nodesOf('PatrimoineCulturel').map(patrimoine => {
+      const elements = this.neighbours(patrimoine.id, 'englobe', 'outgoing');
+      const instruments = elements.filter(node => node.label === 'Instrument');
+      const groupe = elements.find(node => node.label === 'GroupeEthnique');
+      const localite = groupe && this.neighbours(groupe.id, 'localiseA', 'outgoing')[0];
+      const unique = (values: string[]) => Array.from(new Set(values));
+
+      return {
+        patrimoine: this.nameOf(patrimoine),
+        groupe: groupe ? this.nameOf(groupe) : null,
+        localite: localite ? this.nameOf(localite) : null,
+        instruments: instruments.map(node => this.nameOf(node)),
+        rythmes: elements.filter(node => node.label === 'Rythme').map(node => this.nameOf(node)),
+        materiaux: unique(instruments.flatMap(node => this.neighbours(node.id, 'constitueDe', 'outgoing').map(other => this.nameOf(other)))),
+        familles: unique(instruments.flatMap(node => this.neighbours(node.id, 'appartientA', 'outgoing').map(other => this.nameOf(other)))),
+      };
+    });
+  }
+
+  private centrality() {
+    return Array.from(this.nodes.values())
+      .filter(node => ['Instrument', 'GroupeEthnique', 'Localite', 'Rythme'].includes(node.label))
+      .map(node => ({ entity: this.toEntity(node), type: node.label, centrality: this.degree(node.id) }))
+      .sort((a, b) => b.centrality - a.centrality)
+      .slice(0, 20);
+  }
+}
+
+// Create a singleton instance
+export const mockBackend = new MockBackend();
+
+export default mockBackend;
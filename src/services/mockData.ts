@@ -0,0 +1,173 @@
+/**
+ * Mock Data
+ *
+ * Seed graph of the in-browser mock backend: a small but connected sample
+ * of the ontology (West and Central African instruments), with node ids
+ * unique across labels as in Neo4j.
+ */
+
+import { Role } from './permissions';
+
+export interface MockNode {
+  id: number;
+  label: string;
+  properties: Record<string, any>;
+  /** Concurrency version, 1 when omitted */
+  version?: number;
+}
+
+export interface MockRelation {
+  sourceId: number;
+  targetId: number;
+  relationType: string;
+}
+
+export interface MockRelationType {
+  type: string;
+  constraints: {
+    from: string[];
+    to: string[];
+    cardinality: '1:1' | '1:N' | 'N:1' | 'N:N';
+    description?: string;
+  };
+}
+
+export interface MockUser {
+  username: string;
+  password: string;
+  displayName: string;
+  role: Role;
+}
+
+export interface MockSeed {
+  nodes: MockNode[];
+  relations: MockRelation[];
+}
+
+export const MOCK_RELATION_TYPES: MockRelationType[] = [
+  { type: 'appartientA', constraints: { from: ['Instrument'], to: ['Famille'], cardinality: 'N:1', description: 'Plusieurs instruments appartiennent à une famille' } },
+  { type: 'utilisePar', constraints: { from: ['Instrument'], to: ['GroupeEthnique'], cardinality: 'N:N', description: 'Un instrument peut être utilisé par plusieurs groupes ethniques' } },
+  { type: 'produitRythme', constraints: { from: ['Instrument'], to: ['Rythme'], cardinality: 'N:N', description: 'Un instrument peut produire plusieurs rythmes' } },
+  { type: 'localiseA', constraints: { from: ['Instrument', 'GroupeEthnique', 'Rythme'], to: ['Localite'], cardinality: 'N:N', description: 'Une entité peut être présente dans plusieurs localités' } },
+  { type: 'constitueDe', constraints: { from: ['Instrument'], to: ['Materiau'], cardinality: '1:N', description: 'Un instrument peut être constitué de plusieurs matériaux' } },
+  { type: 'joueAvec', constraints: { from: ['Instrument'], to: ['TechniqueDeJeu'], cardinality: '1:N', description: 'Un instrument peut être joué avec plusieurs techniques' } },
+  { type: 'fabrique', constraints: { from: ['Artisan'], to: ['Instrument'], cardinality: 'N:N', description: 'Un artisan peut fabriquer plusieurs instruments' } },
+  { type: 'caracterise', constraints: { from: ['Timbre'], to: ['Instrument'], cardinality: 'N:N', description: 'Un instrument peut avoir plusieurs timbres' } },
+  { type: 'appliqueA', constraints: { from: ['TechniqueDeJeu'], to: ['Instrument'], cardinality: 'N:N', description: 'Une technique peut s\'appliquer à plusieurs instruments' } },
+  { type: 'englobe', constraints: { from: ['PatrimoineCulturel'], to: ['Instrument', 'GroupeEthnique', 'Rythme'], cardinality: '1:N', description: 'Un patrimoine englobe plusieurs éléments culturels' } },
+];
+
+const node = (id: number, label: string, properties: Record<string, any>): MockNode => ({ id, label, properties });
+
+const NODES: MockNode[] = [
+  // Familles
+  node(1, 'Famille', { nomFamille: 'Cordophones', descriptionFamille: 'Instruments à cordes pincées ou frottées' }),
+  node(2, 'Famille', { nomFamille: 'Membranophones', descriptionFamille: 'Instruments dont le son provient d\'une membrane tendue' }),
+  node(3, 'Famille', { nomFamille: 'Idiophones', descriptionFamille: 'Instruments dont le corps vibre lui-même' }),
+  node(4, 'Famille', { nomFamille: 'Aérophones', descriptionFamille: 'Instruments à vent' }),
+
+  // Groupes ethniques
+  node(10, 'GroupeEthnique', { nomGroupe: 'Mandingues', langue: 'Mandinka', description: 'Peuple d\'Afrique de l\'Ouest, héritier de l\'empire du Mali' }),
+  node(11, 'GroupeEthnique', { nomGroupe: 'Wolof', langue: 'Wolof', description: 'Principal groupe ethnique du Sénégal' }),
+  node(12, 'GroupeEthnique', { nomGroupe: 'Peuls', langue: 'Pulaar', description: 'Peuple pasteur présent dans tout le Sahel' }),
+  node(13, 'GroupeEthnique', { nomGroupe: 'Fang', langue: 'Fang', description: 'Peuple d\'Afrique centrale (Cameroun, Gabon)' }),
+
+  // Localités
+  node(20, 'Localite', { nomLocalite: 'Dakar', coordonnees: '14.7167,-17.4677', latitude: 14.7167, longitude: -17.4677, description: 'Capitale du Sénégal' }),
+  node(21, 'Localite', { nomLocalite: 'Ziguinchor', coordonnees: '12.5681,-16.2719', latitude: 12.5681, longitude: -16.2719, description: 'Ville de Casamance' }),
+  node(22, 'Localite', { nomLocalite: 'Bamako', coordonnees: '12.6392,-8.0029', latitude: 12.6392, longitude: -8.0029, description: 'Capitale du Mali' }),
+  node(23, 'Localite', { nomLocalite: 'Yaoundé', coordonnees: '3.8480,11.5021', latitude: 3.848, longitude: 11.5021, description: 'Capitale du Cameroun' }),
+
+  // Matériaux
+  node(30, 'Materiau', { nomMateriau: 'Calebasse', type: 'Végétal', usages: ['Caisse de résonance'], description: 'Fruit évidé servant de caisse de résonance' }),
+  node(31, 'Materiau', { nomMateriau: 'Peau de chèvre', type: 'Animal', usages: ['Membrane'], description: 'Membrane tendue des tambours' }),
+  node(32, 'Materiau', { nomMateriau: 'Bois de vène', type: 'Végétal', usages: ['Lames', 'Fût'], description: 'Bois dur utilisé pour les lames et les fûts' }),
+  node(33, 'Materiau', { nomMateriau: 'Bambou', type: 'Végétal', description: 'Tige creuse utilisée pour les flûtes' }),
+
+  // Timbres
+  node(40, 'Timbre', { descriptionTimbre: 'Cristallin et perlé', frequence: 440, intensite: 60 }),
+  node(41, 'Timbre', { descriptionTimbre: 'Grave et profond', frequence: 110, intensite: 90 }),
+
+  // Techniques de jeu
+  node(50, 'TechniqueDeJeu', { nomTechnique: 'Pincement', description: 'Cordes pincées avec le pouce et l\'index', difficulte: 'Avancé' }),
+  node(51, 'TechniqueDeJeu', { nomTechnique: 'Frappe à main nue', description: 'Membrane frappée du plat ou du bout des doigts', difficulte: 'Intermédiaire' }),
+  node(52, 'TechniqueDeJeu', { nomTechnique: 'Frappe avec mailloches', description: 'Lames frappées avec des baguettes garnies', difficulte: 'Intermédiaire' }),
+  node(53, 'TechniqueDeJeu', { nomTechnique: 'Souffle', description: 'Colonne d\'air mise en vibration par le souffle', difficulte: 'Débutant' }),
+
+  // Artisans
+  node(60, 'Artisan', { nomArtisan: 'Lamine Cissokho', specialite: 'Luthier de kora', region: 'Casamance' }),
+  node(61, 'Artisan', { nomArtisan: 'Mamadou Diabaté', specialite: 'Facteur de balafons', region: 'Bamako' }),
+  node(62, 'Artisan', { nomArtisan: 'Ousmane Ndiaye', specialite: 'Tambourier', region: 'Dakar' }),
+
+  // Patrimoines culturels
+  node(70, 'PatrimoineCulturel', { nomPatrimoine: 'Tradition des griots mandingues', type: 'Immatériel', description: 'Art oral et musical des jeli', inscritUnesco: true, lienReference: 'https://ich.unesco.org/fr/listes' }),
+  node(71, 'PatrimoineCulturel', { nomPatrimoine: 'Sabar wolof', type: 'Immatériel', description: 'Danse et percussions des cérémonies wolof', inscritUnesco: false }),
+
+  // Rythmes
+  node(80, 'Rythme', { nomRythme: 'Kuku', metrique: '12/8', tempoMin: 110, tempoMax: 140, notation: 'x..x.xx..x.x', description: 'Rythme de fête de Guinée forestière', occasions: ['Fête', 'Récolte'] }),
+  node(81, 'Rythme', { nomRythme: 'Mbalax', metrique: '4/4', tempoMin: 100, tempoMax: 130, notation: 'x.x.xx.x', description: 'Rythme populaire sénégalais issu du sabar', occasions: ['Mariage', 'Lutte'] }),
+  node(82, 'Rythme', { nomRythme: 'Dununba', metrique: '12/8', tempoMin: 90, tempoMax: 120, notation: 'x..x..x.xx..', description: 'Danse des hommes forts du pays malinké', occasions: ['Initiation'] }),
+
+  // Instruments
+  node(100, 'Instrument', { nomInstrument: 'Kora', description: 'Harpe-luth à 21 cordes des griots mandingues', anneeCreation: 1700 }),
+  node(101, 'Instrument', { nomInstrument: 'Balafon', description: 'Xylophone à lames de bois et résonateurs en calebasse', anneeCreation: 1300 }),
+  node(102, 'Instrument', { nomInstrument: 'Djembé', description: 'Tambour en forme de calice joué à mains nues', anneeCreation: 1200 }),
+  node(103, 'Instrument', { nomInstrument: 'Sabar', description: 'Tambour wolof joué avec une main et une baguette' }),
+  node(104, 'Instrument', { nomInstrument: 'Xalam', description: 'Luth à cordes pincées des griots wolof' }),
+  node(105, 'Instrument', { nomInstrument: 'Tama', description: 'Tambour d\'aisselle à tension variable' }),
+  node(106, 'Instrument', { nomInstrument: 'Mvet', description: 'Harpe-cithare des Fang, support de l\'épopée' }),
+  node(107, 'Instrument', { nomInstrument: 'Tambin', description: 'Flûte peule en bambou à trois trous' }),
+];
+
+const rel = (sourceId: number, relationType: string, targetId: number): MockRelation => ({ sourceId, targetId, relationType });
+
+const RELATIONS: MockRelation[] = [
+  rel(100, 'appartientA', 1), rel(104, 'appartientA', 1), rel(106, 'appartientA', 1),
+  rel(102, 'appartientA', 2), rel(103, 'appartientA', 2), rel(105, 'appartientA', 2),
+  rel(101, 'appartientA', 3),
+  rel(107, 'appartientA', 4),
+
+  rel(100, 'utilisePar', 10), rel(101, 'utilisePar', 10), rel(102, 'utilisePar', 10),
+  rel(103, 'utilisePar', 11), rel(104, 'utilisePar', 11), rel(105, 'utilisePar', 11),
+  rel(107, 'utilisePar', 12), rel(106, 'utilisePar', 13),
+
+  rel(100, 'localiseA', 21), rel(101, 'localiseA', 22), rel(102, 'localiseA', 22),
+  rel(103, 'localiseA', 20), rel(105, 'localiseA', 20), rel(106, 'localiseA', 23),
+  rel(10, 'localiseA', 22), rel(10, 'localiseA', 21), rel(11, 'localiseA', 20), rel(13, 'localiseA', 23),
+
+  rel(100, 'constitueDe', 30), rel(100, 'constitueDe', 31), rel(101, 'constitueDe', 32), rel(101, 'constitueDe', 30),
+  rel(102, 'constitueDe', 31), rel(103, 'constitueDe', 31), rel(106, 'constitueDe', 30), rel(107, 'constitueDe', 33),
+
+  rel(100, 'joueAvec', 50), rel(104, 'joueAvec', 50), rel(102, 'joueAvec', 51), rel(101, 'joueAvec', 52), rel(107, 'joueAvec', 53),
+  rel(51, 'appliqueA', 103), rel(51, 'appliqueA', 105),
+
+  rel(60, 'fabrique', 100), rel(61, 'fabrique', 101), rel(62, 'fabrique', 102), rel(62, 'fabrique', 103),
+
+  rel(40, 'caracterise', 100), rel(40, 'caracterise', 101), rel(41, 'caracterise', 102), rel(41, 'caracterise', 103),
+
+  rel(102, 'produitRythme', 80), rel(102, 'produitRythme', 82), rel(103, 'produitRythme', 81), rel(105, 'produitRythme', 81),
+  rel(81, 'localiseA', 20), rel(82, 'localiseA', 22),
+
+  rel(70, 'englobe', 100), rel(70, 'englobe', 101), rel(70, 'englobe', 10),
+  rel(71, 'englobe', 103), rel(71, 'englobe', 11), rel(71, 'englobe', 81),
+];
+
+/**
+ * Demonstration accounts, one per role; the password is the user name
+ */
+export const MOCK_USERS: MockUser[] = [
+  { username: 'lecteur', password: 'lecteur', displayName: 'Awa Lecteur', role: 'viewer' },
+  { username: 'contributeur', password: 'contributeur', displayName: 'Moussa Contributeur', role: 'contributor' },
+  { username: 'conservateur', password: 'conservateur', displayName: 'Fatou Conservatrice', role: 'curator' },
+  { username: 'admin', password: 'admin', displayName: 'Administrateur', role: 'admin' },
+];
+
+/**
+ * Fresh copy of the seed graph
+ */
+export const createSeed = (): MockSeed => ({
+  nodes: NODES.map(item => ({ ...item, properties: { ...item.properties } })),
+  relations: RELATIONS.map(item => ({ ...item })),
+});
+
+export default createSeed;
@@ -0,0 +1,112 @@
+/**
+ * Offline Database Service
+ *
+ * Thin IndexedDB wrapper holding the mirror of read responses and the
+ * outbox of mutations made without connectivity. Without IndexedDB
+ * (tests, private browsing) every call resolves as a no-op.
+ */
+
+const DB_NAME = 'ontology-offline';
+const DB_VERSION = 1;
+const RESPONSES_STORE = 'responses';
+const OUTBOX_STORE = 'outbox';
+
+export type OutboxKind = 'create' | 'update' | 'delete' | 'relation-create' | 'relation-delete';
+
+export interface OutboxEntry {
+  id?: number;
+  profileId: string;
+  kind: OutboxKind;
+  endpoint: string;
+  entityType?: string;
+  entityId?: number;
+  data?: any;
+  /** Version an update was based on */
+  version?: number;
+  relation?: { sourceId: number | string; targetId: number | string; relationType: string };
+  createdAt: number;
+  status: 'pending' | 'conflict';
+  error?: string;
+}
+
+export interface MirroredResponse {
+  savedAt: number;
+  value: any;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open the database once, creating the object stores on first use
+ */
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+          db.createObjectStore(RESPONSES_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[OfflineDb] IndexedDB unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Run one request against an object store
+ */
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const offlineDb = {
+  async getResponse(key: string): Promise<MirroredResponse | undefined> {
+    return run<MirroredResponse>(RESPONSES_STORE, 'readonly', store => store.get(key));
+  },
+
+  async saveResponse(key: string, value: any): Promise<void> {
+    await run(RESPONSES_STORE, 'readwrite', store => store.put({ savedAt: Date.now(), value }, key));
+  },
+
+  async listOutbox(): Promise<OutboxEntry[]> {
+    return (await run<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll())) || [];
+  },
+
+  async addOutbox(entry: OutboxEntry): Promise<number | undefined> {
+    return run<IDBValidKey>(OUTBOX_STORE, 'readwrite', store => store.add(entry)) as Promise<number | undefined>;
+  },
+
+  async putOutbox(entry: OutboxEntry): Promise<void> {
+    await run(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+  },
+
+  async deleteOutbox(id: number): Promise<void> {
+    await run(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+  },
+};
+
+export default offlineDb;
@@ -0,0 +1,366 @@
+/**
+ * Offline Sync Service
+ *
+ * Tracks connectivity, serves mirrored responses when the backend cannot be
+ * reached and keeps mutations made offline in a durable outbox. The outbox is
+ * replayed in order on reconnect; entries the backend refuses are kept as
+ * conflicts until the user retries or discards them.
+ */
+
+import { ApiError } from './apiError';
+import { entityStore } from './entityStore';
+import { offlineDb, OutboxEntry } from './offlineDb';
+import { requestCache } from './requestCache';
+import { runtimeConfig } from './runtimeConfig';
+import { ifMatch } from './versioning';
+
+export interface SyncRequest {
+  method: 'post' | 'put' | 'delete';
+  url: string;
+  data?: any;
+  headers?: Record<string, string>;
+}
+
+export type SyncTransport = (request: SyncRequest) => Promise<any>;
+
+/**
+ * Outbox entry as described by the API services
+ */
+export type OutboxDraft = Omit<OutboxEntry, 'id' | 'profileId' | 'createdAt' | 'status'>;
+
+export interface OfflineStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: OutboxEntry[];
+  lastSyncAt: number | null;
+}
+
+/**
+ * Whether a failure means the backend could not be reached at all
+ */
+export const isNetworkFailure = (failure: any): boolean => {
+  if (!failure) return false;
+  // Service responses only carry a network failure through their apiError
+  const isServiceResponse = typeof failure === 'object' && 'success' in failure;
+  const apiError = isServiceResponse ? failure.apiError : ApiError.from(failure, '');
+  return apiError instanceof ApiError && (apiError.kind === 'network' || apiError.kind === 'timeout');
+};
+
+/**
+ * HTTP request replaying an outbox entry
+ */
+const toRequest = (entry: OutboxEntry): SyncRequest => {
+  switch (entry.kind) {
+    case 'create':
+      return { method: 'post', url: entry.endpoint, data: entry.data };
+    case 'update':
+      return { method: 'put', url: `${entry.endpoint}/${entry.entityId}`, data: entry.data, headers: ifMatch(entry.version) };
+    case 'delete':
+      return { method: 'delete', url: `${entry.endpoint}/${entry.entityId}` };
+    case 'relation-create':
+      return { method: 'post', url: entry.endpoint, data: entry.relation };
+    case 'relation-delete': {
+      const { sourceId, targetId, relationType } = entry.relation!;
+      return { method: 'delete', url: `${entry.endpoint}/${sourceId}/${targetId}/${relationType}` };
+    }
+  }
+};
+
+class OfflineSync {
+  private online = typeof navigator === 'undefined' ? true : navigator.onLine;
+  private syncing = false;
+  private entries: OutboxEntry[] = [];
+  private lastSyncAt: number | null = null;
+  private transport: SyncTransport | null = null;
+  private listeners = new Set<() => void>();
+  private nextLocalId = 1;
+  private nextTempId = -1;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = offlineDb.listOutbox()
+      .then((entries) => {
+        this.entries = entries;
+        this.nextLocalId = entries.reduce((max, entry) => Math.max(max, (entry.id || 0) + 1), 1);
+        this.nextTempId = entries.reduce((min, entry) => Math.min(min, (entry.entityId || 0) - 1), -1);
+        this.notify();
+      })
+      .catch((error) => console.warn('[OfflineSync] Could not load outbox:', error));
+
+    // The outbox is kept per backend profile
+    runtimeConfig.subscribe(() => {
+      this.notify();
+      this.sync();
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.setOnline(true));
+      window.addEventListener('offline', () => this.setOnline(false));
+    }
+  }
+
+  /**
+   * Set how outbox entries are sent to the backend
+   */
+  setTransport(transport: SyncTransport) {
+    this.transport = transport;
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  getStatus(): OfflineStatus {
+    const mine = this.entries.filter(entry => entry.profileId === runtimeConfig.getActiveProfile().id);
+    return {
+      online: this.online,
+      syncing: this.syncing,
+      pending: mine.filter(entry => entry.status === 'pending').length,
+      conflicts: mine.filter(entry => entry.status === 'conflict'),
+      lastSyncAt: this.lastSyncAt,
+    };
+  }
+
+  /**
+   * Listen to status changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record the outcome of a network call
+   */
+  reportNetworkFailure() {
+    this.setOnline(false);
+  }
+
+  reportNetworkSuccess() {
+    this.setOnline(true);
+  }
+
+  // ---- Reads ----
+
+  /**
+   * Run a read, mirror its successful answer and fall back to the mirror
+   * when the backend cannot be reached
+   */
+  async mirrored<T extends { success: boolean }>(key: string, load: () => Promise<T>, endpoint?: string): Promise<T> {
+    const mirrorKey = `${runtimeConfig.getActiveProfile().id}|${key}`;
+    const response = await load();
+
+    if (response.success) {
+      this.reportNetworkSuccess();
+      offlineDb.saveResponse(mirrorKey, response).catch(error => console.warn('[OfflineSync] Mirror write failed:', error));
+      return response;
+    }
+
+    if (!isNetworkFailure(response)) {
+      return response;
+    }
+
+    this.reportNetworkFailure();
+    const mirror = await offlineDb.getResponse(mirrorKey).catch(() => undefined);
+    if (!mirror) {
+      return response;
+    }
+    console.log(`[OfflineSync] Serving ${key} from the offline mirror (${new Date(mirror.savedAt).toLocaleString()})`);
+    const value = endpoint ? this.overlayPending(endpoint, mirror.value) : mirror.value;
+    return { ...value, offline: true, mirroredAt: mirror.savedAt };
+  }
+
+  /**
+   * Apply queued mutations of an endpoint on top of a mirrored list response
+   */
+  private overlayPending(endpoint: string, response: any): any {
+    const items: any[] = Array.isArray(response?.data?.data) ? response.data.data : null;
+    if (!items) return response;
+
+    let result = [...items];
+    this.entries
+      .filter(entry => entry.endpoint === endpoint && entry.status === 'pending')
+      .forEach((entry) => {
+        if (entry.kind === 'create') {
+          result = [{ ...entry.data, id: entry.entityId }, ...result];
+        } else if (entry.kind === 'update') {
+          result = result.map(item => (item.id === entry.entityId ? { ...item, ...entry.data } : item));
+        } else if (entry.kind === 'delete') {
+          result = result.filter(item => item.id !== entry.entityId);
+        }
+      });
+
+    return { ...response, data: { ...response.data, data: result, total: result.length } };
+  }
+
+  // ---- Outbox ----
+
+  /**
+   * Queue a mutation made offline; creates get a temporary negative id
+   */
+  async enqueue(entry: OutboxDraft): Promise<OutboxEntry> {
+    await this.ready;
+    const queued: OutboxEntry = {
+      ...entry,
+      entityId: entry.kind === 'create' ? this.nextTempId-- : entry.entityId,
+      profileId: runtimeConfig.getActiveProfile().id,
+      createdAt: Date.now(),
+      status: 'pending',
+    };
+    queued.id = (await offlineDb.addOutbox(queued).catch(() => undefined)) ?? this.nextLocalId++;
+    this.entries.push(queued);
+    this.notify();
+    return queued;
+  }
+
+  /**
+   * Replay pending entries of the active profile, oldest first
+   */
+  async sync(): Promise<void> {
+    await this.ready;
+    if (this.syncing || !this.transport) return;
+
+    const profileId = runtimeConfig.getActiveProfile().id;
+    if (!this.entries.some(entry => entry.profileId === profileId && entry.status === 'pending')) return;
+
+    this.syncing = true;
+    this.notify();
+
+    try {
+      const queue = this.entries
+        .filter(entry => entry.profileId === profileId && entry.status === 'pending')
+        .map(entry => entry.id)
+        .sort((a, b) => (a || 0) - (b || 0));
+
+      for (const entryId of queue) {
+        // Re-read the entry: earlier replays may have remapped its ids
+        const entry = this.entries.find(item => item.id === entryId);
+        if (!entry || entry.status !== 'pending') continue;
+        try {
+          const response = await this.transport(toRequest(entry));
+          await this.applied(entry, response?.data);
+        } catch (error) {
+          if (isNetworkFailure(error)) {
+            this.reportNetworkFailure();
+            break;
+          }
+          const apiError = ApiError.from(error, 'Synchronisation refusée par le serveur');
+          // Without a valid session the entries wait for the next login
+          if (apiError.kind === 'unauthorized') break;
+          await this.update({ ...entry, status: 'conflict', error: apiError.message });
+        }
+      }
+
+      this.lastSyncAt = Date.now();
+      requestCache.invalidate();
+    } finally {
+      this.syncing = false;
+      this.notify();
+    }
+  }
+
+  /**
+   * Queue a conflicting entry again and replay
+   */
+  async retry(entryId: number) {
+    const entry = this.entries.find(item => item.id === entryId);
+    if (!entry) return;
+    await this.update({ ...entry, status: 'pending', error: undefined });
+    await this.sync();
+  }
+
+  /**
+   * Drop an entry and forget its local effect
+   */
+  async discard(entryId: number) {
+    const entry = this.entries.find(item => item.id === entryId);
+    if (!entry) return;
+    await this.remove(entry);
+    if (entry.kind === 'create' && entry.entityType && entry.entityId !== undefined) {
+      entityStore.removeEntity(entry.entityType, entry.entityId);
+    }
+    requestCache.invalidate();
+  }
+
+  // ---- Internals ----
+
+  private setOnline(online: boolean) {
+    if (this.online === online) return;
+    this.online = online;
+    this.notify();
+    if (online) {
+      this.sync();
+    }
+  }
+
+  /**
+   * Entry accepted by the backend: update the store and remap temporary ids
+   */
+  private async applied(entry: OutboxEntry, body: any) {
+    await this.remove(entry);
+
+    // Later updates of the record were based on the version just replaced
+    const version = body?.data?.version;
+    if (entry.kind === 'update' && version !== undefined) {
+      for (const other of this.entries) {
+        if (other.kind === 'update' && other.endpoint === entry.endpoint && other.entityId === entry.entityId && other.version !== undefined) {
+          await this.update({ ...other, version });
+        }
+      }
+    }
+
+    if (entry.kind !== 'create' || !entry.entityType || entry.entityId === undefined) return;
+    const created = body?.data;
+    if (!created || created.id === undefined) return;
+
+    entityStore.removeEntity(entry.entityType, entry.entityId);
+    entityStore.upsertEntity(entry.entityType, created);
+
+    // Later entries may still reference the temporary id
+    const tempId = entry.entityId;
+    const realId = Number(created.id);
+    const remap = (id: number | string) => (Number(id) === tempId ? realId : id);
+    for (const other of this.entries) {
+      const touchesEntity = other.entityId === tempId && other.endpoint === entry.endpoint;
+      const touchesRelation = other.relation
+        && (Number(other.relation.sourceId) === tempId || Number(other.relation.targetId) === tempId);
+      if (touchesEntity || touchesRelation) {
+        await this.update({
+          ...other,
+          entityId: touchesEntity ? realId : other.entityId,
+          relation: other.relation && {
+            ...other.relation,
+            sourceId: remap(other.relation.sourceId),
+            targetId: remap(other.relation.targetId),
+          },
+        });
+      }
+    }
+  }
+
+  private async update(entry: OutboxEntry) {
+    this.entries = this.entries.map(item => (item.id === entry.id ? entry : item));
+    await offlineDb.putOutbox(entry).catch(error => console.warn('[OfflineSync] Outbox write failed:', error));
+    this.notify();
+  }
+
+  private async remove(entry: OutboxEntry) {
+    this.entries = this.entries.filter(item => item.id !== entry.id);
+    if (entry.id !== undefined) {
+      await offlineDb.deleteOutbox(entry.id).catch(error => console.warn('[OfflineSync] Outbox write failed:', error));
+    }
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Create a singleton instance
+export const offlineSync = new OfflineSync();
+
+export default offlineSync;
@@ -0,0 +1,45 @@
+/**
+ * Roles and Permissions
+ *
+ * Roles are ordered: each one grants the permissions of the previous ones.
+ * The same table is used by the UI to hide actions and by the mock backend
+ * to refuse them.
+ */
+
+export type Role = 'viewer' | 'contributor' | 'curator' | 'admin';
+
+export type Permission =
+  | 'entity:create'
+  | 'entity:update'
+  | 'entity:delete'
+  | 'relation:create'
+  | 'relation:delete'
+  | 'batch:import'
+  | 'cypher:execute';
+
+// From the least to the most privileged
+export const ROLES: Role[] = ['viewer', 'contributor', 'curator', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Lecteur',
+  contributor: 'Contributeur',
+  curator: 'Conservateur',
+  admin: 'Administrateur',
+};
+
+// Lowest role granted each permission
+const REQUIRED_ROLES: Record<Permission, Role> = {
+  'entity:create': 'contributor',
+  'entity:update': 'contributor',
+  'relation:create': 'contributor',
+  'entity:delete': 'curator',
+  'relation:delete': 'curator',
+  'batch:import': 'curator',
+  'cypher:execute': 'admin',
+};
+
+/**
+ * Whether a role (or an anonymous visitor, `null`) holds a permission
+ */
+export const hasPermission = (role: Role | null | undefined, permission: Permission): boolean =>
+  !!role && ROLES.indexOf(role) >= ROLES.indexOf(REQUIRED_ROLES[permission]);
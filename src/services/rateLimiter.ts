@@ -3,37 +3,223 @@
  * 
  * This service helps prevent API rate limiting errors by managing request timing
  * and preventing too many simultaneous requests to the backend.
+ * Every request owns an AbortController, so a single queued or in-flight
+ * request can be cancelled without touching the others.
+ * Requests are served by priority lane; waiting requests are promoted over
+ * time so background prefetches are never starved.
  */
 
+import { useEffect, useMemo, useRef } from 'react';
+import { ApiError, parseRetryAfter } from './apiError';
+
 interface RequestQueue {
   id: string;
-  request: () => Promise<any>;
+  request: (signal: AbortSignal) => Promise<any>;
   resolve: (value: any) => void;
   reject: (error: any) => void;
+  controller: AbortController;
+  policy: RetryPolicy | null;
+  priority: RequestPriority;
+  enqueuedAt: number;
+  attempt: number;
+  retryAt?: number;
+  retryTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Priority lanes: user-facing calls first, prefetches last
+ */
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  background: 2,
+};
+
+const STARVATION_STEP = 3000; // A waiting request moves up one lane per elapsed step
+
+export interface RetryPolicy {
+  /**
+   * Number of retries after the first attempt
+   */
+  retries: number;
+
+  /**
+   * Base backoff delay in milliseconds, doubled on each attempt
+   */
+  baseDelay: number;
+
+  /**
+   * Upper bound of the computed backoff (Retry-After is always honored)
+   */
+  maxDelay: number;
+
+  /**
+   * HTTP statuses that trigger a retry
+   */
+  statuses: number[];
+}
+
+export interface RateLimitOptions {
+  /**
+   * External signal: aborting it cancels the request, queued or in flight
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Retry policy overrides, or false to never retry this request
+   */
+  retry?: Partial<RetryPolicy> | false;
+
+  /**
+   * Priority lane, 'normal' by default
+   */
+  priority?: RequestPriority;
+}
+
+/**
+ * Why a request has not started yet
+ */
+export type WaitReason = 'retry-backoff' | 'paused' | 'concurrency' | 'priority' | 'spacing';
+
+export interface QueueEntry {
+  id: string;
+  priority: RequestPriority;
+  effectivePriority: RequestPriority;
+  waitedMs: number;
+  attempt: number;
+  reason: WaitReason;
+  retryAt?: number;
+}
+
+export interface PendingRetry {
+  id: string;
+  attempt: number;
+  retryAt: number;
 }
 
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 15000,
+  statuses: [429, 503],
+};
+
+const MAX_SLOWDOWN = 8; // Highest multiplier applied to requestDelay after rate-limit responses
+
+/**
+ * Error used to reject cancelled requests
+ */
+const cancelledError = (id: string) => new ApiError('cancelled', `Requête annulée : ${id}`);
+
+/**
+ * Status and Retry-After of a failed outcome: a thrown axios error,
+ * an ApiError or a service response carrying `apiError`
+ */
+const failureInfo = (outcome: any): { status?: number; retryAfterMs?: number } => {
+  const apiError = outcome instanceof ApiError ? outcome : outcome?.apiError;
+  if (apiError instanceof ApiError) {
+    return { status: apiError.status, retryAfterMs: apiError.retryAfterMs };
+  }
+  if (outcome?.response) {
+    return {
+      status: outcome.response.status,
+      retryAfterMs: parseRetryAfter(outcome.response.headers?.['retry-after']),
+    };
+  }
+  return {};
+};
+
+/**
+ * Exponential backoff with jitter, unless the server said when to come back
+ */
+const backoffDelay = (policy: RetryPolicy, attempt: number, retryAfterMs?: number): number => {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
 class RateLimiter {
   private queue: RequestQueue[] = [];
   private isProcessing = false;
   private requestDelay = 200; // Delay between requests in milliseconds
   private maxConcurrent = 3; // Maximum concurrent requests
   private activeRequests = 0;
+  private inFlight = new Set<RequestQueue>();
+  private waiting = new Set<RequestQueue>();
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private slowdown = 1; // Multiplier on requestDelay, raised by rate-limit responses
+  private pausedUntil = 0; // No request starts before this timestamp
+  private resumeTimer?: ReturnType<typeof setTimeout>;
+  private listeners = new Set<() => void>();
 
   /**
    * Add a request to the queue
+   *
+   * The request receives the AbortSignal it must hand to axios.
    */
-  async addRequest<T>(id: string, request: () => Promise<T>): Promise<T> {
+  async addRequest<T>(
+    id: string,
+    request: (signal: AbortSignal) => Promise<T>,
+    options: RateLimitOptions = {}
+  ): Promise<T> {
     return new Promise((resolve, reject) => {
-      this.queue.push({
+      const controller = new AbortController();
+      const policy = options.retry === false ? null : { ...this.retryPolicy, ...options.retry };
+      const { signal } = options;
+      const forwardAbort = () => controller.abort();
+      // Detach from the caller's signal once settled, it may outlive the request
+      const release = () => signal?.removeEventListener('abort', forwardAbort);
+      const item: RequestQueue = {
         id,
         request,
-        resolve,
-        reject,
-      });
+        resolve: value => {
+          release();
+          resolve(value);
+        },
+        reject: error => {
+          release();
+          reject(error);
+        },
+        controller,
+        policy,
+        priority: options.priority || 'normal',
+        enqueuedAt: Date.now(),
+        attempt: 0,
+      };
+
+      if (signal?.aborted) {
+        reject(cancelledError(id));
+        return;
+      }
+
+      signal?.addEventListener('abort', forwardAbort, { once: true });
+      controller.signal.addEventListener('abort', () => this.dropQueued(item), { once: true });
+
+      this.queue.push(item);
+      this.notify();
       this.processQueue();
     });
   }
 
+  /**
+   * Remove an aborted request that has not started yet or waits for a retry
+   */
+  private dropQueued(item: RequestQueue) {
+    if (this.waiting.has(item)) {
+      clearTimeout(item.retryTimer);
+      this.waiting.delete(item);
+    } else {
+      const index = this.queue.indexOf(item);
+      if (index === -1) return;
+      this.queue.splice(index, 1);
+    }
+    console.log(`[RateLimiter] Request cancelled before start: ${item.id}`);
+    item.reject(cancelledError(item.id));
+    this.notify();
+  }
+
   /**
    * Process the request queue
    */
@@ -42,10 +228,22 @@ class RateLimiter {
       return;
     }
 
+    // Back off globally after rate-limit responses
+    const pause = this.pausedUntil - Date.now();
+    if (pause > 0) {
+      if (!this.resumeTimer) {
+        this.resumeTimer = setTimeout(() => {
+          this.resumeTimer = undefined;
+          this.processQueue();
+        }, pause);
+      }
+      return;
+    }
+
     this.isProcessing = true;
 
     while (this.queue.length > 0 && this.activeRequests < this.maxConcurrent) {
-      const item = this.queue.shift();
+      const item = this.takeNext();
       if (!item) break;
 
       this.activeRequests++;
@@ -53,29 +251,142 @@ class RateLimiter {
 
       // Add delay between starting requests
       if (this.queue.length > 0) {
-        await this.delay(this.requestDelay);
+        await this.delay(this.currentDelay());
       }
     }
 
     this.isProcessing = false;
   }
 
+  /**
+   * Effective lane of a queued request, promoted while it waits
+   */
+  private effectiveRank(item: RequestQueue, now: number): number {
+    const promotion = Math.floor((now - item.enqueuedAt) / STARVATION_STEP);
+    return Math.max(0, PRIORITY_RANK[item.priority] - promotion);
+  }
+
+  /**
+   * Remove and return the queued request to start next: best effective lane,
+   * then oldest first
+   */
+  private takeNext(): RequestQueue | undefined {
+    const now = Date.now();
+    let bestIndex = -1;
+    this.queue.forEach((item, index) => {
+      if (bestIndex === -1) {
+        bestIndex = index;
+        return;
+      }
+      const best = this.queue[bestIndex];
+      const rank = this.effectiveRank(item, now);
+      const bestRank = this.effectiveRank(best, now);
+      if (rank < bestRank || (rank === bestRank && item.enqueuedAt < best.enqueuedAt)) {
+        bestIndex = index;
+      }
+    });
+    return bestIndex === -1 ? undefined : this.queue.splice(bestIndex, 1)[0];
+  }
+
   /**
    * Execute a single request
    */
   private async executeRequest(item: RequestQueue) {
+    this.inFlight.add(item);
+    this.notify();
+
+    let outcome: any;
+    let thrown = false;
     try {
       console.log(`[RateLimiter] Executing request: ${item.id}`);
-      const result = await item.request();
-      item.resolve(result);
+      outcome = await item.request(item.controller.signal);
     } catch (error) {
-      console.error(`[RateLimiter] Request failed: ${item.id}`, error);
-      item.reject(error);
-    } finally {
-      this.activeRequests--;
-      // Continue processing queue after this request completes
-      setTimeout(() => this.processQueue(), this.requestDelay / 2);
+      outcome = error;
+      thrown = true;
     }
+
+    this.inFlight.delete(item);
+    this.activeRequests--;
+
+    if (item.controller.signal.aborted) {
+      item.reject(cancelledError(item.id));
+    } else if (thrown || outcome?.success === false) {
+      this.handleFailure(item, outcome, thrown);
+    } else {
+      this.relax();
+      item.resolve(outcome);
+    }
+
+    this.notify();
+    // Continue processing queue after this request completes
+    setTimeout(() => this.processQueue(), this.currentDelay() / 2);
+  }
+
+  /**
+   * Retry rate-limited failures, settle everything else
+   */
+  private handleFailure(item: RequestQueue, outcome: any, thrown: boolean) {
+    const { status, retryAfterMs } = failureInfo(outcome);
+    const rateLimited = status !== undefined && !!item.policy?.statuses.includes(status);
+
+    if (rateLimited && item.policy) {
+      const wait = backoffDelay(item.policy, item.attempt, retryAfterMs);
+      this.tighten(wait);
+
+      if (item.attempt < item.policy.retries) {
+        console.warn(`[RateLimiter] ${item.id} got ${status}, retry ${item.attempt + 1}/${item.policy.retries} in ${wait}ms`);
+        this.scheduleRetry(item, wait);
+        return;
+      }
+    }
+
+    if (thrown) {
+      console.error(`[RateLimiter] Request failed: ${item.id}`, outcome);
+      item.reject(outcome);
+    } else {
+      item.resolve(outcome);
+    }
+  }
+
+  /**
+   * Put a request back in the queue once its backoff elapsed. It keeps its
+   * original enqueue time, so takeNext starts it before the requests of its
+   * lane queued after it.
+   */
+  private scheduleRetry(item: RequestQueue, wait: number) {
+    item.attempt++;
+    item.retryAt = Date.now() + wait;
+    this.waiting.add(item);
+    item.retryTimer = setTimeout(() => {
+      this.waiting.delete(item);
+      item.retryAt = undefined;
+      item.retryTimer = undefined;
+      this.queue.push(item);
+      this.notify();
+      this.processQueue();
+    }, wait);
+  }
+
+  /**
+   * Slow every request down after a rate-limit response
+   */
+  private tighten(wait: number) {
+    this.slowdown = Math.min(MAX_SLOWDOWN, this.slowdown * 2);
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+  }
+
+  /**
+   * Recover speed progressively after successful requests
+   */
+  private relax() {
+    this.slowdown = Math.max(1, this.slowdown * 0.75);
+  }
+
+  /**
+   * Delay between request starts, including the rate-limit slowdown
+   */
+  private currentDelay(): number {
+    return Math.round(this.requestDelay * this.slowdown);
   }
 
   /**
@@ -85,6 +396,59 @@ class RateLimiter {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Notify status listeners
+   */
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Describe every request that has not started yet, in start order
+   */
+  inspect(): QueueEntry[] {
+    const now = Date.now();
+    const lanes = Object.keys(PRIORITY_RANK) as RequestPriority[];
+    const paused = this.pausedUntil > now;
+    const slotsFree = this.activeRequests < this.maxConcurrent;
+
+    const ordered = [...this.queue].sort((a, b) =>
+      this.effectiveRank(a, now) - this.effectiveRank(b, now) || a.enqueuedAt - b.enqueuedAt
+    );
+
+    const queued = ordered.map((item, index): QueueEntry => {
+      const rank = this.effectiveRank(item, now);
+      let reason: WaitReason;
+      if (paused) {
+        reason = 'paused';
+      } else if (!slotsFree) {
+        reason = index > 0 && this.effectiveRank(ordered[0], now) < rank ? 'priority' : 'concurrency';
+      } else {
+        reason = 'spacing';
+      }
+      return {
+        id: item.id,
+        priority: item.priority,
+        effectivePriority: lanes[rank],
+        waitedMs: now - item.enqueuedAt,
+        attempt: item.attempt,
+        reason,
+      };
+    });
+
+    const retrying = [...this.waiting].map((item): QueueEntry => ({
+      id: item.id,
+      priority: item.priority,
+      effectivePriority: item.priority,
+      waitedMs: now - item.enqueuedAt,
+      attempt: item.attempt,
+      reason: 'retry-backoff',
+      retryAt: item.retryAt,
+    }));
+
+    return [...queued, ...retrying];
+  }
+
   /**
    * Get queue status
    */
@@ -93,17 +457,50 @@ class RateLimiter {
       queueLength: this.queue.length,
       activeRequests: this.activeRequests,
       isProcessing: this.isProcessing,
+      pendingRetries: [...this.waiting].map((item): PendingRetry => ({
+        id: item.id,
+        attempt: item.attempt,
+        retryAt: item.retryAt || Date.now(),
+      })),
+      slowdown: this.slowdown,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : null,
+      maxConcurrent: this.maxConcurrent,
+    };
+  }
+
+  /**
+   * Retry policy of requests without overrides, as set by updateSettings
+   */
+  getRetryPolicy(): RetryPolicy {
+    return this.retryPolicy;
+  }
+
+  /**
+   * Listen to queue status changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
     };
   }
 
   /**
-   * Clear the queue (useful for component unmounting)
+   * Cancel every queued, waiting or in-flight request with the given id
+   */
+  cancel(id: string) {
+    [...this.queue, ...this.waiting, ...this.inFlight]
+      .filter(item => item.id === id)
+      .forEach(item => item.controller.abort());
+  }
+
+  /**
+   * Clear the queue and abort in-flight requests of every caller
+   *
+   * Components should prefer the scoped cancellation of `useRateLimit`.
    */
   clearQueue() {
-    this.queue.forEach(item => {
-      item.reject(new Error('Request cancelled'));
-    });
-    this.queue = [];
+    [...this.queue, ...this.waiting, ...this.inFlight].forEach(item => item.controller.abort());
   }
 
   /**
@@ -112,6 +509,7 @@ class RateLimiter {
   updateSettings(settings: {
     requestDelay?: number;
     maxConcurrent?: number;
+    retry?: Partial<RetryPolicy>;
   }) {
     if (settings.requestDelay !== undefined) {
       this.requestDelay = settings.requestDelay;
@@ -119,6 +517,9 @@ class RateLimiter {
     if (settings.maxConcurrent !== undefined) {
       this.maxConcurrent = settings.maxConcurrent;
     }
+    if (settings.retry !== undefined) {
+      this.retryPolicy = { ...this.retryPolicy, ...settings.retry };
+    }
   }
 }
 
@@ -128,19 +529,98 @@ export const rateLimiter = new RateLimiter();
 /**
  * Wrapper function to easily add requests to the rate limiter
  */
-export const withRateLimit = <T>(id: string, request: () => Promise<T>): Promise<T> => {
-  return rateLimiter.addRequest(id, request);
+export const withRateLimit = <T>(
+  id: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  options: RateLimitOptions = {}
+): Promise<T> => {
+  return rateLimiter.addRequest(id, request, options);
+};
+
+/**
+ * Whether an error or failed response comes from a cancelled request
+ */
+export const isCancelled = (error: any): boolean => {
+  const apiError = error instanceof ApiError ? error : error?.apiError;
+  return apiError instanceof ApiError && apiError.kind === 'cancelled';
 };
 
+/**
+ * When a failed call hit by rate limiting can be tried again, or null
+ *
+ * Used to offer an automatic retry once the limiter gave up.
+ */
+export const nextRetryAt = (failure: any): number | null => {
+  const { status, retryAfterMs } = failureInfo(failure);
+  const policy = rateLimiter.getRetryPolicy();
+  if (status === undefined || !policy.statuses.includes(status)) return null;
+  const { pausedUntil } = rateLimiter.getStatus();
+  return Math.max(Date.now() + (retryAfterMs ?? policy.maxDelay), pausedUntil || 0);
+};
+
+/**
+ * Set of abort controllers owned by one component
+ */
+export class RequestScope {
+  private controllers = new Set<AbortController>();
+  private latest = new Map<string, AbortController>();
+
+  /**
+   * Run a request with a signal of this scope. With a key, the request
+   * supersedes the previous one of the same key. The signal is released once
+   * the request settles.
+   */
+  async run<T>(request: (signal: AbortSignal) => Promise<T>, key?: string): Promise<T> {
+    if (key) this.cancel(key);
+    const controller = new AbortController();
+    this.controllers.add(controller);
+    if (key) this.latest.set(key, controller);
+    try {
+      return await request(controller.signal);
+    } finally {
+      this.controllers.delete(controller);
+      if (key && this.latest.get(key) === controller) this.latest.delete(key);
+    }
+  }
+
+  /**
+   * Cancel the running request of a key, if any
+   */
+  cancel(key: string) {
+    this.latest.get(key)?.abort();
+  }
+
+  /**
+   * Cancel every request started from this scope
+   */
+  cancelAll() {
+    this.controllers.forEach(controller => controller.abort());
+  }
+}
+
 /**
  * Hook for React components to use rate limiter
+ *
+ * Requests started through the returned scope are cancelled on unmount,
+ * without affecting requests of other components.
  */
 export const useRateLimit = () => {
-  return {
-    addRequest: rateLimiter.addRequest.bind(rateLimiter),
+  const scopeRef = useRef<RequestScope | null>(null);
+  if (!scopeRef.current) {
+    scopeRef.current = new RequestScope();
+  }
+  const scope = scopeRef.current;
+
+  useEffect(() => () => scope.cancelAll(), [scope]);
+
+  return useMemo(() => ({
+    addRequest: <T>(id: string, request: (signal: AbortSignal) => Promise<T>, options: Omit<RateLimitOptions, 'signal'> = {}) =>
+      scope.run(signal => rateLimiter.addRequest(id, request, { ...options, signal })),
+    run: <T>(request: (signal: AbortSignal) => Promise<T>, key?: string) => scope.run(request, key),
+    cancel: (key: string) => scope.cancel(key),
+    cancelAll: () => scope.cancelAll(),
     getStatus: rateLimiter.getStatus.bind(rateLimiter),
-    clearQueue: rateLimiter.clearQueue.bind(rateLimiter),
-  };
+  }), [scope]);
 };
 
 export default rateLimiter;
\ No newline at end of file
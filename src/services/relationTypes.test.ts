@@ -0,0 +1,34 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { getRelationType, relationTypeRegistry } from './relationTypes';
+
+beforeEach(() => {
+  // Switching profile also empties the registry
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+  relationTypeRegistry.clear();
+});
+
+describe('relation type registry', () => {
+  test('takes the constraints from the backend and the display from the overrides', async () => {
+    await relationTypeRegistry.load();
+    expect(relationTypeRegistry.getSnapshot().loaded).toBe(true);
+
+    const fabrique = getRelationType('fabrique');
+    expect(fabrique).toMatchObject({ from: ['Artisan'], to: ['Instrument'], cardinality: 'N:N', declared: true });
+    expect(fabrique.label).toBe('Fabrique');
+    expect(fabrique.inverseLabel).toBe('Fabriqué par');
+  });
+
+  test('lists the types allowed between two entity types', async () => {
+    await relationTypeRegistry.load();
+    expect(relationTypeRegistry.allowedBetween('Instrument', 'Localite').map(({ type }) => type)).toEqual(['localiseA']);
+    expect(relationTypeRegistry.allowedBetween('Localite', 'Instrument')).toEqual([]);
+  });
+
+  test('describes undeclared types without constraints', () => {
+    expect(getRelationType('appartientA')).toMatchObject({ label: 'Appartient à', declared: false, from: [] });
+    expect(getRelationType('inconnu')).toMatchObject({ label: 'inconnu', color: 'default', declared: false });
+  });
+});
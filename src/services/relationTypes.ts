@@ -0,0 +1,222 @@
+/**
+ * Relation Type Registry
+ *
+ * Relation types of the ontology with their domain, range and cardinality,
+ * hydrated from `/relations/types`. The backend owns the constraints; the
+ * local overrides below only describe how a type is displayed (label,
+ * inverse label, icon, colors). The relationship manager and both graph
+ * views read the registry, so they always agree with the backend.
+ */
+
+import type { SvgIconComponent } from '@mui/icons-material';
+import {
+  AccountBalance,
+  Build,
+  Category,
+  Language,
+  Link,
+  LocationOn,
+  MusicNote,
+  Palette,
+  Person,
+  TouchApp,
+  TrendingUp,
+} from '@mui/icons-material';
+import { relationsApi } from './api';
+import type { RelationType } from './api';
+import type { EntityColor } from './entityTypes';
+import { runtimeConfig } from './runtimeConfig';
+
+export type RelationCardinality = RelationType['constraints']['cardinality'];
+
+export interface RelationDisplay {
+  /** Label read from source to target (`fabrique`) */
+  label: string;
+  /** Label read from target to source (`fabriqué par`) */
+  inverseLabel: string;
+  icon: SvgIconComponent;
+  color: EntityColor | 'default';
+  /** Edge color in the graph views */
+  graphColor: string;
+}
+
+export interface RelationTypeDefinition extends RelationDisplay {
+  type: string;
+  description: string;
+  /** Allowed source types */
+  from: string[];
+  /** Allowed target types */
+  to: string[];
+  cardinality: RelationCardinality;
+  /** Declared by the backend, as opposed to only seen in relations */
+  declared: boolean;
+}
+
+export const RELATION_DISPLAY_OVERRIDES: Record<string, RelationDisplay> = {
+  appartientA: { label: 'Appartient à', inverseLabel: 'Regroupe', icon: Category, color: 'primary', graphColor: '#1976d2' },
+  utilisePar: { label: 'Utilisé par', inverseLabel: 'Utilise', icon: Language, color: 'secondary', graphColor: '#2e7d32' },
+  produitRythme: { label: 'Produit le rythme', inverseLabel: 'Produit par', icon: TrendingUp, color: 'success', graphColor: '#e91e63' },
+  localiseA: { label: 'Localisé à', inverseLabel: 'Accueille', icon: LocationOn, color: 'info', graphColor: '#0288d1' },
+  constitueDe: { label: 'Constitué de', inverseLabel: 'Constitue', icon: Build, color: 'warning', graphColor: '#ed6c02' },
+  joueAvec: { label: 'Joué avec', inverseLabel: 'Permet de jouer', icon: TouchApp, color: 'error', graphColor: '#795548' },
+  fabrique: { label: 'Fabrique', inverseLabel: 'Fabriqué par', icon: Person, color: 'primary', graphColor: '#ff5722' },
+  caracterise: { label: 'Caractérise', inverseLabel: 'Caractérisé par', icon: MusicNote, color: 'secondary', graphColor: '#9c27b0' },
+  appliqueA: { label: 'S\'applique à', inverseLabel: 'Joué selon', icon: Palette, color: 'info', graphColor: '#f57c00' },
+  englobe: { label: 'Englobe', inverseLabel: 'Fait partie de', icon: AccountBalance, color: 'success', graphColor: '#607d8b' },
+};
+
+const defaultDisplay = (type: string): RelationDisplay => ({
+  label: type,
+  inverseLabel: type,
+  icon: Link,
+  color: 'default',
+  graphColor: '#666',
+});
+
+const undeclared = (type: string): RelationTypeDefinition => ({
+  type,
+  description: 'Relation personnalisée',
+  from: [],
+  to: [],
+  cardinality: 'N:N',
+  declared: false,
+  ...(RELATION_DISPLAY_OVERRIDES[type] || defaultDisplay(type)),
+});
+
+export const toRelationTypeDefinition = ({ type, constraints }: RelationType): RelationTypeDefinition => ({
+  type,
+  description: constraints.description || `Relation ${type}`,
+  from: constraints.from,
+  to: constraints.to,
+  cardinality: constraints.cardinality,
+  declared: true,
+  ...(RELATION_DISPLAY_OVERRIDES[type] || defaultDisplay(type)),
+});
+
+export interface RelationTypesSnapshot {
+  types: RelationTypeDefinition[];
+  loaded: boolean;
+  error: string | null;
+}
+
+class RelationTypeRegistry {
+  private snapshot: RelationTypesSnapshot = { types: [], loaded: false, error: null };
+  private byType = new Map<string, RelationTypeDefinition>();
+  private pending: Promise<void> | null = null;
+  // Bumped by clear() so an answer from the previous backend is ignored
+  private generation = 0;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Fetch the relation types once; later calls share the same request
+   */
+  load(): Promise<void> {
+    if (this.snapshot.loaded) return Promise.resolve();
+    if (!this.pending) {
+      const generation = this.generation;
+      this.pending = relationsApi.getTypes()
+        .then((response) => {
+          if (generation !== this.generation) return;
+          if (response.success) {
+            this.hydrate(response.data || []);
+          } else {
+            this.update({ ...this.snapshot, error: response.error || 'Failed to fetch relation types' });
+          }
+        })
+        .finally(() => {
+          if (generation === this.generation) this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Replace the registry content with the types declared by the backend
+   */
+  hydrate(types: RelationType[]) {
+    const definitions = types.map(toRelationTypeDefinition);
+    this.byType = new Map(definitions.map(definition => [definition.type, definition]));
+    this.update({ types: definitions, loaded: true, error: null });
+  }
+
+  getSnapshot(): RelationTypesSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Definition of a type; types the backend did not declare get their
+   * local display and no constraints
+   */
+  get(type: string): RelationTypeDefinition {
+    return this.byType.get(type) || undeclared(type);
+  }
+
+  /**
+   * Declared types allowed from a source type to a target type
+   */
+  allowedBetween(sourceType: string, targetType: string): RelationTypeDefinition[] {
+    return this.snapshot.types.filter(definition =>
+      definition.from.includes(sourceType) && definition.to.includes(targetType));
+  }
+
+  /**
+   * Drop the loaded types, e.g. when switching backend
+   */
+  clear() {
+    this.generation++;
+    this.pending = null;
+    this.byType.clear();
+    this.update({ types: [], loaded: false, error: null });
+  }
+
+  /**
+   * Listen to registry changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(snapshot: RelationTypesSnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Create a singleton instance
+export const relationTypeRegistry = new RelationTypeRegistry();
+
+// Another backend may declare other relation types
+runtimeConfig.subscribe(() => relationTypeRegistry.clear());
+
+/**
+ * Definition of a relation type, declared or not
+ */
+export const getRelationType = (type: string): RelationTypeDefinition => relationTypeRegistry.get(type);
+
+export interface RelationEnd {
+  definition: RelationTypeDefinition;
+  /** Outgoing when the entity type is the source */
+  direction: 'outgoing' | 'incoming';
+  /** Label read from the entity type's side */
+  label: string;
+}
+
+/**
+ * Relation types an entity type takes part in: as source first, then as target
+ */
+export const relationEndsOf = (
+  entityType: string,
+  types: RelationTypeDefinition[] = relationTypeRegistry.getSnapshot().types
+): RelationEnd[] => [
+  ...types
+    .filter(definition => definition.from.includes(entityType))
+    .map(definition => ({ definition, direction: 'outgoing' as const, label: definition.label })),
+  ...types
+    .filter(definition => definition.to.includes(entityType))
+    .map(definition => ({ definition, direction: 'incoming' as const, label: definition.inverseLabel })),
+];
+
+export default relationTypeRegistry;
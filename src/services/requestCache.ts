@@ -0,0 +1,201 @@
+/**
+ * Request Cache Service
+ *
+ * Client data layer shared by the API services:
+ * - identical requests in flight are coalesced into one network call
+ * - successful responses are kept with stale-while-revalidate semantics
+ * - mutations invalidate the keys of the endpoint they touched
+ */
+
+import { ApiError } from './apiError';
+
+const DEFAULT_STALE_TIME = 10 * 1000; // Served as is, without revalidation
+const DEFAULT_MAX_AGE = 5 * 60 * 1000; // Served while revalidating in the background
+
+interface InFlight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  subscribers: number;
+  background: boolean;
+}
+
+interface CacheEntry<T> {
+  hasValue: boolean;
+  value?: T;
+  fetchedAt: number;
+  inFlight?: InFlight<T>;
+}
+
+export interface CacheOptions {
+  /**
+   * Age in milliseconds under which the cached value is returned as is
+   */
+  staleTime?: number;
+
+  /**
+   * Age in milliseconds under which a stale value is returned and refreshed in the background
+   */
+  maxAge?: number;
+
+  /**
+   * Caller signal: the shared request is only aborted once every caller gave up
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Stable cache key for a path and its query parameters
+ */
+export const cacheKey = (path: string, params?: Record<string, any>): string => {
+  if (!params) return path;
+  const query = Object.keys(params)
+    .filter(key => params[key] !== undefined)
+    .sort()
+    .map(key => `${key}=${JSON.stringify(params[key])}`)
+    .join('&');
+  return query ? `${path}?${query}` : path;
+};
+
+/**
+ * Only successful responses are cached
+ */
+const isCacheable = (value: any): boolean => value?.success !== false;
+
+class RequestCache {
+  private entries = new Map<string, CacheEntry<any>>();
+
+  /**
+   * Get a value through the cache
+   *
+   * The loader receives the signal of the shared request.
+   */
+  fetch<T>(key: string, loader: (signal: AbortSignal) => Promise<T>, options: CacheOptions = {}): Promise<T> {
+    const { staleTime = DEFAULT_STALE_TIME, maxAge = DEFAULT_MAX_AGE, signal } = options;
+    const entry = this.entries.get(key);
+
+    if (entry?.hasValue) {
+      const age = Date.now() - entry.fetchedAt;
+      if (age < staleTime) {
+        return Promise.resolve(entry.value as T);
+      }
+      if (age < maxAge) {
+        if (!entry.inFlight) {
+          this.start(key, entry, loader, true);
+        }
+        return Promise.resolve(entry.value as T);
+      }
+    }
+
+    return this.join(key, loader, signal);
+  }
+
+  /**
+   * Drop every key starting with the prefix, or the whole cache
+   *
+   * Requests already in flight still answer their callers but are not stored.
+   */
+  invalidate(prefix?: string) {
+    if (prefix === undefined) {
+      this.entries.clear();
+      return;
+    }
+    Array.from(this.entries.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.entries.delete(key));
+  }
+
+  /**
+   * Attach a caller to the request in flight for the key, starting it if needed
+   */
+  private join<T>(key: string, loader: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new ApiError('cancelled', `Requête annulée : ${key}`));
+    }
+
+    let entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (!entry) {
+      entry = { hasValue: false, fetchedAt: 0 };
+      this.entries.set(key, entry);
+    }
+    const inFlight = entry.inFlight || this.start(key, entry, loader, false);
+    inFlight.subscribers++;
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        inFlight.subscribers--;
+        if (inFlight.subscribers === 0 && !inFlight.background) {
+          inFlight.controller.abort();
+        }
+        reject(new ApiError('cancelled', `Requête annulée : ${key}`));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      inFlight.promise.then(
+        (value) => {
+          if (settled) return;
+          settled = true;
+          inFlight.subscribers--;
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          if (settled) return;
+          settled = true;
+          inFlight.subscribers--;
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Start the shared request for a key and store its result when it succeeds
+   */
+  private start<T>(
+    key: string,
+    entry: CacheEntry<T>,
+    loader: (signal: AbortSignal) => Promise<T>,
+    background: boolean
+  ): InFlight<T> {
+    const controller = new AbortController();
+    const inFlight: InFlight<T> = {
+      controller,
+      subscribers: 0,
+      background,
+      promise: loader(controller.signal).then((value) => {
+        // Ignore answers for keys invalidated meanwhile
+        if (this.entries.get(key) === entry && isCacheable(value)) {
+          entry.value = value;
+          entry.hasValue = true;
+          entry.fetchedAt = Date.now();
+        }
+        return value;
+      }),
+    };
+
+    entry.inFlight = inFlight;
+    const release = () => {
+      if (entry.inFlight === inFlight) {
+        entry.inFlight = undefined;
+      }
+    };
+    inFlight.promise.then(release, (error) => {
+      release();
+      if (background) {
+        console.warn(`[RequestCache] Background revalidation failed: ${key}`, error);
+      }
+    });
+
+    return inFlight;
+  }
+}
+
+// Create a singleton instance
+export const requestCache = new RequestCache();
+
+export default requestCache;
@@ -0,0 +1,187 @@
+/**
+ * Runtime Configuration Service
+ *
+ * This service manages the backend environment profiles (local, staging, archive mirror, mock).
+ * Profiles come from the Vite environment variables and from a `config.json` file
+ * served next to the bundle, so the backend can be changed without a rebuild.
+ */
+
+export interface EnvironmentProfile {
+  id: string;
+  label: string;
+  apiBaseUrl: string;
+  description?: string;
+}
+
+interface RuntimeConfigFile {
+  defaultProfile?: string;
+  profiles?: EnvironmentProfile[];
+}
+
+type ProfileListener = (profile: EnvironmentProfile) => void;
+
+const STORAGE_KEY = 'ontology.activeProfile';
+const CONFIG_FILE = 'config.json';
+
+/**
+ * Base URL of the mock profile; requests sent to it never leave the browser
+ */
+export const MOCK_API_BASE_URL = 'mock://ontology/api';
+
+export const isMockBaseUrl = (baseURL?: string) => !!baseURL && baseURL.startsWith('mock://');
+
+/**
+ * Append the `/api` prefix to a backend origin
+ */
+const toApiBaseUrl = (origin: string) => `${origin.replace(/\/+$/, '')}/api`;
+
+/**
+ * Build the profiles declared through Vite environment variables
+ */
+const getEnvProfiles = (): EnvironmentProfile[] => {
+  const env = import.meta.env || {};
+  const profiles: EnvironmentProfile[] = [
+    {
+      id: 'local',
+      label: 'Local',
+      apiBaseUrl: toApiBaseUrl(env.REACT_APP_API_URL || 'http://localhost:3001'),
+      description: 'Backend de développement local',
+    },
+  ];
+
+  if (env.REACT_APP_STAGING_API_URL) {
+    profiles.push({
+      id: 'staging',
+      label: 'Staging',
+      apiBaseUrl: toApiBaseUrl(env.REACT_APP_STAGING_API_URL),
+      description: 'Serveur de pré-production',
+    });
+  }
+
+  if (env.REACT_APP_ARCHIVE_API_URL) {
+    profiles.push({
+      id: 'archive',
+      label: 'Miroir d\'archive',
+      apiBaseUrl: toApiBaseUrl(env.REACT_APP_ARCHIVE_API_URL),
+      description: 'Miroir en lecture des archives',
+    });
+  }
+
+  // In-browser stand-in, always available for demos and tests
+  profiles.push({
+    id: 'mock',
+    label: 'Démonstration',
+    apiBaseUrl: MOCK_API_BASE_URL,
+    description: 'Backend simulé dans le navigateur, données d\'exemple',
+  });
+
+  return profiles;
+};
+
+class RuntimeConfig {
+  private profiles: EnvironmentProfile[] = getEnvProfiles();
+  private activeProfileId: string;
+  private listeners = new Set<ProfileListener>();
+
+  constructor() {
+    const stored = this.readStoredProfileId();
+    const fallback = import.meta.env?.REACT_APP_DEFAULT_PROFILE || 'local';
+    this.activeProfileId = stored && this.findProfile(stored) ? stored : fallback;
+  }
+
+  /**
+   * Load `config.json` and merge its profiles over the environment ones
+   */
+  async load(): Promise<void> {
+    try {
+      const response = await fetch(`${import.meta.env?.BASE_URL || '/'}${CONFIG_FILE}`, { cache: 'no-store' });
+      if (!response.ok) return;
+
+      const config: RuntimeConfigFile = await response.json();
+      (config.profiles || []).forEach(profile => {
+        if (!profile.id || !profile.apiBaseUrl) return;
+        const index = this.profiles.findIndex(p => p.id === profile.id);
+        if (index >= 0) {
+          this.profiles[index] = { ...this.profiles[index], ...profile };
+        } else {
+          this.profiles.push(profile);
+        }
+      });
+
+      const stored = this.readStoredProfileId();
+      if (stored && this.findProfile(stored)) {
+        this.activeProfileId = stored;
+      } else if (config.defaultProfile && this.findProfile(config.defaultProfile)) {
+        this.activeProfileId = config.defaultProfile;
+      }
+      this.notify();
+    } catch (error) {
+      console.warn('[RuntimeConfig] config.json unavailable, using environment profiles', error);
+    }
+  }
+
+  /**
+   * Get all known profiles
+   */
+  getProfiles(): EnvironmentProfile[] {
+    return [...this.profiles];
+  }
+
+  /**
+   * Find a profile by id
+   */
+  findProfile(id: string): EnvironmentProfile | undefined {
+    return this.profiles.find(profile => profile.id === id);
+  }
+
+  /**
+   * Get the profile currently applied to the API client
+   */
+  getActiveProfile(): EnvironmentProfile {
+    return this.findProfile(this.activeProfileId) || this.profiles[0];
+  }
+
+  /**
+   * Commit a profile switch and persist it
+   */
+  setActiveProfile(id: string) {
+    if (!this.findProfile(id)) {
+      throw new Error(`Unknown environment profile: ${id}`);
+    }
+    this.activeProfileId = id;
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch (error) {
+      console.warn('[RuntimeConfig] Unable to persist profile', error);
+    }
+    this.notify();
+  }
+
+  /**
+   * Subscribe to active profile changes
+   */
+  subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const profile = this.getActiveProfile();
+    this.listeners.forEach(listener => listener(profile));
+  }
+
+  private readStoredProfileId(): string | null {
+    try {
+      return localStorage.getItem(STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Create a singleton instance
+export const runtimeConfig = new RuntimeConfig();
+
+export default runtimeConfig;
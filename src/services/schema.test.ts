@@ -0,0 +1,71 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { array, literal, number, object, optional, string, validate } from './schema';
+import { instrumentsApi, famillesApi, localitesApi, relationsApi, searchApi } from './api';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { schemaMonitor } from './schemaMonitor';
+
+describe('schema', () => {
+  const item = object({
+    id: number(),
+    name: string(),
+    kind: optional(literal('a', 'b')),
+    tags: array(string()),
+  });
+
+  test('accepts matching values and unknown properties', () => {
+    expect(validate(item, { id: 1, name: 'x', tags: [], extra: true })).toEqual([]);
+  });
+
+  test('reports every mismatch with its path', () => {
+    const issues = validate(array(item), [{ id: '1', name: 'x', kind: 'c', tags: ['ok', 2] }]);
+    expect(issues.map(issue => issue.path)).toEqual(['[0].id', '[0].kind', '[0].tags[1]']);
+    expect(issues[0]).toMatchObject({ expected: 'number', received: 'string "1"' });
+  });
+});
+
+describe('schema monitor', () => {
+  beforeEach(() => {
+    runtimeConfig.setActiveProfile('mock');
+    mockBackend.reset();
+    schemaMonitor.clear();
+  });
+
+  test('finds no mismatch in the mock backend answers', async () => {
+    await instrumentsApi.getAll({ famille: 'Cordophones' });
+    await famillesApi.getAll();
+    await localitesApi.getStatistics?.();
+    await Promise.all([
+      relationsApi.getAll(),
+      relationsApi.getForEntity('100', 'Instrument'),
+      relationsApi.getByType('utilisePar'),
+      relationsApi.getTypes(),
+    ]);
+    await searchApi.global('kora');
+    await searchApi.geographic({ lat: 14.7, lng: -17.4, radius: 500 });
+    await searchApi.culturalPatterns();
+    await searchApi.centrality();
+    expect(schemaMonitor.getReports()).toEqual([]);
+  });
+
+  test('reports a route answering an unexpected shape', () => {
+    schemaMonitor.check('get', '/familles/3', { success: true, data: { id: 3 } });
+    const [report] = schemaMonitor.getReports();
+    expect(report.key).toBe('GET /familles/:id');
+    expect(report.issues[0].path).toBe('data.nomFamille');
+  });
+
+  test('refuses a list answer whose envelope does not match', async () => {
+    vi.spyOn(mockBackend, 'adapter').mockImplementationOnce(async config => ({
+      data: { success: true, data: [{ id: 1, nomFamille: 'Cordophones' }] },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    }));
+    const response = await famillesApi.getAll();
+    expect(response.success).toBe(false);
+    expect(response.apiError?.kind).toBe('schema');
+    expect(schemaMonitor.getReports()[0].issues[0].path).toBe('data');
+  });
+});
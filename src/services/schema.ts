@@ -0,0 +1,133 @@
+/**
+ * Schema Builder
+ *
+ * Minimal declarative schemas for backend payloads. A schema checks a value
+ * at runtime and carries the matching TypeScript type, obtained with
+ * `Infer<typeof schema>`, so declared types and runtime checks share one source.
+ *
+ * Checks are lenient on purpose: unknown properties are accepted and issues
+ * are collected rather than thrown, since the goal is to report drift.
+ */
+
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  /** Type carrier, never set at runtime */
+  readonly __type?: T;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { isOptional: true } ? K : never }[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type ObjectType<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+/**
+ * Short description of a received value for issue reports
+ */
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return value.length > 30 ? `string "${value.slice(0, 30)}…"` : `string "${value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value} ${value}`;
+  return typeof value;
+};
+
+const at = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const primitive = <T>(expected: string, test: (value: unknown) => boolean): Schema<T> => ({
+  expected,
+  check(value, path, issues) {
+    if (!test(value)) {
+      issues.push({ path: path || '(racine)', expected, received: describe(value) });
+    }
+  },
+});
+
+export const string = () => primitive<string>('string', value => typeof value === 'string');
+
+export const number = () => primitive<number>('number', value => typeof value === 'number' && !isNaN(value));
+
+export const boolean = () => primitive<boolean>('boolean', value => typeof value === 'boolean');
+
+export const unknown = () => primitive<any>('any', () => true);
+
+export const literal = <T extends string | number | boolean>(...values: T[]) =>
+  primitive<T>(values.map(value => JSON.stringify(value)).join(' | '), value => values.includes(value as T));
+
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  expected: `${schema.expected}?`,
+  isOptional: true,
+  check(value, path, issues) {
+    if (value !== undefined && value !== null) {
+      schema.check(value, path, issues);
+    }
+  },
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  expected: `${item.expected}[]`,
+  check(value, path, issues) {
+    if (!Array.isArray(value)) {
+      issues.push({ path: path || '(racine)', expected: `${item.expected}[]`, received: describe(value) });
+      return;
+    }
+    value.forEach((element, index) => item.check(element, at(path, index), issues));
+  },
+});
+
+export const record = <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+  expected: `Record<string, ${item.expected}>`,
+  check(value, path, issues) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path: path || '(racine)', expected: 'object', received: describe(value) });
+      return;
+    }
+    Object.entries(value).forEach(([key, element]) => item.check(element, at(path, key), issues));
+  },
+});
+
+export const object = <S extends Shape>(shape: S): Schema<ObjectType<S>> => ({
+  expected: 'object',
+  check(value, path, issues) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path: path || '(racine)', expected: 'object', received: describe(value) });
+      return;
+    }
+    Object.entries(shape).forEach(([key, schema]) => {
+      schema.check((value as Record<string, unknown>)[key], at(path, key), issues);
+    });
+  },
+});
+
+/**
+ * Object whose other properties are free-form (typed as `any`)
+ */
+export const looseObject = <S extends Shape>(shape: S): Schema<ObjectType<S> & { [key: string]: any }> =>
+  object(shape) as Schema<ObjectType<S> & { [key: string]: any }>;
+
+/**
+ * Run a schema over a value and return every issue found
+ */
+export const validate = <T>(schema: Schema<T>, value: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, '', issues);
+  return issues;
+};
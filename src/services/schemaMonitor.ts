@@ -0,0 +1,100 @@
+/**
+ * Schema Monitor Service
+ *
+ * Checks backend responses against the declared schemas and keeps the
+ * mismatches, grouped by route, for the developer panel.
+ */
+
+import { responseSchemaFor } from './apiSchemas';
+import { SchemaIssue, validate } from './schema';
+
+const MAX_ISSUES_PER_REPORT = 10;
+
+// Properties of the envelope the services and pages read without checking
+const ENVELOPE_PATHS = new Set(['(racine)', 'success', 'data', 'data.data', 'data.total']);
+
+/**
+ * Whether the issues concern the envelope itself rather than the records it carries
+ */
+export const breaksEnvelope = (issues: SchemaIssue[]): boolean =>
+  issues.some(issue => ENVELOPE_PATHS.has(issue.path));
+
+export interface SchemaReport {
+  key: string;
+  method: string;
+  url: string;
+  issues: SchemaIssue[];
+  totalIssues: number;
+  occurrences: number;
+  lastSeenAt: number;
+}
+
+class SchemaMonitor {
+  private reports = new Map<string, SchemaReport>();
+  private listeners = new Set<() => void>();
+
+  /**
+   * Check a successful response; only the routes with a schema are checked
+   */
+  check(method: string | undefined, url: string | undefined, data: unknown): SchemaIssue[] {
+    // Failed answers carry an error payload instead of the declared one
+    if ((data as any)?.success === false) return [];
+    const schema = responseSchemaFor(method, url);
+    if (!schema) return [];
+
+    const issues = validate(schema, data);
+    if (issues.length > 0) {
+      this.record((method || 'get').toUpperCase(), url || '', issues);
+    }
+    return issues;
+  }
+
+  getReports(): SchemaReport[] {
+    return Array.from(this.reports.values()).sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+
+  clear() {
+    this.reports.clear();
+    this.notify();
+  }
+
+  /**
+   * Listen to new reports
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private record(method: string, url: string, issues: SchemaIssue[]) {
+    // Group ids in the path so one route gives one report
+    const route = url.split('?')[0].replace(/\/\d+(?=\/|$)/g, '/:id');
+    const key = `${method} ${route}`;
+    const existing = this.reports.get(key);
+
+    if (!existing) {
+      console.warn(`[SchemaMonitor] ${key} does not match its schema:`, issues.slice(0, 3));
+    }
+    this.reports.set(key, {
+      key,
+      method,
+      url,
+      issues: issues.slice(0, MAX_ISSUES_PER_REPORT),
+      totalIssues: issues.length,
+      occurrences: (existing?.occurrences || 0) + 1,
+      lastSeenAt: Date.now(),
+    });
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Create a singleton instance
+export const schemaMonitor = new SchemaMonitor();
+
+export default schemaMonitor;
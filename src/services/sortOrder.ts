@@ -0,0 +1,35 @@
+/**
+ * Sort Order
+ *
+ * Order of two values, shared by the sort of the mock backend and the
+ * client-side sorts, so that they agree.
+ */
+
+import type { SortKey } from './api';
+
+/**
+ * Sort order of two values: numbers by value, text alphabetically, missing
+ * values last
+ */
+export const compareValues = (a: unknown, b: unknown): number => {
+  const missing = (value: unknown) => value === undefined || value === null || value === '';
+  if (missing(a) || missing(b)) return Number(missing(a)) - Number(missing(b));
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), 'fr', { sensitivity: 'base' });
+};
+
+/**
+ * Sort entities on the client, for backends ignoring the `sort` parameter;
+ * give it every matching entity, not a single page
+ */
+export const sortEntities = <T extends Record<string, any>>(
+  entities: T[],
+  sort: SortKey[],
+  valueOf: (entity: T, key: string) => unknown
+): T[] => [...entities].sort((a, b) => {
+  for (const { key, direction } of sort) {
+    const order = compareValues(valueOf(a, key), valueOf(b, key));
+    if (order !== 0) return direction === 'desc' ? -order : order;
+  }
+  return 0;
+});
@@ -0,0 +1,43 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { famillesApi } from './api';
+import { authService } from './auth';
+import { mockBackend } from './mockBackend';
+import { runtimeConfig } from './runtimeConfig';
+import { diffFields, mergeFields } from './versioning';
+
+beforeEach(async () => {
+  runtimeConfig.setActiveProfile('mock');
+  mockBackend.reset();
+  await authService.login('contributeur', 'contributeur');
+});
+
+describe('versioning', () => {
+  test('merges the fields changed on one side only', () => {
+    const merges = diffFields({
+      original: { nom: 'Kora', description: 'Harpe', annee: 1700, region: '' },
+      theirs: { nom: 'Kora', description: 'Harpe-luth', annee: 1700, region: 'Mandingue' },
+      mine: { nom: 'Kora', description: 'Harpe mandingue', annee: '1650', region: 'Mandingue' },
+    }, ['nom', 'description', 'annee', 'region']);
+
+    expect(merges.map(merge => merge.status)).toEqual(['unchanged', 'conflict', 'mine', 'both']);
+    merges[1].choice = 'theirs';
+    expect(mergeFields(merges)).toEqual({ nom: 'Kora', description: 'Harpe-luth', annee: '1650', region: 'Mandingue' });
+  });
+
+  test('refuses an update based on a stale version', async () => {
+    const page = await famillesApi.getAll({ search: 'Cordophones' });
+    const original = page.data.data[0];
+    expect(original.version).toBe(1);
+
+    const first = await famillesApi.update(original.id, { descriptionFamille: 'Cordes pincées' }, original);
+    expect(first.data?.version).toBe(2);
+
+    const second = await famillesApi.update(original.id, { descriptionFamille: 'Cordes frottées' }, original);
+    expect(second.success).toBe(false);
+    expect(second.conflict?.theirs).toMatchObject({ descriptionFamille: 'Cordes pincées', version: 2 });
+    expect(second.conflict?.mine).toEqual({ descriptionFamille: 'Cordes frottées' });
+
+    const resolved = await famillesApi.update(original.id, { descriptionFamille: 'Cordes frottées' }, second.conflict!.theirs);
+    expect(resolved.data?.version).toBe(3);
+  });
+});
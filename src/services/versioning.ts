@@ -0,0 +1,82 @@
+/**
+ * Entity Versioning
+ *
+ * Optimistic concurrency helpers. Entities carry a `version` number; an
+ * update sends the version it was based on in an `If-Match` header and the
+ * backend answers 409 with the current record when it changed meanwhile.
+ * The three versions are then merged field by field.
+ */
+
+/**
+ * The three states of a record whose update was refused
+ */
+export interface VersionConflict<T = any> {
+  /** Record as read when the edit started */
+  original: Partial<T>;
+  /** Record as currently stored by the backend */
+  theirs: T;
+  /** Values submitted by the user */
+  mine: Partial<T>;
+}
+
+export type FieldMergeStatus = 'unchanged' | 'theirs' | 'mine' | 'both' | 'conflict';
+
+export type MergeChoice = 'theirs' | 'mine';
+
+export interface FieldMerge {
+  field: string;
+  original: unknown;
+  theirs: unknown;
+  mine: unknown;
+  status: FieldMergeStatus;
+  /** Side kept unless the user picks the other one */
+  choice: MergeChoice;
+}
+
+/**
+ * If-Match header for an update based on a version, if known
+ */
+export const ifMatch = (version?: number | null): Record<string, string> | undefined =>
+  version === undefined || version === null ? undefined : { 'If-Match': `"${version}"` };
+
+/**
+ * Version carried by an ETag or If-Match value (`"3"`, `W/"3"` or `3`)
+ */
+export const parseVersionTag = (value: unknown): number | undefined => {
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(String(value ?? '').trim());
+  return match ? Number(match[1]) : undefined;
+};
+
+// Forms hold empty strings where records hold nothing, and numbers as text
+const normalize = (value: unknown) => (value === '' || value === null || value === undefined ? undefined : String(value));
+
+const same = (a: unknown, b: unknown) => normalize(a) === normalize(b);
+
+/**
+ * Compare the three states of each field; a side changed alone wins,
+ * diverging changes are conflicts and default to the user's value
+ */
+export const diffFields = (conflict: VersionConflict<Record<string, unknown>>, fields: string[]): FieldMerge[] =>
+  fields.map((field) => {
+    const original = conflict.original[field];
+    const theirs = conflict.theirs[field];
+    const mine = conflict.mine[field];
+    const theirsChanged = !same(original, theirs);
+    const mineChanged = !same(original, mine);
+
+    let status: FieldMergeStatus;
+    if (same(theirs, mine)) {
+      status = theirsChanged ? 'both' : 'unchanged';
+    } else if (theirsChanged && mineChanged) {
+      status = 'conflict';
+    } else {
+      status = theirsChanged ? 'theirs' : 'mine';
+    }
+    return { field, original, theirs, mine, status, choice: status === 'theirs' ? 'theirs' : 'mine' };
+  });
+
+/**
+ * Values to resubmit once every field has been resolved
+ */
+export const mergeFields = (merges: FieldMerge[]): Record<string, unknown> =>
+  Object.fromEntries(merges.map(merge => [merge.field, merge.choice === 'theirs' ? merge.theirs : merge.mine]));
@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly REACT_APP_API_URL?: string;
+  readonly REACT_APP_STAGING_API_URL?: string;
+  readonly REACT_APP_ARCHIVE_API_URL?: string;
+  readonly REACT_APP_DEFAULT_PROFILE?: string;
+  readonly REACT_APP_MOCK_DEBUG?: string;
+}
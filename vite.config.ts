@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -5,6 +6,9 @@ import path from 'path'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+
+  // Expose the REACT_APP_* variables documented in the README alongside VITE_*
+  envPrefix: ['VITE_', 'REACT_APP_'],
   
   // Resolve aliases for cleaner imports
   resolve: {
@@ -72,4 +76,12 @@ export default defineConfig({
   css: {
     devSourcemap: true,
   },
+
+  // Vitest configuration
+  test: {
+    globals: true,
+    environment: 'jsdom',
+    setupFiles: './src/setupTests.ts',
+    css: false,
+  },
 })
\ No newline at end of file